@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Room } from "@colyseus/sdk";
-import { initDiscordSdk, getAvatarUrl, getAccessToken, getChannelId, DiscordUser } from "./discordSdk";
-import { joinOrCreateGame } from "./colyseus";
-import { useGameState, PlayerState, PlayerStoreData, BoardSpaceState } from "./hooks/useGameState";
+import { initDiscordSdk, getAvatarUrl, getAccessToken, getSessionToken, getChannelId, getGuildId, DiscordUser } from "./discordSdk";
+import { joinOrCreateGame, reconnectToGame, saveReconnectionToken, clearReconnectionToken, KICKED_CLOSE_CODE } from "./colyseus";
+import { useGameState, PlayerState, PlayerStoreData, BoardSpaceState, BoardLayoutState, GameSettingsState, TradeLegState } from "./hooks/useGameState";
 import { usePieceAnimation } from "./hooks/usePieceAnimation";
 import { Lobby } from "./components/Lobby";
 import { Board } from "./components/Board";
@@ -13,6 +13,7 @@ import { GameOver } from "./components/GameOver";
 import { TurnSplash } from "./components/TurnSplash";
 import { GameEvent } from "./components/GameEvent";
 import { TradeModal } from "./components/TradeModal";
+import { LoanModal, LoanTerms } from "./components/LoanModal";
 import { CardModal } from "./components/CardModal";
 import { PropertyInfoModal } from "./components/PropertyInfoModal";
 import { AuctionModal } from "./components/AuctionModal";
@@ -20,7 +21,11 @@ import { BankruptcyModal } from "./components/BankruptcyModal";
 import { GameLog } from "./components/GameLog";
 import { AchievementToast } from "./components/AchievementToast";
 import { TurnTimer } from "./components/TurnTimer";
-import { DISTRICT_PROPERTIES, HOUSE_COST, HOTEL_COST } from "./data/boardSpaces";
+import { CityEventsBanner } from "./components/CityEventsBanner";
+import { VotePanel, VoteMenu } from "./components/VotePanel";
+import { getHouseCost, getHotelCost } from "./data/boardSpaces";
+import { EVENT_PRESENTATION, EventToastType, EventPresentation } from "./data/gameEvents";
+import { playEventSound } from "./utils/sounds";
 import "./styles/game.css";
 import "./styles/auction.css";
 import "./styles/gameover.css";
@@ -32,8 +37,8 @@ import "./styles/turntimer.css";
 import "./styles/bankruptcy.css";
 
 /** Check if player can build anything (used for auto-end decision) */
-function canPlayerBuild(boardSpaces: BoardSpaceState[], sessionId: string, coins: number): boolean {
-  for (const [district, indices] of Object.entries(DISTRICT_PROPERTIES)) {
+function canPlayerBuild(board: BoardLayoutState, boardSpaces: BoardSpaceState[], sessionId: string, coins: number): boolean {
+  for (const [district, { properties: indices }] of Object.entries(board.districts)) {
     const ownsAll = indices.every((idx) => boardSpaces[idx]?.ownerId === sessionId);
     if (!ownsAll) continue;
 
@@ -41,8 +46,8 @@ function canPlayerBuild(boardSpaces: BoardSpaceState[], sessionId: string, coins
     const anyMortgaged = indices.some((idx) => boardSpaces[idx]?.isMortgaged);
     if (anyMortgaged) continue;
 
-    const houseCost = HOUSE_COST[district] || 100;
-    const hotelCost = HOTEL_COST[district] || 100;
+    const houseCost = getHouseCost(board, district);
+    const hotelCost = getHotelCost(board, district);
     // Can build a house?
     if (coins >= houseCost) {
       for (const idx of indices) {
@@ -66,24 +71,6 @@ function canPlayerBuild(boardSpaces: BoardSpaceState[], sessionId: string, coins
 
 type AppPhase = "loading" | "connected" | "error";
 
-// Detect event type from lastAction message
-function detectEventType(msg: string): "buy" | "rent" | "tax" | "payday" | "bankrupt" | "build" | "trade" | "card" | "info" {
-  if (msg.includes("drew \"")) return "card";
-  if (msg.includes("completed a trade")) return "trade";
-  if (msg.includes("built a house") || msg.includes("built a HOTEL")) return "build";
-  if (msg.includes("sold a house") || msg.includes("sold the hotel")) return "build";
-  if (msg.includes("bought") || msg.includes("purchased")) return "buy";
-  if (msg.includes("won") && msg.includes("for") && msg.includes("coins")) return "buy"; // Auction win
-  if (msg.includes("mortgaged") || msg.includes("unmortgaged")) return "buy";
-  if (msg.includes("bid") && msg.includes("coins")) return "info"; // Auction bid
-  if (msg.includes("auction") || msg.includes("Auction")) return "info"; // Auction events
-  if (msg.includes("rent") || msg.includes("paid")) return "rent";
-  if (msg.includes("tax") || msg.includes("Tax")) return "tax";
-  if (msg.includes("Payday") || msg.includes("payday") || msg.includes("collected")) return "payday";
-  if (msg.includes("bankrupt") || msg.includes("Bankrupt")) return "bankrupt";
-  return "info";
-}
-
 export const App: React.FC = () => {
   const [appPhase, setAppPhase] = useState<AppPhase>("loading");
   const [room, setRoom] = useState<Room | null>(null);
@@ -91,6 +78,8 @@ export const App: React.FC = () => {
   const [discordUserId, setDiscordUserId] = useState("");
   const [loadingMessage, setLoadingMessage] = useState("Connecting...");
   const [connectionError, setConnectionError] = useState("");
+  // Connection dropped mid-game; the SDK is retrying with the reconnection token
+  const [reconnecting, setReconnecting] = useState(false);
 
   // Dice rolling state (blocks piece movement until dice finish)
   const [diceRolling, setDiceRolling] = useState(false);
@@ -99,18 +88,18 @@ export const App: React.FC = () => {
   const [showTurnSplash, setShowTurnSplash] = useState(false);
   const [turnSplashKey, setTurnSplashKey] = useState(0);
   const [eventMessage, setEventMessage] = useState("");
-  const [eventType, setEventType] = useState<"info" | "buy" | "rent" | "tax" | "payday" | "bankrupt" | "build" | "trade" | "card">("info");
+  const [eventType, setEventType] = useState<EventToastType>("info");
   const [eventKey, setEventKey] = useState(0);
 
   const prevTurnRef = useRef<number>(-1);
-  const prevActionRef = useRef<string>("");
   const autoEndTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const pendingEventRef = useRef<{ message: string; type: string } | null>(null);
+  const pendingEventRef = useRef<{ message: string; presentation: EventPresentation } | null>(null);
   const prevAnimatingRef = useRef(false);
 
   const {
     gameState, error, sendMessage, playerStoreData, setPlayerStoreData,
     achievementNotifications, goalNotifications, dismissAchievement, dismissGoal,
+    latestEvents,
   } = useGameState(room);
 
   // Board ref for piece animation position calculations
@@ -120,6 +109,7 @@ export const App: React.FC = () => {
   const pieceAnim = usePieceAnimation(
     gameState?.players ?? new Map(),
     boardRef,
+    gameState?.boardSpaces.length || 1,
     diceRolling
   );
 
@@ -141,13 +131,17 @@ export const App: React.FC = () => {
         const userId = user?.id || "";
         setDiscordUserId(userId);
 
-        const joinedRoom = await joinOrCreateGame({
-          discordUserId: userId,
-          displayName,
-          avatarUrl,
-          accessToken: getAccessToken() || undefined,
-          channelId: getChannelId() || undefined,
-        });
+        // Reclaim a seat held from before a reload, otherwise join fresh
+        const joinedRoom =
+          (await reconnectToGame()) ||
+          (await joinOrCreateGame({
+            sessionToken: getSessionToken() || undefined,
+            displayName,
+            avatarUrl,
+            accessToken: getAccessToken() || undefined,
+            channelId: getChannelId() || undefined,
+            guildId: getGuildId() || undefined,
+          }));
 
         if (!mounted) return;
 
@@ -155,10 +149,32 @@ export const App: React.FC = () => {
         setMySessionId(joinedRoom.sessionId);
         setAppPhase("connected");
 
-        joinedRoom.onLeave(() => {
+        joinedRoom.onDrop(() => {
+          if (mounted) setReconnecting(true);
+        });
+
+        joinedRoom.onReconnect(() => {
+          saveReconnectionToken(joinedRoom);
+          if (!mounted) return;
+          // The server resends the full state; drop any UI left over from before the drop
+          setReconnecting(false);
+          setDiceRolling(false);
+          setTradeTargetSessionId(null);
+          setShowTradeInbox(false);
+          setLoanTargetSessionId(null);
+          setShowLoans(false);
+          setEventMessage("");
+          if (autoEndTimerRef.current) clearTimeout(autoEndTimerRef.current);
+        });
+
+        joinedRoom.onLeave((code, reason) => {
+          clearReconnectionToken();
           if (mounted) {
+            setReconnecting(false);
             setAppPhase("error");
-            setConnectionError("Disconnected from the game.");
+            setConnectionError(
+              code === KICKED_CLOSE_CODE && reason ? reason : "Disconnected from the game."
+            );
           }
         });
       } catch (err) {
@@ -202,38 +218,36 @@ export const App: React.FC = () => {
     prevTurnRef.current = turnIndex;
   }, [gameState?.currentPlayerIndex, gameState?.phase]);
 
-  // Detect action changes → show event animation (deferred if piece is animating)
+  const showEventToast = useCallback((message: string, presentation: EventPresentation) => {
+    setEventType(presentation.toast);
+    setEventMessage(message);
+    setEventKey((k) => k + 1);
+    if (presentation.sound) playEventSound(presentation.sound);
+  }, []);
+
+  // Game events from the server → show the latest notable one (deferred if piece is animating)
   // Uses isAnimatingRef (synchronous) instead of isAnimating (state) because
-  // both lastAction and position change in the same render, and the animation
+  // the events and the position change arrive together, and the animation
   // hook's setAnimState hasn't committed yet when this effect runs.
   useEffect(() => {
-    if (!gameState || !gameState.lastAction) return;
-    if (gameState.lastAction !== prevActionRef.current && gameState.lastAction !== "") {
-      const action = gameState.lastAction;
-      // Don't show event for turn start / generic messages
-      if (!action.includes("joined") && !action.includes("started") && !action.includes("'s turn")) {
-        const type = detectEventType(action);
-        if (pieceAnim.isAnimatingRef.current) {
-          // Queue event until piece lands
-          pendingEventRef.current = { message: action, type };
-        } else {
-          setEventType(type as typeof eventType);
-          setEventMessage(action);
-          setEventKey((k) => k + 1);
-        }
-      }
-      prevActionRef.current = action;
+    const notable = latestEvents.filter((e) => EVENT_PRESENTATION[e.event.type]);
+    const latest = notable[notable.length - 1];
+    if (!latest) return;
+    const presentation = EVENT_PRESENTATION[latest.event.type];
+    if (pieceAnim.isAnimatingRef.current) {
+      // Queue event until piece lands
+      pendingEventRef.current = { message: latest.message, presentation };
+    } else {
+      showEventToast(latest.message, presentation);
     }
-  }, [gameState?.lastAction]);
+  }, [latestEvents]);
 
   // Flush pending event when piece animation ends
   useEffect(() => {
     if (prevAnimatingRef.current && !pieceAnim.isAnimating) {
       const pending = pendingEventRef.current;
       if (pending) {
-        setEventType(pending.type as typeof eventType);
-        setEventMessage(pending.message);
-        setEventKey((k) => k + 1);
+        showEventToast(pending.message, pending.presentation);
         pendingEventRef.current = null;
       }
     }
@@ -246,12 +260,11 @@ export const App: React.FC = () => {
     if (!gameState || gameState.phase !== "playing") return;
 
     // Don't auto-end while dice are rolling, piece animation is running, a card is displayed,
-    // an auction is active, a trade is pending, or bankruptcy negotiation is active
+    // an auction is active, or bankruptcy negotiation is active
     if (diceRolling) return;
     if (pieceAnim.isAnimating) return;
     if (gameState.drawnCard.deck !== "") return;
     if (gameState.activeAuction.status === "active") return;
-    if (gameState.activeTrade.status === "pending") return;
     if (gameState.bankruptcyNegotiation.status === "active") return;
 
     const activePlayers = Array.from(gameState.players.values())
@@ -265,7 +278,7 @@ export const App: React.FC = () => {
     if (isMyTurn && gameState.hasRolled && !gameState.awaitingBuy) {
       const myPlayer = gameState.players.get(mySessionId);
       const hasBuildOptions = myPlayer && !myPlayer.inJail
-        ? canPlayerBuild(gameState.boardSpaces, mySessionId, myPlayer.coins)
+        ? canPlayerBuild(gameState.board, gameState.boardSpaces, mySessionId, myPlayer.coins)
         : false;
 
       if (!hasBuildOptions) {
@@ -279,7 +292,7 @@ export const App: React.FC = () => {
     return () => {
       if (autoEndTimerRef.current) clearTimeout(autoEndTimerRef.current);
     };
-  }, [gameState?.hasRolled, gameState?.awaitingBuy, gameState?.currentPlayerIndex, gameState?.boardSpaces, gameState?.drawnCard.deck, gameState?.activeAuction.status, gameState?.activeTrade.status, gameState?.bankruptcyNegotiation.status, mySessionId, sendMessage, pieceAnim.isAnimating, diceRolling]);
+  }, [gameState?.hasRolled, gameState?.awaitingBuy, gameState?.currentPlayerIndex, gameState?.boardSpaces, gameState?.drawnCard.deck, gameState?.activeAuction.status, gameState?.bankruptcyNegotiation.status, mySessionId, sendMessage, pieceAnim.isAnimating, diceRolling]);
 
   // Safety: reset diceRolling when hasRolled becomes false (turn change / unmount)
   useEffect(() => {
@@ -297,6 +310,36 @@ export const App: React.FC = () => {
     }
   }, [sendMessage, playerStoreData, setPlayerStoreData]);
 
+  // House rules (host only, lobby only)
+  const handleUpdateSettings = useCallback((update: Partial<GameSettingsState>) => {
+    sendMessage("update_settings", update);
+  }, [sendMessage]);
+
+  const handleAddBot = useCallback((difficulty: string) => {
+    sendMessage("add_bot", { difficulty });
+  }, [sendMessage]);
+
+  const handleRemoveBot = useCallback((sessionId: string) => {
+    sendMessage("remove_bot", { sessionId });
+  }, [sendMessage]);
+
+  // Host moderation handlers
+  const handleKickPlayer = useCallback((sessionId: string) => {
+    sendMessage("kick_player", { sessionId });
+  }, [sendMessage]);
+
+  const handleBanPlayer = useCallback((sessionId: string) => {
+    sendMessage("ban_player", { sessionId });
+  }, [sendMessage]);
+
+  const handleTransferHost = useCallback((sessionId: string) => {
+    sendMessage("transfer_host", { sessionId });
+  }, [sendMessage]);
+
+  const handleSetLobbyLocked = useCallback((locked: boolean) => {
+    sendMessage("set_lobby_locked", { locked });
+  }, [sendMessage]);
+
   const handleStoreUpdate = useCallback((data: PlayerStoreData) => {
     setPlayerStoreData(data);
   }, [setPlayerStoreData]);
@@ -327,51 +370,121 @@ export const App: React.FC = () => {
   const handleUseJailCard = useCallback(() => {
     sendMessage("use_jail_card");
   }, [sendMessage]);
+  const handlePlayCard = useCallback((cardId: string) => {
+    sendMessage("play_card", { cardId });
+  }, [sendMessage]);
 
   // Property info modal state
   const [selectedPropertyIndex, setSelectedPropertyIndex] = useState<number | null>(null);
 
   // Trade state
   const [tradeTargetSessionId, setTradeTargetSessionId] = useState<string | null>(null);
+  const [showTradeInbox, setShowTradeInbox] = useState(false);
+  const [tradeFocusId, setTradeFocusId] = useState<string | null>(null);
+  const seenTradeIdsRef = useRef<Set<string>>(new Set());
 
   const handleTradeWith = useCallback((targetSessionId: string) => {
     setTradeTargetSessionId(targetSessionId);
   }, []);
 
-  const handleProposeTrade = useCallback((data: {
-    toSessionId: string;
-    offeredProperties: number[];
-    requestedProperties: number[];
-    offeredCoins: number;
-    requestedCoins: number;
-  }) => {
+  const handleOpenTrades = useCallback(() => {
+    setTradeFocusId(null);
+    setShowTradeInbox(true);
+  }, []);
+
+  const handleProposeTrade = useCallback((data: { participants: string[]; legs: TradeLegState[] }) => {
     sendMessage("propose_trade", data);
-    setTradeTargetSessionId(null); // Close propose modal; waiting mode will open via state
+    // The modal stays open on the inbox, where the new offer shows up
+    setTradeTargetSessionId(null);
+    setShowTradeInbox(true);
   }, [sendMessage]);
 
-  const handleAcceptTrade = useCallback(() => {
-    sendMessage("accept_trade");
+  const handleAcceptTrade = useCallback((tradeId: string) => {
+    sendMessage("accept_trade", { tradeId });
   }, [sendMessage]);
 
-  const handleRejectTrade = useCallback(() => {
-    sendMessage("reject_trade");
+  const handleRejectTrade = useCallback((tradeId: string) => {
+    sendMessage("reject_trade", { tradeId });
   }, [sendMessage]);
 
-  const handleCancelTrade = useCallback(() => {
-    sendMessage("cancel_trade");
+  const handleCancelTrade = useCallback((tradeId: string) => {
+    sendMessage("cancel_trade", { tradeId });
   }, [sendMessage]);
 
-  const handleCounterOffer = useCallback((data: {
-    offeredProperties: number[];
-    requestedProperties: number[];
-    offeredCoins: number;
-    requestedCoins: number;
-  }) => {
+  const handleCounterOffer = useCallback((data: { tradeId: string; legs: TradeLegState[] }) => {
     sendMessage("counter_offer", data);
   }, [sendMessage]);
 
   const handleCloseTradeModal = useCallback(() => {
     setTradeTargetSessionId(null);
+    setShowTradeInbox(false);
+    setTradeFocusId(null);
+  }, []);
+
+  const showTradeModal = tradeTargetSessionId !== null || showTradeInbox;
+
+  // Pop up new offers that are waiting on us, unless a trade window is already open
+  useEffect(() => {
+    if (!gameState) return;
+    const seen = seenTradeIdsRef.current;
+    const fresh = gameState.trades.find(
+      (t) =>
+        !seen.has(t.id) &&
+        t.participants.includes(mySessionId) &&
+        !t.acceptedBy.includes(mySessionId)
+    );
+    gameState.trades.forEach((t) => seen.add(t.id));
+    if (fresh && !showTradeModal) {
+      setTradeFocusId(fresh.id);
+      setShowTradeInbox(true);
+    }
+  }, [gameState?.trades, mySessionId, showTradeModal]);
+
+  // Loan state
+  const [loanTargetSessionId, setLoanTargetSessionId] = useState<string | null>(null);
+  const [showLoans, setShowLoans] = useState(false);
+
+  const handleLoanWith = useCallback((targetSessionId: string) => {
+    setLoanTargetSessionId(targetSessionId);
+  }, []);
+
+  const handleOpenLoans = useCallback(() => {
+    setShowLoans(true);
+  }, []);
+
+  const handleProposeLoan = useCallback((data: { toSessionId: string; role: "lend" | "borrow" } & LoanTerms) => {
+    sendMessage("propose_loan", data);
+    setLoanTargetSessionId(null);
+    setShowLoans(true);
+  }, [sendMessage]);
+
+  const handleAcceptLoan = useCallback((offerId: string) => {
+    sendMessage("accept_loan", { offerId });
+  }, [sendMessage]);
+
+  const handleRejectLoan = useCallback((offerId: string) => {
+    sendMessage("reject_loan", { offerId });
+  }, [sendMessage]);
+
+  const handleCancelLoan = useCallback((offerId: string) => {
+    sendMessage("cancel_loan", { offerId });
+  }, [sendMessage]);
+
+  const handleCounterLoan = useCallback((data: { offerId: string } & LoanTerms) => {
+    sendMessage("counter_loan", data);
+  }, [sendMessage]);
+
+  const handleTakeBankLoan = useCallback((amount: number) => {
+    sendMessage("take_bank_loan", { amount });
+  }, [sendMessage]);
+
+  const handleRepayLoan = useCallback((loanId: string, amount?: number) => {
+    sendMessage("repay_loan", { loanId, amount });
+  }, [sendMessage]);
+
+  const handleCloseLoanModal = useCallback(() => {
+    setLoanTargetSessionId(null);
+    setShowLoans(false);
   }, []);
 
   // Card dismiss handler
@@ -428,6 +541,23 @@ export const App: React.FC = () => {
     sendMessage("request_time_extension");
   }, [sendMessage]);
 
+  // Host pause and player vote handlers
+  const handlePauseGame = useCallback(() => {
+    sendMessage("pause_game");
+  }, [sendMessage]);
+
+  const handleResumeGame = useCallback(() => {
+    sendMessage("resume_game");
+  }, [sendMessage]);
+
+  const handleStartVote = useCallback((kind: string, targetSessionId?: string) => {
+    sendMessage("start_vote", { kind, targetSessionId });
+  }, [sendMessage]);
+
+  const handleCastVote = useCallback((inFavor: boolean) => {
+    sendMessage("cast_vote", { inFavor });
+  }, [sendMessage]);
+
   // Quit game state
   const [showQuitConfirm, setShowQuitConfirm] = useState(false);
 
@@ -441,19 +571,11 @@ export const App: React.FC = () => {
   const handleReturnToLobby = useCallback(() => {
     sendMessage("return_to_lobby");
     prevTurnRef.current = -1;
-    prevActionRef.current = "";
     setShowTurnSplash(false);
     setEventMessage("");
     if (autoEndTimerRef.current) clearTimeout(autoEndTimerRef.current);
   }, [sendMessage]);
 
-  // Determine if trade modal should be visible
-  const showTradeModal =
-    tradeTargetSessionId !== null ||
-    (gameState?.activeTrade.status === "pending" &&
-      (gameState.activeTrade.toSessionId === mySessionId ||
-        gameState.activeTrade.fromSessionId === mySessionId));
-
   // Loading screen
   if (appPhase === "loading") {
     return (
@@ -507,8 +629,16 @@ export const App: React.FC = () => {
         mySessionId={mySessionId}
         onStartGame={handleStartGame}
         onSelectPiece={handleSelectPiece}
+        onUpdateSettings={handleUpdateSettings}
+        onAddBot={handleAddBot}
+        onRemoveBot={handleRemoveBot}
+        onKickPlayer={handleKickPlayer}
+        onBanPlayer={handleBanPlayer}
+        onTransferHost={handleTransferHost}
+        onSetLobbyLocked={handleSetLobbyLocked}
         playerStoreData={playerStoreData}
         discordUserId={discordUserId}
+        guildId={getGuildId() || ""}
         onStoreUpdate={handleStoreUpdate}
       />
     );
@@ -560,6 +690,20 @@ export const App: React.FC = () => {
       {/* Error toast */}
       {error && <div className="error-toast">{error}</div>}
 
+      {/* Reconnecting banner */}
+      {reconnecting && (
+        <div className="reconnect-banner">Connection lost. Reconnecting...</div>
+      )}
+
+      {/* Pause banner and open vote */}
+      <VotePanel
+        gameState={gameState}
+        mySessionId={mySessionId}
+        isSpectator={isSpectator}
+        onResume={handleResumeGame}
+        onCastVote={handleCastVote}
+      />
+
       {/* Main game area */}
       <div className="game-main">
         {/* Dice display */}
@@ -571,11 +715,17 @@ export const App: React.FC = () => {
           onRollComplete={() => setDiceRolling(false)}
         />
 
+        {/* City-wide events in effect */}
+        <CityEventsBanner cityModifiers={gameState.cityModifiers} />
+
         {/* Board */}
         <Board
+          board={gameState.board}
           boardSpaces={gameState.boardSpaces}
           players={playersArray}
           lastAction={gameState.lastAction}
+          jackpot={gameState.settings.freeParkingJackpot ? gameState.freeParkingPot : undefined}
+          rentImmunities={gameState.rentImmunities}
           boardRef={boardRef}
           hideTokenForSession={pieceAnim.animatingSessionId}
           isAnimating={pieceAnim.isAnimating}
@@ -615,6 +765,13 @@ export const App: React.FC = () => {
               onEndTurn={handleEndTurn}
               onPayJailFine={handlePayJailFine}
               onUseJailCard={handleUseJailCard}
+              onPlayCard={handlePlayCard}
+            />
+            <VoteMenu
+              gameState={gameState}
+              mySessionId={mySessionId}
+              onPause={handlePauseGame}
+              onStartVote={handleStartVote}
             />
             <button
               className="controls-btn controls-btn-quit"
@@ -632,6 +789,12 @@ export const App: React.FC = () => {
           gameState={gameState}
           mySessionId={mySessionId}
           onTradeWith={handleTradeWith}
+          onOpenTrades={handleOpenTrades}
+          onLoanWith={handleLoanWith}
+          onOpenLoans={handleOpenLoans}
+          onKickPlayer={handleKickPlayer}
+          onBanPlayer={handleBanPlayer}
+          onTransferHost={handleTransferHost}
           isSpectator={isSpectator}
         />
       </div>
@@ -642,6 +805,7 @@ export const App: React.FC = () => {
           gameState={gameState}
           mySessionId={mySessionId}
           tradeTargetSessionId={tradeTargetSessionId}
+          initialTradeId={tradeFocusId}
           onProposeTrade={handleProposeTrade}
           onAcceptTrade={handleAcceptTrade}
           onRejectTrade={handleRejectTrade}
@@ -651,6 +815,24 @@ export const App: React.FC = () => {
         />
       )}
 
+      {/* Loan modal */}
+      {(loanTargetSessionId !== null || showLoans) && (
+        <LoanModal
+          key={loanTargetSessionId ?? "overview"}
+          gameState={gameState}
+          mySessionId={mySessionId}
+          loanTargetSessionId={loanTargetSessionId}
+          onProposeLoan={handleProposeLoan}
+          onAcceptLoan={handleAcceptLoan}
+          onRejectLoan={handleRejectLoan}
+          onCancelLoan={handleCancelLoan}
+          onCounterLoan={handleCounterLoan}
+          onTakeBankLoan={handleTakeBankLoan}
+          onRepayLoan={handleRepayLoan}
+          onClose={handleCloseLoanModal}
+        />
+      )}
+
       {/* Card modal */}
       {gameState.drawnCard.deck !== "" && (
         <CardModal
@@ -662,7 +844,7 @@ export const App: React.FC = () => {
       )}
 
       {/* Auction modal */}
-      {gameState.activeAuction.status === "active" && (
+      {gameState.activeAuction.status !== "none" && (
         <AuctionModal
           gameState={gameState}
           mySessionId={mySessionId}
@@ -680,6 +862,7 @@ export const App: React.FC = () => {
           onSellBuilding={handleBankruptcySellBuilding}
           onMortgage={handleBankruptcyMortgage}
           onPayDebt={handleBankruptcyPayDebt}
+          onTakeBankLoan={handleTakeBankLoan}
           onDeclareBankruptcy={handleBankruptcyDeclare}
           isSpectator={isSpectator}
         />
@@ -689,6 +872,7 @@ export const App: React.FC = () => {
       {selectedPropertyIndex !== null && (
         <PropertyInfoModal
           spaceIndex={selectedPropertyIndex}
+          board={gameState.board}
           boardSpaces={gameState.boardSpaces}
           players={gameState.players}
           onClose={() => setSelectedPropertyIndex(null)}
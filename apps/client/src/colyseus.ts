@@ -6,13 +6,20 @@ const isDev = import.meta.env.DEV;
 const client = new Client(isDev ? "/colyseus" : "/");
 
 export interface JoinOptions {
-  discordUserId: string;
+  sessionToken?: string;
   displayName: string;
   avatarUrl: string;
   accessToken?: string;
   channelId?: string;
+  guildId?: string;
 }
 
+// Close code the server uses when the host removes someone; the reason says why (kick or ban)
+export const KICKED_CLOSE_CODE = 4100;
+
+// Survives an Activity reload so a dropped player can reclaim their seat
+const RECONNECTION_TOKEN_KEY = "discopoly:reconnectionToken";
+
 /**
  * Join or create a game room.
  */
@@ -20,6 +27,7 @@ export async function joinOrCreateGame(options: JoinOptions): Promise<Room> {
   try {
     const room = await client.joinOrCreate("game", options);
     console.log("Joined room:", room.roomId);
+    saveReconnectionToken(room);
     return room;
   } catch (error) {
     console.error("Failed to join room:", error);
@@ -27,6 +35,40 @@ export async function joinOrCreateGame(options: JoinOptions): Promise<Room> {
   }
 }
 
+/**
+ * Rejoin the room this browser was last seated in, using its stored reconnection token.
+ * Resolves to null when there is no token or the seat is no longer held.
+ */
+export async function reconnectToGame(): Promise<Room | null> {
+  const token = sessionStorage.getItem(RECONNECTION_TOKEN_KEY);
+  if (!token) return null;
+
+  try {
+    const room = await client.reconnect(token);
+    console.log("Reconnected to room:", room.roomId);
+    saveReconnectionToken(room);
+    return room;
+  } catch (error) {
+    console.warn("Stored reconnection token was rejected:", error);
+    clearReconnectionToken();
+    return null;
+  }
+}
+
+/**
+ * Remember the room's current reconnection token (it changes after every reconnect).
+ */
+export function saveReconnectionToken(room: Room): void {
+  sessionStorage.setItem(RECONNECTION_TOKEN_KEY, room.reconnectionToken);
+}
+
+/**
+ * Forget the stored reconnection token, e.g. after leaving the room for good.
+ */
+export function clearReconnectionToken(): void {
+  sessionStorage.removeItem(RECONNECTION_TOKEN_KEY);
+}
+
 /**
  * Get the Colyseus client instance.
  */
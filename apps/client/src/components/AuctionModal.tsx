@@ -1,6 +1,6 @@
-import React, { useState } from "react";
-import { GameStateSnapshot, PlayerState } from "../hooks/useGameState";
-import { DISTRICT_COLORS } from "../data/boardSpaces";
+import React, { useState, useEffect } from "react";
+import { GameStateSnapshot, PlayerState, BoardSpaceState } from "../hooks/useGameState";
+import { SPACE_TYPE_LABELS, getDistrictColor } from "../data/boardSpaces";
 import "../styles/auction.css";
 
 interface AuctionModalProps {
@@ -19,16 +19,42 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
   isSpectator,
 }) => {
   const auction = gameState.activeAuction;
-  const [bidAmount, setBidAmount] = useState<number>(auction.currentBid + 1);
+  const increment = gameState.settings.auctionMinIncrement;
+  const [bidAmount, setBidAmount] = useState<number>(auction.currentBid + increment);
+  const [timeLeftMs, setTimeLeftMs] = useState(0);
 
-  if (auction.status !== "active") {
+  // Count down to the deadline, which the server pushes back on every bid
+  useEffect(() => {
+    if (auction.status !== "active") return;
+
+    const updateTimer = () => setTimeLeftMs(Math.max(0, auction.deadline - Date.now()));
+    updateTimer();
+    const interval = setInterval(updateTimer, 100);
+    return () => clearInterval(interval);
+  }, [auction.deadline, auction.status]);
+
+  if (auction.status === "none") {
     return null;
   }
 
   const property = gameState.boardSpaces[auction.propertyIndex];
   if (!property) return null;
 
-  const districtColor = property.district ? DISTRICT_COLORS[property.district] : "#555";
+  const districtColor = (property.district && getDistrictColor(gameState.board, property.district)) || "#555";
+
+  if (auction.status === "revealed") {
+    return (
+      <SealedBidReveal
+        gameState={gameState}
+        mySessionId={mySessionId}
+        property={property}
+        districtColor={districtColor}
+      />
+    );
+  }
+
+  const sealed = auction.mode !== "open";
+  const hasSealedBid = auction.sealedBidders.includes(mySessionId);
   const myPlayer = gameState.players.get(mySessionId);
   const highestBidder = auction.highestBidderId
     ? gameState.players.get(auction.highestBidderId)
@@ -43,8 +69,10 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
   const hasPassed = auction.passedPlayers.includes(mySessionId);
   // Check if current player is the highest bidder
   const isHighestBidder = auction.highestBidderId === mySessionId;
-  // Minimum bid is current bid + 1, or 1 if no bids yet
-  const minBid = auction.currentBid > 0 ? auction.currentBid + 1 : 1;
+  // Minimum bid is current bid + the minimum raise, or 1 if no bids yet
+  const minBid = auction.currentBid > 0 ? auction.currentBid + increment : 1;
+  // Quick raises start at the minimum raise
+  const quickBids = Array.from(new Set([increment, 50, 100])).sort((a, b) => a - b);
   // Check if player can afford to bid
   const canAffordBid = myPlayer ? myPlayer.coins >= minBid : false;
 
@@ -63,11 +91,20 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
   const handleSubmitBid = () => {
     if (bidAmount >= minBid && myPlayer && bidAmount <= myPlayer.coins) {
       onPlaceBid(bidAmount);
-      setBidAmount(bidAmount + 1); // Increment for next potential bid
+      setBidAmount(bidAmount + increment); // Increment for next potential bid
+    }
+  };
+
+  const handleSubmitSealedBid = () => {
+    if (bidAmount >= 1 && myPlayer && bidAmount <= myPlayer.coins) {
+      onPlaceBid(bidAmount);
     }
   };
 
   const getPlayerStatus = (player: PlayerState): string => {
+    if (auction.sealedBidders.includes(player.sessionId)) {
+      return "submitted";
+    }
     if (player.sessionId === auction.highestBidderId) {
       return "leading";
     }
@@ -82,30 +119,55 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
       <div className="auction-modal">
         {/* Header */}
         <div className="auction-header" style={{ background: districtColor }}>
-          AUCTION
+          {sealed ? "SEALED-BID AUCTION" : "AUCTION"}
         </div>
 
         {/* Property info */}
         <div className="auction-property">
           <h3 className="auction-property-name">{property.name}</h3>
           <div className="auction-property-details">
-            <span className="auction-property-district">{property.district}</span>
+            <span className="auction-property-district">{property.district || SPACE_TYPE_LABELS[property.spaceType]}</span>
             <span className="auction-property-price">List Price: {property.price}</span>
           </div>
         </div>
 
         {/* Current bid */}
-        <div className="auction-bid-display">
-          <div className="auction-bid-label">Current Bid</div>
-          <div className="auction-bid-amount">
-            {auction.currentBid > 0 ? `${auction.currentBid} coins` : "No bids yet"}
-          </div>
-          {highestBidder && (
+        {sealed ? (
+          <div className="auction-bid-display">
+            <div className="auction-bid-label">Sealed Bids</div>
+            <div className="auction-bid-amount">
+              {auction.sealedBidders.length} of {activePlayers.length} in
+            </div>
             <div className="auction-bid-leader">
-              by {highestBidder.displayName}
-              {isHighestBidder && " (You!)"}
+              {auction.mode === "vickrey"
+                ? "Highest bid wins and pays the second-highest bid"
+                : "Highest bid wins and pays what it bid"}
             </div>
-          )}
+          </div>
+        ) : (
+          <div className="auction-bid-display">
+            <div className="auction-bid-label">Current Bid</div>
+            <div className="auction-bid-amount">
+              {auction.currentBid > 0 ? `${auction.currentBid} coins` : "No bids yet"}
+            </div>
+            {highestBidder && (
+              <div className="auction-bid-leader">
+                by {highestBidder.displayName}
+                {isHighestBidder && " (You!)"}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Auction clock */}
+        <div className="auction-clock">
+          <div className="auction-clock-bar">
+            <div
+              className={`auction-clock-fill ${timeLeftMs <= 3000 ? "urgent" : ""}`}
+              style={{ width: `${Math.min(100, (timeLeftMs / (gameState.settings.auctionSeconds * 1000)) * 100)}%` }}
+            />
+          </div>
+          <span className="auction-clock-label">{Math.ceil(timeLeftMs / 1000)}s</span>
         </div>
 
         {/* Player list */}
@@ -127,7 +189,8 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
                   <span className={`auction-player-status ${status}`}>
                     {status === "leading" && "Leading"}
                     {status === "passed" && "Passed"}
-                    {status === "bidding" && "Bidding"}
+                    {status === "bidding" && (sealed ? "Deciding" : "Bidding")}
+                    {status === "submitted" && "Bid in"}
                   </span>
                 </div>
               );
@@ -135,8 +198,51 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
           </div>
         </div>
 
+        {/* Sealed bid controls: one hidden bid, no minimum raise */}
+        {sealed && myPlayer && !hasPassed && !isSpectator && (
+          <div className="auction-controls">
+            <div className="auction-your-coins">
+              Your coins: <strong>{myPlayer.coins}</strong>
+            </div>
+            {hasSealedBid ? (
+              <div className="auction-leading-message">
+                Your bid is sealed. Bids are revealed once everyone is in or the clock runs out.
+              </div>
+            ) : (
+              <>
+                <div className="auction-bid-input-row">
+                  <input
+                    type="number"
+                    className="auction-bid-input"
+                    value={bidAmount}
+                    onChange={handleBidChange}
+                    min={1}
+                    max={myPlayer.coins}
+                  />
+                  <span className="auction-bid-min">One bid only</span>
+                </div>
+                <div className="auction-action-buttons">
+                  <button
+                    className="auction-btn auction-btn-bid"
+                    onClick={handleSubmitSealedBid}
+                    disabled={bidAmount < 1 || bidAmount > myPlayer.coins}
+                  >
+                    Submit Sealed Bid
+                  </button>
+                  <button
+                    className="auction-btn auction-btn-pass"
+                    onClick={onPass}
+                  >
+                    Pass
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Bidding controls */}
-        {myPlayer && !hasPassed && !isSpectator && (
+        {!sealed && myPlayer && !hasPassed && !isSpectator && (
           <div className="auction-controls">
             <div className="auction-your-coins">
               Your coins: <strong>{myPlayer.coins}</strong>
@@ -157,34 +263,16 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
                 </div>
 
                 <div className="auction-quick-bids">
-                  <button
-                    className="auction-quick-btn"
-                    onClick={() => handleQuickBid(1)}
-                    disabled={!canAffordBid}
-                  >
-                    +1
-                  </button>
-                  <button
-                    className="auction-quick-btn"
-                    onClick={() => handleQuickBid(10)}
-                    disabled={myPlayer.coins < auction.currentBid + 10}
-                  >
-                    +10
-                  </button>
-                  <button
-                    className="auction-quick-btn"
-                    onClick={() => handleQuickBid(50)}
-                    disabled={myPlayer.coins < auction.currentBid + 50}
-                  >
-                    +50
-                  </button>
-                  <button
-                    className="auction-quick-btn"
-                    onClick={() => handleQuickBid(100)}
-                    disabled={myPlayer.coins < auction.currentBid + 100}
-                  >
-                    +100
-                  </button>
+                  {quickBids.map((raise) => (
+                    <button
+                      key={raise}
+                      className="auction-quick-btn"
+                      onClick={() => handleQuickBid(raise)}
+                      disabled={myPlayer.coins < Math.max(minBid, auction.currentBid + raise)}
+                    >
+                      +{raise}
+                    </button>
+                  ))}
                 </div>
 
                 <div className="auction-action-buttons">
@@ -207,7 +295,7 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
 
             {isHighestBidder && (
               <div className="auction-leading-message">
-                You are the highest bidder! Wait for others to bid or pass.
+                You are the highest bidder! It's yours if nobody outbids you before the clock runs out.
               </div>
             )}
           </div>
@@ -221,7 +309,7 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
         )}
 
         {/* Can't afford message */}
-        {myPlayer && !canAffordBid && !hasPassed && !isHighestBidder && !isSpectator && (
+        {!sealed && myPlayer && !canAffordBid && !hasPassed && !isHighestBidder && !isSpectator && (
           <div className="auction-cant-afford">
             You don't have enough coins to place a bid.
             <button
@@ -236,3 +324,64 @@ export const AuctionModal: React.FC<AuctionModalProps> = ({
     </div>
   );
 };
+
+// ==================== Sealed Bid Reveal ====================
+
+/** All sealed bids, flipped over one after another, with the winner and the price paid */
+const SealedBidReveal: React.FC<{
+  gameState: GameStateSnapshot;
+  mySessionId: string;
+  property: BoardSpaceState;
+  districtColor: string;
+}> = ({ gameState, mySessionId, property, districtColor }) => {
+  const auction = gameState.activeAuction;
+  const winner = auction.highestBidderId ? gameState.players.get(auction.highestBidderId) : null;
+
+  return (
+    <div className="auction-overlay">
+      <div className="auction-modal">
+        <div className="auction-header" style={{ background: districtColor }}>
+          BIDS REVEALED
+        </div>
+
+        <div className="auction-property">
+          <h3 className="auction-property-name">{property.name}</h3>
+        </div>
+
+        <div className="auction-reveal-list">
+          {auction.revealedBids.length === 0 && (
+            <div className="auction-reveal-empty">Nobody bid.</div>
+          )}
+          {auction.revealedBids.map((bid, i) => {
+            const player = gameState.players.get(bid.sessionId);
+            const isWinner = bid.sessionId === auction.highestBidderId;
+            return (
+              <div
+                key={bid.sessionId}
+                className={`auction-reveal-bid ${isWinner ? "winner" : ""}`}
+                style={{ animationDelay: `${i * 0.4}s` }}
+              >
+                <span className="auction-player-name">
+                  {player?.displayName ?? "Someone"}
+                  {bid.sessionId === mySessionId && " (You)"}
+                </span>
+                <span className="auction-reveal-amount">{bid.amount}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div
+          className="auction-reveal-result"
+          style={{ animationDelay: `${auction.revealedBids.length * 0.4}s` }}
+        >
+          {winner
+            ? `${winner.displayName} wins for ${auction.currentBid} coins${
+                auction.mode === "vickrey" ? " (the second-highest bid)" : ""
+              }`
+            : `${property.name} stays with the bank`}
+        </div>
+      </div>
+    </div>
+  );
+};
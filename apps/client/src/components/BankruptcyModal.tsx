@@ -1,10 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { GameStateSnapshot, PlayerState, BoardSpaceState } from "../hooks/useGameState";
 import {
-  DISTRICT_COLORS,
-  DISTRICT_PROPERTIES,
-  HOUSE_COST,
-  HOTEL_COST,
+  getDistrictColor,
   getHouseSellValue,
   getHotelSellValue,
   getSellableHouseProperties,
@@ -12,12 +9,15 @@ import {
 } from "../data/boardSpaces";
 import "../styles/bankruptcy.css";
 
+const BANK_LOAN_LIMIT = 500;
+
 interface BankruptcyModalProps {
   gameState: GameStateSnapshot;
   mySessionId: string;
   onSellBuilding: (spaceIndex: number, type: string, convertToHouses?: boolean) => void;
   onMortgage: (spaceIndex: number) => void;
   onPayDebt: () => void;
+  onTakeBankLoan: (amount: number) => void;
   onDeclareBankruptcy: () => void;
   isSpectator?: boolean;
 }
@@ -28,6 +28,7 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
   onSellBuilding,
   onMortgage,
   onPayDebt,
+  onTakeBankLoan,
   onDeclareBankruptcy,
   isSpectator,
 }) => {
@@ -61,6 +62,15 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
 
   const canPayDebt = debtor.coins >= negotiation.amountOwed;
 
+  // The bank will cover the shortfall if the debtor is under its loan limit
+  // (a defaulted bank loan being negotiated here still counts against it)
+  const defaultedBankLoan = negotiation.reason === "loan" && !negotiation.creditorSessionId ? negotiation.amountOwed : 0;
+  const bankOwed = gameState.loans
+    .filter((l) => l.lenderSessionId === "" && l.borrowerSessionId === debtor.sessionId)
+    .reduce((sum, l) => sum + l.balance, defaultedBankLoan);
+  const shortfall = negotiation.amountOwed - debtor.coins;
+  const canBorrowShortfall = !canPayDebt && shortfall <= BANK_LOAN_LIMIT - bankOwed;
+
   // Get mortgageable properties (no buildings, not already mortgaged)
   const mortgageableProps: { space: BoardSpaceState; mortgageValue: number }[] = [];
   for (const propIdx of debtor.ownedProperties) {
@@ -75,8 +85,8 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
   }
 
   // Get sellable houses and hotels
-  const sellableHouses = getSellableHouseProperties(gameState.boardSpaces, negotiation.debtorSessionId);
-  const sellableHotels = getSellableHotelProperties(gameState.boardSpaces, negotiation.debtorSessionId);
+  const sellableHouses = getSellableHouseProperties(gameState.board, gameState.boardSpaces, negotiation.debtorSessionId);
+  const sellableHotels = getSellableHotelProperties(gameState.board, gameState.boardSpaces, negotiation.debtorSessionId);
 
   // Format reason
   const reasonLabel = {
@@ -84,6 +94,7 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
     tax: "Tax",
     card: "Card Effect",
     jail_fine: "Jail Fine",
+    loan: "Loan Repayment",
   }[negotiation.reason] || "Debt";
 
   // Timer color based on urgency
@@ -146,13 +157,13 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
                 <div className="bankruptcy-items">
                   {sellableHotels.map((idx) => {
                     const space = gameState.boardSpaces[idx];
-                    const sellValue = getHotelSellValue(space.district);
+                    const sellValue = getHotelSellValue(gameState.board, space.district);
                     return (
                       <div key={`hotel-${idx}`} className="bankruptcy-item-group">
                         <button
                           className="bankruptcy-item-btn"
                           onClick={() => onSellBuilding(idx, "hotel", false)}
-                          style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                          style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                         >
                           <span className="bankruptcy-item-name">{space.name}</span>
                           <span className="bankruptcy-item-detail">Hotel &rarr; Empty</span>
@@ -161,7 +172,7 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
                         <button
                           className="bankruptcy-item-btn bankruptcy-item-alt"
                           onClick={() => onSellBuilding(idx, "hotel", true)}
-                          style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                          style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                         >
                           <span className="bankruptcy-item-name">{space.name}</span>
                           <span className="bankruptcy-item-detail">Hotel &rarr; 4 Houses</span>
@@ -172,13 +183,13 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
                   })}
                   {sellableHouses.map((idx) => {
                     const space = gameState.boardSpaces[idx];
-                    const sellValue = getHouseSellValue(space.district);
+                    const sellValue = getHouseSellValue(gameState.board, space.district);
                     return (
                       <button
                         key={`house-${idx}`}
                         className="bankruptcy-item-btn"
                         onClick={() => onSellBuilding(idx, "house")}
-                        style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                        style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                       >
                         <span className="bankruptcy-item-name">{space.name}</span>
                         <span className="bankruptcy-item-detail">
@@ -202,7 +213,7 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
                       key={`mortgage-${space.index}`}
                       className="bankruptcy-item-btn bankruptcy-item-mortgage"
                       onClick={() => onMortgage(space.index)}
-                      style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                      style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                     >
                       <span className="bankruptcy-item-name">{space.name}</span>
                       <span className="bankruptcy-item-detail">{space.district}</span>
@@ -222,6 +233,14 @@ export const BankruptcyModal: React.FC<BankruptcyModalProps> = ({
               >
                 {canPayDebt ? `Pay ${negotiation.amountOwed} Coins` : `Need ${negotiation.amountOwed - debtor.coins} More`}
               </button>
+              {canBorrowShortfall && (
+                <button
+                  className="bankruptcy-btn bankruptcy-btn-borrow"
+                  onClick={() => onTakeBankLoan(shortfall)}
+                >
+                  Borrow {shortfall} from the Bank
+                </button>
+              )}
               <button
                 className="bankruptcy-btn bankruptcy-btn-declare"
                 onClick={onDeclareBankruptcy}
@@ -1,14 +1,19 @@
 import React, { useMemo } from "react";
-import { BoardSpaceState, PlayerState } from "../hooks/useGameState";
+import { BoardLayoutState, BoardSpaceState, PlayerState, RentImmunityState } from "../hooks/useGameState";
 import { BoardSpaceComponent } from "./BoardSpace";
 import { AnimatedPiece } from "./AnimatedPiece";
 import { getBoardLayout } from "../data/boardSpaces";
 import "../styles/board.css";
 
 interface BoardProps {
+  board: BoardLayoutState;
   boardSpaces: BoardSpaceState[];
   players: PlayerState[];
   lastAction: string;
+  /** City Parking jackpot (omit when the house rule is off) */
+  jackpot?: number;
+  /** Active rent-immunity deals, badged on their properties */
+  rentImmunities?: RentImmunityState[];
   /** Ref to the .board div for position calculations */
   boardRef?: React.RefObject<HTMLDivElement | null>;
   /** Session ID of the player whose token should be hidden (being animated) */
@@ -28,9 +33,12 @@ interface BoardProps {
 }
 
 export const Board: React.FC<BoardProps> = ({
+  board,
   boardSpaces,
   players,
   lastAction,
+  jackpot,
+  rentImmunities = [],
   boardRef,
   hideTokenForSession,
   isAnimating = false,
@@ -40,7 +48,7 @@ export const Board: React.FC<BoardProps> = ({
   isAnimFinal = false,
   onSpaceClick,
 }) => {
-  const layout = getBoardLayout();
+  const layout = getBoardLayout(board);
 
   // Build a Map<string, PlayerState> from the players array for rent preview
   const playersMap = useMemo(() => {
@@ -53,16 +61,16 @@ export const Board: React.FC<BoardProps> = ({
 
   if (boardSpaces.length === 0) return null;
 
-  // Bottom row: indices 0-6, displayed right to left
+  // Bottom row: displayed right to left
   const bottomSpaces = [...layout.bottom].reverse();
-  // Left column: indices 7-13, displayed bottom to top
+  // Left column: displayed bottom to top
   const leftSpaces = [...layout.left];
-  // Top row: indices 14-20, displayed left to right
+  // Top row: displayed left to right
   const topSpaces = layout.top;
-  // Right column: indices 21-27, displayed top to bottom
+  // Right column: displayed top to bottom
   const rightSpaces = layout.right;
 
-  const corners = [0, 7, 14, 21];
+  const corners = board.corners;
 
   const hideSession = hideTokenForSession || undefined;
 
@@ -83,8 +91,10 @@ export const Board: React.FC<BoardProps> = ({
               key={idx}
               space={boardSpaces[idx]}
               players={players}
+              board={board}
               allBoardSpaces={boardSpaces}
               allPlayers={playersMap}
+              immunities={rentImmunities.filter((im) => im.spaceIndex === idx)}
               isCorner={corners.includes(idx)}
               side="top"
               hideTokenForSession={hideSession}
@@ -102,8 +112,10 @@ export const Board: React.FC<BoardProps> = ({
                 key={idx}
                 space={boardSpaces[idx]}
                 players={players}
-                allBoardSpaces={boardSpaces}
+                board={board}
+              allBoardSpaces={boardSpaces}
                 allPlayers={playersMap}
+                immunities={rentImmunities.filter((im) => im.spaceIndex === idx)}
                 isCorner={corners.includes(idx)}
                 side="left"
                 hideTokenForSession={hideSession}
@@ -116,7 +128,10 @@ export const Board: React.FC<BoardProps> = ({
           <div className="board-center">
             <div className="board-center-content">
               <h2 className="board-center-title">Discopoly</h2>
-              <p className="board-center-subtitle">City Builder</p>
+              <p className="board-center-subtitle">{board.name || "City Builder"}</p>
+              {jackpot !== undefined && (
+                <p className="board-center-jackpot">🅿️ Jackpot: {jackpot}</p>
+              )}
               {lastAction && (
                 <div className="board-center-action">
                   <p>{lastAction}</p>
@@ -132,8 +147,10 @@ export const Board: React.FC<BoardProps> = ({
                 key={idx}
                 space={boardSpaces[idx]}
                 players={players}
-                allBoardSpaces={boardSpaces}
+                board={board}
+              allBoardSpaces={boardSpaces}
                 allPlayers={playersMap}
+                immunities={rentImmunities.filter((im) => im.spaceIndex === idx)}
                 isCorner={corners.includes(idx)}
                 side="right"
                 hideTokenForSession={hideSession}
@@ -150,8 +167,10 @@ export const Board: React.FC<BoardProps> = ({
               key={idx}
               space={boardSpaces[idx]}
               players={players}
+              board={board}
               allBoardSpaces={boardSpaces}
               allPlayers={playersMap}
+              immunities={rentImmunities.filter((im) => im.spaceIndex === idx)}
               isCorner={corners.includes(idx)}
               side="bottom"
               hideTokenForSession={hideSession}
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useCallback } from "react";
 import { createPortal } from "react-dom";
-import { BoardSpaceState, PlayerState } from "../hooks/useGameState";
-import { DISTRICT_COLORS, PLAYER_COLORS } from "../data/boardSpaces";
+import { BoardLayoutState, BoardSpaceState, PlayerState, RentImmunityState } from "../hooks/useGameState";
+import { PLAYER_COLORS, getDistrictColor, isOwnableSpace } from "../data/boardSpaces";
 import { getPieceEmoji } from "../data/pieces";
 import { RentPreview } from "./RentPreview";
 import "../styles/animations.css";
@@ -9,8 +9,10 @@ import "../styles/animations.css";
 interface BoardSpaceProps {
   space: BoardSpaceState;
   players: PlayerState[];
+  board: BoardLayoutState;
   allBoardSpaces: BoardSpaceState[];
   allPlayers: Map<string, PlayerState>;
+  immunities?: RentImmunityState[];
   isCorner?: boolean;
   side: "top" | "bottom" | "left" | "right";
   hideTokenForSession?: string;
@@ -20,16 +22,18 @@ interface BoardSpaceProps {
 export const BoardSpaceComponent: React.FC<BoardSpaceProps> = ({
   space,
   players,
+  board,
   allBoardSpaces,
   allPlayers,
+  immunities = [],
   isCorner = false,
   side,
   hideTokenForSession,
   onClick,
 }) => {
-  const isClickable = space.spaceType === "property" && !!onClick;
-  const isProperty = space.spaceType === "property";
-  const districtColor = space.district ? DISTRICT_COLORS[space.district] : undefined;
+  const isProperty = isOwnableSpace(space.spaceType);
+  const isClickable = isProperty && !!onClick;
+  const districtColor = space.district ? getDistrictColor(board, space.district) : undefined;
   const playersHere = players.filter(
     (p) => p.position === space.index && p.isActive && p.sessionId !== hideTokenForSession
   );
@@ -104,6 +108,12 @@ export const BoardSpaceComponent: React.FC<BoardSpaceProps> = ({
         return "\uD83D\uDCE6";
       case "chance":
         return "\u2753";
+      case "cityEvents":
+        return "\uD83C\uDFD9\uFE0F";
+      case "transit":
+        return "\uD83D\uDE87";
+      case "utility":
+        return "\u26A1";
       default:
         return null;
     }
@@ -111,6 +121,10 @@ export const BoardSpaceComponent: React.FC<BoardSpaceProps> = ({
 
   const icon = getSpaceIcon();
 
+  const immunityTitle = immunities
+    .map((im) => `No rent for ${allPlayers.get(im.beneficiarySessionId)?.displayName ?? "?"} (${im.turnsRemaining} turns left)`)
+    .join("\n");
+
   return (
     <div
       ref={spaceRef}
@@ -134,13 +148,16 @@ export const BoardSpaceComponent: React.FC<BoardSpaceProps> = ({
       <div className="board-space-content">
         {icon && <span className="board-space-icon">{icon}</span>}
         <span className="board-space-name">{space.name}</span>
-        {space.spaceType === "property" && space.price > 0 && (
+        {isProperty && space.price > 0 && (
           <span className="board-space-price">{space.price}</span>
         )}
         {/* Show mortgage badge for mortgaged properties, or owned dot for unmortgaged owned properties */}
         {space.ownerId && space.isMortgaged && (
           <div className="board-space-mortgage-badge">M</div>
         )}
+        {immunities.length > 0 && (
+          <div className="board-space-immunity-badge" title={immunityTitle}>{"\uD83D\uDEE1\uFE0F"}</div>
+        )}
         {space.ownerId && !space.isMortgaged && !space.hasHotel && space.houses === 0 && (
           <div className="board-space-owned-dot" />
         )}
@@ -192,6 +209,7 @@ export const BoardSpaceComponent: React.FC<BoardSpaceProps> = ({
           )}
           <RentPreview
             space={space}
+            board={board}
             boardSpaces={allBoardSpaces}
             players={allPlayers}
             anchorRect={anchorRect}
@@ -14,6 +14,22 @@ const DECK_ICONS: Record<string, string> = {
   chance: "❓",
 };
 
+/** Icon and a short label for the card's effect, shown under the title */
+const EFFECT_PRESENTATION: Record<string, { icon: string; label: string }> = {
+  gain_coins: { icon: "💰", label: "Collect" },
+  lose_coins: { icon: "💸", label: "Pay" },
+  move_to: { icon: "📍", label: "Move" },
+  move_relative: { icon: "👣", label: "Move" },
+  move_to_nearest: { icon: "🧭", label: "Advance to nearest" },
+  collect_from_players: { icon: "🎁", label: "Collect from everyone" },
+  collect_per_property: { icon: "🏘️", label: "Collect per property" },
+  pay_to_players: { icon: "🤝", label: "Pay everyone" },
+  street_repairs: { icon: "🔨", label: "Repairs" },
+  jail_free_card: { icon: "🔑", label: "Keep" },
+  go_to_jail: { icon: "🚔", label: "Go to Jail" },
+  swap_position: { icon: "🔀", label: "Swap places" },
+};
+
 export const CardModal: React.FC<CardModalProps> = ({
   drawnCard,
   gameState,
@@ -26,7 +42,8 @@ export const CardModal: React.FC<CardModalProps> = ({
   const drawnByPlayer = gameState.players.get(drawnCard.forSessionId);
   const drawnByName = drawnByPlayer?.displayName || "A player";
   const deckLabel = drawnCard.deck === "community" ? "Community Chest" : "Chance";
-  const icon = DECK_ICONS[drawnCard.deck] || "🃏";
+  const effect = EFFECT_PRESENTATION[drawnCard.effect];
+  const icon = effect?.icon || DECK_ICONS[drawnCard.deck] || "🃏";
 
   return (
     <div className="card-overlay">
@@ -40,7 +57,15 @@ export const CardModal: React.FC<CardModalProps> = ({
         <div className="card-body">
           <div className="card-icon">{icon}</div>
           <h3 className="card-title">{drawnCard.title}</h3>
+          {effect && (
+            <span className={`card-effect-label card-effect-${drawnCard.effect}`}>{effect.label}</span>
+          )}
           <p className="card-description">{drawnCard.description}</p>
+          {drawnCard.held && (
+            <p className="card-held-note">
+              {isMyCard ? "Kept in your hand — play it on any of your turns." : `Kept in ${drawnByName}'s hand.`}
+            </p>
+          )}
           {!isMyCard && (
             <p className="card-drawn-by">Drawn by {drawnByName}</p>
           )}
@@ -0,0 +1,42 @@
+import React from "react";
+import { CityModifierState } from "../hooks/useGameState";
+import "../styles/cityevents.css";
+
+interface CityEventsBannerProps {
+  cityModifiers: CityModifierState[];
+}
+
+const EVENT_ICONS: Record<string, string> = {
+  recession: "📉",
+  construction_boom: "🏗️",
+  tourism_surge: "📸",
+  transit_strike: "🚫",
+  tax_holiday: "🎉",
+  audit_season: "🧾",
+};
+
+/** The city-wide events in effect, with the rounds each has left */
+export const CityEventsBanner: React.FC<CityEventsBannerProps> = ({ cityModifiers }) => {
+  if (cityModifiers.length === 0) return null;
+
+  return (
+    <div className="city-events-banner">
+      {cityModifiers.map((modifier) => (
+        <div
+          key={modifier.eventId}
+          className={`city-event city-event-${modifier.multiplier < 1 ? "down" : "up"}`}
+          title={modifier.description}
+        >
+          <span className="city-event-icon">{EVENT_ICONS[modifier.eventId] || "🏙️"}</span>
+          <span className="city-event-title">
+            {modifier.title}
+            {modifier.district && ` · ${modifier.district}`}
+          </span>
+          <span className="city-event-rounds">
+            {modifier.roundsRemaining} round{modifier.roundsRemaining === 1 ? "" : "s"} left
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
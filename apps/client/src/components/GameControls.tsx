@@ -1,10 +1,11 @@
 import React, { useState } from "react";
-import { GameStateSnapshot, BoardSpaceState } from "../hooks/useGameState";
+import { GameStateSnapshot, BoardLayoutState, BoardSpaceState, CityModifierState } from "../hooks/useGameState";
 import {
-  DISTRICT_COLORS,
-  DISTRICT_PROPERTIES,
-  HOUSE_COST,
-  HOTEL_COST,
+  getDistrictColor,
+  getDistrictProperties,
+  getHouseCost,
+  getHotelCost,
+  applyCityModifiers,
   getSellableHouseProperties,
   getSellableHotelProperties,
   getHouseSellValue,
@@ -26,21 +27,33 @@ interface GameControlsProps {
   onEndTurn: () => void;
   onPayJailFine: () => void;
   onUseJailCard: () => void;
+  onPlayCard: (cardId: string) => void;
 }
 
 /** Check if a player owns all properties in a district */
-function hasMonopoly(boardSpaces: BoardSpaceState[], sessionId: string, district: string): boolean {
-  const indices = DISTRICT_PROPERTIES[district];
-  if (!indices || indices.length === 0) return false;
+function hasMonopoly(board: BoardLayoutState, boardSpaces: BoardSpaceState[], sessionId: string, district: string): boolean {
+  const indices = getDistrictProperties(board, district);
+  if (indices.length === 0) return false;
   return indices.every((idx) => boardSpaces[idx]?.ownerId === sessionId);
 }
 
+/** What building costs in a district right now, after city events */
+function getBuildCost(
+  board: BoardLayoutState,
+  cityModifiers: CityModifierState[],
+  district: string,
+  type: "house" | "hotel"
+): number {
+  const base = type === "hotel" ? getHotelCost(board, district) : getHouseCost(board, district);
+  return applyCityModifiers(cityModifiers, "build", base, "property", district);
+}
+
 /** Get buildable properties (even building rule) */
-function getBuildableProps(boardSpaces: BoardSpaceState[], sessionId: string, coins: number): number[] {
+function getBuildableProps(board: BoardLayoutState, boardSpaces: BoardSpaceState[], cityModifiers: CityModifierState[], sessionId: string, coins: number): number[] {
   const buildable: number[] = [];
-  for (const [district, indices] of Object.entries(DISTRICT_PROPERTIES)) {
-    if (!hasMonopoly(boardSpaces, sessionId, district)) continue;
-    const cost = HOUSE_COST[district] || 100;
+  for (const [district, { properties: indices }] of Object.entries(board.districts)) {
+    if (!hasMonopoly(board, boardSpaces, sessionId, district)) continue;
+    const cost = getBuildCost(board, cityModifiers, district, "house");
     if (coins < cost) continue;
 
     // Can't build if any property in the district is mortgaged
@@ -66,11 +79,11 @@ function getBuildableProps(boardSpaces: BoardSpaceState[], sessionId: string, co
 }
 
 /** Get hotel-upgradeable properties */
-function getHotelProps(boardSpaces: BoardSpaceState[], sessionId: string, coins: number): number[] {
+function getHotelProps(board: BoardLayoutState, boardSpaces: BoardSpaceState[], cityModifiers: CityModifierState[], sessionId: string, coins: number): number[] {
   const upgradeable: number[] = [];
-  for (const [district, indices] of Object.entries(DISTRICT_PROPERTIES)) {
-    if (!hasMonopoly(boardSpaces, sessionId, district)) continue;
-    const cost = HOTEL_COST[district] || 100;
+  for (const [district, { properties: indices }] of Object.entries(board.districts)) {
+    if (!hasMonopoly(board, boardSpaces, sessionId, district)) continue;
+    const cost = getBuildCost(board, cityModifiers, district, "hotel");
     if (coins < cost) continue;
 
     // Can't build if any property in the district is mortgaged
@@ -106,6 +119,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
   onEndTurn,
   onPayJailFine,
   onUseJailCard,
+  onPlayCard,
 }) => {
   const [showBuild, setShowBuild] = useState(false);
   const [showSell, setShowSell] = useState(false);
@@ -127,16 +141,16 @@ export const GameControls: React.FC<GameControlsProps> = ({
 
   // Building info
   const buildableProps = isMyTurn && gameState.hasRolled
-    ? getBuildableProps(gameState.boardSpaces, mySessionId, myPlayer.coins)
+    ? getBuildableProps(gameState.board, gameState.boardSpaces, gameState.cityModifiers, mySessionId, myPlayer.coins)
     : [];
   const hotelProps = isMyTurn && gameState.hasRolled
-    ? getHotelProps(gameState.boardSpaces, mySessionId, myPlayer.coins)
+    ? getHotelProps(gameState.board, gameState.boardSpaces, gameState.cityModifiers, mySessionId, myPlayer.coins)
     : [];
   const canBuild = buildableProps.length > 0 || hotelProps.length > 0;
 
   // Selling info - can sell anytime during the game (not just on your turn)
-  const sellableHouseProps = getSellableHouseProperties(gameState.boardSpaces, mySessionId);
-  const sellableHotelProps = getSellableHotelProperties(gameState.boardSpaces, mySessionId);
+  const sellableHouseProps = getSellableHouseProperties(gameState.board, gameState.boardSpaces, mySessionId);
+  const sellableHotelProps = getSellableHotelProperties(gameState.board, gameState.boardSpaces, mySessionId);
   const canSell = sellableHouseProps.length > 0 || sellableHotelProps.length > 0;
 
   return (
@@ -155,6 +169,22 @@ export const GameControls: React.FC<GameControlsProps> = ({
       {/* Action buttons */}
       {isMyTurn && (
         <div className="controls-actions">
+          {/* Cards kept from earlier draws, playable any time on your turn */}
+          {myPlayer.heldCards.length > 0 && (
+            <div className="controls-held-cards">
+              {myPlayer.heldCards.map((card) => (
+                <button
+                  key={card.id}
+                  className="controls-btn controls-btn-held-card"
+                  onClick={() => onPlayCard(card.id)}
+                  title={card.description}
+                >
+                  🃏 Play "{card.title}"
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Jail panel: shown when in jail and haven't rolled yet */}
           {myPlayer.inJail && !gameState.hasRolled && (
             <div className="controls-jail-panel">
@@ -162,9 +192,9 @@ export const GameControls: React.FC<GameControlsProps> = ({
               <button
                 className="controls-btn controls-btn-jail-fine"
                 onClick={onPayJailFine}
-                disabled={myPlayer.coins < 50}
+                disabled={myPlayer.coins < gameState.settings.jailFine}
               >
-                💰 Pay $50 Fine
+                💰 Pay ${gameState.settings.jailFine} Fine
               </button>
               {myPlayer.jailFreeCards > 0 && (
                 <button
@@ -255,13 +285,13 @@ export const GameControls: React.FC<GameControlsProps> = ({
               <div className="build-options">
                 {buildableProps.map((idx) => {
                   const space = gameState.boardSpaces[idx];
-                  const cost = HOUSE_COST[space.district] || 100;
+                  const cost = getBuildCost(gameState.board, gameState.cityModifiers, space.district, "house");
                   return (
                     <button
                       key={idx}
                       className="build-option-btn"
                       onClick={() => onBuildHouse(idx)}
-                      style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                      style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                     >
                       <span className="build-option-name">{space.name}</span>
                       <span className="build-option-houses">
@@ -281,13 +311,13 @@ export const GameControls: React.FC<GameControlsProps> = ({
               <div className="build-options">
                 {hotelProps.map((idx) => {
                   const space = gameState.boardSpaces[idx];
-                  const cost = HOTEL_COST[space.district] || 100;
+                  const cost = getBuildCost(gameState.board, gameState.cityModifiers, space.district, "hotel");
                   return (
                     <button
                       key={idx}
                       className="build-option-btn build-option-hotel"
                       onClick={() => onBuildHotel(idx)}
-                      style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                      style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                     >
                       <span className="build-option-name">{space.name}</span>
                       <span className="build-option-houses">🏠🏠🏠🏠 → 🏨</span>
@@ -310,13 +340,13 @@ export const GameControls: React.FC<GameControlsProps> = ({
               <div className="build-options">
                 {sellableHouseProps.map((idx) => {
                   const space = gameState.boardSpaces[idx];
-                  const sellValue = getHouseSellValue(space.district);
+                  const sellValue = getHouseSellValue(gameState.board, space.district);
                   return (
                     <button
                       key={idx}
                       className="build-option-btn sell-option-btn"
                       onClick={() => onSellHouse(idx)}
-                      style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                      style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                     >
                       <span className="build-option-name">{space.name}</span>
                       <span className="build-option-houses">
@@ -335,13 +365,13 @@ export const GameControls: React.FC<GameControlsProps> = ({
               <div className="build-options">
                 {sellableHotelProps.map((idx) => {
                   const space = gameState.boardSpaces[idx];
-                  const sellValue = getHotelSellValue(space.district);
+                  const sellValue = getHotelSellValue(gameState.board, space.district);
                   return (
                     <div key={idx} className="sell-hotel-options">
                       <button
                         className="build-option-btn sell-option-btn"
                         onClick={() => onSellHotel(idx, false)}
-                        style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                        style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                       >
                         <span className="build-option-name">{space.name}</span>
                         <span className="build-option-houses">🏨 → ∅</span>
@@ -350,7 +380,7 @@ export const GameControls: React.FC<GameControlsProps> = ({
                       <button
                         className="build-option-btn sell-option-btn sell-convert-btn"
                         onClick={() => onSellHotel(idx, true)}
-                        style={{ borderLeftColor: DISTRICT_COLORS[space.district] || "#555" }}
+                        style={{ borderLeftColor: getDistrictColor(gameState.board, space.district) || "#555" }}
                       >
                         <span className="build-option-name">{space.name}</span>
                         <span className="build-option-houses">🏨 → 🏠🏠🏠🏠</span>
@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from "react";
+import { EventToastType } from "../data/gameEvents";
 import "../styles/animations.css";
 
 interface GameEventProps {
   message: string;
-  type: "info" | "buy" | "rent" | "tax" | "payday" | "bankrupt" | "build" | "trade" | "card";
+  type: EventToastType;
 }
 
 const EVENT_ICONS: Record<string, string> = {
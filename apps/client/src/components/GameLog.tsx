@@ -9,11 +9,15 @@ const LOG_ICONS: Record<string, string> = {
   tax: "\u26A0\uFE0F",    // warning
   payday: "\u2B50",       // star
   bankrupt: "\u{1F480}",  // skull
+  bankruptcy: "\u2696\uFE0F", // scales
   build: "\u{1F528}",     // hammer
   trade: "\u{1F501}",     // arrows
+  loan: "\u{1F4B0}",      // money bag
   card: "\u{1F0CF}",      // playing card
   jail: "\u{1F512}",      // lock
   auction: "\u{1F4E3}",   // megaphone
+  city: "\u{1F3D9}\uFE0F", // cityscape
+  vote: "\u{1F5F3}\uFE0F", // ballot box
   turn: "\u27A1\uFE0F",   // arrow
   info: "\u{2139}\uFE0F", // info
 };
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState, useEffect } from "react";
 import { GameStateSnapshot } from "../hooks/useGameState";
 import { PLAYER_COLORS } from "../data/boardSpaces";
 
@@ -15,6 +15,24 @@ export const GameOver: React.FC<GameOverProps> = ({ gameState, mySessionId, onRe
 
   const isWinner = gameState.winnerId === mySessionId;
 
+  // Check the revealed seed against the hash published when the game started
+  const [seedVerified, setSeedVerified] = useState<boolean | null>(null);
+  useEffect(() => {
+    if (!gameState.seed || !gameState.seedHash) return;
+    async function verifySeed() {
+      try {
+        const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(gameState.seed));
+        const hex = Array.from(new Uint8Array(digest))
+          .map((b) => b.toString(16).padStart(2, "0"))
+          .join("");
+        setSeedVerified(hex === gameState.seedHash);
+      } catch (err) {
+        console.error("Failed to verify game seed:", err);
+      }
+    }
+    verifySeed();
+  }, [gameState.seed, gameState.seedHash]);
+
   // Sort players by wealth for final standings
   const standings = Array.from(gameState.players.values())
     .map((p) => {
@@ -80,6 +98,19 @@ export const GameOver: React.FC<GameOverProps> = ({ gameState, mySessionId, onRe
 
       <p className="gameover-last-action">{gameState.lastAction}</p>
 
+      {gameState.seed && (
+        <div className="gameover-seed">
+          <span>
+            Game seed: <code>{gameState.seed}</code>
+          </span>
+          {seedVerified !== null && (
+            <span className={seedVerified ? "gameover-seed-ok" : "gameover-seed-bad"}>
+              {seedVerified ? "✓ matches the dice commitment" : "✗ does not match the dice commitment"}
+            </span>
+          )}
+        </div>
+      )}
+
       {gameState.hostSessionId === mySessionId ? (
         <button className="gameover-lobby-btn" onClick={onReturnToLobby}>
           Return to Lobby
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from "react";
+import "../styles/history.css";
+import "../styles/leaderboard.css";
+
+interface LeaderboardEntry {
+  discord_user_id: string;
+  display_name: string;
+  rating: number;
+  games_played: number;
+  games_won: number;
+  rating_change: number | null;
+}
+
+type Period = "all" | "month" | "week";
+
+interface LeaderboardPanelProps {
+  discordUserId: string;
+  guildId: string; // empty outside a Discord server; only the global board is shown
+  onClose: () => void;
+}
+
+const PERIODS: { id: Period; label: string }[] = [
+  { id: "all", label: "All time" },
+  { id: "month", label: "30 days" },
+  { id: "week", label: "7 days" },
+];
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ discordUserId, guildId, onClose }) => {
+  const [serverOnly, setServerOnly] = useState(!!guildId);
+  const [period, setPeriod] = useState<Period>("all");
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchLeaderboard() {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ period });
+        if (serverOnly && guildId) params.set("guildId", guildId);
+        const res = await fetch(`/colyseus/leaderboard?${params}`);
+        if (res.ok) {
+          const data = await res.json();
+          setEntries(data.entries || []);
+        }
+      } catch (err) {
+        console.error("Failed to fetch leaderboard:", err);
+      }
+      setLoading(false);
+    }
+    fetchLeaderboard();
+  }, [serverOnly, guildId, period]);
+
+  return (
+    <div className="hist-overlay" onClick={onClose}>
+      <div className="hist-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="hist-header">
+          <h2 className="hist-title lb-title">Leaderboard</h2>
+          <button className="hist-close" onClick={onClose}>{"\u2715"}</button>
+        </div>
+
+        <div className="lb-tabs">
+          {guildId && (
+            <button className={`lb-tab ${serverOnly ? "lb-tab-active" : ""}`} onClick={() => setServerOnly(true)}>
+              This server
+            </button>
+          )}
+          <button className={`lb-tab ${!serverOnly ? "lb-tab-active" : ""}`} onClick={() => setServerOnly(false)}>
+            Global
+          </button>
+          <span className="lb-spacer" />
+          {PERIODS.map((p) => (
+            <button
+              key={p.id}
+              className={`lb-tab ${period === p.id ? "lb-tab-active" : ""}`}
+              onClick={() => setPeriod(p.id)}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="hist-loading">Loading leaderboard...</div>
+        ) : entries.length === 0 ? (
+          <div className="hist-empty">No rated games yet. Play a game with at least two people to get ranked!</div>
+        ) : (
+          <div className="hist-list">
+            {entries.map((entry, i) => {
+              const change = entry.rating_change !== null ? Math.round(entry.rating_change) : null;
+              return (
+                <div
+                  key={entry.discord_user_id}
+                  className={`hist-standing ${entry.discord_user_id === discordUserId ? "hist-standing-me" : ""}`}
+                >
+                  <span className="hist-placement">{i + 1}</span>
+                  <div className="hist-row-info">
+                    <span className="hist-row-title">{entry.display_name || "Unknown player"}</span>
+                    <span className="hist-row-meta">
+                      {entry.games_won} wins · {entry.games_played} games
+                    </span>
+                  </div>
+                  {change !== null && (
+                    <span className={`lb-change ${change >= 0 ? "lb-change-up" : "lb-change-down"}`}>
+                      {change >= 0 ? "+" : ""}{change}
+                    </span>
+                  )}
+                  <span className="lb-rating">{Math.round(entry.rating)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,394 @@
+import React, { useState } from "react";
+import { GameStateSnapshot, LoanOfferState, LoanState } from "../hooks/useGameState";
+import "../styles/trade.css";
+import "../styles/loans.css";
+
+const MAX_COUNTER_OFFERS = 5;
+const MAX_LOAN_INTEREST_RATE = 50;
+const MAX_LOAN_TERM_TURNS = 20;
+const BANK_LOAN_LIMIT = 500;
+const BANK_LOAN_INTEREST_RATE = 10;
+const BANK_LOAN_TERM_TURNS = 10;
+
+export interface LoanTerms {
+  principal: number;
+  interestRate: number;
+  termTurns: number;
+}
+
+interface LoanModalProps {
+  gameState: GameStateSnapshot;
+  mySessionId: string;
+  /** Set when the local player is drafting a loan with someone */
+  loanTargetSessionId: string | null;
+  onProposeLoan: (data: { toSessionId: string; role: "lend" | "borrow" } & LoanTerms) => void;
+  onAcceptLoan: (offerId: string) => void;
+  onRejectLoan: (offerId: string) => void;
+  onCancelLoan: (offerId: string) => void;
+  onCounterLoan: (data: { offerId: string } & LoanTerms) => void;
+  onTakeBankLoan: (amount: number) => void;
+  onRepayLoan: (loanId: string, amount?: number) => void;
+  onClose: () => void;
+}
+
+/** What the borrower pays back on a player loan */
+function getLoanRepayment(terms: LoanTerms): number {
+  return terms.principal + Math.ceil((terms.principal * terms.interestRate) / 100);
+}
+
+type LoanView =
+  | { kind: "overview" }
+  | { kind: "propose" }
+  | { kind: "counter"; offerId: string };
+
+export const LoanModal: React.FC<LoanModalProps> = ({
+  gameState,
+  mySessionId,
+  loanTargetSessionId,
+  onProposeLoan,
+  onAcceptLoan,
+  onRejectLoan,
+  onCancelLoan,
+  onCounterLoan,
+  onTakeBankLoan,
+  onRepayLoan,
+  onClose,
+}) => {
+  const [view, setView] = useState<LoanView>(() =>
+    loanTargetSessionId ? { kind: "propose" } : { kind: "overview" }
+  );
+  const [role, setRole] = useState<"lend" | "borrow">("lend");
+  const [terms, setTerms] = useState<LoanTerms>({ principal: 100, interestRate: 10, termTurns: 5 });
+  const [bankAmount, setBankAmount] = useState(0);
+
+  const name = (sessionId: string) =>
+    sessionId === mySessionId
+      ? "You"
+      : gameState.players.get(sessionId)?.displayName ?? "Someone";
+
+  const myPlayer = gameState.players.get(mySessionId);
+  if (!myPlayer) return null;
+
+  const myOffers = gameState.loanOffers.filter(
+    (o) => o.lenderSessionId === mySessionId || o.borrowerSessionId === mySessionId
+  );
+  const myLoans = gameState.loans.filter(
+    (l) => l.lenderSessionId === mySessionId || l.borrowerSessionId === mySessionId
+  );
+  // A defaulted bank loan still counts against the limit while its negotiation runs
+  const negotiation = gameState.bankruptcyNegotiation;
+  const defaultedBankLoan =
+    negotiation.status === "active" && negotiation.debtorSessionId === mySessionId &&
+    negotiation.reason === "loan" && !negotiation.creditorSessionId
+      ? negotiation.amountOwed
+      : 0;
+  const bankOwed = myLoans
+    .filter((l) => l.lenderSessionId === "" && l.borrowerSessionId === mySessionId)
+    .reduce((sum, l) => sum + l.balance, defaultedBankLoan);
+  const bankAvailable = Math.max(0, BANK_LOAN_LIMIT - bankOwed);
+
+  // ========== PROPOSE / COUNTER MODE ==========
+  const counterOffer =
+    view.kind === "counter" ? myOffers.find((o) => o.id === view.offerId) : undefined;
+
+  if (view.kind === "propose" && loanTargetSessionId) {
+    const lenderId = role === "lend" ? mySessionId : loanTargetSessionId;
+    const lenderCoins = gameState.players.get(lenderId)?.coins ?? 0;
+
+    return (
+      <div className="trade-overlay" onClick={onClose}>
+        <div className="trade-modal loan-modal" onClick={(e) => e.stopPropagation()}>
+          <div className="trade-header">
+            <h2 className="trade-title">Loan with {name(loanTargetSessionId)}</h2>
+            <button className="trade-close" onClick={onClose}>
+              ✕
+            </button>
+          </div>
+
+          <div className="loan-role-toggle">
+            <button
+              className={`loan-role-btn ${role === "lend" ? "loan-role-active" : ""}`}
+              onClick={() => setRole("lend")}
+            >
+              I lend
+            </button>
+            <button
+              className={`loan-role-btn ${role === "borrow" ? "loan-role-active" : ""}`}
+              onClick={() => setRole("borrow")}
+            >
+              I borrow
+            </button>
+          </div>
+
+          <LoanTermsEditor terms={terms} maxPrincipal={lenderCoins} onChange={setTerms} />
+
+          <div className="trade-actions">
+            <button className="trade-btn trade-btn-cancel" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="trade-btn trade-btn-send"
+              disabled={terms.principal < 1 || terms.principal > lenderCoins}
+              onClick={() => {
+                onProposeLoan({ toSessionId: loanTargetSessionId, role, ...terms });
+                setView({ kind: "overview" });
+              }}
+            >
+              Send Offer
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (counterOffer) {
+    const lenderCoins = gameState.players.get(counterOffer.lenderSessionId)?.coins ?? 0;
+    const otherId =
+      counterOffer.lenderSessionId === mySessionId
+        ? counterOffer.borrowerSessionId
+        : counterOffer.lenderSessionId;
+
+    return (
+      <div className="trade-overlay">
+        <div className="trade-modal loan-modal" onClick={(e) => e.stopPropagation()}>
+          <div className="trade-header">
+            <h2 className="trade-title">Counter-Offer to {name(otherId)}</h2>
+            <span className="trade-counter-badge">
+              {counterOffer.counterOfferCount + 1}/{MAX_COUNTER_OFFERS}
+            </span>
+          </div>
+
+          <LoanTermsEditor terms={terms} maxPrincipal={lenderCoins} onChange={setTerms} />
+
+          <div className="trade-actions">
+            <button
+              className="trade-btn trade-btn-cancel"
+              onClick={() => setView({ kind: "overview" })}
+            >
+              Back
+            </button>
+            <button
+              className="trade-btn trade-btn-counter-send"
+              disabled={terms.principal < 1 || terms.principal > lenderCoins}
+              onClick={() => {
+                onCounterLoan({ offerId: counterOffer.id, ...terms });
+                setView({ kind: "overview" });
+              }}
+            >
+              Send Counter-Offer
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ========== OVERVIEW ==========
+  const renderOffer = (offer: LoanOfferState) => {
+    const isMine = offer.fromSessionId === mySessionId;
+    const iLend = offer.lenderSessionId === mySessionId;
+    const otherId = iLend ? offer.borrowerSessionId : offer.lenderSessionId;
+    const canCounter = offer.counterOfferCount < MAX_COUNTER_OFFERS;
+
+    return (
+      <div key={offer.id} className="loan-row">
+        <div className="loan-row-info">
+          <span className="loan-row-title">
+            {iLend ? `You lend ${name(otherId)}` : `${name(otherId)} lends you`} {offer.principal} coins
+          </span>
+          <span className="loan-row-detail">
+            {getLoanRepayment(offer)} coins back within {offer.termTurns} turns ({offer.interestRate}%)
+            {isMine ? " · waiting for an answer" : ""}
+          </span>
+        </div>
+        <div className="loan-row-actions">
+          {isMine ? (
+            <button className="trade-btn trade-btn-cancel" onClick={() => onCancelLoan(offer.id)}>
+              Cancel
+            </button>
+          ) : (
+            <>
+              <button className="trade-btn trade-btn-decline" onClick={() => onRejectLoan(offer.id)}>
+                Decline
+              </button>
+              {canCounter && (
+                <button
+                  className="trade-btn trade-btn-counter"
+                  onClick={() => {
+                    setTerms({
+                      principal: offer.principal,
+                      interestRate: offer.interestRate,
+                      termTurns: offer.termTurns,
+                    });
+                    setView({ kind: "counter", offerId: offer.id });
+                  }}
+                >
+                  Counter
+                </button>
+              )}
+              <button className="trade-btn trade-btn-accept" onClick={() => onAcceptLoan(offer.id)}>
+                Accept
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderLoan = (loan: LoanState) => {
+    const iOwe = loan.borrowerSessionId === mySessionId;
+    const lender = loan.lenderSessionId ? name(loan.lenderSessionId) : "the Bank";
+
+    return (
+      <div key={loan.id} className="loan-row">
+        <div className="loan-row-info">
+          <span className="loan-row-title">
+            {iOwe
+              ? `You owe ${lender} ${loan.balance} coins`
+              : `${name(loan.borrowerSessionId)} owes you ${loan.balance} coins`}
+          </span>
+          <span className="loan-row-detail">
+            {loan.turnsRemaining > 0 ? `Due in ${loan.turnsRemaining} turns` : "Due now"}
+            {loan.lenderSessionId === "" && ` · ${loan.interestRate}% interest every Payday`}
+          </span>
+        </div>
+        {iOwe && (
+          <div className="loan-row-actions">
+            <button
+              className="trade-btn trade-btn-accept"
+              disabled={myPlayer.coins < 1}
+              onClick={() => onRepayLoan(loan.id, Math.min(loan.balance, myPlayer.coins))}
+            >
+              {myPlayer.coins >= loan.balance ? "Repay" : `Repay ${myPlayer.coins}`}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="trade-overlay" onClick={onClose}>
+      <div className="trade-modal loan-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="trade-header">
+          <h2 className="trade-title">Loans</h2>
+          <button className="trade-close" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        <div className="trade-summary-title">Offers</div>
+        <div className="trade-inbox-section">
+          {myOffers.length > 0 ? (
+            myOffers.map(renderOffer)
+          ) : (
+            <div className="trade-inbox-empty">No loan offers right now.</div>
+          )}
+        </div>
+
+        <div className="trade-summary-title">Outstanding</div>
+        <div className="trade-inbox-section">
+          {myLoans.length > 0 ? (
+            myLoans.map(renderLoan)
+          ) : (
+            <div className="trade-inbox-empty">No outstanding loans.</div>
+          )}
+        </div>
+
+        {!myPlayer.isBankrupt && (
+          <div className="loan-bank">
+            <div className="trade-summary-title">Bank Loan</div>
+            <p className="loan-bank-note">
+              The bank lends up to {BANK_LOAN_LIMIT} coins at {BANK_LOAN_INTEREST_RATE}% every Payday,
+              repaid within {BANK_LOAN_TERM_TURNS} turns.
+            </p>
+            <div className="loan-bank-row">
+              <input
+                type="number"
+                className="trade-coins-input"
+                min={0}
+                max={bankAvailable}
+                value={bankAmount}
+                disabled={bankAvailable === 0}
+                onChange={(e) =>
+                  setBankAmount(Math.max(0, Math.min(bankAvailable, parseInt(e.target.value) || 0)))
+                }
+              />
+              <button
+                className="trade-btn trade-btn-send"
+                disabled={bankAmount < 1}
+                onClick={() => {
+                  onTakeBankLoan(bankAmount);
+                  setBankAmount(0);
+                }}
+              >
+                Borrow
+              </button>
+            </div>
+            <span className="loan-row-detail">
+              {bankAvailable > 0 ? `${bankAvailable} coins available` : "You've reached the bank's limit."}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ==================== Loan Terms Editor ====================
+
+const LoanTermsEditor: React.FC<{
+  terms: LoanTerms;
+  maxPrincipal: number;
+  onChange: (terms: LoanTerms) => void;
+}> = ({ terms, maxPrincipal, onChange }) => {
+  const clamp = (value: string, min: number, max: number) =>
+    Math.max(min, Math.min(max, parseInt(value) || 0));
+
+  return (
+    <div className="loan-terms">
+      <label className="loan-terms-row">
+        <span className="trade-coins-label">Amount</span>
+        <input
+          type="number"
+          className="trade-coins-input"
+          min={1}
+          max={maxPrincipal}
+          value={terms.principal}
+          onChange={(e) => onChange({ ...terms, principal: clamp(e.target.value, 0, maxPrincipal) })}
+        />
+      </label>
+      <label className="loan-terms-row">
+        <span className="trade-coins-label">Interest %</span>
+        <input
+          type="number"
+          className="trade-coins-input"
+          min={0}
+          max={MAX_LOAN_INTEREST_RATE}
+          value={terms.interestRate}
+          onChange={(e) =>
+            onChange({ ...terms, interestRate: clamp(e.target.value, 0, MAX_LOAN_INTEREST_RATE) })
+          }
+        />
+      </label>
+      <label className="loan-terms-row">
+        <span className="trade-coins-label">Due in (turns)</span>
+        <input
+          type="number"
+          className="trade-coins-input"
+          min={1}
+          max={MAX_LOAN_TERM_TURNS}
+          value={terms.termTurns}
+          onChange={(e) =>
+            onChange({ ...terms, termTurns: clamp(e.target.value, 1, MAX_LOAN_TERM_TURNS) })
+          }
+        />
+      </label>
+      <div className="loan-terms-preview">
+        Borrower repays <strong>{getLoanRepayment(terms)} coins</strong> within {terms.termTurns} turns
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,13 @@
-import React, { useState } from "react";
-import { GameStateSnapshot, PlayerStoreData } from "../hooks/useGameState";
+import React, { useState, useEffect } from "react";
+import { GameStateSnapshot, GameSettingsState, PlayerStoreData } from "../hooks/useGameState";
 import { PLAYER_COLORS } from "../data/boardSpaces";
 import { getPieceEmoji, PIECES } from "../data/pieces";
 import { getTitleDisplay } from "../data/cosmetics";
 import { Store } from "./Store";
 import { GoalsPanel } from "./GoalsPanel";
 import { AchievementsPanel } from "./AchievementsPanel";
+import { MatchHistoryPanel } from "./MatchHistoryPanel";
+import { LeaderboardPanel } from "./LeaderboardPanel";
 import "../styles/lobby.css";
 
 interface LobbyProps {
@@ -13,30 +15,111 @@ interface LobbyProps {
   mySessionId: string;
   onStartGame: () => void;
   onSelectPiece: (pieceId: string) => void;
+  onUpdateSettings: (update: Partial<GameSettingsState>) => void;
+  onAddBot: (difficulty: string) => void;
+  onRemoveBot: (sessionId: string) => void;
+  onKickPlayer: (sessionId: string) => void;
+  onBanPlayer: (sessionId: string) => void;
+  onTransferHost: (sessionId: string) => void;
+  onSetLobbyLocked: (locked: boolean) => void;
   playerStoreData: PlayerStoreData | null;
   discordUserId: string;
+  guildId: string;
   onStoreUpdate: (data: PlayerStoreData) => void;
 }
 
+type BooleanSettingKey = "freeParkingJackpot" | "doublePaydayOnLanding" | "noRentInJail" | "auctionOnDecline";
+type NumberSettingKey = Exclude<keyof GameSettingsState, BooleanSettingKey | "boardId" | "auctionMode">;
+
+/** A board map the host can pick, as listed by GET /boards */
+interface BoardOption {
+  id: string;
+  name: string;
+  description: string;
+  totalSpaces: number;
+}
+
+const HOUSE_RULE_TOGGLES: { key: BooleanSettingKey; label: string }[] = [
+  { key: "freeParkingJackpot", label: "City Parking jackpot" },
+  { key: "doublePaydayOnLanding", label: "Double pay for landing on Payday" },
+  { key: "noRentInJail", label: "No rent collected while in Jail" },
+  { key: "auctionOnDecline", label: "Auction declined properties" },
+];
+
+const AUCTION_MODES: { id: string; label: string }[] = [
+  { id: "open", label: "Open bidding" },
+  { id: "first_price", label: "Sealed bids (highest bid pays)" },
+  { id: "vickrey", label: "Sealed bids (pays second-highest)" },
+];
+
+const BOT_DIFFICULTIES: { id: string; label: string }[] = [
+  { id: "easy", label: "Easy" },
+  { id: "normal", label: "Normal" },
+  { id: "hard", label: "Hard" },
+];
+
+const ECONOMY_SETTINGS: { key: NumberSettingKey; label: string }[] = [
+  { key: "startingCoins", label: "Starting coins" },
+  { key: "paydayBonus", label: "Payday bonus" },
+  { key: "jailFine", label: "Jail fine" },
+  { key: "incomeTax", label: "Income tax" },
+  { key: "luxuryTax", label: "Luxury tax" },
+  { key: "superTax", label: "Super tax" },
+  { key: "maxRounds", label: "Max rounds" },
+  { key: "reconnectGraceSeconds", label: "Reconnect grace (sec)" },
+  { key: "auctionSeconds", label: "Auction clock (sec)" },
+  { key: "auctionMinIncrement", label: "Minimum bid raise" },
+];
+
 export const Lobby: React.FC<LobbyProps> = ({
   gameState,
   mySessionId,
   onStartGame,
   onSelectPiece,
+  onUpdateSettings,
+  onAddBot,
+  onRemoveBot,
+  onKickPlayer,
+  onBanPlayer,
+  onTransferHost,
+  onSetLobbyLocked,
   playerStoreData,
   discordUserId,
+  guildId,
   onStoreUpdate,
 }) => {
   const [showStore, setShowStore] = useState(false);
   const [showGoals, setShowGoals] = useState(false);
   const [showAchievements, setShowAchievements] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [boardOptions, setBoardOptions] = useState<BoardOption[]>([]);
+  const [botDifficulty, setBotDifficulty] = useState("normal");
   const isHost = gameState.hostSessionId === mySessionId;
   const players = Array.from(gameState.players.values());
+  const spectators = Array.from(gameState.spectators.values());
   const canStart = players.length >= 2;
 
   const myPlayer = gameState.players.get(mySessionId);
   const ownedPieces = playerStoreData?.ownedPieces || ["car", "tophat", "dog", "rocket", "bolt", "guitar"];
 
+  useEffect(() => {
+    async function fetchBoards() {
+      try {
+        const res = await fetch("/colyseus/boards");
+        if (res.ok) {
+          const data = await res.json();
+          setBoardOptions(data);
+        }
+      } catch (err) {
+        console.error("Failed to fetch boards:", err);
+      }
+    }
+    fetchBoards();
+  }, []);
+
+  const selectedBoard = boardOptions.find((b) => b.id === gameState.settings.boardId);
+
   // Build a map of pieceId → player name for pieces taken by OTHER players
   const takenPieces = new Map<string, string>();
   players.forEach((p) => {
@@ -58,6 +141,17 @@ export const Lobby: React.FC<LobbyProps> = ({
           {players.length < 2 && (
             <span className="lobby-hint"> - Need at least 2 to start</span>
           )}
+          {isHost ? (
+            <button
+              className={`lobby-lock-btn ${gameState.lobbyLocked ? "locked" : ""}`}
+              onClick={() => onSetLobbyLocked(!gameState.lobbyLocked)}
+              title={gameState.lobbyLocked ? "Let new players join" : "Stop anyone new from joining"}
+            >
+              {gameState.lobbyLocked ? "🔒 Locked" : "🔓 Open"}
+            </button>
+          ) : (
+            gameState.lobbyLocked && <span className="lobby-locked-badge">🔒 Locked</span>
+          )}
         </h2>
         <div className="lobby-player-list">
           {players.map((player, idx) => (
@@ -88,7 +182,51 @@ export const Lobby: React.FC<LobbyProps> = ({
                 {player.sessionId === mySessionId && (
                   <span className="lobby-you-badge">YOU</span>
                 )}
+                {player.isBot && (
+                  <span className="lobby-bot-badge">🤖 {player.botDifficulty}</span>
+                )}
+                {player.isGuest && (
+                  <span className="lobby-guest-badge" title="Not signed in with Discord: nothing is saved">
+                    Guest
+                  </span>
+                )}
               </div>
+              {isHost && player.isBot && (
+                <button
+                  className="lobby-bot-remove-btn"
+                  onClick={() => onRemoveBot(player.sessionId)}
+                  title={`Remove ${player.displayName}`}
+                >
+                  ✕
+                </button>
+              )}
+              {isHost && !player.isBot && player.sessionId !== mySessionId && (
+                <div className="lobby-mod-btns">
+                  <button
+                    className="lobby-mod-btn"
+                    onClick={() => onTransferHost(player.sessionId)}
+                    title={`Make ${player.displayName} the host`}
+                  >
+                    👑
+                  </button>
+                  <button
+                    className="lobby-mod-btn lobby-mod-btn-kick"
+                    onClick={() => onKickPlayer(player.sessionId)}
+                    title={`Kick ${player.displayName}`}
+                  >
+                    Kick
+                  </button>
+                  {!player.isGuest && (
+                    <button
+                      className="lobby-mod-btn lobby-mod-btn-kick"
+                      onClick={() => onBanPlayer(player.sessionId)}
+                      title={`Ban ${player.displayName} from this game`}
+                    >
+                      Ban
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
           {/* Show empty slots: 2 if few players, 1 if 3+, none if full */}
@@ -103,6 +241,42 @@ export const Lobby: React.FC<LobbyProps> = ({
             </div>
           ))}
         </div>
+        {spectators.length > 0 && (
+          <div className="lobby-spectators">
+            <span className="lobby-spectators-title">Watching</span>
+            {spectators.map((spec) => (
+              <div key={spec.sessionId} className="lobby-spectator">
+                <span>👁 {spec.displayName}{spec.isGuest && " (guest)"}</span>
+                {isHost && (
+                  <div className="lobby-mod-btns">
+                    <button className="lobby-mod-btn lobby-mod-btn-kick" onClick={() => onKickPlayer(spec.sessionId)}>
+                      Kick
+                    </button>
+                    {!spec.isGuest && (
+                      <button className="lobby-mod-btn lobby-mod-btn-kick" onClick={() => onBanPlayer(spec.sessionId)}>
+                        Ban
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {isHost && players.length < 6 && (
+          <div className="lobby-add-bot">
+            <select value={botDifficulty} onChange={(e) => setBotDifficulty(e.target.value)}>
+              {BOT_DIFFICULTIES.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+            <button className="lobby-add-bot-btn" onClick={() => onAddBot(botDifficulty)}>
+              🤖 Add Bot
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Piece Selector */}
@@ -129,25 +303,124 @@ export const Lobby: React.FC<LobbyProps> = ({
             );
           })}
         </div>
-        <div className="lobby-action-btns">
-          <button
-            className="lobby-store-btn"
-            onClick={() => setShowStore(true)}
-          >
-            💎 Store {playerStoreData ? `(${playerStoreData.gems} gems)` : ""}
-          </button>
-          <button
-            className="lobby-goals-btn"
-            onClick={() => setShowGoals(true)}
-          >
-            🎯 Goals
-          </button>
-          <button
-            className="lobby-achievements-btn"
-            onClick={() => setShowAchievements(true)}
-          >
-            🏆 Achievements
-          </button>
+        {myPlayer?.isGuest && (
+          <p className="lobby-guest-note">
+            You're playing as a guest (local dev). Gems, goals and history aren't saved.
+          </p>
+        )}
+        {!myPlayer?.isGuest && (
+          <div className="lobby-action-btns">
+            <button
+              className="lobby-store-btn"
+              onClick={() => setShowStore(true)}
+            >
+              💎 Store {playerStoreData ? `(${playerStoreData.gems} gems)` : ""}
+            </button>
+            <button
+              className="lobby-goals-btn"
+              onClick={() => setShowGoals(true)}
+            >
+              🎯 Goals
+            </button>
+            <button
+              className="lobby-achievements-btn"
+              onClick={() => setShowAchievements(true)}
+            >
+              🏆 Achievements
+            </button>
+            <button
+              className="lobby-history-btn"
+              onClick={() => setShowHistory(true)}
+            >
+              📜 History
+            </button>
+            <button
+              className="lobby-leaderboard-btn"
+              onClick={() => setShowLeaderboard(true)}
+            >
+              📊 Leaderboard
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* House Rules */}
+      <div className="lobby-settings">
+        <h3 className="lobby-piece-title">House Rules</h3>
+        <label className="lobby-settings-field lobby-settings-map">
+          <span>Map</span>
+          {isHost && boardOptions.length > 0 ? (
+            <select
+              value={gameState.settings.boardId}
+              onChange={(e) => onUpdateSettings({ boardId: e.target.value })}
+            >
+              {boardOptions.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name} ({b.totalSpaces} spaces)
+                </option>
+              ))}
+            </select>
+          ) : (
+            <strong>{gameState.board.name}</strong>
+          )}
+        </label>
+        {selectedBoard?.description && (
+          <p className="lobby-settings-map-description">{selectedBoard.description}</p>
+        )}
+        <label className="lobby-settings-field lobby-settings-map">
+          <span>Auctions</span>
+          {isHost ? (
+            <select
+              value={gameState.settings.auctionMode}
+              onChange={(e) => onUpdateSettings({ auctionMode: e.target.value })}
+            >
+              {AUCTION_MODES.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <strong>{AUCTION_MODES.find((m) => m.id === gameState.settings.auctionMode)?.label}</strong>
+          )}
+        </label>
+        <div className="lobby-settings-toggles">
+          {HOUSE_RULE_TOGGLES.map(({ key, label }) => (
+            <label key={key} className="lobby-settings-toggle">
+              <input
+                type="checkbox"
+                checked={gameState.settings[key]}
+                disabled={!isHost}
+                onChange={(e) => onUpdateSettings({ [key]: e.target.checked })}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="lobby-settings-grid">
+          {ECONOMY_SETTINGS.map(({ key, label }) => (
+            <label key={key} className="lobby-settings-field">
+              <span>{label}</span>
+              {isHost ? (
+                <input
+                  // Re-mount when the server value changes so rejected edits snap back
+                  key={`${key}-${gameState.settings[key]}`}
+                  type="number"
+                  defaultValue={gameState.settings[key]}
+                  onBlur={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!isNaN(value) && value !== gameState.settings[key]) {
+                      onUpdateSettings({ [key]: value });
+                    } else {
+                      e.target.value = String(gameState.settings[key]);
+                    }
+                  }}
+                />
+              ) : (
+                <strong>{gameState.settings[key]}</strong>
+              )}
+            </label>
+          ))}
         </div>
       </div>
 
@@ -172,7 +445,6 @@ export const Lobby: React.FC<LobbyProps> = ({
       {/* Store Modal */}
       {showStore && (
         <Store
-          discordUserId={discordUserId}
           playerStoreData={playerStoreData}
           onClose={() => setShowStore(false)}
           onUpdate={onStoreUpdate}
@@ -194,6 +466,23 @@ export const Lobby: React.FC<LobbyProps> = ({
           onClose={() => setShowAchievements(false)}
         />
       )}
+
+      {/* Match History Modal */}
+      {showHistory && (
+        <MatchHistoryPanel
+          discordUserId={discordUserId}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Leaderboard Modal */}
+      {showLeaderboard && (
+        <LeaderboardPanel
+          discordUserId={discordUserId}
+          guildId={guildId}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      )}
     </div>
   );
 };
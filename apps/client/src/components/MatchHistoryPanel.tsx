@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from "react";
+import { getPieceEmoji } from "../data/pieces";
+import "../styles/history.css";
+
+interface MatchParticipant {
+  seat: number;
+  discord_user_id: string;
+  display_name: string;
+  piece_id: string;
+  is_bot: boolean;
+  placement: number;
+  net_worth: number;
+  coins: number;
+  properties_owned: number;
+  bankrupt: boolean;
+  eliminated_turn: number | null;
+}
+
+interface Match {
+  id: number;
+  board_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  turn_count: number;
+  end_reason: string;
+  winner_name: string;
+  participants: MatchParticipant[];
+}
+
+interface MatchHistoryPanelProps {
+  discordUserId: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+const PLACEMENT_BADGES = ["\u{1F947}", "\u{1F948}", "\u{1F949}"];
+const END_REASON_LABELS: Record<string, string> = {
+  last_player: "Last player standing",
+  max_rounds: "Richest at the round limit",
+  vote: "Ended by vote, richest wins",
+};
+
+function formatPlacement(placement: number): string {
+  return PLACEMENT_BADGES[placement - 1] || `#${placement}`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export const MatchHistoryPanel: React.FC<MatchHistoryPanelProps> = ({ discordUserId, onClose }) => {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Match | null>(null);
+
+  async function fetchPage(offset: number) {
+    setLoading(true);
+    try {
+      const res = await fetch(`/colyseus/player/${discordUserId}/matches?limit=${PAGE_SIZE}&offset=${offset}`);
+      if (res.ok) {
+        const data = await res.json();
+        setMatches((prev) => (offset === 0 ? data.matches : [...prev, ...data.matches]));
+        setTotal(data.total || 0);
+      }
+    } catch (err) {
+      console.error("Failed to fetch match history:", err);
+    }
+    setLoading(false);
+  }
+
+  async function openMatch(matchId: number) {
+    try {
+      const res = await fetch(`/colyseus/matches/${matchId}`);
+      if (res.ok) {
+        setSelected(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch match:", err);
+    }
+  }
+
+  useEffect(() => {
+    fetchPage(0);
+  }, [discordUserId]);
+
+  const renderList = () => (
+    <>
+      {matches.length === 0 && !loading && (
+        <div className="hist-empty">No finished games yet. Go win one!</div>
+      )}
+      <div className="hist-list">
+        {matches.map((match) => {
+          const me = match.participants.find((p) => p.discord_user_id === discordUserId);
+          return (
+            <button key={match.id} className="hist-row" onClick={() => openMatch(match.id)}>
+              <span className="hist-placement">{me ? formatPlacement(me.placement) : "-"}</span>
+              <div className="hist-row-info">
+                <span className="hist-row-title">
+                  {match.winner_name ? `${match.winner_name} won` : "No winner"}
+                  <span className="hist-board">{match.board_id}</span>
+                </span>
+                <span className="hist-row-meta">
+                  {formatDate(match.ended_at)} · {match.participants.length} players · {formatDuration(match.duration_seconds)}
+                </span>
+              </div>
+              {me && <span className="hist-worth">{me.net_worth.toLocaleString()}</span>}
+            </button>
+          );
+        })}
+      </div>
+      {loading && <div className="hist-loading">Loading history...</div>}
+      {!loading && matches.length < total && (
+        <button className="hist-more" onClick={() => fetchPage(matches.length)}>
+          Load more
+        </button>
+      )}
+    </>
+  );
+
+  const renderDetail = (match: Match) => (
+    <>
+      <button className="hist-back" onClick={() => setSelected(null)}>{"\u2190"} All games</button>
+      <div className="hist-detail-meta">
+        <span>{formatDate(match.started_at)}</span>
+        <span className="hist-board">{match.board_id}</span>
+        <span>{formatDuration(match.duration_seconds)} · {match.turn_count} turns</span>
+        <span>{END_REASON_LABELS[match.end_reason] ?? "Richest at the round limit"}</span>
+      </div>
+      <div className="hist-list">
+        {match.participants.map((p) => (
+          <div
+            key={p.seat}
+            className={`hist-standing ${p.discord_user_id === discordUserId ? "hist-standing-me" : ""}`}
+          >
+            <span className="hist-placement">{formatPlacement(p.placement)}</span>
+            <span className="hist-piece">{getPieceEmoji(p.piece_id)}</span>
+            <div className="hist-row-info">
+              <span className="hist-row-title">
+                {p.display_name}
+                {p.is_bot && <span className="hist-bot-badge">BOT</span>}
+              </span>
+              <span className="hist-row-meta">
+                {p.bankrupt
+                  ? `Bankrupt${p.eliminated_turn !== null ? ` on turn ${p.eliminated_turn}` : ""}`
+                  : `${p.coins.toLocaleString()} coins · ${p.properties_owned} properties`}
+              </span>
+            </div>
+            <span className="hist-worth">{p.net_worth.toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="hist-overlay" onClick={onClose}>
+      <div className="hist-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="hist-header">
+          <h2 className="hist-title">Match History</h2>
+          {total > 0 && <div className="hist-total">{total} games</div>}
+          <button className="hist-close" onClick={onClose}>{"\u2715"}</button>
+        </div>
+
+        {selected ? renderDetail(selected) : renderList()}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,21 @@
 import React from "react";
 import { GameStateSnapshot, PlayerState, BoardSpaceState } from "../hooks/useGameState";
-import { PLAYER_COLORS, DISTRICT_COLORS } from "../data/boardSpaces";
+import { PLAYER_COLORS, getDistrictColor } from "../data/boardSpaces";
 import { getPieceEmoji } from "../data/pieces";
 import "../styles/game.css";
 import "../styles/trade.css";
+import "../styles/loans.css";
 
 interface PlayerPanelProps {
   gameState: GameStateSnapshot;
   mySessionId: string;
   onTradeWith?: (sessionId: string) => void;
+  onOpenTrades?: () => void;
+  onLoanWith?: (sessionId: string) => void;
+  onOpenLoans?: () => void;
+  onKickPlayer?: (sessionId: string) => void;
+  onBanPlayer?: (sessionId: string) => void;
+  onTransferHost?: (sessionId: string) => void;
   isSpectator?: boolean;
 }
 
@@ -16,6 +23,12 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
   gameState,
   mySessionId,
   onTradeWith,
+  onOpenTrades,
+  onLoanWith,
+  onOpenLoans,
+  onKickPlayer,
+  onBanPlayer,
+  onTransferHost,
   isSpectator,
 }) => {
   const players = Array.from(gameState.players.values()).sort(
@@ -26,9 +39,36 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
   const currentPlayer =
     activePlayers[gameState.currentPlayerIndex % activePlayers.length];
 
+  // Offers that still need our answer
+  const tradesAwaitingMe = gameState.trades.filter(
+    (t) => t.participants.includes(mySessionId) && !t.acceptedBy.includes(mySessionId)
+  ).length;
+  const loansAwaitingMe = gameState.loanOffers.filter(
+    (o) =>
+      o.fromSessionId !== mySessionId &&
+      (o.lenderSessionId === mySessionId || o.borrowerSessionId === mySessionId)
+  ).length;
+
+  const isHost = !isSpectator && gameState.hostSessionId === mySessionId;
+
+  const playerName = (sessionId: string) =>
+    sessionId ? gameState.players.get(sessionId)?.displayName ?? "Someone" : "the Bank";
+
   return (
     <div className="player-panel">
       <h3 className="panel-title">Players</h3>
+      {!isSpectator && gameState.phase === "playing" && onOpenTrades && (
+        <button className="panel-trades-btn" onClick={onOpenTrades}>
+          🤝 Trade offers
+          {tradesAwaitingMe > 0 && <span className="panel-trades-badge">{tradesAwaitingMe}</span>}
+        </button>
+      )}
+      {!isSpectator && gameState.phase === "playing" && onOpenLoans && (
+        <button className="panel-trades-btn" onClick={onOpenLoans}>
+          💰 Loans
+          {loansAwaitingMe > 0 && <span className="panel-trades-badge">{loansAwaitingMe}</span>}
+        </button>
+      )}
       <div className="panel-player-list">
         {players.map((player) => {
           const isCurrentTurn = currentPlayer?.sessionId === player.sessionId;
@@ -39,6 +79,8 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
           const ownedSpaces = player.ownedProperties
             .map((idx) => gameState.boardSpaces[idx])
             .filter(Boolean);
+          const debts = gameState.loans.filter((l) => l.borrowerSessionId === player.sessionId);
+          const credits = gameState.loans.filter((l) => l.lenderSessionId === player.sessionId);
 
           return (
             <div
@@ -55,6 +97,14 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
                   <span className="panel-player-name">
                     {player.displayName}
                     {isMe && <span className="panel-me-tag"> (you)</span>}
+                    {player.sessionId === gameState.hostSessionId && (
+                      <span className="panel-host-tag" title="Host"> 👑</span>
+                    )}
+                    {player.isBot && <span className="panel-bot-tag" title={`${player.botDifficulty} bot`}> 🤖</span>}
+                    {player.isGuest && <span className="panel-guest-tag"> (guest)</span>}
+                    {player.isDisconnected && !player.isBankrupt && (
+                      <span className="panel-disconnected-tag"> 📡 reconnecting...</span>
+                    )}
                   </span>
                   <span className="panel-player-coins">
                     {player.isBankrupt ? "BANKRUPT" : `${player.coins} coins`}
@@ -68,14 +118,68 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
                   onTradeWith && (
                     <button
                       className="panel-trade-btn"
-                      disabled={gameState.activeTrade.status === "pending"}
+                      disabled={player.isDisconnected}
                       onClick={() => onTradeWith(player.sessionId)}
                     >
                       Trade
                     </button>
                   )}
+                {!isMe &&
+                  !player.isBankrupt &&
+                  player.isActive &&
+                  gameState.phase === "playing" &&
+                  onLoanWith && (
+                    <button
+                      className="panel-trade-btn"
+                      disabled={player.isDisconnected}
+                      onClick={() => onLoanWith(player.sessionId)}
+                    >
+                      Loan
+                    </button>
+                  )}
               </div>
 
+              {/* Host moderation */}
+              {isHost && !isMe && !player.isBot && !player.isBankrupt && (
+                <div className="panel-player-mod">
+                  {onTransferHost && (
+                    <button
+                      className="panel-mod-btn"
+                      disabled={player.isDisconnected}
+                      onClick={() => onTransferHost(player.sessionId)}
+                    >
+                      Make host
+                    </button>
+                  )}
+                  {onKickPlayer && (
+                    <button className="panel-mod-btn panel-mod-btn-kick" onClick={() => onKickPlayer(player.sessionId)}>
+                      Kick
+                    </button>
+                  )}
+                  {onBanPlayer && !player.isGuest && (
+                    <button className="panel-mod-btn panel-mod-btn-kick" onClick={() => onBanPlayer(player.sessionId)}>
+                      Ban
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Outstanding debts */}
+              {(debts.length > 0 || credits.length > 0) && (
+                <div className="panel-player-debts">
+                  {debts.map((loan) => (
+                    <span key={loan.id}>
+                      Owes {loan.balance} to {playerName(loan.lenderSessionId)}, due in {loan.turnsRemaining} turns
+                    </span>
+                  ))}
+                  {credits.map((loan) => (
+                    <span key={loan.id} className="panel-player-debt-owed">
+                      Owed {loan.balance} by {playerName(loan.borrowerSessionId)}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Owned properties */}
               {ownedSpaces.length > 0 && (
                 <div className="panel-player-properties">
@@ -85,7 +189,7 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
                       className="panel-property-chip"
                       style={{
                         borderLeftColor:
-                          DISTRICT_COLORS[space.district] || "#555",
+                          getDistrictColor(gameState.board, space.district) || "#555",
                       }}
                       title={`${space.name} - Rent: ${space.rent}${space.houses > 0 ? ` (${space.houses} houses)` : ""}${space.hasHotel ? " (Hotel)" : ""}`}
                     >
@@ -120,6 +224,16 @@ export const PlayerPanel: React.FC<PlayerPanelProps> = ({
                   <span className="panel-me-tag"> (you)</span>
                 )}
               </span>
+              {isHost && onKickPlayer && (
+                <button className="panel-mod-btn panel-mod-btn-kick" onClick={() => onKickPlayer(spec.sessionId)}>
+                  Kick
+                </button>
+              )}
+              {isHost && onBanPlayer && (
+                <button className="panel-mod-btn panel-mod-btn-kick" onClick={() => onBanPlayer(spec.sessionId)}>
+                  Ban
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -1,11 +1,13 @@
 import React from "react";
-import { BoardSpaceState, PlayerState } from "../hooks/useGameState";
+import { BoardLayoutState, BoardSpaceState, PlayerState } from "../hooks/useGameState";
 import {
-  DISTRICT_COLORS,
-  DISTRICT_PROPERTIES,
-  HOUSE_COST,
-  HOTEL_COST,
-  RENT_SCALES,
+  countOwnedTransit,
+  countOwnedUtilities,
+  getDistrictColor,
+  getHoldingLabels,
+  getHouseCost,
+  getHotelCost,
+  isOwnableSpace,
   getSellableHouseProperties,
   getSellableHotelProperties,
   getHouseSellValue,
@@ -15,6 +17,7 @@ import "../styles/property-info.css";
 
 interface PropertyInfoModalProps {
   spaceIndex: number;
+  board: BoardLayoutState;
   boardSpaces: BoardSpaceState[];
   players: Map<string, PlayerState>;
   onClose: () => void;
@@ -34,6 +37,7 @@ function getCurrentRentLevel(space: BoardSpaceState): number {
 
 export const PropertyInfoModal: React.FC<PropertyInfoModalProps> = ({
   spaceIndex,
+  board,
   boardSpaces,
   players,
   onClose,
@@ -44,17 +48,28 @@ export const PropertyInfoModal: React.FC<PropertyInfoModalProps> = ({
   onSellHotel,
 }) => {
   const space = boardSpaces[spaceIndex];
-  if (!space || space.spaceType !== "property") return null;
+  if (!space || !isOwnableSpace(space.spaceType)) return null;
 
-  const districtColor = space.district ? DISTRICT_COLORS[space.district] : "#555";
-  const rentScale = RENT_SCALES[spaceIndex];
-  const currentLevel = getCurrentRentLevel(space);
+  const isTransit = space.spaceType === "transit";
+  const isUtility = space.spaceType === "utility";
+  const districtColor = (space.district && getDistrictColor(board, space.district)) || "#555";
+  const rentScale = isUtility ? board.utilityMultipliers : isTransit ? board.transitRent : space.rentScale;
+  const rentLabels = isUtility
+    ? getHoldingLabels(rentScale.length, "Utility", "Utilities")
+    : isTransit
+      ? getHoldingLabels(rentScale.length, "Station", "Stations")
+      : RENT_LABELS;
+  const currentLevel = isUtility
+    ? countOwnedUtilities(boardSpaces, space.ownerId) - 1
+    : isTransit
+      ? countOwnedTransit(boardSpaces, space.ownerId) - 1
+      : getCurrentRentLevel(space);
   const mortgageValue = Math.floor(space.price / 2);
   const unmortgageCost = Math.floor(space.price * 0.55);
-  const houseCost = space.district ? HOUSE_COST[space.district] : 0;
-  const hotelCost = space.district ? HOTEL_COST[space.district] : 0;
-  const houseSellValue = space.district ? getHouseSellValue(space.district) : 0;
-  const hotelSellValue = space.district ? getHotelSellValue(space.district) : 0;
+  const houseCost = space.district ? getHouseCost(board, space.district) : 0;
+  const hotelCost = space.district ? getHotelCost(board, space.district) : 0;
+  const houseSellValue = space.district ? getHouseSellValue(board, space.district) : 0;
+  const hotelSellValue = space.district ? getHotelSellValue(board, space.district) : 0;
 
   // Find owner name and check if current player is owner
   let ownerName: string | null = null;
@@ -73,23 +88,22 @@ export const PropertyInfoModal: React.FC<PropertyInfoModalProps> = ({
   const canUnmortgage = isOwner && space.isMortgaged && currentPlayer && currentPlayer.coins >= unmortgageCost;
 
   // Check if property can sell houses/hotels (must follow even selling rule)
-  const sellableHouseProps = sessionId ? getSellableHouseProperties(boardSpaces, sessionId) : [];
-  const sellableHotelProps = sessionId ? getSellableHotelProperties(boardSpaces, sessionId) : [];
+  const sellableHouseProps = sessionId ? getSellableHouseProperties(board, boardSpaces, sessionId) : [];
+  const sellableHotelProps = sessionId ? getSellableHotelProperties(board, boardSpaces, sessionId) : [];
   const canSellHouse = isOwner && sellableHouseProps.includes(spaceIndex);
   const canSellHotel = isOwner && sellableHotelProps.includes(spaceIndex);
 
   // Find district siblings
-  const districtEntry = Object.entries(DISTRICT_PROPERTIES).find(
-    ([, indices]) => indices.includes(spaceIndex)
-  );
-  const districtIndices = districtEntry ? districtEntry[1] : [spaceIndex];
+  const districtIndices = isTransit || isUtility
+    ? boardSpaces.filter((s) => s.spaceType === space.spaceType).map((s) => s.index)
+    : space.district ? board.districts[space.district]?.properties || [spaceIndex] : [spaceIndex];
 
   return (
     <div className="property-info-overlay" onClick={onClose}>
       <div className="property-info-modal" onClick={(e) => e.stopPropagation()}>
         {/* District color header */}
         <div className="property-info-header" style={{ background: districtColor }}>
-          {space.district || "Property"}
+          {space.district || (isTransit ? "Transit" : isUtility ? "Utility" : "Property")}
         </div>
 
         {/* Property name */}
@@ -127,19 +141,24 @@ export const PropertyInfoModal: React.FC<PropertyInfoModalProps> = ({
         </div>
 
         {/* Rent schedule */}
-        {rentScale && (
+        {rentScale.length > 0 && (
           <>
             <div className="property-info-section">
               Rent Schedule {space.isMortgaged && <span className="section-note">(No rent while mortgaged)</span>}
             </div>
+            {isUtility && (
+              <div className="property-info-formula">
+                Rent is the landing dice roll times the multiplier for how many utilities the owner holds.
+              </div>
+            )}
             <div className={`property-info-rent-table ${space.isMortgaged ? "mortgaged" : ""}`}>
               {rentScale.map((rent, i) => (
                 <div
                   key={i}
                   className={`property-info-rent-row ${i === currentLevel && space.ownerId && !space.isMortgaged ? "current" : ""}`}
                 >
-                  <span className="rent-label">{RENT_LABELS[i]}</span>
-                  <span className="rent-value">{rent} coins</span>
+                  <span className="rent-label">{rentLabels[i]}</span>
+                  <span className="rent-value">{isUtility ? `${rent}× dice roll` : `${rent} coins`}</span>
                   <span className="rent-indicator">
                     {i === currentLevel && space.ownerId && !space.isMortgaged ? "\u2190" : ""}
                   </span>
@@ -164,7 +183,7 @@ export const PropertyInfoModal: React.FC<PropertyInfoModalProps> = ({
         )}
 
         {/* District group */}
-        <div className="property-info-section">District</div>
+        <div className="property-info-section">{isTransit ? "Transit Line" : isUtility ? "Utilities" : "District"}</div>
         <div className="property-info-district-list">
           {districtIndices.map((idx) => {
             const districtSpace = boardSpaces[idx];
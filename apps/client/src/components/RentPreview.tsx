@@ -1,17 +1,19 @@
 import React, { useRef, useLayoutEffect, useState } from "react";
-import { BoardSpaceState, PlayerState } from "../hooks/useGameState";
+import { BoardLayoutState, BoardSpaceState, PlayerState } from "../hooks/useGameState";
 import {
-  DISTRICT_COLORS,
-  DISTRICT_PROPERTIES,
-  HOUSE_COST,
-  HOTEL_COST,
-  RENT_SCALES,
+  countOwnedTransit,
+  countOwnedUtilities,
+  getDistrictColor,
+  getHotelCost,
+  getHoldingLabels,
+  getHouseCost,
   playerHasMonopoly,
 } from "../data/boardSpaces";
 import "../styles/rent-preview.css";
 
 interface RentPreviewProps {
   space: BoardSpaceState;
+  board: BoardLayoutState;
   boardSpaces: BoardSpaceState[];
   players: Map<string, PlayerState>;
   /** Position of the hovered board space element */
@@ -29,6 +31,7 @@ function getCurrentRentLevel(space: BoardSpaceState): number {
 
 export const RentPreview: React.FC<RentPreviewProps> = ({
   space,
+  board,
   boardSpaces,
   players,
   anchorRect,
@@ -95,11 +98,23 @@ export const RentPreview: React.FC<RentPreviewProps> = ({
 
   if (!anchorRect) return null;
 
-  const districtColor = space.district ? DISTRICT_COLORS[space.district] : "#555";
-  const rentScale = RENT_SCALES[space.index];
-  const currentLevel = getCurrentRentLevel(space);
-  const houseCost = space.district ? HOUSE_COST[space.district] : 0;
-  const hotelCost = space.district ? HOTEL_COST[space.district] : 0;
+  const isTransit = space.spaceType === "transit";
+  const isUtility = space.spaceType === "utility";
+  const districtColor = (space.district && getDistrictColor(board, space.district)) || "#555";
+  const rentScale = isUtility ? board.utilityMultipliers : isTransit ? board.transitRent : space.rentScale;
+  const rentLabels = isUtility
+    ? getHoldingLabels(rentScale.length, "Utility", "Utilities")
+    : isTransit
+      ? getHoldingLabels(rentScale.length, "Station", "Stations")
+      : RENT_LABELS;
+  // Transit/utility rent level is the number of them the owner holds
+  const currentLevel = isUtility
+    ? countOwnedUtilities(boardSpaces, space.ownerId) - 1
+    : isTransit
+      ? countOwnedTransit(boardSpaces, space.ownerId) - 1
+      : getCurrentRentLevel(space);
+  const houseCost = space.district ? getHouseCost(board, space.district) : 0;
+  const hotelCost = space.district ? getHotelCost(board, space.district) : 0;
 
   // Owner info
   let ownerName: string | null = null;
@@ -111,7 +126,7 @@ export const RentPreview: React.FC<RentPreviewProps> = ({
   // Monopoly check
   const hasMonopoly =
     space.ownerId && space.district
-      ? playerHasMonopoly(boardSpaces, space.ownerId, space.district)
+      ? playerHasMonopoly(board, boardSpaces, space.ownerId, space.district)
       : false;
 
   // For the "current" rent row: if owner has monopoly and no houses, base rent is doubled
@@ -126,7 +141,7 @@ export const RentPreview: React.FC<RentPreviewProps> = ({
     >
       {/* District color header */}
       <div className="rent-preview-header" style={{ background: districtColor }}>
-        {space.district || "Property"}
+        {space.district || (isTransit ? "Transit" : isUtility ? "Utility" : "Property")}
       </div>
 
       {/* Property name */}
@@ -162,9 +177,12 @@ export const RentPreview: React.FC<RentPreviewProps> = ({
       </div>
 
       {/* Rent schedule */}
-      {rentScale && (
+      {rentScale.length > 0 && (
         <>
           <div className="rent-preview-section">Rent</div>
+          {isUtility && (
+            <div className="rent-preview-formula">Dice roll × multiplier</div>
+          )}
           <div className={`rent-preview-rent-table ${space.isMortgaged ? "rp-mortgaged" : ""}`}>
             {rentScale.map((rent, i) => {
               const isCurrent = i === currentLevel && space.ownerId && !space.isMortgaged;
@@ -180,10 +198,10 @@ export const RentPreview: React.FC<RentPreviewProps> = ({
               return (
                 <div key={i} className={rowClass}>
                   <span className="rp-rent-label">
-                    {RENT_LABELS[i]}
+                    {rentLabels[i]}
                     {isMonopolyRow ? " (x2)" : ""}
                   </span>
-                  <span className="rp-rent-value">{displayRent}</span>
+                  <span className="rp-rent-value">{isUtility ? `${rent}× roll` : displayRent}</span>
                   <span className="rp-rent-indicator">
                     {isCurrent ? "\u25C0" : ""}
                   </span>
@@ -1,20 +1,19 @@
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { PlayerStoreData } from "../hooks/useGameState";
 import { PIECES, getPieceEmoji } from "../data/pieces";
 import { TITLES, THEMES, DICE_SKINS, type CosmeticDefinition } from "../data/cosmetics";
+import { authHeaders } from "../discordSdk";
 import "../styles/store.css";
 
 type StoreTab = "pieces" | "titles" | "themes" | "dice";
 
 interface StoreProps {
-  discordUserId: string;
   playerStoreData: PlayerStoreData | null;
   onClose: () => void;
   onUpdate: (data: PlayerStoreData) => void;
 }
 
 export const Store: React.FC<StoreProps> = ({
-  discordUserId,
   playerStoreData,
   onClose,
   onUpdate,
@@ -22,6 +21,18 @@ export const Store: React.FC<StoreProps> = ({
   const [activeTab, setActiveTab] = useState<StoreTab>("pieces");
   const [buying, setBuying] = useState<string | null>(null);
   const [error, setError] = useState("");
+  // Idempotency keys for purchases whose response never arrived: trying the same
+  // item again reuses the key, so the server charges at most once
+  const pendingPurchaseKeys = useRef(new Map<string, string>());
+
+  const purchaseKey = (itemId: string) => {
+    let key = pendingPurchaseKeys.current.get(itemId);
+    if (!key) {
+      key = crypto.randomUUID();
+      pendingPurchaseKeys.current.set(itemId, key);
+    }
+    return key;
+  };
 
   const gems = playerStoreData?.gems ?? 0;
   const ownedPieces = playerStoreData?.ownedPieces ?? [];
@@ -38,9 +49,14 @@ export const Store: React.FC<StoreProps> = ({
     try {
       const res = await fetch("/colyseus/store/buy", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ discordUserId, pieceId }),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": purchaseKey(pieceId),
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ pieceId }),
       });
+      pendingPurchaseKeys.current.delete(pieceId);
 
       const data = await res.json();
       if (!res.ok) {
@@ -73,9 +89,14 @@ export const Store: React.FC<StoreProps> = ({
     try {
       const res = await fetch("/colyseus/store/buy-cosmetic", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ discordUserId, cosmeticId }),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": purchaseKey(cosmeticId),
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ cosmeticId }),
       });
+      pendingPurchaseKeys.current.delete(cosmeticId);
 
       const data = await res.json();
       if (!res.ok) {
@@ -105,8 +126,8 @@ export const Store: React.FC<StoreProps> = ({
     try {
       const res = await fetch("/colyseus/store/equip", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ discordUserId, type, itemId }),
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ type, itemId }),
       });
 
       const data = await res.json();
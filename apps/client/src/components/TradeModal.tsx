@@ -2,35 +2,31 @@ import React, { useState, useMemo } from "react";
 import {
   GameStateSnapshot,
   PlayerState,
+  BoardLayoutState,
   BoardSpaceState,
   TradeOfferState,
+  TradeLegState,
+  ImmunityClauseState,
 } from "../hooks/useGameState";
-import { DISTRICT_COLORS } from "../data/boardSpaces";
+import { getDistrictColor, isOwnableSpace } from "../data/boardSpaces";
 import "../styles/trade.css";
 
 const MAX_COUNTER_OFFERS = 5;
+const MAX_IMMUNITY_TURNS = 10;
+const DEFAULT_IMMUNITY_TURNS = 3;
 
 interface TradeModalProps {
   gameState: GameStateSnapshot;
   mySessionId: string;
   /** Set when the local player is creating a new trade proposal */
   tradeTargetSessionId: string | null;
-  onProposeTrade: (data: {
-    toSessionId: string;
-    offeredProperties: number[];
-    requestedProperties: number[];
-    offeredCoins: number;
-    requestedCoins: number;
-  }) => void;
-  onAcceptTrade: () => void;
-  onRejectTrade: () => void;
-  onCancelTrade: () => void;
-  onCounterOffer: (data: {
-    offeredProperties: number[];
-    requestedProperties: number[];
-    offeredCoins: number;
-    requestedCoins: number;
-  }) => void;
+  /** Offer to open straight away instead of the inbox */
+  initialTradeId: string | null;
+  onProposeTrade: (data: { participants: string[]; legs: TradeLegState[] }) => void;
+  onAcceptTrade: (tradeId: string) => void;
+  onRejectTrade: (tradeId: string) => void;
+  onCancelTrade: (tradeId: string) => void;
+  onCounterOffer: (data: { tradeId: string; legs: TradeLegState[] }) => void;
   onClose: () => void;
 }
 
@@ -42,18 +38,42 @@ function getTradeableProperties(
   return boardSpaces.filter(
     (s) =>
       s.ownerId === sessionId &&
-      s.spaceType === "property" &&
+      isOwnableSpace(s.spaceType) &&
       s.houses === 0 &&
       !s.hasHotel
   );
 }
 
-type TradeMode = "propose" | "respond" | "counter" | "waiting";
+function emptyLeg(fromSessionId: string, toSessionId: string): TradeLegState {
+  return { fromSessionId, toSessionId, properties: [], coins: 0, jailCards: 0, immunities: [] };
+}
+
+function isEmptyLeg(leg: TradeLegState): boolean {
+  return (
+    leg.properties.length === 0 &&
+    leg.coins === 0 &&
+    leg.jailCards === 0 &&
+    leg.immunities.length === 0
+  );
+}
+
+/** "A", "A and B", "A, B and C" */
+function joinNames(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? "";
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+type TradeView =
+  | { kind: "inbox" }
+  | { kind: "propose" }
+  | { kind: "offer"; tradeId: string }
+  | { kind: "counter"; tradeId: string };
 
 export const TradeModal: React.FC<TradeModalProps> = ({
   gameState,
   mySessionId,
   tradeTargetSessionId,
+  initialTradeId,
   onProposeTrade,
   onAcceptTrade,
   onRejectTrade,
@@ -61,158 +81,144 @@ export const TradeModal: React.FC<TradeModalProps> = ({
   onCounterOffer,
   onClose,
 }) => {
-  const [selectedOffer, setSelectedOffer] = useState<Set<number>>(new Set());
-  const [selectedRequest, setSelectedRequest] = useState<Set<number>>(new Set());
-  const [offeredCoins, setOfferedCoins] = useState<string>("");
-  const [requestedCoins, setRequestedCoins] = useState<string>("");
-  const [isCounterMode, setIsCounterMode] = useState(false);
-
-  const activeTrade = gameState.activeTrade;
-
-  // Determine the mode
-  const mode: TradeMode = useMemo(() => {
-    if (activeTrade.status === "pending") {
-      if (activeTrade.toSessionId === mySessionId) {
-        return isCounterMode ? "counter" : "respond";
-      }
-      if (activeTrade.fromSessionId === mySessionId) return "waiting";
-    }
-    return "propose";
-  }, [activeTrade, mySessionId, isCounterMode]);
-
-  // Get the target player for propose mode
-  const targetSessionId =
-    mode === "propose"
-      ? tradeTargetSessionId
-      : mode === "respond" || mode === "counter"
-      ? activeTrade.fromSessionId
-      : activeTrade.toSessionId;
-
-  const targetPlayer = targetSessionId
-    ? gameState.players.get(targetSessionId)
-    : null;
-
-  const myPlayer = gameState.players.get(mySessionId);
-
-  // Get tradeable properties
-  const myTradeableProps = useMemo(
-    () => getTradeableProperties(gameState.boardSpaces, mySessionId),
-    [gameState.boardSpaces, mySessionId]
+  const [view, setView] = useState<TradeView>(() =>
+    tradeTargetSessionId
+      ? { kind: "propose" }
+      : initialTradeId
+      ? { kind: "offer", tradeId: initialTradeId }
+      : { kind: "inbox" }
   );
-
-  const targetTradeableProps = useMemo(
-    () =>
-      targetSessionId
-        ? getTradeableProperties(gameState.boardSpaces, targetSessionId)
-        : [],
-    [gameState.boardSpaces, targetSessionId]
+  // Terms being drafted for a new offer or a counter-offer
+  const [participants, setParticipants] = useState<string[]>(
+    tradeTargetSessionId ? [mySessionId, tradeTargetSessionId] : []
   );
-
-  const toggleOffer = (idx: number) => {
-    setSelectedOffer((prev) => {
-      const next = new Set(prev);
-      if (next.has(idx)) next.delete(idx);
-      else next.add(idx);
-      return next;
+  const [legs, setLegs] = useState<TradeLegState[]>([]);
+
+  const name = (sessionId: string) =>
+    sessionId === mySessionId
+      ? "You"
+      : gameState.players.get(sessionId)?.displayName ?? "Someone";
+
+  const myTrades = gameState.trades.filter((t) => t.participants.includes(mySessionId));
+  const viewedTrade =
+    view.kind === "offer" || view.kind === "counter"
+      ? myTrades.find((t) => t.id === view.tradeId)
+      : undefined;
+
+  const setLeg = (
+    fromSessionId: string,
+    toSessionId: string,
+    update: (leg: TradeLegState) => TradeLegState
+  ) => {
+    setLegs((prev) => {
+      const existing = prev.find(
+        (l) => l.fromSessionId === fromSessionId && l.toSessionId === toSessionId
+      );
+      const next = update(existing ?? emptyLeg(fromSessionId, toSessionId));
+      return existing ? prev.map((l) => (l === existing ? next : l)) : [...prev, next];
     });
   };
 
-  const toggleRequest = (idx: number) => {
-    setSelectedRequest((prev) => {
-      const next = new Set(prev);
-      if (next.has(idx)) next.delete(idx);
-      else next.add(idx);
-      return next;
-    });
+  const addParticipant = (sessionId: string) => {
+    setParticipants((prev) => [...prev, sessionId]);
   };
 
-  const handleSend = () => {
-    if (!targetSessionId) return;
-    const offCoins = Math.max(0, Math.floor(Number(offeredCoins) || 0));
-    const reqCoins = Math.max(0, Math.floor(Number(requestedCoins) || 0));
-
-    onProposeTrade({
-      toSessionId: targetSessionId,
-      offeredProperties: Array.from(selectedOffer),
-      requestedProperties: Array.from(selectedRequest),
-      offeredCoins: offCoins,
-      requestedCoins: reqCoins,
-    });
+  const removeParticipant = (sessionId: string) => {
+    setParticipants((prev) => prev.filter((id) => id !== sessionId));
+    setLegs((prev) =>
+      prev.filter((l) => l.fromSessionId !== sessionId && l.toSessionId !== sessionId)
+    );
   };
 
-  // Enter counter-offer mode: pre-fill with the inverse of the current trade
-  // (from the respondent's perspective, swap offered/requested)
-  const enterCounterMode = () => {
-    // The current trade is from someone else's perspective.
-    // Their "offeredProperties" are what they give us, their "requestedProperties" are what they want from us.
-    // When we counter, WE become the proposer. So:
-    //   - Our "offered" = what we give (was their "requested" - what they wanted from us)
-    //   - Our "requested" = what we want (was their "offered" - what they were giving us)
-    setSelectedOffer(new Set(activeTrade.requestedProperties));
-    setSelectedRequest(new Set(activeTrade.offeredProperties));
-    setOfferedCoins(activeTrade.requestedCoins > 0 ? String(activeTrade.requestedCoins) : "");
-    setRequestedCoins(activeTrade.offeredCoins > 0 ? String(activeTrade.offeredCoins) : "");
-    setIsCounterMode(true);
-  };
+  const sentLegs = legs.filter((l) => !isEmptyLeg(l));
+  const canSend = sentLegs.length > 0;
 
-  const exitCounterMode = () => {
-    setIsCounterMode(false);
-    setSelectedOffer(new Set());
-    setSelectedRequest(new Set());
-    setOfferedCoins("");
-    setRequestedCoins("");
+  const handleSend = () => {
+    onProposeTrade({ participants, legs: sentLegs });
+    setView({ kind: "inbox" });
   };
 
-  const handleSendCounterOffer = () => {
-    const offCoins = Math.max(0, Math.floor(Number(offeredCoins) || 0));
-    const reqCoins = Math.max(0, Math.floor(Number(requestedCoins) || 0));
-
-    onCounterOffer({
-      offeredProperties: Array.from(selectedOffer),
-      requestedProperties: Array.from(selectedRequest),
-      offeredCoins: offCoins,
-      requestedCoins: reqCoins,
-    });
-    setIsCounterMode(false);
+  const enterCounterMode = (trade: TradeOfferState) => {
+    setParticipants(trade.participants);
+    setLegs(
+      trade.legs.map((l) => ({
+        ...l,
+        properties: [...l.properties],
+        immunities: l.immunities.map((d) => ({ ...d })),
+      }))
+    );
+    setView({ kind: "counter", tradeId: trade.id });
   };
 
-  const canSend =
-    selectedOffer.size > 0 ||
-    selectedRequest.size > 0 ||
-    Number(offeredCoins) > 0 ||
-    Number(requestedCoins) > 0;
-
-  const canCounter = activeTrade.counterOfferCount < MAX_COUNTER_OFFERS;
+  const handleSendCounterOffer = (trade: TradeOfferState) => {
+    onCounterOffer({ tradeId: trade.id, legs: sentLegs });
+    setView({ kind: "offer", tradeId: trade.id });
+  };
 
-  if (!targetPlayer || !myPlayer) return null;
+  const myPlayer = gameState.players.get(mySessionId);
+  if (!myPlayer) return null;
 
   // ========== PROPOSE MODE ==========
-  if (mode === "propose") {
+  if (view.kind === "propose") {
+    const others = participants.filter((id) => id !== mySessionId);
+    const addable = Array.from(gameState.players.values()).filter(
+      (p) =>
+        p.isActive &&
+        !p.isBankrupt &&
+        !p.isDisconnected &&
+        !participants.includes(p.sessionId)
+    );
+
     return (
       <div className="trade-overlay" onClick={onClose}>
         <div className="trade-modal" onClick={(e) => e.stopPropagation()}>
           <div className="trade-header">
             <h2 className="trade-title">
-              Trade with {targetPlayer.displayName}
+              Trade with {joinNames(others.map(name))}
             </h2>
             <button className="trade-close" onClick={onClose}>
               ✕
             </button>
           </div>
 
+          <div className="trade-participants">
+            {others.map((id) => (
+              <span key={id} className="trade-participant-chip">
+                {name(id)}
+                {others.length > 1 && (
+                  <button
+                    className="trade-participant-remove"
+                    onClick={() => removeParticipant(id)}
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            ))}
+            {addable.length > 0 && (
+              <select
+                className="trade-deal-select"
+                value=""
+                onChange={(e) => addParticipant(e.target.value)}
+              >
+                <option value="" disabled>
+                  + Add player
+                </option>
+                {addable.map((p) => (
+                  <option key={p.sessionId} value={p.sessionId}>
+                    {p.displayName}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
           <TradeEditor
-            myPlayer={myPlayer}
-            targetPlayer={targetPlayer}
-            myTradeableProps={myTradeableProps}
-            targetTradeableProps={targetTradeableProps}
-            selectedOffer={selectedOffer}
-            selectedRequest={selectedRequest}
-            offeredCoins={offeredCoins}
-            requestedCoins={requestedCoins}
-            onToggleOffer={toggleOffer}
-            onToggleRequest={toggleRequest}
-            onSetOfferedCoins={setOfferedCoins}
-            onSetRequestedCoins={setRequestedCoins}
+            gameState={gameState}
+            mySessionId={mySessionId}
+            participants={participants}
+            legs={legs}
+            onSetLeg={setLeg}
           />
 
           <div className="trade-actions">
@@ -233,54 +239,44 @@ export const TradeModal: React.FC<TradeModalProps> = ({
   }
 
   // ========== COUNTER-OFFER EDITING MODE ==========
-  if (mode === "counter") {
-    const fromPlayer = gameState.players.get(activeTrade.fromSessionId);
-    if (!fromPlayer) return null;
+  if (view.kind === "counter" && viewedTrade) {
+    const others = viewedTrade.participants.filter((id) => id !== mySessionId);
 
     return (
       <div className="trade-overlay">
         <div className="trade-modal" onClick={(e) => e.stopPropagation()}>
           <div className="trade-header">
             <h2 className="trade-title">
-              Counter-Offer to {fromPlayer.displayName}
+              Counter-Offer to {joinNames(others.map(name))}
             </h2>
-            {activeTrade.counterOfferCount > 0 && (
-              <span className="trade-counter-badge">
-                {activeTrade.counterOfferCount + 1}/{MAX_COUNTER_OFFERS}
-              </span>
-            )}
+            <span className="trade-counter-badge">
+              {viewedTrade.counterOfferCount + 1}/{MAX_COUNTER_OFFERS}
+            </span>
           </div>
 
-          {/* Show what changed from previous offer */}
-          {activeTrade.isCounterOffer && (
-            <div className="trade-prev-offer-note">
-              Editing counter-offer. Modify the terms below.
-            </div>
-          )}
+          <div className="trade-prev-offer-note">
+            Editing counter-offer. Modify the terms below.
+          </div>
 
           <TradeEditor
-            myPlayer={myPlayer}
-            targetPlayer={fromPlayer}
-            myTradeableProps={myTradeableProps}
-            targetTradeableProps={targetTradeableProps}
-            selectedOffer={selectedOffer}
-            selectedRequest={selectedRequest}
-            offeredCoins={offeredCoins}
-            requestedCoins={requestedCoins}
-            onToggleOffer={toggleOffer}
-            onToggleRequest={toggleRequest}
-            onSetOfferedCoins={setOfferedCoins}
-            onSetRequestedCoins={setRequestedCoins}
+            gameState={gameState}
+            mySessionId={mySessionId}
+            participants={participants}
+            legs={legs}
+            onSetLeg={setLeg}
           />
 
           <div className="trade-actions">
-            <button className="trade-btn trade-btn-cancel" onClick={exitCounterMode}>
+            <button
+              className="trade-btn trade-btn-cancel"
+              onClick={() => setView({ kind: "offer", tradeId: viewedTrade.id })}
+            >
               Back
             </button>
             <button
               className="trade-btn trade-btn-counter-send"
               disabled={!canSend}
-              onClick={handleSendCounterOffer}
+              onClick={() => handleSendCounterOffer(viewedTrade)}
             >
               Send Counter-Offer
             </button>
@@ -290,442 +286,626 @@ export const TradeModal: React.FC<TradeModalProps> = ({
     );
   }
 
-  // ========== RESPOND MODE ==========
-  if (mode === "respond") {
-    const fromPlayer = gameState.players.get(activeTrade.fromSessionId);
-    if (!fromPlayer) return null;
+  // ========== RESPOND / WAITING MODE ==========
+  // An offer that went through, was declined or was withdrawn falls back to the inbox
+  if (viewedTrade) {
+    const trade = viewedTrade;
+    const isMine = trade.fromSessionId === mySessionId;
+    const hasAccepted = trade.acceptedBy.includes(mySessionId);
+    const waitingFor = trade.participants.filter((id) => !trade.acceptedBy.includes(id));
+    const others = trade.participants.filter((id) => id !== trade.fromSessionId);
+    const canCounter = trade.counterOfferCount < MAX_COUNTER_OFFERS;
 
     return (
-      <div className="trade-overlay">
+      <div className="trade-overlay" onClick={onClose}>
         <div className="trade-modal" onClick={(e) => e.stopPropagation()}>
           <div className="trade-header">
+            <button className="trade-back" onClick={() => setView({ kind: "inbox" })}>
+              ←
+            </button>
             <h2 className="trade-title">
-              {activeTrade.isCounterOffer
-                ? `Counter-Offer from ${fromPlayer.displayName}`
-                : `${fromPlayer.displayName} wants to trade`}
+              {isMine
+                ? trade.isCounterOffer
+                  ? `Counter-Offer to ${joinNames(others.map(name))}`
+                  : `Trade with ${joinNames(others.map(name))}`
+                : trade.isCounterOffer
+                ? `Counter-Offer from ${name(trade.fromSessionId)}`
+                : `${name(trade.fromSessionId)} wants to trade`}
             </h2>
-            {activeTrade.counterOfferCount > 0 && (
+            {trade.counterOfferCount > 0 && (
               <span className="trade-counter-badge">
-                {activeTrade.counterOfferCount}/{MAX_COUNTER_OFFERS}
+                {trade.counterOfferCount}/{MAX_COUNTER_OFFERS}
               </span>
             )}
           </div>
 
-          <TradeSummary
-            gameState={gameState}
-            trade={activeTrade}
-            perspective="recipient"
-          />
+          {trade.participants.length > 2 && (
+            <div className="trade-participants">
+              {trade.participants.map((id) => {
+                const accepted = trade.acceptedBy.includes(id);
+                return (
+                  <span
+                    key={id}
+                    className={`trade-participant-chip ${
+                      accepted ? "trade-participant-accepted" : ""
+                    }`}
+                  >
+                    {accepted && "✓ "}
+                    {name(id)}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          <TradeSummary gameState={gameState} trade={trade} mySessionId={mySessionId} />
 
           {/* Show diff from previous offer if this is a counter-offer */}
-          {activeTrade.isCounterOffer && (
-            <TradeDiff
-              gameState={gameState}
-              trade={activeTrade}
-            />
+          {trade.isCounterOffer && (
+            <TradeDiff gameState={gameState} trade={trade} mySessionId={mySessionId} />
+          )}
+
+          {hasAccepted && (
+            <div className="trade-waiting">
+              <p className="trade-waiting-text">
+                Waiting for {joinNames(waitingFor.map(name))} to respond
+                <span className="trade-waiting-dots">
+                  <span />
+                  <span />
+                  <span />
+                </span>
+              </p>
+            </div>
           )}
 
           <div className="trade-actions">
-            <button
-              className="trade-btn trade-btn-decline"
-              onClick={onRejectTrade}
-            >
-              Decline
-            </button>
-            {canCounter && (
+            {isMine ? (
               <button
-                className="trade-btn trade-btn-counter"
-                onClick={enterCounterMode}
+                className="trade-btn trade-btn-cancel"
+                onClick={() => onCancelTrade(trade.id)}
               >
-                Counter
+                Cancel Offer
               </button>
+            ) : (
+              <>
+                <button
+                  className="trade-btn trade-btn-decline"
+                  onClick={() => onRejectTrade(trade.id)}
+                >
+                  Decline
+                </button>
+                {!hasAccepted && canCounter && (
+                  <button
+                    className="trade-btn trade-btn-counter"
+                    onClick={() => enterCounterMode(trade)}
+                  >
+                    Counter
+                  </button>
+                )}
+                {!hasAccepted && (
+                  <button
+                    className="trade-btn trade-btn-accept"
+                    onClick={() => onAcceptTrade(trade.id)}
+                  >
+                    Accept
+                  </button>
+                )}
+              </>
             )}
-            <button
-              className="trade-btn trade-btn-accept"
-              onClick={onAcceptTrade}
-            >
-              Accept
-            </button>
           </div>
         </div>
       </div>
     );
   }
 
-  // ========== WAITING MODE ==========
+  // ========== INBOX ==========
+  const incoming = myTrades.filter((t) => !t.acceptedBy.includes(mySessionId));
+  const outgoing = myTrades.filter((t) => t.acceptedBy.includes(mySessionId));
+
+  const renderRow = (trade: TradeOfferState) => {
+    const others = trade.participants.filter((id) => id !== mySessionId);
+    const waitingFor = trade.participants.filter((id) => !trade.acceptedBy.includes(id));
+    return (
+      <button
+        key={trade.id}
+        className="trade-inbox-row"
+        onClick={() => setView({ kind: "offer", tradeId: trade.id })}
+      >
+        <span className="trade-inbox-names">{joinNames(others.map(name))}</span>
+        <span className="trade-inbox-status">
+          {trade.acceptedBy.includes(mySessionId)
+            ? `Waiting for ${joinNames(waitingFor.map(name))}`
+            : trade.isCounterOffer
+            ? `Counter-offer from ${name(trade.fromSessionId)}`
+            : `Offer from ${name(trade.fromSessionId)}`}
+        </span>
+      </button>
+    );
+  };
+
   return (
-    <div className="trade-overlay">
+    <div className="trade-overlay" onClick={onClose}>
       <div className="trade-modal" onClick={(e) => e.stopPropagation()}>
         <div className="trade-header">
-          <h2 className="trade-title">
-            {activeTrade.isCounterOffer
-              ? `Counter-Offer to ${targetPlayer.displayName}`
-              : `Trade with ${targetPlayer.displayName}`}
-          </h2>
-          {activeTrade.counterOfferCount > 0 && (
-            <span className="trade-counter-badge">
-              {activeTrade.counterOfferCount}/{MAX_COUNTER_OFFERS}
-            </span>
-          )}
-        </div>
-
-        <TradeSummary
-          gameState={gameState}
-          trade={activeTrade}
-          perspective="proposer"
-        />
-
-        <div className="trade-waiting">
-          <p className="trade-waiting-text">
-            Waiting for {targetPlayer.displayName} to respond
-            <span className="trade-waiting-dots">
-              <span />
-              <span />
-              <span />
-            </span>
-          </p>
-        </div>
-
-        <div className="trade-actions">
-          <button
-            className="trade-btn trade-btn-cancel"
-            onClick={onCancelTrade}
-          >
-            Cancel Offer
+          <h2 className="trade-title">Trade Offers</h2>
+          <button className="trade-close" onClick={onClose}>
+            ✕
           </button>
         </div>
+
+        {myTrades.length === 0 && (
+          <div className="trade-inbox-empty">
+            No open offers. Use the Trade button next to a player to start one.
+          </div>
+        )}
+        {incoming.length > 0 && (
+          <div className="trade-inbox-section">
+            <span className="trade-props-label">Waiting for you</span>
+            {incoming.map(renderRow)}
+          </div>
+        )}
+        {outgoing.length > 0 && (
+          <div className="trade-inbox-section">
+            <span className="trade-props-label">Waiting for others</span>
+            {outgoing.map(renderRow)}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-/** Reusable trade editor (used in both propose and counter-offer modes) */
+/**
+ * Trade editor (used in both propose and counter-offer modes): a pair of
+ * columns for every two participants, one per direction.
+ */
 const TradeEditor: React.FC<{
-  myPlayer: PlayerState;
-  targetPlayer: PlayerState;
-  myTradeableProps: BoardSpaceState[];
-  targetTradeableProps: BoardSpaceState[];
-  selectedOffer: Set<number>;
-  selectedRequest: Set<number>;
-  offeredCoins: string;
-  requestedCoins: string;
-  onToggleOffer: (idx: number) => void;
-  onToggleRequest: (idx: number) => void;
-  onSetOfferedCoins: (val: string) => void;
-  onSetRequestedCoins: (val: string) => void;
+  gameState: GameStateSnapshot;
+  mySessionId: string;
+  participants: string[];
+  legs: TradeLegState[];
+  onSetLeg: (
+    fromSessionId: string,
+    toSessionId: string,
+    update: (leg: TradeLegState) => TradeLegState
+  ) => void;
+}> = ({ gameState, mySessionId, participants, legs, onSetLeg }) => {
+  // Who owns each property once every leg goes through
+  const ownerAfterTrade = useMemo(() => {
+    const owners = new Map<number, string>();
+    for (const space of gameState.boardSpaces) owners.set(space.index, space.ownerId);
+    for (const leg of legs) {
+      for (const idx of leg.properties) owners.set(idx, leg.toSessionId);
+    }
+    return owners;
+  }, [gameState.boardSpaces, legs]);
+
+  const pairs: [string, string][] = [];
+  participants.forEach((a, i) => {
+    for (const b of participants.slice(i + 1)) pairs.push([a, b]);
+  });
+
+  const renderColumn = (from: string, to: string, title: string, className: string) => {
+    const giver = gameState.players.get(from);
+    if (!giver) return null;
+    const leg =
+      legs.find((l) => l.fromSessionId === from && l.toSessionId === to) ?? emptyLeg(from, to);
+
+    // What the giver already hands to other participants can't be given twice
+    const otherLegs = legs.filter((l) => l.fromSessionId === from && l.toSessionId !== to);
+    const givenElsewhere = new Set(otherLegs.flatMap((l) => l.properties));
+    const coinsElsewhere = otherLegs.reduce((sum, l) => sum + l.coins, 0);
+    const cardsElsewhere = otherLegs.reduce((sum, l) => sum + l.jailCards, 0);
+
+    // Rent deals can only be on properties the giver will still own after the trade
+    const dealSpaces = gameState.boardSpaces.filter(
+      (s) => isOwnableSpace(s.spaceType) && ownerAfterTrade.get(s.index) === from
+    );
+    const immunities = leg.immunities.filter((d) =>
+      dealSpaces.some((s) => s.index === d.spaceIndex)
+    );
+
+    return (
+      <TradeColumn
+        board={gameState.board}
+        title={title}
+        className={className}
+        giver={giver}
+        properties={getTradeableProperties(gameState.boardSpaces, from).filter(
+          (s) => !givenElsewhere.has(s.index)
+        )}
+        leg={{ ...leg, immunities }}
+        maxCoins={Math.max(0, giver.coins - coinsElsewhere)}
+        maxJailCards={Math.max(0, giver.jailFreeCards - cardsElsewhere)}
+        dealSpaces={dealSpaces}
+        dealLabel={to === mySessionId ? "No rent for you on" : "No rent for them on"}
+        onChange={(update) => onSetLeg(from, to, (l) => update({ ...l, immunities }))}
+      />
+    );
+  };
+
+  return (
+    <>
+      {pairs.map(([a, b]) => {
+        // Keep the local player on the left, as in a two-way trade
+        const [left, right] = b === mySessionId ? [b, a] : [a, b];
+        const leftName = gameState.players.get(left)?.displayName ?? "Someone";
+        const rightName = gameState.players.get(right)?.displayName ?? "Someone";
+        const withMe = left === mySessionId;
+        return (
+          <div key={`${a}-${b}`} className="trade-pair">
+            {pairs.length > 1 && (
+              <div className="trade-pair-title">
+                {withMe ? "You" : leftName} ⇄ {rightName}
+              </div>
+            )}
+            <div className="trade-columns">
+              {renderColumn(
+                left,
+                right,
+                withMe ? "You Offer" : `${leftName} gives`,
+                "trade-column-offer"
+              )}
+              {renderColumn(
+                right,
+                left,
+                withMe ? "You Request" : `${rightName} gives`,
+                "trade-column-request"
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+/** One direction of a trade: what the giver hands the other side */
+const TradeColumn: React.FC<{
+  board: BoardLayoutState;
+  title: string;
+  className: string;
+  giver: PlayerState;
+  properties: BoardSpaceState[];
+  leg: TradeLegState;
+  maxCoins: number;
+  maxJailCards: number;
+  dealSpaces: BoardSpaceState[];
+  dealLabel: string;
+  onChange: (update: (leg: TradeLegState) => TradeLegState) => void;
 }> = ({
-  myPlayer,
-  targetPlayer,
-  myTradeableProps,
-  targetTradeableProps,
-  selectedOffer,
-  selectedRequest,
-  offeredCoins,
-  requestedCoins,
-  onToggleOffer,
-  onToggleRequest,
-  onSetOfferedCoins,
-  onSetRequestedCoins,
+  board,
+  title,
+  className,
+  giver,
+  properties,
+  leg,
+  maxCoins,
+  maxJailCards,
+  dealSpaces,
+  dealLabel,
+  onChange,
 }) => {
+  const toggleProperty = (idx: number) => {
+    onChange((l) => ({
+      ...l,
+      properties: l.properties.includes(idx)
+        ? l.properties.filter((p) => p !== idx)
+        : [...l.properties, idx],
+    }));
+  };
+
   return (
-    <div className="trade-columns">
-      {/* You Offer */}
-      <div className="trade-column trade-column-offer">
-        <div className="trade-column-title">You Offer</div>
-
-        <span className="trade-props-label">Properties</span>
-        <div className="trade-props-list">
-          {myTradeableProps.length === 0 ? (
-            <span className="trade-no-props">No tradeable properties</span>
-          ) : (
-            myTradeableProps.map((space) => (
-              <div
-                key={space.index}
-                className={`trade-prop-chip ${
-                  selectedOffer.has(space.index)
-                    ? "trade-prop-chip-selected"
-                    : ""
-                }`}
-                style={{
-                  borderLeftColor:
-                    DISTRICT_COLORS[space.district] || "#555",
-                }}
-                onClick={() => onToggleOffer(space.index)}
-              >
-                <span className="trade-prop-name">{space.name}</span>
-                <span className="trade-prop-price">
-                  {space.price}
-                </span>
-                {selectedOffer.has(space.index) && (
-                  <span className="trade-prop-check">✓</span>
-                )}
-              </div>
-            ))
-          )}
-        </div>
+    <div className={`trade-column ${className}`}>
+      <div className="trade-column-title">{title}</div>
+
+      <span className="trade-props-label">Properties</span>
+      <div className="trade-props-list">
+        {properties.length === 0 ? (
+          <span className="trade-no-props">No tradeable properties</span>
+        ) : (
+          properties.map((space) => (
+            <div
+              key={space.index}
+              className={`trade-prop-chip ${
+                leg.properties.includes(space.index)
+                  ? "trade-prop-chip-selected"
+                  : ""
+              }`}
+              style={{
+                borderLeftColor:
+                  getDistrictColor(board, space.district) || "#555",
+              }}
+              onClick={() => toggleProperty(space.index)}
+            >
+              <span className="trade-prop-name">{space.name}</span>
+              <span className="trade-prop-price">
+                {space.price}
+              </span>
+              {leg.properties.includes(space.index) && (
+                <span className="trade-prop-check">✓</span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
 
-        <div className="trade-coins-section">
-          <span className="trade-coins-icon">🪙</span>
-          <input
-            type="number"
-            className="trade-coins-input"
-            placeholder="0"
-            min="0"
-            max={myPlayer.coins}
-            value={offeredCoins}
-            onChange={(e) => onSetOfferedCoins(e.target.value)}
-          />
-          <span className="trade-coins-label">
-            / {myPlayer.coins}
-          </span>
-        </div>
+      <div className="trade-coins-section">
+        <span className="trade-coins-icon">🪙</span>
+        <input
+          type="number"
+          className="trade-coins-input"
+          placeholder="0"
+          min="0"
+          max={maxCoins}
+          value={leg.coins > 0 ? leg.coins : ""}
+          onChange={(e) => {
+            const coins = Math.max(0, Math.floor(Number(e.target.value) || 0));
+            onChange((l) => ({ ...l, coins }));
+          }}
+        />
+        <span className="trade-coins-label">
+          / {giver.coins}
+        </span>
       </div>
 
-      {/* You Request */}
-      <div className="trade-column trade-column-request">
-        <div className="trade-column-title">You Request</div>
-
-        <span className="trade-props-label">Properties</span>
-        <div className="trade-props-list">
-          {targetTradeableProps.length === 0 ? (
-            <span className="trade-no-props">No tradeable properties</span>
-          ) : (
-            targetTradeableProps.map((space) => (
-              <div
-                key={space.index}
-                className={`trade-prop-chip ${
-                  selectedRequest.has(space.index)
-                    ? "trade-prop-chip-selected"
-                    : ""
-                }`}
-                style={{
-                  borderLeftColor:
-                    DISTRICT_COLORS[space.district] || "#555",
-                }}
-                onClick={() => onToggleRequest(space.index)}
-              >
-                <span className="trade-prop-name">{space.name}</span>
-                <span className="trade-prop-price">
-                  {space.price}
-                </span>
-                {selectedRequest.has(space.index) && (
-                  <span className="trade-prop-check">✓</span>
-                )}
-              </div>
-            ))
-          )}
-        </div>
+      <JailCardStepper
+        count={leg.jailCards}
+        max={maxJailCards}
+        onChange={(jailCards) => onChange((l) => ({ ...l, jailCards }))}
+      />
+
+      <RentDealPicker
+        label={dealLabel}
+        spaces={dealSpaces}
+        deals={leg.immunities}
+        onChange={(immunities) => onChange((l) => ({ ...l, immunities }))}
+      />
+    </div>
+  );
+};
 
-        <div className="trade-coins-section">
-          <span className="trade-coins-icon">🪙</span>
-          <input
-            type="number"
-            className="trade-coins-input"
-            placeholder="0"
-            min="0"
-            max={targetPlayer.coins}
-            value={requestedCoins}
-            onChange={(e) => onSetRequestedCoins(e.target.value)}
-          />
-          <span className="trade-coins-label">
-            / {targetPlayer.coins}
-          </span>
-        </div>
-      </div>
+/** Picks how many Get Out of Jail Free cards go to the other side */
+const JailCardStepper: React.FC<{
+  count: number;
+  max: number;
+  onChange: (val: number) => void;
+}> = ({ count, max, onChange }) => {
+  if (max === 0 && count === 0) return null;
+
+  return (
+    <div className="trade-jail-section">
+      <span className="trade-coins-icon">🎟️</span>
+      <span className="trade-jail-label">Jail cards</span>
+      <button
+        className="trade-stepper-btn"
+        disabled={count <= 0}
+        onClick={() => onChange(count - 1)}
+      >
+        −
+      </button>
+      <span className="trade-jail-count">{count}</span>
+      <button
+        className="trade-stepper-btn"
+        disabled={count >= max}
+        onClick={() => onChange(count + 1)}
+      >
+        +
+      </button>
+      <span className="trade-coins-label">/ {max}</span>
     </div>
   );
 };
 
-/** Renders a read-only summary of a trade offer */
+/** Adds and edits rent-immunity deals on one side's properties */
+const RentDealPicker: React.FC<{
+  label: string;
+  spaces: BoardSpaceState[];
+  deals: ImmunityClauseState[];
+  onChange: (deals: ImmunityClauseState[]) => void;
+}> = ({ label, spaces, deals, onChange }) => {
+  const available = spaces.filter((s) => !deals.some((d) => d.spaceIndex === s.index));
+
+  const setTurns = (spaceIndex: number, turns: number) => {
+    const clamped = Math.max(1, Math.min(MAX_IMMUNITY_TURNS, Math.floor(turns) || 1));
+    onChange(deals.map((d) => (d.spaceIndex === spaceIndex ? { ...d, turns: clamped } : d)));
+  };
+
+  return (
+    <div className="trade-deals-section">
+      <span className="trade-props-label">🛡️ {label}</span>
+      {deals.map((deal) => {
+        const space = spaces.find((s) => s.index === deal.spaceIndex);
+        if (!space) return null;
+        return (
+          <div key={deal.spaceIndex} className="trade-deal-row">
+            <span className="trade-prop-name">{space.name}</span>
+            <input
+              type="number"
+              className="trade-deal-turns"
+              min="1"
+              max={MAX_IMMUNITY_TURNS}
+              value={deal.turns}
+              onChange={(e) => setTurns(deal.spaceIndex, Number(e.target.value))}
+            />
+            <span className="trade-coins-label">turns</span>
+            <button
+              className="trade-stepper-btn"
+              onClick={() => onChange(deals.filter((d) => d.spaceIndex !== deal.spaceIndex))}
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+      {available.length > 0 && (
+        <select
+          className="trade-deal-select"
+          value=""
+          onChange={(e) =>
+            onChange([...deals, { spaceIndex: Number(e.target.value), turns: DEFAULT_IMMUNITY_TURNS }])
+          }
+        >
+          <option value="" disabled>
+            + Add rent deal
+          </option>
+          {available.map((space) => (
+            <option key={space.index} value={space.index}>
+              {space.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+/** "You give Bob", "Bob gives you" or "Bob gives Carol" */
+function describeLeg(
+  gameState: GameStateSnapshot,
+  leg: { fromSessionId: string; toSessionId: string },
+  mySessionId: string
+): string {
+  const name = (id: string) => gameState.players.get(id)?.displayName ?? "Someone";
+  if (leg.fromSessionId === mySessionId) return `You give ${name(leg.toSessionId)}`;
+  if (leg.toSessionId === mySessionId) return `${name(leg.fromSessionId)} gives you`;
+  return `${name(leg.fromSessionId)} gives ${name(leg.toSessionId)}`;
+}
+
+/** Renders a read-only summary of a trade offer, one section per leg */
 const TradeSummary: React.FC<{
   gameState: GameStateSnapshot;
   trade: TradeOfferState;
-  perspective: "proposer" | "recipient";
-}> = ({ gameState, trade, perspective }) => {
-  const fromPlayer = gameState.players.get(trade.fromSessionId);
-  const toPlayer = gameState.players.get(trade.toSessionId);
-
-  // From proposer's perspective: "gives" = offeredProperties, "wants" = requestedProperties
-  // From recipient's perspective: "gives" = requestedProperties (what they give), "wants" = offeredProperties (what they get)
-  const givesLabel =
-    perspective === "proposer"
-      ? `${fromPlayer?.displayName} gives`
-      : `You give`;
-  const wantsLabel =
-    perspective === "proposer"
-      ? `${fromPlayer?.displayName} wants`
-      : `You receive`;
-
-  const givesProps =
-    perspective === "proposer"
-      ? trade.offeredProperties
-      : trade.requestedProperties;
-  const givesCoins =
-    perspective === "proposer" ? trade.offeredCoins : trade.requestedCoins;
-  const wantsProps =
-    perspective === "proposer"
-      ? trade.requestedProperties
-      : trade.offeredProperties;
-  const wantsCoins =
-    perspective === "proposer" ? trade.requestedCoins : trade.offeredCoins;
+  mySessionId: string;
+}> = ({ gameState, trade, mySessionId }) => {
+  // What you give first, then what you receive, then everyone else's legs
+  const rank = (leg: TradeLegState) =>
+    leg.fromSessionId === mySessionId ? 0 : leg.toSessionId === mySessionId ? 1 : 2;
+  const legs = [...trade.legs].sort((a, b) => rank(a) - rank(b));
 
   return (
     <div className="trade-summary">
-      <div className="trade-summary-section trade-summary-gives">
-        <div className="trade-summary-title">{givesLabel}</div>
-        <div className="trade-summary-items">
-          {givesProps.map((idx) => {
-            const space = gameState.boardSpaces[idx];
-            if (!space) return null;
-            return (
-              <div key={idx} className="trade-summary-item">
-                <span
-                  className="trade-summary-item-dot"
-                  style={{
-                    backgroundColor:
-                      DISTRICT_COLORS[space.district] || "#555",
-                  }}
-                />
-                {space.name}
+      {legs.map((leg) => (
+        <div
+          key={`${leg.fromSessionId}-${leg.toSessionId}`}
+          className={`trade-summary-section ${
+            leg.fromSessionId === mySessionId ? "trade-summary-gives" : "trade-summary-wants"
+          }`}
+        >
+          <div className="trade-summary-title">{describeLeg(gameState, leg, mySessionId)}</div>
+          <div className="trade-summary-items">
+            {leg.properties.map((idx) => {
+              const space = gameState.boardSpaces[idx];
+              if (!space) return null;
+              return (
+                <div key={idx} className="trade-summary-item">
+                  <span
+                    className="trade-summary-item-dot"
+                    style={{
+                      backgroundColor:
+                        getDistrictColor(gameState.board, space.district) || "#555",
+                    }}
+                  />
+                  {space.name}
+                </div>
+              );
+            })}
+            {leg.coins > 0 && (
+              <div className="trade-summary-item">
+                <span className="trade-summary-coins">🪙 {leg.coins} coins</span>
               </div>
-            );
-          })}
-          {givesCoins > 0 && (
-            <div className="trade-summary-item">
-              <span className="trade-summary-coins">🪙 {givesCoins} coins</span>
-            </div>
-          )}
-          {givesProps.length === 0 && givesCoins === 0 && (
-            <span className="trade-summary-empty">Nothing</span>
-          )}
-        </div>
-      </div>
-
-      <div className="trade-summary-section trade-summary-wants">
-        <div className="trade-summary-title">{wantsLabel}</div>
-        <div className="trade-summary-items">
-          {wantsProps.map((idx) => {
-            const space = gameState.boardSpaces[idx];
-            if (!space) return null;
-            return (
-              <div key={idx} className="trade-summary-item">
-                <span
-                  className="trade-summary-item-dot"
-                  style={{
-                    backgroundColor:
-                      DISTRICT_COLORS[space.district] || "#555",
-                  }}
-                />
-                {space.name}
+            )}
+            {leg.jailCards > 0 && (
+              <div className="trade-summary-item">
+                🎟️ {formatJailCards(leg.jailCards)}
               </div>
-            );
-          })}
-          {wantsCoins > 0 && (
-            <div className="trade-summary-item">
-              <span className="trade-summary-coins">🪙 {wantsCoins} coins</span>
-            </div>
-          )}
-          {wantsProps.length === 0 && wantsCoins === 0 && (
-            <span className="trade-summary-empty">Nothing</span>
-          )}
+            )}
+            {leg.immunities.map((deal) => (
+              <div key={`deal-${deal.spaceIndex}`} className="trade-summary-item">
+                {formatRentDeal(gameState, deal)}
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
+      ))}
     </div>
   );
 };
 
-/** Shows what changed between the previous offer and the current counter-offer */
-const TradeDiff: React.FC<{
-  gameState: GameStateSnapshot;
-  trade: TradeOfferState;
-}> = ({ gameState, trade }) => {
-  // The previous offer was from a DIFFERENT player's perspective (the old "from").
-  // Current offer is from the counter-offerer's perspective (new "from" = current fromSessionId).
-  // After the swap:
-  //   - trade.fromSessionId is the counter-offerer (was the old "to")
-  //   - trade.toSessionId is the original proposer (was the old "from")
-  //
-  // Previous terms (stored from OLD from's perspective):
-  //   prevOffered = what old-from was giving (= what current-from was receiving)
-  //   prevRequested = what old-from wanted (= what current-from was giving)
-  //
-  // Current terms (from NEW from's perspective = counter-offerer):
-  //   offered = what counter-offerer gives
-  //   requested = what counter-offerer wants
-  //
-  // So to compare from the recipient's (current toSessionId = old from) viewpoint:
-  //   Previous: they gave prevOffered, they got prevRequested
-  //   Current:  they give trade.requested, they get trade.offered
-  //
-  // Changes to highlight:
-  //   - Properties/coins added or removed from each side
+function formatJailCards(count: number): string {
+  return `${count} Get Out of Jail Free card${count === 1 ? "" : "s"}`;
+}
 
-  const changes: string[] = [];
+function formatRentDeal(gameState: GameStateSnapshot, deal: ImmunityClauseState): string {
+  const name = gameState.boardSpaces[deal.spaceIndex]?.name ?? "a property";
+  return `🛡️ No rent on ${name} for ${deal.turns} turn${deal.turns === 1 ? "" : "s"}`;
+}
 
-  // Compare what the current toSessionId (original proposer) gives now vs before
-  // Before: prevOfferedProperties (old from = current to gave these)
-  // Now: trade.requestedProperties (current from requests these from current to)
-  const prevToGives = new Set(trade.prevOfferedProperties);
-  const nowToGives = new Set(trade.requestedProperties);
+/** Describes what changed in one leg between the previous offer and the counter-offer */
+function diffLeg(
+  gameState: GameStateSnapshot,
+  prev: TradeLegState,
+  now: TradeLegState,
+  side: string
+): string[] {
+  const changes: string[] = [];
+  const spaceName = (idx: number) => gameState.boardSpaces[idx]?.name ?? "a property";
 
-  for (const idx of nowToGives) {
-    if (!prevToGives.has(idx)) {
-      const space = gameState.boardSpaces[idx];
-      if (space) changes.push(`+ Added ${space.name} to your side`);
-    }
+  for (const idx of now.properties) {
+    if (!prev.properties.includes(idx)) changes.push(`+ ${side}: ${spaceName(idx)}`);
   }
-  for (const idx of prevToGives) {
-    if (!nowToGives.has(idx)) {
-      const space = gameState.boardSpaces[idx];
-      if (space) changes.push(`- Removed ${space.name} from your side`);
-    }
+  for (const idx of prev.properties) {
+    if (!now.properties.includes(idx)) changes.push(`- ${side}: no longer ${spaceName(idx)}`);
   }
 
-  // Compare what current toSessionId receives now vs before
-  // Before: prevRequestedProperties (old from requested these = old to gave these... wait)
-  // Actually: prevRequested = what old-from wanted from old-to
-  // old-to = current-from (counter-offerer)
-  // So prevRequested = what counter-offerer WAS being asked to give
-  // Now: trade.offeredProperties = what counter-offerer IS giving
-  const prevFromGives = new Set(trade.prevRequestedProperties);
-  const nowFromGives = new Set(trade.offeredProperties);
-
-  for (const idx of nowFromGives) {
-    if (!prevFromGives.has(idx)) {
-      const space = gameState.boardSpaces[idx];
-      if (space) changes.push(`+ Added ${space.name} to their side`);
-    }
+  const coinDiff = now.coins - prev.coins;
+  if (coinDiff > 0) changes.push(`+ ${side}: ${coinDiff} more coins`);
+  if (coinDiff < 0) changes.push(`- ${side}: ${-coinDiff} fewer coins`);
+
+  const cardDiff = now.jailCards - prev.jailCards;
+  if (cardDiff > 0) changes.push(`+ ${side}: ${cardDiff} more jail card${cardDiff === 1 ? "" : "s"}`);
+  if (cardDiff < 0) changes.push(`- ${side}: ${-cardDiff} fewer jail card${cardDiff === -1 ? "" : "s"}`);
+
+  for (const deal of now.immunities) {
+    const name = spaceName(deal.spaceIndex);
+    const before = prev.immunities.find((d) => d.spaceIndex === deal.spaceIndex);
+    if (!before) changes.push(`+ ${side}: a ${deal.turns}-turn rent deal on ${name}`);
+    else if (before.turns < deal.turns) changes.push(`+ Rent deal on ${name} extended to ${deal.turns} turns`);
+    else if (before.turns > deal.turns) changes.push(`- Rent deal on ${name} cut to ${deal.turns} turns`);
   }
-  for (const idx of prevFromGives) {
-    if (!nowFromGives.has(idx)) {
-      const space = gameState.boardSpaces[idx];
-      if (space) changes.push(`- Removed ${space.name} from their side`);
+  for (const deal of prev.immunities) {
+    if (!now.immunities.some((d) => d.spaceIndex === deal.spaceIndex)) {
+      changes.push(`- ${side}: no longer the rent deal on ${spaceName(deal.spaceIndex)}`);
     }
   }
+  return changes;
+}
 
-  // Compare coins
-  // What current to gives in coins:
-  // Before: prevOfferedCoins (old from offered these coins)
-  // Now: trade.requestedCoins (counter-offerer requests these from current to)
-  if (trade.requestedCoins !== trade.prevOfferedCoins) {
-    const diff = trade.requestedCoins - trade.prevOfferedCoins;
-    if (diff > 0) {
-      changes.push(`+ You give ${diff} more coins`);
-    } else {
-      changes.push(`- You give ${Math.abs(diff)} fewer coins`);
-    }
+/** Shows what changed between the previous offer and the current counter-offer */
+const TradeDiff: React.FC<{
+  gameState: GameStateSnapshot;
+  trade: TradeOfferState;
+  mySessionId: string;
+}> = ({ gameState, trade, mySessionId }) => {
+  // Compare leg by leg; a leg missing from either version counts as empty
+  const directions = new Map<string, { fromSessionId: string; toSessionId: string }>();
+  for (const leg of [...trade.prevLegs, ...trade.legs]) {
+    directions.set(`${leg.fromSessionId}>${leg.toSessionId}`, leg);
   }
 
-  // What current to receives in coins:
-  // Before: prevRequestedCoins
-  // Now: trade.offeredCoins
-  if (trade.offeredCoins !== trade.prevRequestedCoins) {
-    const diff = trade.offeredCoins - trade.prevRequestedCoins;
-    if (diff > 0) {
-      changes.push(`+ You receive ${diff} more coins`);
-    } else {
-      changes.push(`- You receive ${Math.abs(diff)} fewer coins`);
-    }
+  const find = (legs: TradeLegState[], from: string, to: string) =>
+    legs.find((l) => l.fromSessionId === from && l.toSessionId === to) ?? emptyLeg(from, to);
+
+  const changes: string[] = [];
+  for (const { fromSessionId, toSessionId } of directions.values()) {
+    changes.push(
+      ...diffLeg(
+        gameState,
+        find(trade.prevLegs, fromSessionId, toSessionId),
+        find(trade.legs, fromSessionId, toSessionId),
+        describeLeg(gameState, { fromSessionId, toSessionId }, mySessionId)
+      )
+    );
   }
 
   if (changes.length === 0) return null;
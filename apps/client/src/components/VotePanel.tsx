@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from "react";
+import { GameStateSnapshot } from "../hooks/useGameState";
+import "../styles/votes.css";
+
+interface VotePanelProps {
+  gameState: GameStateSnapshot;
+  mySessionId: string;
+  isSpectator?: boolean;
+  onResume: () => void;
+  onCastVote: (inFavor: boolean) => void;
+}
+
+/** The pause banner and the open vote, with its tally and clock */
+export const VotePanel: React.FC<VotePanelProps> = ({
+  gameState,
+  mySessionId,
+  isSpectator,
+  onResume,
+  onCastVote,
+}) => {
+  const vote = gameState.activeVote;
+  const [timeLeftMs, setTimeLeftMs] = useState(0);
+
+  useEffect(() => {
+    if (vote.status !== "active") return;
+
+    const updateTimer = () => setTimeLeftMs(Math.max(0, vote.deadline - Date.now()));
+    updateTimer();
+    const interval = setInterval(updateTimer, 250);
+    return () => clearInterval(interval);
+  }, [vote.deadline, vote.status]);
+
+  const isHost = gameState.hostSessionId === mySessionId;
+  const proposer = gameState.players.get(vote.proposerSessionId);
+  const target = gameState.players.get(vote.targetSessionId);
+
+  // Same electorate as the server: connected people still in the game, minus the kick target
+  const voters = Array.from(gameState.players.values()).filter(
+    (p) => p.isActive && !p.isBankrupt && !p.isBot && !p.isDisconnected && p.sessionId !== vote.targetSessionId
+  );
+  const canVote = !isSpectator && voters.some((p) => p.sessionId === mySessionId);
+  const myVote = vote.yes.includes(mySessionId) ? "yes" : vote.no.includes(mySessionId) ? "no" : null;
+  const needed = Math.floor(voters.length / 2) + 1;
+
+  return (
+    <>
+      {gameState.paused && (
+        <div className="pause-banner">
+          <span className="pause-banner-text">⏸️ The host has paused the game</span>
+          {isHost && (
+            <button className="pause-banner-btn" onClick={onResume}>
+              Resume
+            </button>
+          )}
+        </div>
+      )}
+
+      {vote.status === "active" && (
+        <div className="vote-panel">
+          <div className="vote-panel-title">
+            🗳️{" "}
+            {vote.kind === "kick"
+              ? `Kick ${target?.displayName ?? "a player"} for being AFK?`
+              : "End the game now and score by net worth?"}
+          </div>
+          <div className="vote-panel-meta">
+            Called by {proposer?.displayName ?? "someone"} · {needed} of {voters.length} needed ·{" "}
+            {Math.ceil(timeLeftMs / 1000)}s
+          </div>
+
+          <div className="vote-panel-tally">
+            <span className="vote-tally-yes">Yes {vote.yes.length}</span>
+            <span className="vote-tally-no">No {vote.no.length}</span>
+          </div>
+
+          {canVote && (
+            <div className="vote-panel-buttons">
+              <button
+                className={`vote-btn vote-btn-yes ${myVote === "yes" ? "chosen" : ""}`}
+                onClick={() => onCastVote(true)}
+              >
+                Yes
+              </button>
+              <button
+                className={`vote-btn vote-btn-no ${myVote === "no" ? "chosen" : ""}`}
+                onClick={() => onCastVote(false)}
+              >
+                No
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+interface VoteMenuProps {
+  gameState: GameStateSnapshot;
+  mySessionId: string;
+  onPause: () => void;
+  onStartVote: (kind: string, targetSessionId?: string) => void;
+}
+
+/** Controls-bar buttons: the host's pause, and a menu for calling a vote */
+export const VoteMenu: React.FC<VoteMenuProps> = ({ gameState, mySessionId, onPause, onStartVote }) => {
+  const [open, setOpen] = useState(false);
+
+  const isHost = gameState.hostSessionId === mySessionId;
+  const me = gameState.players.get(mySessionId);
+  const canCallVote = !!me && me.isActive && !me.isBankrupt && gameState.activeVote.status !== "active";
+  // Only someone who has disconnected or let their turn time out can be voted out
+  const kickable = Array.from(gameState.players.values())
+    .filter((p) => p.isActive && !p.isBankrupt && !p.isBot && (p.isDisconnected || p.timedOut) && p.sessionId !== mySessionId)
+    .sort((a, b) => a.playerIndex - b.playerIndex);
+
+  const startVote = (kind: string, targetSessionId?: string) => {
+    onStartVote(kind, targetSessionId);
+    setOpen(false);
+  };
+
+  return (
+    <div className="vote-menu">
+      {isHost && !gameState.paused && (
+        <button className="controls-btn controls-btn-pause" onClick={onPause}>
+          Pause
+        </button>
+      )}
+      <button
+        className="controls-btn controls-btn-vote"
+        onClick={() => setOpen(!open)}
+        disabled={!canCallVote}
+      >
+        Vote
+      </button>
+
+      {open && canCallVote && (
+        <div className="vote-menu-list">
+          <button className="vote-menu-item" onClick={() => startVote("end_game")}>
+            End game now
+          </button>
+          {kickable.map((p) => (
+            <button key={p.sessionId} className="vote-menu-item" onClick={() => startVote("kick", p.sessionId)}>
+              Kick {p.displayName} (AFK)
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
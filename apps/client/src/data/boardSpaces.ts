@@ -1,13 +1,4 @@
-// District colors matching server config
-export const DISTRICT_COLORS: Record<string, string> = {
-  Suburbs: "#8B4513",
-  "Arts District": "#87CEEB",
-  University: "#FFA500",
-  Waterfront: "#FF0000",
-  Financial: "#FFD700",
-  Uptown: "#228B22",
-  "Luxury Row": "#0000CD",
-};
+import { BoardLayoutState, CityModifierState } from "../hooks/useGameState";
 
 // Player token colors
 export const PLAYER_COLORS = [
@@ -19,59 +10,92 @@ export const PLAYER_COLORS = [
   "#DDA0DD", // Plum
 ];
 
-// House cost per district
-export const HOUSE_COST: Record<string, number> = {
-  "Suburbs":       50,
-  "Arts District": 50,
-  "University":    100,
-  "Waterfront":    150,
-  "Financial":     150,
-  "Uptown":        200,
-  "Luxury Row":    200,
-};
+// Space types that can be bought, auctioned, mortgaged and traded
+const OWNABLE_SPACE_TYPES = ["property", "transit", "utility"];
 
-// Hotel cost per district
-export const HOTEL_COST: Record<string, number> = {
-  "Suburbs":       50,
-  "Arts District": 50,
-  "University":    100,
-  "Waterfront":    150,
-  "Financial":     150,
-  "Uptown":        200,
-  "Luxury Row":    200,
-};
+/**
+ * Check whether a space type can be owned by a player.
+ */
+export function isOwnableSpace(spaceType: string): boolean {
+  return OWNABLE_SPACE_TYPES.includes(spaceType);
+}
 
-// Property indices grouped by district
-export const DISTRICT_PROPERTIES: Record<string, number[]> = {
-  "Suburbs":       [1, 3],
-  "Arts District": [5, 6, 8],
-  "University":    [12, 13, 15],
-  "Waterfront":    [16, 17, 19],
-  "Financial":     [20, 22, 23],
-  "Uptown":        [24, 25],
-  "Luxury Row":    [27],
-};
+/**
+ * Count how many transit stations a player owns.
+ */
+export function countOwnedTransit(
+  boardSpaces: { spaceType: string; ownerId: string }[],
+  sessionId: string
+): number {
+  return boardSpaces.filter((s) => s.spaceType === "transit" && s.ownerId === sessionId).length;
+}
 
-// Rent scales per property index: [base, 1house, 2houses, 3houses, 4houses, hotel]
-export const RENT_SCALES: Record<number, number[]> = {
-  1:  [10, 50, 150, 450, 625, 750],     // Maple Lane Duplex
-  3:  [14, 70, 200, 550, 750, 950],     // Oak Street Cottage
-  5:  [18, 90, 250, 700, 875, 1050],    // Gallery Row Studio
-  6:  [22, 110, 330, 800, 975, 1150],   // Pottery Lane Shop
-  8:  [26, 130, 390, 900, 1100, 1300],  // Mural Alley Cafe
-  12: [34, 170, 500, 1100, 1300, 1500], // Campus Bookstore
-  13: [38, 190, 550, 1200, 1400, 1600], // Lecture Hall Plaza
-  15: [42, 210, 600, 1300, 1500, 1700], // Dormitory Row
-  16: [50, 250, 720, 1500, 1700, 1900], // Harbor Fish Market
-  17: [54, 270, 780, 1600, 1800, 2000], // Pier 7 Restaurant
-  19: [58, 290, 840, 1700, 1900, 2100], // Lighthouse Marina
-  20: [66, 330, 960, 1900, 2100, 2300], // Stock Exchange
-  22: [70, 350, 1000, 2000, 2200, 2400], // Trade Tower
-  23: [74, 370, 1050, 2100, 2300, 2550], // Bank HQ
-  24: [78, 390, 1100, 2200, 2500, 2800], // Hilltop Estate
-  25: [82, 410, 1150, 2300, 2600, 2900], // Penthouse Terrace
-  27: [90, 450, 1250, 2500, 2800, 3200], // Grand Boulevard
-};
+/**
+ * Count how many utilities a player owns.
+ */
+export function countOwnedUtilities(
+  boardSpaces: { spaceType: string; ownerId: string }[],
+  sessionId: string
+): number {
+  return boardSpaces.filter((s) => s.spaceType === "utility" && s.ownerId === sessionId).length;
+}
+
+// ==================== Board Map Lookups ====================
+
+/**
+ * Get a district's color on the current board.
+ */
+export function getDistrictColor(board: BoardLayoutState, district: string): string | undefined {
+  return board.districts[district]?.color;
+}
+
+/**
+ * Get the cost of one house in a district on the current board.
+ */
+export function getHouseCost(board: BoardLayoutState, district: string): number {
+  return board.districts[district]?.houseCost || 100;
+}
+
+/**
+ * Get the cost of a hotel in a district on the current board.
+ */
+export function getHotelCost(board: BoardLayoutState, district: string): number {
+  return board.districts[district]?.hotelCost || 100;
+}
+
+/**
+ * Scale an amount by the city events aimed at it, the same way the server does.
+ * Rent and build events can be limited to a district or space type.
+ */
+export function applyCityModifiers(
+  cityModifiers: CityModifierState[],
+  target: string,
+  amount: number,
+  spaceType: string = "",
+  district: string = ""
+): number {
+  const multiplier = cityModifiers
+    .filter((m) => m.target === target)
+    .filter((m) => !m.district || m.district === district)
+    .filter((m) => !m.spaceType || m.spaceType === spaceType)
+    .reduce((total, m) => total * m.multiplier, 1);
+  return Math.round(amount * multiplier);
+}
+
+/**
+ * Get the board indices of every property in a district.
+ */
+export function getDistrictProperties(board: BoardLayoutState, district: string): number[] {
+  return board.districts[district]?.properties || [];
+}
+
+/**
+ * Label transit/utility rent rows by how many of them the owner holds,
+ * e.g. ["1 Station", "2 Stations", ...].
+ */
+export function getHoldingLabels(count: number, singular: string, plural: string): string[] {
+  return Array.from({ length: count }, (_, i) => `${i + 1} ${i === 0 ? singular : plural}`);
+}
 
 // Space type icons/labels
 export const SPACE_TYPE_LABELS: Record<string, string> = {
@@ -82,6 +106,9 @@ export const SPACE_TYPE_LABELS: Record<string, string> = {
   tax: "🏛️ Tax",
   community: "📦 Community Chest",
   chance: "❓ Chance",
+  cityEvents: "🏙️ City Events",
+  transit: "🚇 Transit",
+  utility: "⚡ Utility",
   property: "",
 };
 
@@ -89,18 +116,20 @@ export const SPACE_TYPE_LABELS: Record<string, string> = {
  * Get the board position layout.
  * Returns which spaces go on which side of the board.
  *
- * Board layout (7 per side):
+ * Each side holds `sideLength` spaces starting with its corner, e.g. for 7 per side:
  *   Top:    14, 15, 16, 17, 18, 19, 20  (left to right)
  *   Right:  21, 22, 23, 24, 25, 26, 27  (top to bottom)
  *   Bottom:  0,  1,  2,  3,  4,  5,  6  (right to left visually, but we reverse for display)
  *   Left:    7,  8,  9, 10, 11, 12, 13  (bottom to top)
  */
-export function getBoardLayout() {
+export function getBoardLayout(board: BoardLayoutState) {
+  const side = board.sideLength;
+  const range = (start: number) => Array.from({ length: side }, (_, i) => start + i);
   return {
-    bottom: [0, 1, 2, 3, 4, 5, 6], // Displayed right to left
-    left: [7, 8, 9, 10, 11, 12, 13], // Displayed bottom to top
-    top: [14, 15, 16, 17, 18, 19, 20], // Displayed left to right
-    right: [21, 22, 23, 24, 25, 26, 27], // Displayed top to bottom
+    bottom: range(0), // Displayed right to left
+    left: range(side), // Displayed bottom to top
+    top: range(side * 2), // Displayed left to right
+    right: range(side * 3), // Displayed top to bottom
   };
 }
 
@@ -109,16 +138,16 @@ export function getBoardLayout() {
 /**
  * Calculate the sell value for a house (50% of house cost).
  */
-export function getHouseSellValue(district: string): number {
-  const houseCost = HOUSE_COST[district] || 100;
+export function getHouseSellValue(board: BoardLayoutState, district: string): number {
+  const houseCost = getHouseCost(board, district);
   return Math.floor(houseCost / 2);
 }
 
 /**
  * Calculate the sell value for a hotel (50% of hotel cost).
  */
-export function getHotelSellValue(district: string): number {
-  const hotelCost = HOTEL_COST[district] || 100;
+export function getHotelSellValue(board: BoardLayoutState, district: string): number {
+  const hotelCost = getHotelCost(board, district);
   return Math.floor(hotelCost / 2);
 }
 
@@ -135,12 +164,13 @@ export interface BoardSpaceInfo {
  * Check if a player has a monopoly (owns all properties in a district).
  */
 export function playerHasMonopoly(
+  board: BoardLayoutState,
   boardSpaces: BoardSpaceInfo[],
   sessionId: string,
   district: string
 ): boolean {
-  const indices = DISTRICT_PROPERTIES[district];
-  if (!indices || indices.length === 0) return false;
+  const indices = getDistrictProperties(board, district);
+  if (indices.length === 0) return false;
   return indices.every((idx) => boardSpaces[idx]?.ownerId === sessionId);
 }
 
@@ -148,12 +178,13 @@ export function playerHasMonopoly(
  * Get all districts where the player has a monopoly.
  */
 export function getPlayerMonopolies(
+  board: BoardLayoutState,
   boardSpaces: BoardSpaceInfo[],
   sessionId: string
 ): string[] {
   const monopolies: string[] = [];
-  for (const district of Object.keys(DISTRICT_PROPERTIES)) {
-    if (playerHasMonopoly(boardSpaces, sessionId, district)) {
+  for (const district of Object.keys(board.districts)) {
+    if (playerHasMonopoly(board, boardSpaces, sessionId, district)) {
       monopolies.push(district);
     }
   }
@@ -166,14 +197,15 @@ export function getPlayerMonopolies(
  * and must follow even selling (can only sell from properties with MAX houses in district).
  */
 export function getSellableHouseProperties(
+  board: BoardLayoutState,
   boardSpaces: BoardSpaceInfo[],
   sessionId: string
 ): number[] {
-  const monopolies = getPlayerMonopolies(boardSpaces, sessionId);
+  const monopolies = getPlayerMonopolies(board, boardSpaces, sessionId);
   const sellable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
+    const indices = getDistrictProperties(board, district);
 
     // Get current house counts (hotels count as 5)
     const houseCounts = indices.map((idx) => {
@@ -204,14 +236,15 @@ export function getSellableHouseProperties(
  * and for even selling: can only sell if it's at the max level in the district.
  */
 export function getSellableHotelProperties(
+  board: BoardLayoutState,
   boardSpaces: BoardSpaceInfo[],
   sessionId: string
 ): number[] {
-  const monopolies = getPlayerMonopolies(boardSpaces, sessionId);
+  const monopolies = getPlayerMonopolies(board, boardSpaces, sessionId);
   const sellable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
+    const indices = getDistrictProperties(board, district);
 
     // Get current house counts (hotels count as 5)
     const houseCounts = indices.map((idx) => {
@@ -0,0 +1,45 @@
+import type { EventSound } from "../utils/sounds";
+
+export type EventToastType = "info" | "buy" | "rent" | "tax" | "payday" | "bankrupt" | "build" | "trade" | "card";
+
+export interface EventPresentation {
+  toast: EventToastType;
+  sound?: EventSound;
+}
+
+/**
+ * How each server game event is surfaced as a popup and sound.
+ * Events not listed here (dice rolls, moves, bids, turn changes) only appear in the game log.
+ */
+export const EVENT_PRESENTATION: Record<string, EventPresentation> = {
+  property_bought: { toast: "buy", sound: "coin" },
+  auction_won: { toast: "buy", sound: "coin" },
+  property_mortgaged: { toast: "buy" },
+  property_unmortgaged: { toast: "buy" },
+  rent_paid: { toast: "rent", sound: "pay" },
+  rent_waived: { toast: "rent" },
+  tax_paid: { toast: "tax", sound: "pay" },
+  payday_collected: { toast: "payday", sound: "coin" },
+  jackpot_collected: { toast: "payday", sound: "coin" },
+  house_built: { toast: "build", sound: "build" },
+  hotel_built: { toast: "build", sound: "build" },
+  house_sold: { toast: "build" },
+  hotel_sold: { toast: "build" },
+  trade_completed: { toast: "trade", sound: "chime" },
+  loan_issued: { toast: "trade", sound: "coin" },
+  loan_repaid: { toast: "info" },
+  loan_interest_charged: { toast: "tax", sound: "pay" },
+  card_drawn: { toast: "card", sound: "chime" },
+  held_card_played: { toast: "card", sound: "coin" },
+  city_event_started: { toast: "info", sound: "alert" },
+  city_event_ended: { toast: "info" },
+  game_paused: { toast: "info", sound: "alert" },
+  game_resumed: { toast: "info" },
+  vote_started: { toast: "info", sound: "alert" },
+  vote_closed: { toast: "info", sound: "chime" },
+  sent_to_jail: { toast: "info", sound: "alert" },
+  auction_started: { toast: "info" },
+  debt_negotiation_started: { toast: "bankrupt", sound: "alert" },
+  debt_paid: { toast: "info" },
+  player_bankrupt: { toast: "bankrupt", sound: "alert" },
+};
@@ -15,8 +15,10 @@ export interface DiscordUser {
 
 let currentUser: DiscordUser | null = null;
 let accessToken: string | null = null;
+let sessionToken: string | null = null;
 let authCode: string | null = null;
 let channelId: string | null = null;
+let guildId: string | null = null;
 
 /**
  * Initialize the Discord Embedded App SDK.
@@ -58,7 +60,8 @@ async function doInitDiscordSdk(): Promise<DiscordUser | null> {
     ]);
     isReady = true;
     channelId = discordSdk.channelId;
-    console.log("[Discord] SDK ready! channelId:", channelId);
+    guildId = discordSdk.guildId;
+    console.log("[Discord] SDK ready! channelId:", channelId, "guildId:", guildId);
 
     // Authorize with Discord
     console.log("[Discord] Requesting authorization...");
@@ -90,6 +93,7 @@ async function doInitDiscordSdk(): Promise<DiscordUser | null> {
         // Save module-level token IMMEDIATELY so getAccessToken() works
         // even if later steps fail
         if (access_token) accessToken = access_token;
+        sessionToken = data.session_token || null;
         user = data.user;
         console.log("[Discord] /api/token success:", user?.global_name || user?.username);
       } else {
@@ -114,10 +118,16 @@ async function doInitDiscordSdk(): Promise<DiscordUser | null> {
       const data = await tokenRes.json();
       access_token = data.access_token;
       if (access_token) accessToken = access_token;
+      sessionToken = data.session_token || null;
       user = data.user;
       console.log("[Discord] /colyseus/discord_token success:", user?.global_name || user?.username);
     }
 
+    // The Vite dev server's /api/token can't sign sessions: trade the access token for one
+    if (access_token && !sessionToken) {
+      sessionToken = await requestSessionToken(access_token);
+    }
+
     if (!access_token) {
       throw new Error("No access token received");
     }
@@ -174,6 +184,28 @@ async function doInitDiscordSdk(): Promise<DiscordUser | null> {
   }
 }
 
+/**
+ * Ask the game server for a session token in exchange for a Discord access token.
+ */
+async function requestSessionToken(token: string): Promise<string | null> {
+  try {
+    const res = await fetch("/colyseus/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ access_token: token }),
+    });
+    if (!res.ok) {
+      console.warn("[Discord] Session exchange failed:", res.status);
+      return null;
+    }
+    const data = await res.json();
+    return data.session_token || null;
+  } catch (e) {
+    console.warn("[Discord] Session exchange error:", e);
+    return null;
+  }
+}
+
 /**
  * Get the current Discord user.
  */
@@ -196,6 +228,21 @@ export function getAccessToken(): string | null {
   return accessToken;
 }
 
+/**
+ * Get the session token the game server signed for this user.
+ * Null in standalone mode or if the sign-in failed.
+ */
+export function getSessionToken(): string | null {
+  return sessionToken;
+}
+
+/**
+ * Headers that prove who we are to the game server's REST endpoints.
+ */
+export function authHeaders(): Record<string, string> {
+  return sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {};
+}
+
 /**
  * Get the Discord auth code for server-side token exchange.
  */
@@ -211,6 +258,14 @@ export function getChannelId(): string | null {
   return channelId;
 }
 
+/**
+ * Get the ID of the Discord server (guild) the Activity was launched in.
+ * Null in DMs, group calls and standalone mode. Used for per-server leaderboards.
+ */
+export function getGuildId(): string | null {
+  return guildId;
+}
+
 /**
  * Get the Discord avatar URL for a user.
  */
@@ -6,6 +6,7 @@ export interface PlayerState {
   discordUserId: string;
   displayName: string;
   avatarUrl: string;
+  isGuest: boolean;      // unverified local-dev player: nothing is saved for them
   position: number;
   coins: number;
   ownedProperties: number[];
@@ -14,9 +15,22 @@ export interface PlayerState {
   inJail: boolean;
   jailTurnsRemaining: number;
   jailFreeCards: number;
+  heldCards: HeldCardState[];
   doublesCount: number;
   playerIndex: number;
   pieceId: string;
+  isBot: boolean;
+  botDifficulty: string;
+  isDisconnected: boolean;
+  timedOut: boolean;
+  reconnectDeadline: number;
+}
+
+export interface HeldCardState {
+  id: string;
+  deck: string;          // "community" | "chance"
+  title: string;
+  description: string;
 }
 
 export interface BoardSpaceState {
@@ -26,27 +40,97 @@ export interface BoardSpaceState {
   district: string;
   price: number;
   rent: number;
+  rentScale: number[];
+  taxKind: string;
   ownerId: string;
   houses: number;
   hasHotel: boolean;
   isMortgaged: boolean;
 }
 
-export interface TradeOfferState {
-  status: string; // "none" | "pending"
+export interface DistrictState {
+  name: string;
+  color: string;
+  houseCost: number;
+  hotelCost: number;
+  properties: number[];
+}
+
+export interface BoardLayoutState {
+  id: string;
+  name: string;
+  sideLength: number;      // spaces per side, counting one corner
+  corners: number[];
+  jailIndex: number;
+  districts: Record<string, DistrictState>;
+  transitRent: number[];
+  utilityMultipliers: number[];
+}
+
+export interface TradeLegState {
   fromSessionId: string;
   toSessionId: string;
-  offeredProperties: number[];
-  requestedProperties: number[];
-  offeredCoins: number;
-  requestedCoins: number;
+  properties: number[];
+  coins: number;
+  jailCards: number;
+  immunities: ImmunityClauseState[]; // on the giver's properties, for the receiver
+}
+
+export interface TradeOfferState {
+  id: string;
+  fromSessionId: string;   // who sent the current terms
+  participants: string[];  // the original proposer first
+  acceptedBy: string[];
+  legs: TradeLegState[];
   counterOfferCount: number;
-  lastModifiedBy: string;
   isCounterOffer: boolean;
-  prevOfferedProperties: number[];
-  prevRequestedProperties: number[];
-  prevOfferedCoins: number;
-  prevRequestedCoins: number;
+  prevLegs: TradeLegState[];
+  updatedAt: number;
+}
+
+export interface LoanOfferState {
+  id: string;
+  fromSessionId: string;   // who sent the current terms
+  lenderSessionId: string;
+  borrowerSessionId: string;
+  principal: number;
+  interestRate: number;    // percent of the principal, added once
+  termTurns: number;
+  counterOfferCount: number;
+  updatedAt: number;
+}
+
+export interface LoanState {
+  id: string;
+  lenderSessionId: string; // "" = the bank
+  borrowerSessionId: string;
+  principal: number;
+  interestRate: number;    // player loans: percent added once; bank loans: percent per Payday
+  balance: number;
+  turnsRemaining: number;
+}
+
+export interface ImmunityClauseState {
+  spaceIndex: number;
+  turns: number;
+}
+
+export interface RentImmunityState {
+  spaceIndex: number;
+  ownerSessionId: string;       // who waives the rent
+  beneficiarySessionId: string; // who lands for free
+  turnsRemaining: number;
+}
+
+export interface CityModifierState {
+  eventId: string;
+  title: string;
+  description: string;
+  target: string;        // "rent" | "build" | "tax"
+  multiplier: number;
+  district: string;      // empty = every district
+  spaceType: string;     // empty = every space type
+  roundsRemaining: number;
 }
 
 export interface DrawnCardState {
@@ -54,6 +138,8 @@ export interface DrawnCardState {
   title: string;
   description: string;
   forSessionId: string;  // who drew it
+  effect: string;        // card effect, e.g. "street_repairs"
+  held: boolean;         // went into the drawer's hand instead of applying
 }
 
 export interface SpectatorState {
@@ -61,6 +147,7 @@ export interface SpectatorState {
   discordUserId: string;
   displayName: string;
   avatarUrl: string;
+  isGuest: boolean;
 }
 
 export interface LogEntryState {
@@ -70,11 +157,25 @@ export interface LogEntryState {
 }
 
 export interface AuctionState {
-  status: string;          // "none" | "active"
+  status: string;          // "none" | "active" | "revealed"
+  mode: string;            // "open" | "first_price" | "vickrey"
   propertyIndex: number;
   currentBid: number;
   highestBidderId: string;
   passedPlayers: string[];
+  deadline: number;        // ms timestamp the auction closes at
+  sealedBidders: string[]; // who has submitted a sealed bid
+  revealedBids: { sessionId: string; amount: number }[]; // highest first, once revealed
+}
+
+export interface VoteState {
+  status: string;            // "none" | "active"
+  kind: string;              // "end_game" | "kick"
+  proposerSessionId: string;
+  targetSessionId: string;   // who a kick vote is about
+  yes: string[];
+  no: string[];
+  deadline: number;          // ms timestamp the vote closes at
 }
 
 export interface BankruptcyNegotiationState {
@@ -82,36 +183,87 @@ export interface BankruptcyNegotiationState {
   debtorSessionId: string;
   creditorSessionId: string; // empty = bank
   amountOwed: number;
-  reason: string;           // "rent" | "tax" | "card" | "jail_fine"
+  reason: string;           // "rent" | "tax" | "card" | "jail_fine" | "loan"
   deadline: number;         // Unix timestamp (seconds)
 }
 
+export interface GameSettingsState {
+  freeParkingJackpot: boolean;
+  doublePaydayOnLanding: boolean;
+  noRentInJail: boolean;
+  auctionOnDecline: boolean;
+  startingCoins: number;
+  paydayBonus: number;
+  jailFine: number;
+  incomeTax: number;
+  luxuryTax: number;
+  superTax: number;
+  maxRounds: number;
+  reconnectGraceSeconds: number;
+  auctionSeconds: number;
+  auctionMinIncrement: number;
+  auctionMode: string;
+  boardId: string;
+}
+
 export interface GameStateSnapshot {
   phase: string;
   currentPlayerIndex: number;
   players: Map<string, PlayerState>;
   boardSpaces: BoardSpaceState[];
+  board: BoardLayoutState;
   dice1: number;
   dice2: number;
   turnCount: number;
   winnerId: string;
   hostSessionId: string;
+  lobbyLocked: boolean;
   playerCount: number;
   lastAction: string;
   awaitingBuy: boolean;
   hasRolled: boolean;
-  activeTrade: TradeOfferState;
+  trades: TradeOfferState[];
+  loanOffers: LoanOfferState[];
+  loans: LoanState[];
   drawnCard: DrawnCardState;
   activeAuction: AuctionState;
   bankruptcyNegotiation: BankruptcyNegotiationState;
   spectators: Map<string, SpectatorState>;
   spectatorCount: number;
   gameLog: LogEntryState[];
+  settings: GameSettingsState;
+  freeParkingPot: number;
+  rentImmunities: RentImmunityState[];
+  cityModifiers: CityModifierState[];
+  // Host pause and player votes
+  paused: boolean;
+  pausedAt: number;
+  activeVote: VoteState;
   // Turn timer
   turnStartTime: number;
   turnTimeLimit: number;
   turnTimerActive: boolean;
   turnExtensionUsed: boolean;
+  // Provably-fair randomness
+  seedHash: string;
+  seed: string;
+}
+
+function snapshotImmunityClauses(clauses: any): ImmunityClauseState[] {
+  if (!clauses) return [];
+  return Array.from(clauses, (clause: any) => ({ spaceIndex: clause.spaceIndex, turns: clause.turns }));
+}
+
+function snapshotTradeLegs(legs: any): TradeLegState[] {
+  if (!legs) return [];
+  return Array.from(legs, (leg: any) => ({
+    fromSessionId: leg.fromSessionId,
+    toSessionId: leg.toSessionId,
+    properties: leg.properties ? Array.from(leg.properties) : [],
+    coins: leg.coins || 0,
+    jailCards: leg.jailCards || 0,
+    immunities: snapshotImmunityClauses(leg.immunities),
+  }));
 }
 
 function snapshotState(state: any): GameStateSnapshot {
@@ -123,6 +275,7 @@ function snapshotState(state: any): GameStateSnapshot {
         discordUserId: player.discordUserId,
         displayName: player.displayName,
         avatarUrl: player.avatarUrl,
+        isGuest: player.isGuest || false,
         position: player.position,
         coins: player.coins,
         ownedProperties: player.ownedProperties
@@ -133,9 +286,22 @@ function snapshotState(state: any): GameStateSnapshot {
         inJail: player.inJail || false,
         jailTurnsRemaining: player.jailTurnsRemaining || 0,
         jailFreeCards: player.jailFreeCards || 0,
+        heldCards: player.heldCards
+          ? Array.from(player.heldCards).map((card: any) => ({
+              id: card.id,
+              deck: card.deck,
+              title: card.title,
+              description: card.description,
+            }))
+          : [],
         doublesCount: player.doublesCount || 0,
         playerIndex: player.playerIndex,
         pieceId: player.pieceId || "car",
+        isBot: player.isBot || false,
+        botDifficulty: player.botDifficulty || "",
+        isDisconnected: player.isDisconnected || false,
+        timedOut: player.timedOut || false,
+        reconnectDeadline: player.reconnectDeadline || 0,
       });
     });
   }
@@ -150,6 +316,8 @@ function snapshotState(state: any): GameStateSnapshot {
         district: space.district,
         price: space.price,
         rent: space.rent,
+        rentScale: space.rentScale ? Array.from(space.rentScale) : [],
+        taxKind: space.taxKind || "",
         ownerId: space.ownerId,
         houses: space.houses || 0,
         hasHotel: space.hasHotel || false,
@@ -158,36 +326,114 @@ function snapshotState(state: any): GameStateSnapshot {
     });
   }
 
-  const activeTrade: TradeOfferState = {
-    status: state.activeTrade?.status || "none",
-    fromSessionId: state.activeTrade?.fromSessionId || "",
-    toSessionId: state.activeTrade?.toSessionId || "",
-    offeredProperties: state.activeTrade?.offeredProperties
-      ? Array.from(state.activeTrade.offeredProperties)
-      : [],
-    requestedProperties: state.activeTrade?.requestedProperties
-      ? Array.from(state.activeTrade.requestedProperties)
-      : [],
-    offeredCoins: state.activeTrade?.offeredCoins || 0,
-    requestedCoins: state.activeTrade?.requestedCoins || 0,
-    counterOfferCount: state.activeTrade?.counterOfferCount || 0,
-    lastModifiedBy: state.activeTrade?.lastModifiedBy || "",
-    isCounterOffer: state.activeTrade?.isCounterOffer || false,
-    prevOfferedProperties: state.activeTrade?.prevOfferedProperties
-      ? Array.from(state.activeTrade.prevOfferedProperties)
-      : [],
-    prevRequestedProperties: state.activeTrade?.prevRequestedProperties
-      ? Array.from(state.activeTrade.prevRequestedProperties)
-      : [],
-    prevOfferedCoins: state.activeTrade?.prevOfferedCoins || 0,
-    prevRequestedCoins: state.activeTrade?.prevRequestedCoins || 0,
+  const districts: Record<string, DistrictState> = {};
+  if (state.board?.districts) {
+    state.board.districts.forEach((district: any, key: string) => {
+      districts[key] = {
+        name: district.name,
+        color: district.color,
+        houseCost: district.houseCost,
+        hotelCost: district.hotelCost,
+        properties: district.properties ? Array.from(district.properties) : [],
+      };
+    });
+  }
+
+  const board: BoardLayoutState = {
+    id: state.board?.id || "",
+    name: state.board?.name || "",
+    sideLength: state.board?.sideLength || 7,
+    corners: state.board?.corners ? Array.from(state.board.corners) : [],
+    jailIndex: state.board?.jailIndex || 0,
+    districts,
+    transitRent: state.board?.transitRent ? Array.from(state.board.transitRent) : [],
+    utilityMultipliers: state.board?.utilityMultipliers ? Array.from(state.board.utilityMultipliers) : [],
   };
 
+  const trades: TradeOfferState[] = [];
+  if (state.trades) {
+    state.trades.forEach((trade: any) => {
+      trades.push({
+        id: trade.id,
+        fromSessionId: trade.fromSessionId,
+        participants: trade.participants ? Array.from(trade.participants) : [],
+        acceptedBy: trade.acceptedBy ? Array.from(trade.acceptedBy) : [],
+        legs: snapshotTradeLegs(trade.legs),
+        counterOfferCount: trade.counterOfferCount || 0,
+        isCounterOffer: trade.isCounterOffer || false,
+        prevLegs: snapshotTradeLegs(trade.prevLegs),
+        updatedAt: trade.updatedAt || 0,
+      });
+    });
+  }
+
+  const loanOffers: LoanOfferState[] = [];
+  if (state.loanOffers) {
+    state.loanOffers.forEach((offer: any) => {
+      loanOffers.push({
+        id: offer.id,
+        fromSessionId: offer.fromSessionId,
+        lenderSessionId: offer.lenderSessionId,
+        borrowerSessionId: offer.borrowerSessionId,
+        principal: offer.principal || 0,
+        interestRate: offer.interestRate || 0,
+        termTurns: offer.termTurns || 0,
+        counterOfferCount: offer.counterOfferCount || 0,
+        updatedAt: offer.updatedAt || 0,
+      });
+    });
+  }
+
+  const loans: LoanState[] = [];
+  if (state.loans) {
+    state.loans.forEach((loan: any) => {
+      loans.push({
+        id: loan.id,
+        lenderSessionId: loan.lenderSessionId || "",
+        borrowerSessionId: loan.borrowerSessionId,
+        principal: loan.principal || 0,
+        interestRate: loan.interestRate || 0,
+        balance: loan.balance || 0,
+        turnsRemaining: loan.turnsRemaining || 0,
+      });
+    });
+  }
+
+  const rentImmunities: RentImmunityState[] = [];
+  if (state.rentImmunities) {
+    state.rentImmunities.forEach((immunity: any) => {
+      rentImmunities.push({
+        spaceIndex: immunity.spaceIndex,
+        ownerSessionId: immunity.ownerSessionId,
+        beneficiarySessionId: immunity.beneficiarySessionId,
+        turnsRemaining: immunity.turnsRemaining,
+      });
+    });
+  }
+
+  const cityModifiers: CityModifierState[] = [];
+  if (state.cityModifiers) {
+    state.cityModifiers.forEach((modifier: any) => {
+      cityModifiers.push({
+        eventId: modifier.eventId,
+        title: modifier.title,
+        description: modifier.description,
+        target: modifier.target,
+        multiplier: modifier.multiplier,
+        district: modifier.district,
+        spaceType: modifier.spaceType,
+        roundsRemaining: modifier.roundsRemaining,
+      });
+    });
+  }
+
   const drawnCard: DrawnCardState = {
     deck: state.drawnCard?.deck || "",
     title: state.drawnCard?.title || "",
     description: state.drawnCard?.description || "",
     forSessionId: state.drawnCard?.forSessionId || "",
+    effect: state.drawnCard?.effect || "",
+    held: state.drawnCard?.held || false,
   };
 
   const spectators = new Map<string, SpectatorState>();
@@ -198,18 +444,43 @@ function snapshotState(state: any): GameStateSnapshot {
         discordUserId: spectator.discordUserId,
         displayName: spectator.displayName,
         avatarUrl: spectator.avatarUrl,
+        isGuest: spectator.isGuest || false,
       });
     });
   }
 
+  const revealedBids: { sessionId: string; amount: number }[] = [];
+  if (state.activeAuction?.revealedBids) {
+    state.activeAuction.revealedBids.forEach((amount: number, sessionId: string) => {
+      revealedBids.push({ sessionId, amount });
+    });
+    revealedBids.sort((a, b) => b.amount - a.amount);
+  }
+
   const activeAuction: AuctionState = {
     status: state.activeAuction?.status || "none",
+    mode: state.activeAuction?.mode || "open",
     propertyIndex: state.activeAuction?.propertyIndex || 0,
     currentBid: state.activeAuction?.currentBid || 0,
     highestBidderId: state.activeAuction?.highestBidderId || "",
     passedPlayers: state.activeAuction?.passedPlayers
       ? Array.from(state.activeAuction.passedPlayers)
       : [],
+    deadline: state.activeAuction?.deadline || 0,
+    sealedBidders: state.activeAuction?.sealedBidders
+      ? Array.from(state.activeAuction.sealedBidders)
+      : [],
+    revealedBids,
+  };
+
+  const activeVote: VoteState = {
+    status: state.activeVote?.status || "none",
+    kind: state.activeVote?.kind || "",
+    proposerSessionId: state.activeVote?.proposerSessionId || "",
+    targetSessionId: state.activeVote?.targetSessionId || "",
+    yes: state.activeVote?.yes ? Array.from(state.activeVote.yes) : [],
+    no: state.activeVote?.no ? Array.from(state.activeVote.no) : [],
+    deadline: state.activeVote?.deadline || 0,
   };
 
   const bankruptcyNegotiation: BankruptcyNegotiationState = {
@@ -232,32 +503,64 @@ function snapshotState(state: any): GameStateSnapshot {
     });
   }
 
+  const settings: GameSettingsState = {
+    freeParkingJackpot: state.settings?.freeParkingJackpot || false,
+    doublePaydayOnLanding: state.settings?.doublePaydayOnLanding || false,
+    noRentInJail: state.settings?.noRentInJail || false,
+    auctionOnDecline: state.settings?.auctionOnDecline ?? true,
+    startingCoins: state.settings?.startingCoins ?? 1500,
+    paydayBonus: state.settings?.paydayBonus ?? 200,
+    jailFine: state.settings?.jailFine ?? 50,
+    incomeTax: state.settings?.incomeTax ?? 100,
+    luxuryTax: state.settings?.luxuryTax ?? 150,
+    superTax: state.settings?.superTax ?? 200,
+    maxRounds: state.settings?.maxRounds ?? 50,
+    reconnectGraceSeconds: state.settings?.reconnectGraceSeconds ?? 60,
+    auctionSeconds: state.settings?.auctionSeconds ?? 10,
+    auctionMinIncrement: state.settings?.auctionMinIncrement ?? 10,
+    auctionMode: state.settings?.auctionMode || "open",
+    boardId: state.settings?.boardId || "",
+  };
+
   return {
     phase: state.phase || "lobby",
     currentPlayerIndex: state.currentPlayerIndex || 0,
     players,
     boardSpaces,
+    board,
     dice1: state.dice1 || 0,
     dice2: state.dice2 || 0,
     turnCount: state.turnCount || 0,
     winnerId: state.winnerId || "",
     hostSessionId: state.hostSessionId || "",
+    lobbyLocked: state.lobbyLocked || false,
     playerCount: state.playerCount || 0,
     lastAction: state.lastAction || "",
     awaitingBuy: state.awaitingBuy || false,
     hasRolled: state.hasRolled || false,
-    activeTrade,
+    trades,
+    loanOffers,
+    loans,
     drawnCard,
     activeAuction,
     bankruptcyNegotiation,
     spectators,
     spectatorCount: state.spectatorCount || 0,
     gameLog,
+    settings,
+    freeParkingPot: state.freeParkingPot || 0,
+    rentImmunities,
+    cityModifiers,
+    paused: state.paused || false,
+    pausedAt: state.pausedAt || 0,
+    activeVote,
     // Turn timer
     turnStartTime: state.turnStartTime || 0,
     turnTimeLimit: state.turnTimeLimit || 60,
     turnTimerActive: state.turnTimerActive || false,
     turnExtensionUsed: state.turnExtensionUsed || false,
+    seedHash: state.seedHash || "",
+    seed: state.seed || "",
   };
 }
 
@@ -279,6 +582,13 @@ export interface AchievementNotification {
   tier?: number;
 }
 
+/** One entry of the server's "game_events" broadcast */
+export interface GameEventMessage {
+  event: { type: string; player?: string; space?: number; amount?: number };
+  message: string;
+  category: string;
+}
+
 export interface GoalNotification {
   goalId: string;
   description: string;
@@ -292,6 +602,7 @@ export function useGameState(room: Room | null) {
   const [playerStoreData, setPlayerStoreData] = useState<PlayerStoreData | null>(null);
   const [achievementNotifications, setAchievementNotifications] = useState<AchievementNotification[]>([]);
   const [goalNotifications, setGoalNotifications] = useState<GoalNotification[]>([]);
+  const [latestEvents, setLatestEvents] = useState<GameEventMessage[]>([]);
 
   useEffect(() => {
     if (!room) return;
@@ -319,6 +630,10 @@ export function useGameState(room: Room | null) {
       setGoalNotifications((prev) => [...prev, data]);
     });
 
+    room.onMessage("game_events", (data: GameEventMessage[]) => {
+      setLatestEvents(data);
+    });
+
     if (room.state) {
       setGameState(snapshotState(room.state));
     }
@@ -353,5 +668,6 @@ export function useGameState(room: Room | null) {
     goalNotifications,
     dismissAchievement,
     dismissGoal,
+    latestEvents,
   };
 }
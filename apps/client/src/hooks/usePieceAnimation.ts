@@ -2,7 +2,6 @@ import { useState, useEffect, useRef } from "react";
 import { PlayerState } from "./useGameState";
 import { playHop, playLand } from "../utils/sounds";
 
-const TOTAL_SPACES = 28;
 const HOP_DURATION_MS = 180;
 
 export interface AnimationState {
@@ -27,14 +26,14 @@ export interface AnimationResult extends AnimationState {
 
 /**
  * Compute the forward path of space indices from `from` to `to`,
- * wrapping around the board (28 spaces).
+ * wrapping around a board of `totalSpaces` spaces.
  */
-function computePath(from: number, to: number): number[] {
+function computePath(from: number, to: number, totalSpaces: number): number[] {
   const path: number[] = [];
   let current = from;
   // Always move forward (clockwise)
   while (current !== to) {
-    current = (current + 1) % TOTAL_SPACES;
+    current = (current + 1) % totalSpaces;
     path.push(current);
   }
   return path;
@@ -64,6 +63,7 @@ function getSpacePosition(
 export function usePieceAnimation(
   players: Map<string, PlayerState>,
   boardRef: React.RefObject<HTMLDivElement | null>,
+  totalSpaces: number,
   diceRolling: boolean = false
 ): AnimationResult {
   const prevPositions = useRef<Map<string, number>>(new Map());
@@ -89,7 +89,7 @@ export function usePieceAnimation(
   // Helper: start the hop animation for a given player/oldPos
   function startAnimation(player: PlayerState, oldPos: number) {
     const newPos = player.position;
-    const path = computePath(oldPos, newPos);
+    const path = computePath(oldPos, newPos, totalSpaces);
     if (path.length === 0) return;
 
     isAnimatingRef.current = true;
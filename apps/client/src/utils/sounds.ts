@@ -1,5 +1,5 @@
 /**
- * Sound effects utility for piece movement animation.
+ * Sound effects utility for piece movement animation and game events.
  * Preloads audio files and provides play functions.
  * All errors are caught silently (missing files, autoplay blocked, etc.)
  */
@@ -49,3 +49,42 @@ export function playLand(): void {
     // Ignore
   }
 }
+
+// ==================== Game event sounds ====================
+
+export type EventSound = "coin" | "pay" | "build" | "chime" | "alert";
+
+// Short synthesized jingles (note frequencies in Hz, played in sequence)
+const EVENT_TONES: Record<EventSound, number[]> = {
+  coin: [988, 1319],
+  pay: [523, 392],
+  build: [330, 330, 494],
+  chime: [659, 784, 988],
+  alert: [440, 311],
+};
+
+let audioContext: AudioContext | null = null;
+
+export function playEventSound(sound: EventSound): void {
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    const ctx = audioContext;
+    const start = ctx.currentTime;
+    EVENT_TONES[sound].forEach((frequency, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const t = start + i * 0.09;
+      osc.type = "triangle";
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, t);
+      gain.gain.exponentialRampToValueAtTime(0.15, t + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.18);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(t);
+      osc.stop(t + 0.2);
+    });
+  } catch {
+    // Audio not supported or blocked
+  }
+}
@@ -0,0 +1,49 @@
+-- Player profiles, stats, achievements and goals.
+-- The defaults match STARTING_GEMS and FREE_PIECES in src/db.ts.
+
+CREATE TABLE IF NOT EXISTS players (
+  discord_user_id TEXT PRIMARY KEY,
+  gems INTEGER NOT NULL DEFAULT 30,
+  owned_pieces TEXT NOT NULL DEFAULT '["car","tophat","dog","rocket","bolt","guitar"]',
+  selected_piece TEXT NOT NULL DEFAULT 'car',
+  owned_cosmetics TEXT NOT NULL DEFAULT '[]',
+  equipped_title TEXT NOT NULL DEFAULT '',
+  equipped_theme TEXT NOT NULL DEFAULT 'classic',
+  equipped_dice TEXT NOT NULL DEFAULT 'standard'
+);
+
+CREATE TABLE IF NOT EXISTS player_stats (
+  discord_user_id TEXT PRIMARY KEY,
+  games_played INTEGER DEFAULT 0,
+  games_won INTEGER DEFAULT 0,
+  total_coins_earned INTEGER DEFAULT 0,
+  properties_bought INTEGER DEFAULT 0,
+  hotels_built INTEGER DEFAULT 0,
+  houses_built INTEGER DEFAULT 0,
+  rent_collected_total INTEGER DEFAULT 0,
+  bankrupted_opponents INTEGER DEFAULT 0,
+  trades_completed INTEGER DEFAULT 0,
+  auctions_won INTEGER DEFAULT 0,
+  jail_escapes INTEGER DEFAULT 0,
+  paydays_collected INTEGER DEFAULT 0,
+  dice_rolls INTEGER DEFAULT 0,
+  doubles_rolled INTEGER DEFAULT 0,
+  monopolies_completed INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS player_achievements (
+  discord_user_id TEXT NOT NULL,
+  achievement_id TEXT NOT NULL,
+  tier INTEGER NOT NULL DEFAULT 1,
+  unlocked_at TEXT NOT NULL,
+  PRIMARY KEY (discord_user_id, achievement_id)
+);
+
+CREATE TABLE IF NOT EXISTS player_goals (
+  discord_user_id TEXT NOT NULL,
+  goal_id TEXT NOT NULL,
+  progress INTEGER NOT NULL DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT 0,
+  reset_date TEXT NOT NULL,
+  PRIMARY KEY (discord_user_id, goal_id, reset_date)
+);
@@ -0,0 +1,34 @@
+-- Finished games and their final standings.
+
+CREATE TABLE IF NOT EXISTS matches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  channel_id TEXT NOT NULL DEFAULT '',
+  guild_id TEXT NOT NULL DEFAULT '',
+  board_id TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  ended_at TEXT NOT NULL,
+  duration_seconds INTEGER NOT NULL,
+  turn_count INTEGER NOT NULL,
+  end_reason TEXT NOT NULL,
+  winner_discord_user_id TEXT NOT NULL DEFAULT '',
+  winner_name TEXT NOT NULL DEFAULT '',
+  seed TEXT NOT NULL DEFAULT ''
+);
+
+CREATE TABLE IF NOT EXISTS match_participants (
+  match_id INTEGER NOT NULL,
+  seat INTEGER NOT NULL,
+  discord_user_id TEXT NOT NULL DEFAULT '',
+  display_name TEXT NOT NULL,
+  piece_id TEXT NOT NULL,
+  is_bot BOOLEAN NOT NULL DEFAULT 0,
+  placement INTEGER NOT NULL,
+  net_worth INTEGER NOT NULL,
+  coins INTEGER NOT NULL,
+  properties_owned INTEGER NOT NULL,
+  bankrupt BOOLEAN NOT NULL DEFAULT 0,
+  eliminated_turn INTEGER,
+  PRIMARY KEY (match_id, seat)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_participants_player ON match_participants (discord_user_id, match_id);
@@ -0,0 +1,24 @@
+-- Elo ratings per scope ("global" or a Discord guild id) and the change each match made.
+
+CREATE TABLE IF NOT EXISTS player_ratings (
+  discord_user_id TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  rating REAL NOT NULL,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  games_won INTEGER NOT NULL DEFAULT 0,
+  display_name TEXT NOT NULL DEFAULT '',
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (discord_user_id, scope)
+);
+
+CREATE TABLE IF NOT EXISTS rating_changes (
+  match_id INTEGER NOT NULL,
+  discord_user_id TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  rating_before REAL NOT NULL,
+  rating_after REAL NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (match_id, discord_user_id, scope)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_changes_scope ON rating_changes (scope, created_at);
@@ -0,0 +1,7 @@
+-- Snapshots of games in progress, restored after a server restart.
+
+CREATE TABLE IF NOT EXISTS saved_games (
+  channel_id TEXT PRIMARY KEY,
+  snapshot TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,17 @@
+-- Every gem credit and debit. players.gems is the running total of this ledger.
+
+CREATE TABLE IF NOT EXISTS gem_transactions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  discord_user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  detail TEXT NOT NULL DEFAULT '',
+  idempotency_key TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_gem_transactions_player ON gem_transactions (discord_user_id, id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gem_transactions_idempotency
+  ON gem_transactions (discord_user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
@@ -1,4 +1,5 @@
-import { getPlayerStats, getPlayerAchievement, unlockAchievement, updateGems, type PlayerStats } from "./db.js";
+import type { PlayerStats } from "./db.js";
+import type { Repository } from "./repository.js";
 
 export interface AchievementDefinition {
   id: string;
@@ -207,8 +208,8 @@ export interface AchievementUnlock {
  * Check stat-based achievements for a player after stats update.
  * Returns array of newly unlocked achievements.
  */
-export function checkStatAchievements(discordUserId: string): AchievementUnlock[] {
-  const stats = getPlayerStats(discordUserId);
+export function checkStatAchievements(repository: Repository, discordUserId: string): AchievementUnlock[] {
+  const stats = repository.getPlayerStats(discordUserId);
   const unlocks: AchievementUnlock[] = [];
 
   for (const ach of ACHIEVEMENTS) {
@@ -218,12 +219,12 @@ export function checkStatAchievements(discordUserId: string): AchievementUnlock[
 
     if (ach.type === "one_time") {
       if (!ach.threshold) continue;
-      const existing = getPlayerAchievement(discordUserId, ach.id);
+      const existing = repository.getPlayerAchievement(discordUserId, ach.id);
       if (existing) continue;
 
       if (statValue >= ach.threshold) {
-        unlockAchievement(discordUserId, ach.id, 1);
-        updateGems(discordUserId, ach.gems!);
+        repository.unlockAchievement(discordUserId, ach.id, 1);
+        repository.updateGems(discordUserId, ach.gems!, "achievement", ach.id);
         unlocks.push({
           achievementId: ach.id,
           name: ach.name,
@@ -232,13 +233,13 @@ export function checkStatAchievements(discordUserId: string): AchievementUnlock[
         });
       }
     } else if (ach.type === "tiered" && ach.tiers) {
-      const existing = getPlayerAchievement(discordUserId, ach.id);
+      const existing = repository.getPlayerAchievement(discordUserId, ach.id);
       const currentTier = existing?.tier || 0;
 
       for (let t = currentTier; t < ach.tiers.length; t++) {
         if (statValue >= ach.tiers[t].threshold) {
-          unlockAchievement(discordUserId, ach.id, t + 1);
-          updateGems(discordUserId, ach.tiers[t].gems);
+          repository.unlockAchievement(discordUserId, ach.id, t + 1);
+          repository.updateGems(discordUserId, ach.tiers[t].gems, "achievement", `${ach.id}:${t + 1}`);
           unlocks.push({
             achievementId: ach.id,
             name: ach.name,
@@ -260,15 +261,15 @@ export function checkStatAchievements(discordUserId: string): AchievementUnlock[
  * Unlock an in-game achievement (one-time, non-stat-based).
  * Returns unlock info if newly unlocked, null if already had it.
  */
-export function tryUnlockInGameAchievement(discordUserId: string, achievementId: string): AchievementUnlock | null {
+export function tryUnlockInGameAchievement(repository: Repository, discordUserId: string, achievementId: string): AchievementUnlock | null {
   const ach = ACHIEVEMENTS_MAP.get(achievementId);
   if (!ach || ach.type !== "one_time") return null;
 
-  const existing = getPlayerAchievement(discordUserId, achievementId);
+  const existing = repository.getPlayerAchievement(discordUserId, achievementId);
   if (existing) return null;
 
-  unlockAchievement(discordUserId, achievementId, 1);
-  updateGems(discordUserId, ach.gems!);
+  repository.unlockAchievement(discordUserId, achievementId, 1);
+  repository.updateGems(discordUserId, ach.gems!, "achievement", ach.id);
 
   return {
     achievementId: ach.id,
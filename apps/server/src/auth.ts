@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// ==================== Session Tokens ====================
+//
+// After the Discord OAuth exchange the server hands the client a signed session
+// token bound to the Discord user id, name and avatar it got from Discord. The
+// client sends it as `Authorization: Bearer` on REST calls that change a player's
+// data, and in the room join options.
+
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET) {
+  console.warn("SESSION_SECRET not set: using a random secret, so sessions end when the server restarts.");
+}
+
+/** Who a session token was issued to, as Discord reported them */
+export interface SessionIdentity {
+  discordUserId: string;
+  displayName: string;
+  avatarUrl: string;
+}
+
+interface SessionPayload {
+  sub: string; // Discord user id
+  name: string;
+  avatar: string; // avatar URL, empty if they have none
+  exp: number; // Unix timestamp (seconds)
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(data).digest("base64url");
+}
+
+/** The identity in a Discord `users/@me` response */
+export function discordUserIdentity(userData: any): SessionIdentity {
+  return {
+    discordUserId: userData.id,
+    displayName: userData.global_name || userData.username,
+    avatarUrl: userData.avatar ? `https://cdn.discordapp.com/avatars/${userData.id}/${userData.avatar}.png` : "",
+  };
+}
+
+/** Mint a session token for a Discord user whose identity the server has just checked */
+export function createSessionToken(identity: SessionIdentity, now: number = Date.now()): string {
+  const payload: SessionPayload = {
+    sub: identity.discordUserId,
+    name: identity.displayName,
+    avatar: identity.avatarUrl,
+    exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Check a session token's signature and expiry.
+ * Returns who it was issued to, or null if it isn't valid.
+ */
+export function verifySessionToken(token: unknown, now: number = Date.now()): SessionIdentity | null {
+  if (typeof token !== "string") return null;
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf-8")) as SessionPayload;
+    if (typeof payload.sub !== "string" || !payload.sub) return null;
+    if (typeof payload.name !== "string" || typeof payload.avatar !== "string") return null;
+    if (typeof payload.exp !== "number" || payload.exp * 1000 <= now) return null;
+    return { discordUserId: payload.sub, displayName: payload.name, avatarUrl: payload.avatar };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Express middleware: reject the request with a 401 unless it carries a valid
+ * session token, and expose the verified user as `req.discordUserId`.
+ */
+export function requireSession(req: any, res: any, next: any): void {
+  const header: string = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  const identity = verifySessionToken(token);
+  if (!identity) {
+    res.status(401).json({ error: token ? "Session expired or invalid" : "Missing session token" });
+    return;
+  }
+  req.discordUserId = identity.discordUserId;
+  next();
+}
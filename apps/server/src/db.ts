@@ -2,6 +2,8 @@ import Database, { type Database as DatabaseType } from "better-sqlite3";
 import path from "path";
 import { fileURLToPath } from "url";
 import { mkdirSync } from "fs";
+import { loadMigrations, runMigrations } from "./migrations.js";
+import { FREE_PIECES, STARTING_GEMS, type Repository } from "./repository.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DB_PATH = process.env.DB_PATH || path.join(__dirname, "..", "discopoly.db");
@@ -9,75 +11,13 @@ const DB_PATH = process.env.DB_PATH || path.join(__dirname, "..", "discopoly.db"
 // Ensure the directory exists before opening the database
 mkdirSync(path.dirname(DB_PATH), { recursive: true });
 
-const FREE_PIECES = ["car", "tophat", "dog", "rocket", "bolt", "guitar"];
-const STARTING_GEMS = 30;
-
 const db: DatabaseType = new Database(DB_PATH);
 
 // Enable WAL mode for better concurrency
 db.pragma("journal_mode = WAL");
 
-// Create tables if they don't exist
-db.exec(`
-  CREATE TABLE IF NOT EXISTS players (
-    discord_user_id TEXT PRIMARY KEY,
-    gems INTEGER NOT NULL DEFAULT ${STARTING_GEMS},
-    owned_pieces TEXT NOT NULL DEFAULT '${JSON.stringify(FREE_PIECES)}',
-    selected_piece TEXT NOT NULL DEFAULT 'car',
-    owned_cosmetics TEXT NOT NULL DEFAULT '[]',
-    equipped_title TEXT NOT NULL DEFAULT '',
-    equipped_theme TEXT NOT NULL DEFAULT 'classic',
-    equipped_dice TEXT NOT NULL DEFAULT 'standard'
-  )
-`);
-
-// Add new columns to existing players table if they don't exist
-try { db.exec("ALTER TABLE players ADD COLUMN owned_cosmetics TEXT NOT NULL DEFAULT '[]'"); } catch {}
-try { db.exec("ALTER TABLE players ADD COLUMN equipped_title TEXT NOT NULL DEFAULT ''"); } catch {}
-try { db.exec("ALTER TABLE players ADD COLUMN equipped_theme TEXT NOT NULL DEFAULT 'classic'"); } catch {}
-try { db.exec("ALTER TABLE players ADD COLUMN equipped_dice TEXT NOT NULL DEFAULT 'standard'"); } catch {}
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS player_stats (
-    discord_user_id TEXT PRIMARY KEY,
-    games_played INTEGER DEFAULT 0,
-    games_won INTEGER DEFAULT 0,
-    total_coins_earned INTEGER DEFAULT 0,
-    properties_bought INTEGER DEFAULT 0,
-    hotels_built INTEGER DEFAULT 0,
-    houses_built INTEGER DEFAULT 0,
-    rent_collected_total INTEGER DEFAULT 0,
-    bankrupted_opponents INTEGER DEFAULT 0,
-    trades_completed INTEGER DEFAULT 0,
-    auctions_won INTEGER DEFAULT 0,
-    jail_escapes INTEGER DEFAULT 0,
-    paydays_collected INTEGER DEFAULT 0,
-    dice_rolls INTEGER DEFAULT 0,
-    doubles_rolled INTEGER DEFAULT 0,
-    monopolies_completed INTEGER DEFAULT 0
-  )
-`);
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS player_achievements (
-    discord_user_id TEXT NOT NULL,
-    achievement_id TEXT NOT NULL,
-    tier INTEGER NOT NULL DEFAULT 1,
-    unlocked_at TEXT NOT NULL,
-    PRIMARY KEY (discord_user_id, achievement_id)
-  )
-`);
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS player_goals (
-    discord_user_id TEXT NOT NULL,
-    goal_id TEXT NOT NULL,
-    progress INTEGER NOT NULL DEFAULT 0,
-    completed BOOLEAN NOT NULL DEFAULT 0,
-    reset_date TEXT NOT NULL,
-    PRIMARY KEY (discord_user_id, goal_id, reset_date)
-  )
-`);
+// Bring the schema up to date (see migrations.ts)
+runMigrations(db, loadMigrations());
 
 // ==================== Player Data ====================
 
@@ -111,9 +51,12 @@ export function getPlayer(discordUserId: string): PlayerData {
     .get(discordUserId) as any;
 
   if (!row) {
-    db.prepare(
-      "INSERT INTO players (discord_user_id, gems, owned_pieces, selected_piece, owned_cosmetics, equipped_title, equipped_theme, equipped_dice) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
-    ).run(discordUserId, STARTING_GEMS, JSON.stringify(FREE_PIECES), "car", "[]", "", "classic", "standard");
+    db.transaction(() => {
+      db.prepare(
+        "INSERT INTO players (discord_user_id, gems, owned_pieces, selected_piece, owned_cosmetics, equipped_title, equipped_theme, equipped_dice) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+      ).run(discordUserId, STARTING_GEMS, JSON.stringify(FREE_PIECES), "car", "[]", "", "classic", "standard");
+      insertGemTransaction(discordUserId, STARTING_GEMS, STARTING_GEMS, "starting_gems", "", null);
+    })();
 
     return {
       discord_user_id: discordUserId,
@@ -130,38 +73,39 @@ export function getPlayer(discordUserId: string): PlayerData {
   return rowToPlayerData(row);
 }
 
-export function updateGems(discordUserId: string, amount: number): number {
+/** Credit (positive amount) or debit a player's gems and record why. Returns the new balance. */
+export function updateGems(discordUserId: string, amount: number, reason: GemReason, detail: string = ""): number {
   getPlayer(discordUserId);
-
-  db.prepare("UPDATE players SET gems = gems + ? WHERE discord_user_id = ?").run(
-    amount,
-    discordUserId
-  );
-
-  const row = db
-    .prepare("SELECT gems FROM players WHERE discord_user_id = ?")
-    .get(discordUserId) as any;
-
-  return row.gems;
+  return db.transaction(() => applyGemChange(discordUserId, amount, reason, detail, null))();
 }
 
+/**
+ * Buy a piece. With an idempotency key, a retried request that already went
+ * through returns the player as they are now instead of charging again.
+ */
 export function buyPiece(
   discordUserId: string,
   pieceId: string,
-  cost: number
+  cost: number,
+  idempotencyKey: string | null = null
 ): PlayerData | null {
-  const player = getPlayer(discordUserId);
+  return db.transaction(() => {
+    if (idempotencyKey && findGemTransactionByKey(discordUserId, idempotencyKey)) return getPlayer(discordUserId);
 
-  if (player.owned_pieces.includes(pieceId)) return null;
-  if (player.gems < cost) return null;
+    const player = getPlayer(discordUserId);
 
-  const newPieces = [...player.owned_pieces, pieceId];
+    if (player.owned_pieces.includes(pieceId)) return null;
+    if (player.gems < cost) return null;
 
-  db.prepare(
-    "UPDATE players SET gems = gems - ?, owned_pieces = ? WHERE discord_user_id = ?"
-  ).run(cost, JSON.stringify(newPieces), discordUserId);
+    const newPieces = [...player.owned_pieces, pieceId];
+
+    db.prepare(
+      "UPDATE players SET owned_pieces = ? WHERE discord_user_id = ?"
+    ).run(JSON.stringify(newPieces), discordUserId);
+    applyGemChange(discordUserId, -cost, "purchase", `piece:${pieceId}`, idempotencyKey);
 
-  return getPlayer(discordUserId);
+    return getPlayer(discordUserId);
+  })();
 }
 
 export function selectPiece(discordUserId: string, pieceId: string): boolean {
@@ -178,23 +122,30 @@ export function selectPiece(discordUserId: string, pieceId: string): boolean {
 
 // ==================== Cosmetics ====================
 
+/** Buy a cosmetic. Retries with the same idempotency key are charged once, like buyPiece. */
 export function buyCosmetic(
   discordUserId: string,
   cosmeticId: string,
-  cost: number
+  cost: number,
+  idempotencyKey: string | null = null
 ): PlayerData | null {
-  const player = getPlayer(discordUserId);
+  return db.transaction(() => {
+    if (idempotencyKey && findGemTransactionByKey(discordUserId, idempotencyKey)) return getPlayer(discordUserId);
 
-  if (player.owned_cosmetics.includes(cosmeticId)) return null;
-  if (player.gems < cost) return null;
+    const player = getPlayer(discordUserId);
 
-  const newCosmetics = [...player.owned_cosmetics, cosmeticId];
+    if (player.owned_cosmetics.includes(cosmeticId)) return null;
+    if (player.gems < cost) return null;
 
-  db.prepare(
-    "UPDATE players SET gems = gems - ?, owned_cosmetics = ? WHERE discord_user_id = ?"
-  ).run(cost, JSON.stringify(newCosmetics), discordUserId);
+    const newCosmetics = [...player.owned_cosmetics, cosmeticId];
 
-  return getPlayer(discordUserId);
+    db.prepare(
+      "UPDATE players SET owned_cosmetics = ? WHERE discord_user_id = ?"
+    ).run(JSON.stringify(newCosmetics), discordUserId);
+    applyGemChange(discordUserId, -cost, "purchase", `cosmetic:${cosmeticId}`, idempotencyKey);
+
+    return getPlayer(discordUserId);
+  })();
 }
 
 export function equipCosmetic(
@@ -215,6 +166,158 @@ export function equipCosmetic(
   return true;
 }
 
+// ==================== Gem Ledger ====================
+//
+// Every change to a player's gems is written to gem_transactions next to the
+// balance update, in the same transaction. players.gems is the running total of
+// the ledger, and reconcileGems() puts it back in line if the two ever disagree.
+
+export type GemReason =
+  | "starting_gems" // the balance a new player starts with
+  | "opening_balance" // a player's balance from before the ledger existed
+  | "game_reward"
+  | "goal"
+  | "achievement"
+  | "purchase"
+  | "refund"
+  | "reconcile";
+
+export interface GemTransaction {
+  id: number;
+  discord_user_id: string;
+  amount: number; // positive for credits, negative for debits
+  balance_after: number;
+  reason: GemReason;
+  detail: string; // what it was for: a goal or achievement id, "piece:<id>", "cosmetic:<id>"
+  idempotency_key: string | null;
+  created_at: string;
+}
+
+function insertGemTransaction(
+  discordUserId: string,
+  amount: number,
+  balanceAfter: number,
+  reason: GemReason,
+  detail: string,
+  idempotencyKey: string | null,
+): number {
+  const result = db.prepare(`
+    INSERT INTO gem_transactions (discord_user_id, amount, balance_after, reason, detail, idempotency_key, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(discordUserId, amount, balanceAfter, reason, detail, idempotencyKey, new Date().toISOString());
+  return Number(result.lastInsertRowid);
+}
+
+/** Move the balance and write the ledger row. Callers wrap this in a transaction. */
+function applyGemChange(
+  discordUserId: string,
+  amount: number,
+  reason: GemReason,
+  detail: string,
+  idempotencyKey: string | null,
+): number {
+  db.prepare("UPDATE players SET gems = gems + ? WHERE discord_user_id = ?").run(amount, discordUserId);
+  const balance = (db.prepare("SELECT gems FROM players WHERE discord_user_id = ?").get(discordUserId) as any).gems;
+  insertGemTransaction(discordUserId, amount, balance, reason, detail, idempotencyKey);
+  return balance;
+}
+
+function findGemTransactionByKey(discordUserId: string, idempotencyKey: string): GemTransaction | null {
+  const row = db
+    .prepare("SELECT * FROM gem_transactions WHERE discord_user_id = ? AND idempotency_key = ?")
+    .get(discordUserId, idempotencyKey) as GemTransaction | undefined;
+  return row ?? null;
+}
+
+/** A page of a player's gem transactions, newest first */
+export function getGemHistory(
+  discordUserId: string,
+  limit: number,
+  offset: number,
+): { transactions: GemTransaction[]; total: number } {
+  const total = (db
+    .prepare("SELECT COUNT(*) AS count FROM gem_transactions WHERE discord_user_id = ?")
+    .get(discordUserId) as any)?.count ?? 0;
+
+  const transactions = db.prepare(`
+    SELECT * FROM gem_transactions
+    WHERE discord_user_id = ?
+    ORDER BY id DESC
+    LIMIT ? OFFSET ?
+  `).all(discordUserId, limit, offset) as GemTransaction[];
+  return { transactions, total };
+}
+
+/**
+ * Check a player's balance against the sum of their ledger. A player from before
+ * the ledger gets an opening entry for what they hold; after that the ledger wins
+ * and players.gems is corrected to match it. Returns the balance.
+ */
+export function reconcileGems(discordUserId: string): number {
+  return db.transaction(() => {
+    const row = db.prepare("SELECT gems FROM players WHERE discord_user_id = ?").get(discordUserId) as any;
+    if (!row) return 0;
+
+    const ledger = db
+      .prepare("SELECT COUNT(*) AS count, COALESCE(SUM(amount), 0) AS total FROM gem_transactions WHERE discord_user_id = ?")
+      .get(discordUserId) as any;
+
+    if (ledger.count === 0) {
+      insertGemTransaction(discordUserId, row.gems, row.gems, "opening_balance", "", null);
+      return row.gems as number;
+    }
+    if (ledger.total !== row.gems) {
+      console.warn(`Gem balance for ${discordUserId} was ${row.gems} but the ledger sums to ${ledger.total}; using the ledger`);
+      db.prepare("UPDATE players SET gems = ? WHERE discord_user_id = ?").run(ledger.total, discordUserId);
+    }
+    return ledger.total as number;
+  })();
+}
+
+/**
+ * Undo a purchase: give the gems back and take the item away again (support use,
+ * e.g. a double charge). Each purchase can only be refunded once. Returns the
+ * player, or null if the transaction isn't a refundable purchase of theirs.
+ */
+export function refundPurchase(discordUserId: string, transactionId: number): PlayerData | null {
+  return db.transaction(() => {
+    const purchase = db
+      .prepare("SELECT * FROM gem_transactions WHERE id = ? AND discord_user_id = ? AND reason = 'purchase'")
+      .get(transactionId, discordUserId) as GemTransaction | undefined;
+    if (!purchase) return null;
+
+    const refundKey = `refund:${purchase.id}`;
+    if (findGemTransactionByKey(discordUserId, refundKey)) return null;
+
+    const player = getPlayer(discordUserId);
+    const [kind, itemId] = purchase.detail.split(":");
+    if (kind === "piece") {
+      const pieces = player.owned_pieces.filter((id) => id !== itemId);
+      const selected = player.selected_piece === itemId ? "car" : player.selected_piece;
+      db.prepare("UPDATE players SET owned_pieces = ?, selected_piece = ? WHERE discord_user_id = ?")
+        .run(JSON.stringify(pieces), selected, discordUserId);
+    } else if (kind === "cosmetic") {
+      const cosmetics = player.owned_cosmetics.filter((id) => id !== itemId);
+      db.prepare(`
+        UPDATE players SET owned_cosmetics = ?,
+          equipped_title = CASE WHEN equipped_title = ? THEN '' ELSE equipped_title END,
+          equipped_theme = CASE WHEN equipped_theme = ? THEN 'classic' ELSE equipped_theme END,
+          equipped_dice = CASE WHEN equipped_dice = ? THEN 'standard' ELSE equipped_dice END
+        WHERE discord_user_id = ?
+      `).run(JSON.stringify(cosmetics), itemId, itemId, itemId, discordUserId);
+    }
+
+    applyGemChange(discordUserId, -purchase.amount, "refund", purchase.detail, refundKey);
+    return getPlayer(discordUserId);
+  })();
+}
+
+// Bring balances from before the ledger (or ones changed by hand) in line at startup
+db.transaction(() => {
+  const rows = db.prepare("SELECT discord_user_id FROM players").all() as { discord_user_id: string }[];
+  for (const row of rows) reconcileGems(row.discord_user_id);
+})();
+
 // ==================== Player Stats ====================
 
 export interface PlayerStats {
@@ -335,4 +438,238 @@ export function completeGoal(discordUserId: string, goalId: string, resetDate: s
   ).run(discordUserId, goalId, resetDate);
 }
 
+// ==================== Match History ====================
+
+export interface MatchRecord {
+  id: number;
+  channel_id: string;
+  guild_id: string;
+  board_id: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  turn_count: number;
+  end_reason: string;
+  winner_discord_user_id: string;
+  winner_name: string;
+  seed: string;
+}
+
+export interface MatchParticipant {
+  match_id: number;
+  seat: number;
+  discord_user_id: string; // empty for bots
+  display_name: string;
+  piece_id: string;
+  is_bot: boolean;
+  placement: number; // 1 = winner
+  net_worth: number;
+  coins: number;
+  properties_owned: number;
+  bankrupt: boolean;
+  eliminated_turn: number | null;
+}
+
+export interface MatchDetail extends MatchRecord {
+  participants: MatchParticipant[];
+}
+
+/** Store a finished game and its final standings. Returns the new match id. */
+export function recordMatch(
+  match: Omit<MatchRecord, "id">,
+  participants: Omit<MatchParticipant, "match_id">[],
+): number {
+  const insert = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO matches (channel_id, guild_id, board_id, started_at, ended_at, duration_seconds, turn_count,
+        end_reason, winner_discord_user_id, winner_name, seed)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      match.channel_id, match.guild_id, match.board_id, match.started_at, match.ended_at, match.duration_seconds,
+      match.turn_count, match.end_reason, match.winner_discord_user_id, match.winner_name, match.seed,
+    );
+    const matchId = Number(result.lastInsertRowid);
+
+    const insertParticipant = db.prepare(`
+      INSERT INTO match_participants (match_id, seat, discord_user_id, display_name, piece_id, is_bot,
+        placement, net_worth, coins, properties_owned, bankrupt, eliminated_turn)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const p of participants) {
+      insertParticipant.run(
+        matchId, p.seat, p.discord_user_id, p.display_name, p.piece_id, p.is_bot ? 1 : 0,
+        p.placement, p.net_worth, p.coins, p.properties_owned, p.bankrupt ? 1 : 0, p.eliminated_turn,
+      );
+    }
+    return matchId;
+  });
+  return insert();
+}
+
+function getMatchParticipants(matchIds: number[]): MatchParticipant[] {
+  if (matchIds.length === 0) return [];
+  const rows = db
+    .prepare(`SELECT * FROM match_participants WHERE match_id IN (${matchIds.map(() => "?").join(", ")}) ORDER BY placement`)
+    .all(...matchIds) as any[];
+  return rows.map((row) => ({ ...row, is_bot: !!row.is_bot, bankrupt: !!row.bankrupt }));
+}
+
+/** A page of the games a player took part in, newest first */
+export function getPlayerMatches(
+  discordUserId: string,
+  limit: number,
+  offset: number,
+): { matches: MatchDetail[]; total: number } {
+  const total = (db
+    .prepare("SELECT COUNT(*) AS count FROM match_participants WHERE discord_user_id = ?")
+    .get(discordUserId) as any)?.count ?? 0;
+
+  const rows = db.prepare(`
+    SELECT m.* FROM matches m
+    JOIN match_participants p ON p.match_id = m.id
+    WHERE p.discord_user_id = ?
+    ORDER BY m.id DESC
+    LIMIT ? OFFSET ?
+  `).all(discordUserId, limit, offset) as MatchRecord[];
+
+  const participants = getMatchParticipants(rows.map((row) => row.id));
+  const matches = rows.map((row) => ({
+    ...row,
+    participants: participants.filter((p) => p.match_id === row.id),
+  }));
+  return { matches, total };
+}
+
+export function getMatch(matchId: number): MatchDetail | null {
+  const row = db.prepare("SELECT * FROM matches WHERE id = ?").get(matchId) as MatchRecord | undefined;
+  if (!row) return null;
+  return { ...row, participants: getMatchParticipants([row.id]) };
+}
+
+// ==================== Ratings ====================
+
+export interface PlayerRating {
+  discord_user_id: string;
+  scope: string; // "global" or a Discord guild id
+  rating: number;
+  games_played: number;
+  games_won: number;
+  display_name: string;
+  updated_at: string;
+}
+
+export interface LeaderboardEntry {
+  discord_user_id: string;
+  display_name: string;
+  rating: number;
+  games_played: number;
+  games_won: number;
+  rating_change: number | null; // over the requested period; null for all time
+}
+
+export function getPlayerRating(discordUserId: string, scope: string): PlayerRating | null {
+  const row = db
+    .prepare("SELECT * FROM player_ratings WHERE discord_user_id = ? AND scope = ?")
+    .get(discordUserId, scope) as any;
+  return row || null;
+}
+
+/** Store a player's new rating and log the change against the match that caused it */
+export function savePlayerRating(rating: PlayerRating, matchId: number, ratingBefore: number): void {
+  db.prepare(`
+    INSERT INTO player_ratings (discord_user_id, scope, rating, games_played, games_won, display_name, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (discord_user_id, scope) DO UPDATE SET
+      rating = excluded.rating, games_played = excluded.games_played, games_won = excluded.games_won,
+      display_name = excluded.display_name, updated_at = excluded.updated_at
+  `).run(
+    rating.discord_user_id, rating.scope, rating.rating, rating.games_played, rating.games_won,
+    rating.display_name, rating.updated_at,
+  );
+  db.prepare(`
+    INSERT OR REPLACE INTO rating_changes (match_id, discord_user_id, scope, rating_before, rating_after, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(matchId, rating.discord_user_id, rating.scope, ratingBefore, rating.rating, rating.updated_at);
+}
+
+/**
+ * Top players in a scope. With `since`, only players who played after it are listed,
+ * ranked by the rating they gained in that time.
+ */
+export function getLeaderboard(scope: string, since: string | null, limit: number): LeaderboardEntry[] {
+  if (!since) {
+    const rows = db.prepare(`
+      SELECT discord_user_id, display_name, rating, games_played, games_won
+      FROM player_ratings WHERE scope = ?
+      ORDER BY rating DESC LIMIT ?
+    `).all(scope, limit) as any[];
+    return rows.map((row) => ({ ...row, rating_change: null }));
+  }
+
+  return db.prepare(`
+    SELECT r.discord_user_id, r.display_name, r.rating, r.games_played, r.games_won,
+      SUM(c.rating_after - c.rating_before) AS rating_change
+    FROM rating_changes c
+    JOIN player_ratings r ON r.discord_user_id = c.discord_user_id AND r.scope = c.scope
+    WHERE c.scope = ? AND c.created_at >= ?
+    GROUP BY r.discord_user_id
+    ORDER BY rating_change DESC, r.rating DESC
+    LIMIT ?
+  `).all(scope, since, limit) as LeaderboardEntry[];
+}
+
+// ==================== Saved Games ====================
+
+/** Store the latest snapshot of a channel's game in progress (JSON) */
+export function saveGameSnapshot(channelId: string, snapshot: string): void {
+  db.prepare(`
+    INSERT INTO saved_games (channel_id, snapshot, updated_at)
+    VALUES (?, ?, ?)
+    ON CONFLICT (channel_id) DO UPDATE SET snapshot = excluded.snapshot, updated_at = excluded.updated_at
+  `).run(channelId, snapshot, new Date().toISOString());
+}
+
+export function getGameSnapshot(channelId: string): string | null {
+  const row = db
+    .prepare("SELECT snapshot FROM saved_games WHERE channel_id = ?")
+    .get(channelId) as any;
+  return row ? row.snapshot : null;
+}
+
+export function deleteGameSnapshot(channelId: string): void {
+  db.prepare("DELETE FROM saved_games WHERE channel_id = ?").run(channelId);
+}
+
+/** Channels with a saved game, dropping any not updated within maxAgeMs */
+export function listSavedGameChannels(maxAgeMs: number): string[] {
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  db.prepare("DELETE FROM saved_games WHERE updated_at < ?").run(cutoff);
+  const rows = db.prepare("SELECT channel_id FROM saved_games").all() as any[];
+  return rows.map((row) => row.channel_id);
+}
+
+// ==================== Repository ====================
+
+/** The game's data access backed by this database (see repository.ts) */
+export const sqliteRepository: Repository = {
+  getPlayer,
+  selectPiece,
+  updateGems,
+  getPlayerStats,
+  incrementStat,
+  getPlayerAchievements,
+  getPlayerAchievement,
+  unlockAchievement,
+  getPlayerGoals,
+  getPlayerGoal,
+  incrementGoalProgress,
+  completeGoal,
+  recordMatch,
+  getPlayerRating,
+  savePlayerRating,
+  saveGameSnapshot,
+  getGameSnapshot,
+  deleteGameSnapshot,
+};
+
 export default db;
@@ -0,0 +1,59 @@
+import "dotenv/config";
+import { getGemHistory, refundPurchase } from "./db.js";
+
+// ==================== Gem Support CLI ====================
+//
+//   npm run gems:history -- <discord user id> [<count>]           a player's latest gem transactions
+//   npm run gems:refund -- <discord user id> <transaction id>     undo a purchase (e.g. a double charge)
+//
+// Both use the database at DB_PATH, like the server. A refund gives the gems back
+// and takes the item away again; each purchase can only be refunded once.
+
+const USAGE = `Usage:
+  gems history <discord user id> [<count>]
+  gems refund <discord user id> <transaction id>`;
+
+const DEFAULT_HISTORY_COUNT = 20;
+
+function main(): void {
+  const [command, discordUserId, arg] = process.argv.slice(2);
+
+  if (command === "history" && discordUserId) {
+    const count = arg ? parseInt(arg, 10) : DEFAULT_HISTORY_COUNT;
+    const { transactions, total } = getGemHistory(discordUserId, Number.isInteger(count) && count > 0 ? count : DEFAULT_HISTORY_COUNT, 0);
+    if (total === 0) {
+      console.log(`No gem transactions for ${discordUserId}.`);
+      return;
+    }
+
+    console.log(`Gem transactions for ${discordUserId} (latest ${transactions.length} of ${total}):`);
+    for (const t of transactions) {
+      const amount = t.amount > 0 ? `+${t.amount}` : `${t.amount}`;
+      console.log(`  #${String(t.id).padEnd(6)} ${t.created_at}  ${amount.padStart(6)}  balance ${String(t.balance_after).padStart(5)}  ${t.reason}${t.detail ? ` ${t.detail}` : ""}`);
+    }
+    return;
+  }
+
+  if (command === "refund" && discordUserId && arg) {
+    const transactionId = parseInt(arg, 10);
+    if (!Number.isInteger(transactionId)) {
+      console.error(`${arg} isn't a transaction id.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const player = refundPurchase(discordUserId, transactionId);
+    if (!player) {
+      console.error(`Transaction #${transactionId} isn't a purchase by ${discordUserId}, or it was already refunded.`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Refunded transaction #${transactionId}. ${discordUserId} now has ${player.gems} gems.`);
+    return;
+  }
+
+  console.error(USAGE);
+  process.exitCode = 1;
+}
+
+main();
@@ -1,10 +1,4 @@
-import {
-  getPlayerGoals,
-  incrementGoalProgress,
-  completeGoal,
-  updateGems,
-  type PlayerGoal,
-} from "./db.js";
+import type { Repository } from "./repository.js";
 
 export interface GoalDefinition {
   id: string;
@@ -125,15 +119,15 @@ export interface GoalProgress {
 /**
  * Get all current goals + progress for a player.
  */
-export function getPlayerCurrentGoals(discordUserId: string): GoalProgress[] {
+export function getPlayerCurrentGoals(repository: Repository, discordUserId: string): GoalProgress[] {
   const dailyDate = getDailyResetDate();
   const weeklyDate = getWeeklyResetDate();
 
   const dailyGoals = selectDailyGoals(discordUserId, dailyDate);
   const weeklyGoals = selectWeeklyGoals(discordUserId, weeklyDate);
 
-  const dailyProgress = getPlayerGoals(discordUserId, dailyDate);
-  const weeklyProgress = getPlayerGoals(discordUserId, weeklyDate);
+  const dailyProgress = repository.getPlayerGoals(discordUserId, dailyDate);
+  const weeklyProgress = repository.getPlayerGoals(discordUserId, weeklyDate);
 
   const dailyMap = new Map(dailyProgress.map((g) => [g.goal_id, g]));
   const weeklyMap = new Map(weeklyProgress.map((g) => [g.goal_id, g]));
@@ -175,6 +169,7 @@ export interface GoalCompletionResult {
  * Returns any newly completed goals.
  */
 export function processGoalTrigger(
+  repository: Repository,
   discordUserId: string,
   trigger: string,
   amount: number = 1
@@ -191,10 +186,10 @@ export function processGoalTrigger(
   for (const goal of dailyGoals) {
     if (goal.trigger !== trigger) continue;
     const resetDate = dailyDate;
-    const updated = incrementGoalProgress(discordUserId, goal.id, resetDate, amount);
+    const updated = repository.incrementGoalProgress(discordUserId, goal.id, resetDate, amount);
     if (!updated.completed && updated.progress >= goal.target) {
-      completeGoal(discordUserId, goal.id, resetDate);
-      updateGems(discordUserId, goal.gems);
+      repository.completeGoal(discordUserId, goal.id, resetDate);
+      repository.updateGems(discordUserId, goal.gems, "goal", goal.id);
       completions.push({
         goalId: goal.id,
         description: goal.description,
@@ -208,10 +203,10 @@ export function processGoalTrigger(
   for (const goal of weeklyGoals) {
     if (goal.trigger !== trigger) continue;
     const resetDate = weeklyDate;
-    const updated = incrementGoalProgress(discordUserId, goal.id, resetDate, amount);
+    const updated = repository.incrementGoalProgress(discordUserId, goal.id, resetDate, amount);
     if (!updated.completed && updated.progress >= goal.target) {
-      completeGoal(discordUserId, goal.id, resetDate);
-      updateGems(discordUserId, goal.gems);
+      repository.completeGoal(discordUserId, goal.id, resetDate);
+      repository.updateGems(discordUserId, goal.gems, "goal", goal.id);
       completions.push({
         goalId: goal.id,
         description: goal.description,
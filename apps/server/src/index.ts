@@ -4,19 +4,53 @@ import { fileURLToPath } from "url";
 import { existsSync } from "fs";
 import cors from "cors";
 import express from "express";
-import { Server } from "colyseus";
+import { Server, matchMaker } from "colyseus";
 import { GameRoom } from "./rooms/GameRoom.js";
-import { getPlayer, buyPiece, buyCosmetic, equipCosmetic, getPlayerStats, getPlayerAchievements } from "./db.js";
+import {
+  getPlayer,
+  buyPiece,
+  buyCosmetic,
+  equipCosmetic,
+  getPlayerStats,
+  getPlayerAchievements,
+  getPlayerMatches,
+  getMatch,
+  getGemHistory,
+  getLeaderboard,
+  listSavedGameChannels,
+  sqliteRepository,
+} from "./db.js";
 import { getPiece } from "./pieces.js";
 import { getCosmetic, ALL_COSMETICS } from "./cosmetics.js";
 import { getPlayerCurrentGoals } from "./goals.js";
 import { ACHIEVEMENTS } from "./achievements.js";
+import { listBoards } from "./logic/boardConfig.js";
+import { GLOBAL_SCOPE, LEADERBOARD_PERIODS, getPeriodStart, type LeaderboardPeriod } from "./ratings.js";
+import { createSessionToken, discordUserIdentity, requireSession } from "./auth.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const PORT = Number(process.env.PORT) || 2567;
 const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID || "";
 const DISCORD_CLIENT_SECRET = process.env.DISCORD_CLIENT_SECRET || "";
+const MATCH_PAGE_SIZE = 10;
+const MAX_MATCH_PAGE_SIZE = 50;
+const GEM_HISTORY_PAGE_SIZE = 20;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+const LEADERBOARD_SIZE = 25;
+const SAVED_GAME_MAX_AGE_MS = 24 * 60 * 60 * 1000; // older saved games are dropped instead of restored
+
+/**
+ * The optional Idempotency-Key header on purchases: a client retrying the same
+ * purchase sends the same key and is only charged once.
+ * Returns undefined when the key is malformed.
+ */
+function readIdempotencyKey(req: any): string | null | undefined {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined || key === "") return null;
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) return undefined;
+  return key;
+}
 
 const gameServer = new Server({
   gracefullyShutdown: false,
@@ -84,6 +118,7 @@ const gameServer = new Server({
 
         res.json({
           access_token: tokenData.access_token,
+          session_token: createSessionToken(discordUserIdentity(userData)),
           user: {
             id: userData.id,
             username: userData.username,
@@ -101,13 +136,41 @@ const gameServer = new Server({
     app.post("/discord_token", handleTokenExchange);
     app.post("/api/token", handleTokenExchange);
 
-    // Get player profile
-    app.get("/player/:discordUserId", (req: any, res: any) => {
+    // Swap a Discord access token obtained elsewhere (the Vite dev server's /api/token) for a session token
+    app.post("/session", async (req: any, res: any) => {
+      const { access_token } = req.body || {};
+      if (!access_token) {
+        res.status(400).json({ error: "Missing access_token" });
+        return;
+      }
+
+      try {
+        const userResponse = await fetch("https://discord.com/api/users/@me", {
+          headers: { Authorization: `Bearer ${access_token}` },
+        });
+        if (!userResponse.ok) {
+          res.status(401).json({ error: "Discord rejected the access token" });
+          return;
+        }
+        const userData = await userResponse.json() as any;
+        res.json({ session_token: createSessionToken(discordUserIdentity(userData)) });
+      } catch (error) {
+        console.error("Session exchange error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // Get player profile (your own only: it includes your gem balance)
+    app.get("/player/:discordUserId", requireSession, (req: any, res: any) => {
       const { discordUserId } = req.params;
       if (!discordUserId) {
         res.status(400).json({ error: "Missing discordUserId" });
         return;
       }
+      if (discordUserId !== req.discordUserId) {
+        res.status(403).json({ error: "You can only view your own profile" });
+        return;
+      }
       try {
         const player = getPlayer(discordUserId);
         res.json(player);
@@ -118,10 +181,11 @@ const gameServer = new Server({
     });
 
     // Buy a piece from the store
-    app.post("/store/buy", (req: any, res: any) => {
-      const { discordUserId, pieceId } = req.body || {};
-      if (!discordUserId || !pieceId) {
-        res.status(400).json({ error: "Missing discordUserId or pieceId" });
+    app.post("/store/buy", requireSession, (req: any, res: any) => {
+      const discordUserId: string = req.discordUserId;
+      const { pieceId } = req.body || {};
+      if (!pieceId) {
+        res.status(400).json({ error: "Missing pieceId" });
         return;
       }
 
@@ -136,7 +200,13 @@ const gameServer = new Server({
         return;
       }
 
-      const result = buyPiece(discordUserId, pieceId, piece.cost);
+      const idempotencyKey = readIdempotencyKey(req);
+      if (idempotencyKey === undefined) {
+        res.status(400).json({ error: "Invalid Idempotency-Key" });
+        return;
+      }
+
+      const result = buyPiece(discordUserId, pieceId, piece.cost, idempotencyKey);
       if (!result) {
         res.status(400).json({ error: "Cannot buy piece - not enough gems or already owned" });
         return;
@@ -146,6 +216,36 @@ const gameServer = new Server({
       res.json(result);
     });
 
+    // Gem transactions, newest first (your own only)
+    app.get("/player/:discordUserId/gems/history", requireSession, (req: any, res: any) => {
+      const { discordUserId } = req.params;
+      if (!discordUserId) {
+        res.status(400).json({ error: "Missing discordUserId" });
+        return;
+      }
+      if (discordUserId !== req.discordUserId) {
+        res.status(403).json({ error: "You can only view your own gem history" });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || GEM_HISTORY_PAGE_SIZE, 1), MAX_MATCH_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+      try {
+        const balance = getPlayer(discordUserId).gems;
+        const { transactions, total } = getGemHistory(discordUserId, limit, offset);
+        res.json({ balance, transactions, total, limit, offset });
+      } catch (error) {
+        console.error("Get gem history error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // ==================== Board Map Endpoints ====================
+
+    // List the board maps the host can pick in the lobby
+    app.get("/boards", (_req: any, res: any) => {
+      res.json(listBoards());
+    });
+
     // ==================== Cosmetics Endpoints ====================
 
     // List all cosmetics
@@ -154,10 +254,11 @@ const gameServer = new Server({
     });
 
     // Buy a cosmetic
-    app.post("/store/buy-cosmetic", (req: any, res: any) => {
-      const { discordUserId, cosmeticId } = req.body || {};
-      if (!discordUserId || !cosmeticId) {
-        res.status(400).json({ error: "Missing discordUserId or cosmeticId" });
+    app.post("/store/buy-cosmetic", requireSession, (req: any, res: any) => {
+      const discordUserId: string = req.discordUserId;
+      const { cosmeticId } = req.body || {};
+      if (!cosmeticId) {
+        res.status(400).json({ error: "Missing cosmeticId" });
         return;
       }
 
@@ -172,7 +273,13 @@ const gameServer = new Server({
         return;
       }
 
-      const result = buyCosmetic(discordUserId, cosmeticId, cosmetic.cost);
+      const idempotencyKey = readIdempotencyKey(req);
+      if (idempotencyKey === undefined) {
+        res.status(400).json({ error: "Invalid Idempotency-Key" });
+        return;
+      }
+
+      const result = buyCosmetic(discordUserId, cosmeticId, cosmetic.cost, idempotencyKey);
       if (!result) {
         res.status(400).json({ error: "Cannot buy cosmetic - not enough gems or already owned" });
         return;
@@ -183,10 +290,11 @@ const gameServer = new Server({
     });
 
     // Equip a cosmetic
-    app.post("/store/equip", (req: any, res: any) => {
-      const { discordUserId, type, itemId } = req.body || {};
-      if (!discordUserId || !type || itemId === undefined) {
-        res.status(400).json({ error: "Missing discordUserId, type, or itemId" });
+    app.post("/store/equip", requireSession, (req: any, res: any) => {
+      const discordUserId: string = req.discordUserId;
+      const { type, itemId } = req.body || {};
+      if (!type || itemId === undefined) {
+        res.status(400).json({ error: "Missing type or itemId" });
         return;
       }
 
@@ -214,7 +322,7 @@ const gameServer = new Server({
         return;
       }
       try {
-        const goals = getPlayerCurrentGoals(discordUserId);
+        const goals = getPlayerCurrentGoals(sqliteRepository, discordUserId);
         res.json(goals);
       } catch (error) {
         console.error("Get goals error:", error);
@@ -261,6 +369,63 @@ const gameServer = new Server({
       }
     });
 
+    // ==================== Match History Endpoints ====================
+
+    app.get("/player/:discordUserId/matches", (req: any, res: any) => {
+      const { discordUserId } = req.params;
+      if (!discordUserId) {
+        res.status(400).json({ error: "Missing discordUserId" });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || MATCH_PAGE_SIZE, 1), MAX_MATCH_PAGE_SIZE);
+      const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+      try {
+        const { matches, total } = getPlayerMatches(discordUserId, limit, offset);
+        res.json({ matches, total, limit, offset });
+      } catch (error) {
+        console.error("Get matches error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    app.get("/matches/:matchId", (req: any, res: any) => {
+      const matchId = parseInt(req.params.matchId, 10);
+      if (!Number.isInteger(matchId) || matchId <= 0) {
+        res.status(400).json({ error: "Invalid matchId" });
+        return;
+      }
+      try {
+        const match = getMatch(matchId);
+        if (!match) {
+          res.status(404).json({ error: "Match not found" });
+          return;
+        }
+        res.json(match);
+      } catch (error) {
+        console.error("Get match error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
+    // ==================== Leaderboard Endpoint ====================
+
+    app.get("/leaderboard", (req: any, res: any) => {
+      const guildId: string = req.query.guildId || "";
+      const period = (req.query.period || "all") as LeaderboardPeriod;
+      if (!LEADERBOARD_PERIODS.includes(period)) {
+        res.status(400).json({ error: `Invalid period. Use one of: ${LEADERBOARD_PERIODS.join(", ")}` });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || LEADERBOARD_SIZE, 1), 100);
+      try {
+        const entries = getLeaderboard(guildId || GLOBAL_SCOPE, getPeriodStart(period), limit);
+        res.json({ guildId, period, entries });
+      } catch (error) {
+        console.error("Get leaderboard error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
     // ==================== Static File Serving (Production) ====================
 
     const clientDistPath = path.join(__dirname, "..", "..", "client", "dist");
@@ -274,13 +439,30 @@ const gameServer = new Server({
   },
 });
 
+// Rooms keep player data in the SQLite database
+GameRoom.repository = sqliteRepository;
+
 // Register game room — filterBy channelId so each voice channel gets its own room
 gameServer.define("game", GameRoom).filterBy(["channelId"]);
 
-gameServer.listen(PORT).then(() => {
+gameServer.listen(PORT).then(async () => {
   console.log(`Discopoly server listening on port ${PORT}`);
+  await restoreSavedGames();
 });
 
+// ==================== Saved Games ====================
+
+/** Reopen a room for every game that was in progress when the server last stopped */
+async function restoreSavedGames(): Promise<void> {
+  for (const channelId of listSavedGameChannels(SAVED_GAME_MAX_AGE_MS)) {
+    try {
+      await matchMaker.createRoom("game", { channelId });
+    } catch (err) {
+      console.error(`Failed to restore saved game for channel ${channelId}:`, err);
+    }
+  }
+}
+
 // ==================== Graceful Shutdown ====================
 
 const shutdown = async (signal: string) => {
@@ -1,64 +1,68 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { readdirSync, readFileSync } from "fs";
+
+export type SpaceType =
+  | "property"
+  | "transit"
+  | "utility"
+  | "tax"
+  | "payday"
+  | "jail"
+  | "parking"
+  | "goToJail"
+  | "community"
+  | "chance"
+  | "cityEvents";
+
+export type TaxKind = "income" | "luxury" | "super";
+
 export interface BoardSpaceConfig {
-  index: number;
   name: string;
-  spaceType: "property" | "tax" | "payday" | "jail" | "parking" | "goToJail" | "community" | "chance";
-  district: string;
-  price: number;
-  rent: number;
-  /** Rent scale: [base, 1house, 2houses, 3houses, 4houses, hotel] */
+  spaceType: SpaceType;
+  /** District name (properties only) */
+  district?: string;
+  /** Purchase price (properties, transit and utilities) */
+  price?: number;
+  /** Rent scale: [base, 1house, 2houses, 3houses, 4houses, hotel] (properties only) */
   rentScale?: number[];
+  /** Which tax amount from the house rules applies (tax spaces only, default "income") */
+  taxKind?: TaxKind;
 }
 
-// 28-space board: 7 per side, corners at 0, 7, 14, 21
-// Districts (color groups):
-//   Suburbs (brown)    - 2 properties
-//   Arts District (light blue) - 3 properties
-//   University (orange) - 3 properties
-//   Waterfront (red)   - 3 properties
-//   Financial (yellow) - 3 properties
-//   Uptown (green)     - 2 properties
-//   Luxury Row (blue)  - 1 property
-
-export const BOARD_SPACES: BoardSpaceConfig[] = [
-  // === BOTTOM ROW (right to left, index 0-6) ===
-  // rentScale: [base, 1house, 2houses, 3houses, 4houses, hotel]
-  { index: 0,  name: "Payday",              spaceType: "payday",     district: "",              price: 0,   rent: 0 },
-  { index: 1,  name: "Maple Lane Duplex",    spaceType: "property",   district: "Suburbs",       price: 60,  rent: 10,  rentScale: [10, 50, 150, 450, 625, 750] },
-  { index: 2,  name: "Community Chest",      spaceType: "community",  district: "",              price: 0,   rent: 0 },
-  { index: 3,  name: "Oak Street Cottage",   spaceType: "property",   district: "Suburbs",       price: 80,  rent: 14,  rentScale: [14, 70, 200, 550, 750, 950] },
-  { index: 4,  name: "Income Tax",           spaceType: "tax",        district: "",              price: 0,   rent: 0 },
-  { index: 5,  name: "Gallery Row Studio",   spaceType: "property",   district: "Arts District", price: 100, rent: 18,  rentScale: [18, 90, 250, 700, 875, 1050] },
-  { index: 6,  name: "Pottery Lane Shop",    spaceType: "property",   district: "Arts District", price: 120, rent: 22,  rentScale: [22, 110, 330, 800, 975, 1150] },
-
-  // === LEFT COLUMN (bottom to top, index 7-13) ===
-  { index: 7,  name: "Jail",                 spaceType: "jail",       district: "",              price: 0,   rent: 0 },
-  { index: 8,  name: "Mural Alley Cafe",     spaceType: "property",   district: "Arts District", price: 140, rent: 26,  rentScale: [26, 130, 390, 900, 1100, 1300] },
-  { index: 9,  name: "City Events",          spaceType: "tax",        district: "",              price: 0,   rent: 0 },
-  { index: 10, name: "Luxury Tax",           spaceType: "tax",        district: "",              price: 0,   rent: 0 },
-  { index: 11, name: "Chance",               spaceType: "chance",     district: "",              price: 0,   rent: 0 },
-  { index: 12, name: "Campus Bookstore",     spaceType: "property",   district: "University",    price: 180, rent: 34,  rentScale: [34, 170, 500, 1100, 1300, 1500] },
-  { index: 13, name: "Lecture Hall Plaza",    spaceType: "property",   district: "University",    price: 200, rent: 38,  rentScale: [38, 190, 550, 1200, 1400, 1600] },
-
-  // === TOP ROW (left to right, index 14-20) ===
-  { index: 14, name: "City Parking",         spaceType: "parking",    district: "",              price: 0,   rent: 0 },
-  { index: 15, name: "Dormitory Row",        spaceType: "property",   district: "University",    price: 220, rent: 42,  rentScale: [42, 210, 600, 1300, 1500, 1700] },
-  { index: 16, name: "Harbor Fish Market",   spaceType: "property",   district: "Waterfront",    price: 260, rent: 50,  rentScale: [50, 250, 720, 1500, 1700, 1900] },
-  { index: 17, name: "Pier 7 Restaurant",    spaceType: "property",   district: "Waterfront",    price: 280, rent: 54,  rentScale: [54, 270, 780, 1600, 1800, 2000] },
-  { index: 18, name: "Community Chest",      spaceType: "community",  district: "",              price: 0,   rent: 0 },
-  { index: 19, name: "Lighthouse Marina",    spaceType: "property",   district: "Waterfront",    price: 300, rent: 58,  rentScale: [58, 290, 840, 1700, 1900, 2100] },
-  { index: 20, name: "Stock Exchange",       spaceType: "property",   district: "Financial",     price: 340, rent: 66,  rentScale: [66, 330, 960, 1900, 2100, 2300] },
-
-  // === RIGHT COLUMN (top to bottom, index 21-27) ===
-  { index: 21, name: "Go to Jail",           spaceType: "goToJail",   district: "",              price: 0,   rent: 0 },
-  { index: 22, name: "Trade Tower",          spaceType: "property",   district: "Financial",     price: 360, rent: 70,  rentScale: [70, 350, 1000, 2000, 2200, 2400] },
-  { index: 23, name: "Bank HQ",             spaceType: "property",   district: "Financial",     price: 380, rent: 74,  rentScale: [74, 370, 1050, 2100, 2300, 2550] },
-  { index: 24, name: "Hilltop Estate",       spaceType: "property",   district: "Uptown",        price: 400, rent: 78,  rentScale: [78, 390, 1100, 2200, 2500, 2800] },
-  { index: 25, name: "Penthouse Terrace",    spaceType: "property",   district: "Uptown",        price: 420, rent: 82,  rentScale: [82, 410, 1150, 2300, 2600, 2900] },
-  { index: 26, name: "Super Tax",            spaceType: "tax",        district: "",              price: 0,   rent: 0 },
-  { index: 27, name: "Grand Boulevard",      spaceType: "property",   district: "Luxury Row",    price: 450, rent: 90,  rentScale: [90, 450, 1250, 2500, 2800, 3200] },
-];
+export interface DistrictConfig {
+  name: string;
+  color: string;
+  houseCost: number;
+  hotelCost: number;
+}
 
-export const TOTAL_SPACES = BOARD_SPACES.length;
+/**
+ * A board map, loaded from a JSON file in the boards directory.
+ * Spaces are listed in play order starting from Payday; the index is the array position.
+ */
+export interface BoardDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Spaces per side, counting one corner (total spaces = sideLength * 4) */
+  sideLength: number;
+  /** Corner space indices, must be [0, sideLength, 2*sideLength, 3*sideLength] */
+  corners: number[];
+  districts: DistrictConfig[];
+  spaces: BoardSpaceConfig[];
+  /** Transit rent by number of stations the owner holds */
+  transitRent: number[];
+  /** Utility rent multiplier (x dice roll) by number of utilities the owner holds */
+  utilityMultipliers: number[];
+}
+
+export interface BoardSummary {
+  id: string;
+  name: string;
+  description: string;
+  totalSpaces: number;
+}
 
 // Tax amounts
 export const INCOME_TAX = 100;
@@ -74,53 +78,201 @@ export const STARTING_COINS = 1500;
 // Max rounds (for alternative win condition)
 export const MAX_ROUNDS = 50;
 
-// District colors for client reference
-export const DISTRICT_COLORS: Record<string, string> = {
-  "Suburbs":       "#8B4513",
-  "Arts District": "#87CEEB",
-  "University":    "#FFA500",
-  "Waterfront":    "#FF0000",
-  "Financial":     "#FFD700",
-  "Uptown":        "#228B22",
-  "Luxury Row":    "#0000CD",
-};
-
-// House cost per district
-export const HOUSE_COST: Record<string, number> = {
-  "Suburbs":       50,
-  "Arts District": 50,
-  "University":    100,
-  "Waterfront":    150,
-  "Financial":     150,
-  "Uptown":        200,
-  "Luxury Row":    200,
-};
-
-// Hotel cost per district (same as house cost in classic rules)
-export const HOTEL_COST: Record<string, number> = {
-  "Suburbs":       50,
-  "Arts District": 50,
-  "University":    100,
-  "Waterfront":    150,
-  "Financial":     150,
-  "Uptown":        200,
-  "Luxury Row":    200,
-};
-
-// Property indices grouped by district
-export const DISTRICT_PROPERTIES: Record<string, number[]> = {
-  "Suburbs":       [1, 3],
-  "Arts District": [5, 6, 8],
-  "University":    [12, 13, 15],
-  "Waterfront":    [16, 17, 19],
-  "Financial":     [20, 22, 23],
-  "Uptown":        [24, 25],
-  "Luxury Row":    [27],
-};
+// Seconds a player who drops mid-game has to reconnect before going bankrupt
+export const RECONNECT_GRACE_SECONDS = 60;
+
+// Auction clock: seconds left after each bid, and how much each bid must raise the last
+export const AUCTION_SECONDS = 10;
+export const AUCTION_MIN_INCREMENT = 10;
+
+// Space types that can be bought, auctioned, mortgaged and traded
+export const OWNABLE_SPACE_TYPES: string[] = ["property", "transit", "utility"];
 
 export const MAX_HOUSES = 4;
 
 // Jail constants
 export const JAIL_FINE = 50;
-export const JAIL_SPACE_INDEX = 7;
 export const MAX_JAIL_TURNS = 3;
+
+// ==================== Board Maps ====================
+
+const SPACE_TYPES: SpaceType[] = [
+  "property", "transit", "utility", "tax", "payday", "jail", "parking", "goToJail", "community", "chance", "cityEvents",
+];
+const TAX_KINDS: TaxKind[] = ["income", "luxury", "super"];
+const MIN_SIDE_LENGTH = 4;
+const MAX_SIDE_LENGTH = 15;
+
+export const DEFAULT_BOARD_ID = "downtown";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const BOARDS_PATH = process.env.BOARDS_PATH || path.join(__dirname, "..", "..", "boards");
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isRentTable(value: unknown, length?: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    (length === undefined || value.length === length) &&
+    value.every((n) => typeof n === "number" && Number.isInteger(n) && n >= 0)
+  );
+}
+
+/**
+ * Validate a parsed board JSON file.
+ * Returns { valid: true } or { valid: false, error: string }.
+ */
+export function validateBoardDefinition(data: any): { valid: boolean; error?: string } {
+  if (!data || typeof data !== "object") {
+    return { valid: false, error: "Board must be a JSON object." };
+  }
+  if (typeof data.id !== "string" || !/^[a-z0-9-]+$/.test(data.id)) {
+    return { valid: false, error: "id must be lowercase letters, digits and dashes." };
+  }
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    return { valid: false, error: "name is required." };
+  }
+  if (typeof data.description !== "string") {
+    return { valid: false, error: "description must be a string." };
+  }
+
+  const side = data.sideLength;
+  if (!isPositiveInt(side) || side < MIN_SIDE_LENGTH || side > MAX_SIDE_LENGTH) {
+    return { valid: false, error: `sideLength must be between ${MIN_SIDE_LENGTH} and ${MAX_SIDE_LENGTH}.` };
+  }
+  const expectedCorners = [0, side, side * 2, side * 3];
+  if (
+    !Array.isArray(data.corners) ||
+    data.corners.length !== 4 ||
+    !expectedCorners.every((idx, i) => data.corners[i] === idx)
+  ) {
+    return { valid: false, error: `corners must be [${expectedCorners.join(", ")}].` };
+  }
+
+  if (!Array.isArray(data.districts) || data.districts.length === 0) {
+    return { valid: false, error: "At least one district is required." };
+  }
+  const districtNames = new Set<string>();
+  for (const district of data.districts) {
+    if (typeof district?.name !== "string" || district.name === "" || districtNames.has(district.name)) {
+      return { valid: false, error: "District names must be unique and non-empty." };
+    }
+    if (typeof district.color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(district.color)) {
+      return { valid: false, error: `District "${district.name}" needs a #RRGGBB color.` };
+    }
+    if (!isPositiveInt(district.houseCost) || !isPositiveInt(district.hotelCost)) {
+      return { valid: false, error: `District "${district.name}" needs positive house and hotel costs.` };
+    }
+    districtNames.add(district.name);
+  }
+
+  if (!Array.isArray(data.spaces) || data.spaces.length !== side * 4) {
+    return { valid: false, error: `spaces must list exactly ${side * 4} spaces.` };
+  }
+  if (data.spaces[0]?.spaceType !== "payday") {
+    return { valid: false, error: "The first space must be Payday." };
+  }
+
+  const usedDistricts = new Set<string>();
+  let jailCount = 0;
+  for (let i = 0; i < data.spaces.length; i++) {
+    const space = data.spaces[i];
+    if (typeof space?.name !== "string" || space.name === "") {
+      return { valid: false, error: `Space ${i} needs a name.` };
+    }
+    if (!SPACE_TYPES.includes(space.spaceType)) {
+      return { valid: false, error: `Space ${i} has unknown spaceType "${space.spaceType}".` };
+    }
+    if (space.spaceType === "jail") jailCount++;
+    if (OWNABLE_SPACE_TYPES.includes(space.spaceType) && !isPositiveInt(space.price)) {
+      return { valid: false, error: `Space ${i} (${space.name}) needs a positive price.` };
+    }
+    if (space.spaceType === "property") {
+      if (!districtNames.has(space.district)) {
+        return { valid: false, error: `Space ${i} (${space.name}) has unknown district "${space.district}".` };
+      }
+      if (!isRentTable(space.rentScale, MAX_HOUSES + 2)) {
+        return { valid: false, error: `Space ${i} (${space.name}) needs a rentScale of ${MAX_HOUSES + 2} amounts.` };
+      }
+      usedDistricts.add(space.district);
+    }
+    if (space.taxKind !== undefined && (space.spaceType !== "tax" || !TAX_KINDS.includes(space.taxKind))) {
+      return { valid: false, error: `Space ${i} (${space.name}) has an invalid taxKind.` };
+    }
+  }
+
+  if (jailCount !== 1) {
+    return { valid: false, error: "The board must have exactly one jail." };
+  }
+  for (const name of districtNames) {
+    if (!usedDistricts.has(name)) {
+      return { valid: false, error: `District "${name}" has no properties.` };
+    }
+  }
+  if (data.spaces.some((s: any) => s.spaceType === "transit") && !isRentTable(data.transitRent)) {
+    return { valid: false, error: "transitRent is required when the board has transit spaces." };
+  }
+  if (data.spaces.some((s: any) => s.spaceType === "utility") && !isRentTable(data.utilityMultipliers)) {
+    return { valid: false, error: "utilityMultipliers is required when the board has utilities." };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Load and validate every board JSON file. Invalid files are skipped with a warning.
+ */
+function loadBoards(): Map<string, BoardDefinition> {
+  const boards = new Map<string, BoardDefinition>();
+
+  for (const file of readdirSync(BOARDS_PATH).filter((f) => f.endsWith(".json")).sort()) {
+    let data: any;
+    try {
+      data = JSON.parse(readFileSync(path.join(BOARDS_PATH, file), "utf-8"));
+    } catch (err) {
+      console.warn(`Skipping board ${file}: invalid JSON`, err);
+      continue;
+    }
+
+    const result = validateBoardDefinition(data);
+    if (!result.valid) {
+      console.warn(`Skipping board ${file}: ${result.error}`);
+      continue;
+    }
+    if (boards.has(data.id)) {
+      console.warn(`Skipping board ${file}: duplicate id "${data.id}"`);
+      continue;
+    }
+
+    boards.set(data.id, {
+      ...data,
+      transitRent: data.transitRent ?? [],
+      utilityMultipliers: data.utilityMultipliers ?? [],
+    });
+  }
+
+  if (!boards.has(DEFAULT_BOARD_ID)) {
+    throw new Error(`Default board "${DEFAULT_BOARD_ID}" is missing from ${BOARDS_PATH}`);
+  }
+  return boards;
+}
+
+const BOARDS = loadBoards();
+
+/** Look up a board map by id */
+export function getBoardDefinition(boardId: string): BoardDefinition | undefined {
+  return BOARDS.get(boardId);
+}
+
+/** List the available board maps for the lobby picker */
+export function listBoards(): BoardSummary[] {
+  return Array.from(BOARDS.values()).map((board) => ({
+    id: board.id,
+    name: board.name,
+    description: board.description,
+    totalSpaces: board.spaces.length,
+  }));
+}
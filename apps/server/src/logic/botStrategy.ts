@@ -0,0 +1,458 @@
+import { GameState, Player, TradeOffer, TradeLeg, LoanOffer, Loan } from "../state/GameState.js";
+import { Rng } from "./rng.js";
+import {
+  getActivePlayers,
+  getMinimumBid,
+  isSealedAuction,
+  getDistrictProperties,
+  getHouseCost,
+  getHotelCost,
+  getHouseBuildCost,
+  getHotelBuildCost,
+  getBuildableProperties,
+  getHotelUpgradeableProperties,
+  getMortgageableProperties,
+  getUnmortgageableProperties,
+  getUnmortgageCost,
+  getSellableHouseProperties,
+  getSellableHotelProperties,
+  countOwnedTransit,
+  countOwnedUtilities,
+  getEffectiveRent,
+  calculateWealth,
+  getLoanRepayment,
+  getBankLoanBalance,
+  BANK_LOAN_LIMIT,
+  type TradeLegTerms,
+} from "./gameLogic.js";
+
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "normal", "hard"];
+
+export const BOT_NAMES = [
+  "Robo Rita",
+  "Byte Baron",
+  "Circuit Sam",
+  "Pixel Pam",
+  "Gizmo Gus",
+  "Turbo Tess",
+  "Widget Walt",
+  "Nova Nell",
+];
+
+interface BotProfile {
+  /** Coins the bot tries to keep in hand after buying or building */
+  cashReserve: number;
+  /** Chance the bot buys an affordable property at all (easy bots are erratic) */
+  buyChance: number;
+  /** Max auction bid as a fraction of what the property is worth to the bot */
+  bidFactor: number;
+  /** Chance the bot builds when it could */
+  buildChance: number;
+  /** How strongly completing (or blocking) a district raises a property's value */
+  monopolyWeight: number;
+  /** Minimum net gain (in coins) the bot needs before accepting a trade */
+  tradeMargin: number;
+  /** Whether the bot proposes trades to finish its own districts */
+  proposesTrades: boolean;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    cashReserve: 50,
+    buyChance: 0.7,
+    bidFactor: 0.6,
+    buildChance: 0.5,
+    monopolyWeight: 0.5,
+    tradeMargin: -50,
+    proposesTrades: false,
+  },
+  normal: {
+    cashReserve: 150,
+    buyChance: 1,
+    bidFactor: 0.9,
+    buildChance: 1,
+    monopolyWeight: 1,
+    tradeMargin: 0,
+    proposesTrades: false,
+  },
+  hard: {
+    cashReserve: 200,
+    buyChance: 1,
+    bidFactor: 1.1,
+    buildChance: 1,
+    monopolyWeight: 2,
+    tradeMargin: 25,
+    proposesTrades: true,
+  },
+};
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return typeof value === "string" && (BOT_DIFFICULTIES as string[]).includes(value);
+}
+
+function getProfile(player: Player): BotProfile {
+  return BOT_PROFILES[isBotDifficulty(player.botDifficulty) ? player.botDifficulty : "normal"];
+}
+
+// ==================== Valuation ====================
+
+/**
+ * Coins a bot wants to keep on hand. Hard bots scale this with the
+ * worst rent an opponent could currently charge them.
+ */
+export function getBotCashReserve(state: GameState, bot: Player): number {
+  const profile = getProfile(bot);
+  if (bot.botDifficulty !== "hard") return profile.cashReserve;
+
+  let worstRent = 0;
+  state.boardSpaces.forEach((space) => {
+    if (!space.ownerId || space.ownerId === bot.sessionId || space.isMortgaged) return;
+    if (space.rentScale.length === 0) return;
+    const level = space.hasHotel ? 5 : space.houses;
+    worstRent = Math.max(worstRent, space.rentScale[level]);
+  });
+  return Math.max(profile.cashReserve, Math.min(worstRent, 600));
+}
+
+/**
+ * What a property is worth to a player: its price, raised when it completes or
+ * blocks a district, plus any buildings on it.
+ * `assumeOwned` lists properties to treat as the player's (e.g. the other side of a trade).
+ */
+export function evaluateProperty(
+  state: GameState,
+  sessionId: string,
+  spaceIndex: number,
+  monopolyWeight: number,
+  assumeOwned: number[] = []
+): number {
+  const space = state.boardSpaces[spaceIndex];
+  if (!space) return 0;
+
+  const ownedBy = (idx: number) =>
+    state.boardSpaces[idx]?.ownerId === sessionId || assumeOwned.includes(idx);
+
+  let value = space.price;
+
+  if (space.spaceType === "property" && space.district) {
+    const indices = getDistrictProperties(state, space.district).filter((idx) => idx !== spaceIndex);
+    const mine = indices.filter(ownedBy).length;
+    if (mine === indices.length) {
+      // Completes (or keeps) a monopoly
+      value *= 1 + monopolyWeight;
+    } else {
+      value *= 1 + (monopolyWeight * mine) / (indices.length + 1);
+      // Blocking an opponent who holds the rest of the district
+      const others = indices.map((idx) => state.boardSpaces[idx]?.ownerId).filter((id) => id && id !== sessionId);
+      if (others.length === indices.length && new Set(others).size === 1) {
+        value *= 1 + monopolyWeight / 2;
+      }
+    }
+    if (space.hasHotel) {
+      value += getHouseCost(state, space.district) * 4 + getHotelCost(state, space.district);
+    } else {
+      value += getHouseCost(state, space.district) * space.houses;
+    }
+  } else if (space.spaceType === "transit") {
+    value *= 1 + 0.25 * monopolyWeight * countOwnedTransit(state, sessionId);
+  } else if (space.spaceType === "utility") {
+    value *= 1 + 0.25 * monopolyWeight * countOwnedUtilities(state, sessionId);
+  }
+
+  if (space.isMortgaged) {
+    value -= getUnmortgageCost(space);
+  }
+
+  return Math.round(value);
+}
+
+// ==================== Turn Decisions ====================
+
+/**
+ * Decide whether to buy the property the bot is standing on.
+ */
+export function shouldBotBuy(state: GameState, bot: Player, rng: Rng): boolean {
+  const profile = getProfile(bot);
+  const space = state.boardSpaces[bot.position];
+  if (!space || bot.coins < space.price) return false;
+  if (rng() > profile.buyChance) return false;
+
+  const remaining = bot.coins - space.price;
+  if (remaining >= getBotCashReserve(state, bot)) return true;
+
+  // Dip into the reserve when the property completes or blocks a district
+  const worth = evaluateProperty(state, bot.sessionId, space.index, profile.monopolyWeight);
+  return bot.botDifficulty !== "easy" && worth >= space.price * 2 && remaining >= profile.cashReserve / 2;
+}
+
+/**
+ * Decide what a jailed bot does before rolling.
+ */
+export function chooseBotJailAction(state: GameState, bot: Player): "card" | "fine" | "roll" {
+  if (bot.botDifficulty === "easy") {
+    return bot.jailFreeCards > 0 ? "card" : "roll";
+  }
+
+  // Staying in jail is safer once most of the board is owned (hard bots sit tight)
+  const ownable = state.boardSpaces.filter((s) => s.price > 0);
+  const unowned = ownable.filter((s) => !s.ownerId).length;
+  const wantsOut = bot.botDifficulty === "normal" || unowned > ownable.length / 3;
+  if (!wantsOut) return "roll";
+
+  if (bot.jailFreeCards > 0) return "card";
+  if (bot.coins - state.settings.jailFine >= getBotCashReserve(state, bot)) return "fine";
+  return "roll";
+}
+
+/**
+ * Pick the next building to put up, or null when the bot would rather keep its cash.
+ */
+export function chooseBotBuild(
+  state: GameState,
+  bot: Player,
+  rng: Rng
+): { type: "house" | "hotel"; spaceIndex: number } | null {
+  const profile = getProfile(bot);
+  if (rng() > profile.buildChance) return null;
+
+  const reserve = getBotCashReserve(state, bot);
+  let best: { type: "house" | "hotel"; spaceIndex: number; gain: number } | null = null;
+
+  const consider = (type: "house" | "hotel", spaceIndex: number) => {
+    const space = state.boardSpaces[spaceIndex];
+    const cost = type === "hotel" ? getHotelBuildCost(state, space.district) : getHouseBuildCost(state, space.district);
+    if (bot.coins - cost < reserve) return;
+    const level = type === "hotel" ? 5 : space.houses + 1;
+    const gain = (space.rentScale[level] ?? 0) - (space.rentScale[level - 1] ?? 0);
+    if (!best || gain > best.gain) best = { type, spaceIndex, gain };
+  };
+
+  for (const idx of getHotelUpgradeableProperties(state, bot)) consider("hotel", idx);
+  for (const idx of getBuildableProperties(state, bot)) consider("house", idx);
+
+  if (!best) return null;
+  const { type, spaceIndex } = best;
+  return { type, spaceIndex };
+}
+
+/**
+ * Pick a mortgaged property to buy back once the bot is comfortably rich.
+ */
+export function chooseBotUnmortgage(state: GameState, bot: Player): number | null {
+  if (bot.botDifficulty === "easy") return null;
+
+  const reserve = getBotCashReserve(state, bot) * 2;
+  const profile = getProfile(bot);
+  const candidates = getUnmortgageableProperties(state, bot)
+    .filter((idx) => bot.coins - getUnmortgageCost(state.boardSpaces[idx]) >= reserve)
+    .sort(
+      (a, b) =>
+        evaluateProperty(state, bot.sessionId, b, profile.monopolyWeight) -
+        evaluateProperty(state, bot.sessionId, a, profile.monopolyWeight)
+    );
+  return candidates[0] ?? null;
+}
+
+// ==================== Auctions ====================
+
+/** In a first-price sealed auction, bots bid this share of what the property is worth to them */
+const BOT_SEALED_BID_SHADE = 0.8;
+
+/**
+ * Decide the bot's next auction move: a bid amount, or null to pass.
+ */
+export function chooseBotBid(state: GameState, bot: Player): number | null {
+  const auction = state.activeAuction;
+  if (auction.status !== "active" || auction.highestBidderId === bot.sessionId) return null;
+
+  const profile = getProfile(bot);
+  const worth = evaluateProperty(state, bot.sessionId, auction.propertyIndex, profile.monopolyWeight);
+  const reserve = bot.botDifficulty === "easy" ? 0 : getBotCashReserve(state, bot) / 2;
+  const limit = Math.min(Math.floor(worth * profile.bidFactor), bot.coins - reserve);
+
+  // Sealed bids: Vickrey rewards bidding the true limit, first-price shading it
+  if (isSealedAuction(state)) {
+    const bid = auction.mode === "vickrey" ? limit : Math.floor(limit * BOT_SEALED_BID_SHADE);
+    return bid >= 1 ? Math.floor(bid) : null;
+  }
+
+  const step = Math.max(1, Math.round(state.boardSpaces[auction.propertyIndex].price / 20));
+  const bid = Math.max(getMinimumBid(state), auction.currentBid + step);
+  return bid <= limit ? bid : null;
+}
+
+// ==================== Trades ====================
+
+/**
+ * Net value of a pending trade for one participant, from that player's point of view.
+ */
+function getTradeGain(state: GameState, trade: TradeOffer, sessionId: string, monopolyWeight: number): number {
+  const legs = Array.from(trade.legs);
+  const incoming = legs.filter((leg) => leg.toSessionId === sessionId);
+  const outgoing = legs.filter((leg) => leg.fromSessionId === sessionId);
+  const receives = incoming.flatMap((leg) => Array.from(leg.properties));
+  const gives = outgoing.flatMap((leg) => Array.from(leg.properties));
+  const sum = (list: TradeLeg[], value: (leg: TradeLeg) => number) => list.reduce((total, leg) => total + value(leg), 0);
+
+  let gain = sum(incoming, (leg) => leg.coins) - sum(outgoing, (leg) => leg.coins);
+  for (const idx of receives) gain += evaluateProperty(state, sessionId, idx, monopolyWeight, receives);
+  for (const idx of gives) gain -= evaluateProperty(state, sessionId, idx, monopolyWeight);
+
+  // A jail card is worth about the fine it saves
+  gain += (sum(incoming, (leg) => leg.jailCards) - sum(outgoing, (leg) => leg.jailCards)) * state.settings.jailFine;
+
+  // A rent deal is worth the rent it should save; the odds of landing on a space in a turn are about 1 in the board length
+  const immunityValue = (leg: TradeLeg) =>
+    leg.immunities.reduce(
+      (total, c) => total + (getEffectiveRent(state, state.boardSpaces[c.spaceIndex]) * c.turns) / state.boardSpaces.length,
+      0
+    );
+  gain += sum(incoming, immunityValue) - sum(outgoing, immunityValue);
+  return gain;
+}
+
+/**
+ * Decide whether a bot accepts a trade it is part of and hasn't accepted yet.
+ */
+export function shouldBotAcceptTrade(state: GameState, bot: Player, trade: TradeOffer): boolean {
+  if (!trade.participants.includes(bot.sessionId) || trade.acceptedBy.has(bot.sessionId)) return false;
+
+  const profile = getProfile(bot);
+  const myGain = getTradeGain(state, trade, bot.sessionId, profile.monopolyWeight);
+  if (myGain < profile.tradeMargin) return false;
+
+  // Don't leave yourself short of cash
+  let coinsAfter = bot.coins;
+  trade.legs.forEach((leg) => {
+    if (leg.toSessionId === bot.sessionId) coinsAfter += leg.coins;
+    if (leg.fromSessionId === bot.sessionId) coinsAfter -= leg.coins;
+  });
+  if (coinsAfter < profile.cashReserve / 2) return false;
+
+  // Hard bots refuse trades that help anyone else more than themselves
+  if (bot.botDifficulty === "hard") {
+    const others = trade.participants.filter((id) => id !== bot.sessionId);
+    if (others.some((id) => getTradeGain(state, trade, id, profile.monopolyWeight) > myGain)) return false;
+  }
+  return true;
+}
+
+export interface BotTradeProposal {
+  participants: string[];
+  legs: TradeLegTerms[];
+}
+
+/**
+ * Offer coins for the last missing property of a district the bot almost owns.
+ * `skip` lists "sessionId:spaceIndex" keys the bot already asked for.
+ */
+export function chooseBotTradeProposal(state: GameState, bot: Player, skip: Set<string>): BotTradeProposal | null {
+  const profile = getProfile(bot);
+  if (!profile.proposesTrades) return null;
+
+  const reserve = getBotCashReserve(state, bot);
+  // Disconnected players can't answer an offer
+  const activeIds = new Set(
+    getActivePlayers(state).filter((p) => !p.isDisconnected).map((p) => p.sessionId)
+  );
+
+  for (const district of state.board.districts.keys()) {
+    const indices = getDistrictProperties(state, district);
+    const missing = indices.filter((idx) => state.boardSpaces[idx]?.ownerId !== bot.sessionId);
+    if (missing.length !== 1 || indices.length < 2) continue;
+
+    const space = state.boardSpaces[missing[0]];
+    if (!space.ownerId || !activeIds.has(space.ownerId)) continue;
+    if (skip.has(`${space.ownerId}:${space.index}`)) continue;
+
+    const offer = Math.min(Math.floor(space.price * 1.5), bot.coins - reserve);
+    if (offer < space.price) continue;
+
+    const noExtras = { jailCards: 0, immunities: [] };
+    return {
+      participants: [bot.sessionId, space.ownerId],
+      legs: [
+        { fromSessionId: bot.sessionId, toSessionId: space.ownerId, properties: [], coins: offer, ...noExtras },
+        { fromSessionId: space.ownerId, toSessionId: bot.sessionId, properties: [space.index], coins: 0, ...noExtras },
+      ],
+    };
+  }
+  return null;
+}
+
+// ==================== Loans ====================
+
+/** Highest interest rate a bot will agree to pay */
+const BOT_MAX_BORROW_RATE = 20;
+
+/** Lowest interest rate each kind of bot wants before lending */
+const BOT_MIN_LEND_RATE: Record<BotDifficulty, number> = { easy: 0, normal: 5, hard: 15 };
+
+/**
+ * Decide whether a bot takes up a loan offer sent to it. Bots lend spare cash to
+ * players good for the money, and only borrow when they are short.
+ */
+export function shouldBotAcceptLoan(state: GameState, bot: Player, offer: LoanOffer): boolean {
+  const reserve = getBotCashReserve(state, bot);
+
+  if (offer.lenderSessionId === bot.sessionId) {
+    const borrower = state.players.get(offer.borrowerSessionId);
+    if (!borrower || bot.coins - offer.principal < reserve) return false;
+    const minRate = BOT_MIN_LEND_RATE[isBotDifficulty(bot.botDifficulty) ? bot.botDifficulty : "normal"];
+    if (offer.interestRate < minRate) return false;
+    return calculateWealth(state, borrower) >= getLoanRepayment(offer.principal, offer.interestRate) * 2;
+  }
+
+  return bot.coins < reserve && offer.interestRate <= BOT_MAX_BORROW_RATE;
+}
+
+/**
+ * A loan the bot can pay off now without dipping into its cash reserve.
+ * Bank loans go first since they cost interest every Payday.
+ */
+export function chooseBotLoanRepayment(state: GameState, bot: Player): Loan | null {
+  const reserve = getBotCashReserve(state, bot);
+  const loans = Array.from(state.loans.values())
+    .filter((loan) => loan.borrowerSessionId === bot.sessionId)
+    .sort((a, b) => Number(a.lenderSessionId !== "") - Number(b.lenderSessionId !== ""));
+  return loans.find((loan) => bot.coins - loan.balance >= reserve) ?? null;
+}
+
+/**
+ * How much a bot in bankruptcy negotiation should borrow from the bank to cover
+ * what selling couldn't, or 0 if the bank won't lend that much.
+ */
+export function chooseBotBankLoan(state: GameState, bot: Player): number {
+  const shortfall = state.bankruptcyNegotiation.amountOwed - bot.coins;
+  if (shortfall <= 0) return 0;
+  return shortfall <= BANK_LOAN_LIMIT - getBankLoanBalance(state, bot.sessionId) ? shortfall : 0;
+}
+
+// ==================== Bankruptcy Negotiation ====================
+
+/**
+ * Pick the next asset a bot should liquidate to cover its debt, or null if it can't raise more.
+ * Sells houses first, then hotels, then mortgages its least valuable properties.
+ */
+export function chooseBotLiquidation(
+  state: GameState,
+  bot: Player
+): { action: "sell_house" | "sell_hotel" | "mortgage"; spaceIndex: number } | null {
+  const houses = getSellableHouseProperties(state, bot);
+  if (houses.length > 0) return { action: "sell_house", spaceIndex: houses[0] };
+
+  const hotels = getSellableHotelProperties(state, bot);
+  if (hotels.length > 0) return { action: "sell_hotel", spaceIndex: hotels[0] };
+
+  const profile = getProfile(bot);
+  const mortgageable = getMortgageableProperties(state, bot).sort(
+    (a, b) =>
+      evaluateProperty(state, bot.sessionId, a, profile.monopolyWeight) -
+      evaluateProperty(state, bot.sessionId, b, profile.monopolyWeight)
+  );
+  if (mortgageable.length > 0) return { action: "mortgage", spaceIndex: mortgageable[0] };
+
+  return null;
+}
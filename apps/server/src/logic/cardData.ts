@@ -1,198 +1,193 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { readdirSync, readFileSync } from "fs";
+import { Rng } from "./rng.js";
+
+export type DeckType = "community" | "chance";
+
+export const CARD_EFFECTS = [
+  "gain_coins",
+  "lose_coins",
+  "move_to",
+  "move_relative",
+  "move_to_nearest",
+  "collect_from_players",
+  "collect_per_property",
+  "pay_to_players",
+  "street_repairs",
+  "jail_free_card",
+  "go_to_jail",
+  "swap_position",
+] as const;
+
+export type CardEffect = (typeof CARD_EFFECTS)[number];
+
+/** Space types a move_to_nearest card can head for */
+export type NearestSpaceType = "property" | "transit" | "utility";
+
 export interface CardDefinition {
   id: string;
-  deck: "community" | "chance";
+  deck: DeckType;
   title: string;
   description: string;
-  effect:
-    | "gain_coins"
-    | "lose_coins"
-    | "move_to"
-    | "move_relative"
-    | "collect_from_players"
-    | "pay_to_players"
-    | "jail_free_card";
-  /** Coins to gain/lose, coins per player, or spaces to move (negative = backward) */
+  effect: CardEffect;
+  /**
+   * Coins to gain/lose, coins per player (or per property they own), spaces to move
+   * (negative = backward), or the rent multiplier for move_to_nearest (dice multiplier for utilities)
+   */
   amount?: number;
-  /** Target board space index for move_to effect */
+  /** Target board space index for move_to effect ({target} in the description is replaced with its name) */
   targetSpace?: number;
+  /** What a move_to_nearest card looks for */
+  spaceType?: NearestSpaceType;
+  /** Limit a move_to_nearest property search to one district (skipped on boards without it) */
+  district?: string;
+  /** Coins per house and per hotel for street_repairs */
+  perHouse?: number;
+  perHotel?: number;
+  /** Kept in the drawer's hand and played on a later turn instead of applying at once */
+  hold?: boolean;
+}
+
+/** Effects that can sit in a hand: they only move coins, so playing one mid-turn can't move anyone */
+export const HOLDABLE_EFFECTS: CardEffect[] = ["gain_coins", "collect_from_players", "collect_per_property"];
+
+const DECK_TYPES: DeckType[] = ["community", "chance"];
+const NEAREST_SPACE_TYPES: NearestSpaceType[] = ["property", "transit", "utility"];
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DECKS_PATH = process.env.DECKS_PATH || path.join(__dirname, "..", "..", "decks");
+
+function isNonNegativeInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
 }
 
-// ==================== Community Chest Cards ====================
-
-export const COMMUNITY_CARDS: CardDefinition[] = [
-  {
-    id: "comm_tax_refund",
-    deck: "community",
-    title: "Tax Refund",
-    description: "Tax refund! Collect 100 coins.",
-    effect: "gain_coins",
-    amount: 100,
-  },
-  {
-    id: "comm_holiday_bonus",
-    deck: "community",
-    title: "Holiday Bonus",
-    description: "Holiday bonus! Collect 150 coins.",
-    effect: "gain_coins",
-    amount: 150,
-  },
-  {
-    id: "comm_life_insurance",
-    deck: "community",
-    title: "Life Insurance",
-    description: "Life insurance matures. Collect 75 coins.",
-    effect: "gain_coins",
-    amount: 75,
-  },
-  {
-    id: "comm_doctor_fee",
-    deck: "community",
-    title: "Doctor's Fee",
-    description: "Doctor's fee. Pay 50 coins.",
-    effect: "lose_coins",
-    amount: 50,
-  },
-  {
-    id: "comm_school_fees",
-    deck: "community",
-    title: "School Fees",
-    description: "Pay school fees of 100 coins.",
-    effect: "lose_coins",
-    amount: 100,
-  },
-  {
-    id: "comm_jail_free",
-    deck: "community",
-    title: "Get Out of Jail Free",
-    description: "Keep this card until needed. Get out of Jail free!",
-    effect: "jail_free_card",
-  },
-  {
-    id: "comm_birthday",
-    deck: "community",
-    title: "Birthday Party",
-    description: "It's your birthday! Collect 25 coins from each player.",
-    effect: "collect_from_players",
-    amount: 25,
-  },
-  {
-    id: "comm_fundraiser",
-    deck: "community",
-    title: "Community Fundraiser",
-    description: "Community fundraiser. Pay 50 coins to each player.",
-    effect: "pay_to_players",
-    amount: 50,
-  },
-  {
-    id: "comm_bank_error",
-    deck: "community",
-    title: "Bank Error",
-    description: "Bank error in your favor. Collect 200 coins.",
-    effect: "gain_coins",
-    amount: 200,
-  },
-  {
-    id: "comm_hospital_fees",
-    deck: "community",
-    title: "Hospital Fees",
-    description: "Pay hospital fees of 100 coins.",
-    effect: "lose_coins",
-    amount: 100,
-  },
-];
-
-// ==================== Chance Cards ====================
-
-export const CHANCE_CARDS: CardDefinition[] = [
-  {
-    id: "chance_advance_payday",
-    deck: "chance",
-    title: "Advance to Payday",
-    description: "Advance to Payday! Collect bonus if you pass.",
-    effect: "move_to",
-    targetSpace: 0,
-  },
-  {
-    id: "chance_gallery_row",
-    deck: "chance",
-    title: "Gallery Row Studio",
-    description: "Head to Gallery Row Studio.",
-    effect: "move_to",
-    targetSpace: 5,
-  },
-  {
-    id: "chance_dormitory",
-    deck: "chance",
-    title: "Dormitory Row",
-    description: "Visit Dormitory Row.",
-    effect: "move_to",
-    targetSpace: 15,
-  },
-  {
-    id: "chance_stock_exchange",
-    deck: "chance",
-    title: "Stock Exchange",
-    description: "Business trip to Stock Exchange.",
-    effect: "move_to",
-    targetSpace: 20,
-  },
-  {
-    id: "chance_go_back_3",
-    deck: "chance",
-    title: "Go Back",
-    description: "Go back 3 spaces.",
-    effect: "move_relative",
-    amount: -3,
-  },
-  {
-    id: "chance_jail_free",
-    deck: "chance",
-    title: "Get Out of Jail Free",
-    description: "Keep this card until needed. Get out of Jail free!",
-    effect: "jail_free_card",
-  },
-  {
-    id: "chance_crossword",
-    deck: "chance",
-    title: "Crossword Winner",
-    description: "You won a crossword competition! Collect 100 coins.",
-    effect: "gain_coins",
-    amount: 100,
-  },
-  {
-    id: "chance_building_loan",
-    deck: "chance",
-    title: "Building Loan",
-    description: "Building loan matures. Collect 150 coins.",
-    effect: "gain_coins",
-    amount: 150,
-  },
-  {
-    id: "chance_speed_ticket",
-    deck: "chance",
-    title: "Speed Ticket",
-    description: "Speed ticket! Pay 75 coins.",
-    effect: "lose_coins",
-    amount: 75,
-  },
-  {
-    id: "chance_charity_gala",
-    deck: "chance",
-    title: "Charity Gala",
-    description: "Charity gala. Pay 50 coins to each player.",
-    effect: "pay_to_players",
-    amount: 50,
-  },
-];
+/**
+ * Validate one card from a parsed deck JSON file.
+ * Returns { valid: true } or { valid: false, error: string }.
+ */
+export function validateCardDefinition(card: any): { valid: boolean; error?: string } {
+  if (!card || typeof card !== "object") {
+    return { valid: false, error: "Card must be a JSON object." };
+  }
+  if (typeof card.id !== "string" || !/^[a-z0-9_]+$/.test(card.id)) {
+    return { valid: false, error: "id must be lowercase letters, digits and underscores." };
+  }
+  if (typeof card.title !== "string" || card.title.trim() === "") {
+    return { valid: false, error: `Card "${card.id}" needs a title.` };
+  }
+  if (typeof card.description !== "string" || card.description.trim() === "") {
+    return { valid: false, error: `Card "${card.id}" needs a description.` };
+  }
+  if (!CARD_EFFECTS.includes(card.effect)) {
+    return { valid: false, error: `Card "${card.id}" has unknown effect "${card.effect}".` };
+  }
+  if (card.hold !== undefined && typeof card.hold !== "boolean") {
+    return { valid: false, error: `Card "${card.id}" hold must be true or false.` };
+  }
+  if (card.hold && !HOLDABLE_EFFECTS.includes(card.effect)) {
+    return { valid: false, error: `Card "${card.id}" can't be held: only ${HOLDABLE_EFFECTS.join(", ")} can.` };
+  }
+
+  switch (card.effect as CardEffect) {
+    case "gain_coins":
+    case "lose_coins":
+    case "collect_from_players":
+    case "collect_per_property":
+    case "pay_to_players":
+      if (!isNonNegativeInt(card.amount) || card.amount === 0) {
+        return { valid: false, error: `Card "${card.id}" needs a positive amount.` };
+      }
+      break;
+    case "move_to":
+      if (!isNonNegativeInt(card.targetSpace)) {
+        return { valid: false, error: `Card "${card.id}" needs a targetSpace.` };
+      }
+      break;
+    case "move_relative":
+      if (typeof card.amount !== "number" || !Number.isInteger(card.amount) || card.amount === 0) {
+        return { valid: false, error: `Card "${card.id}" needs a non-zero number of spaces.` };
+      }
+      break;
+    case "move_to_nearest":
+      if (!NEAREST_SPACE_TYPES.includes(card.spaceType)) {
+        return { valid: false, error: `Card "${card.id}" spaceType must be one of ${NEAREST_SPACE_TYPES.join(", ")}.` };
+      }
+      if (card.district !== undefined && (card.spaceType !== "property" || typeof card.district !== "string")) {
+        return { valid: false, error: `Card "${card.id}" can only name a district when heading for a property.` };
+      }
+      if (card.amount !== undefined && (!isNonNegativeInt(card.amount) || card.amount === 0)) {
+        return { valid: false, error: `Card "${card.id}" rent multiplier must be positive.` };
+      }
+      break;
+    case "street_repairs":
+      if (!isNonNegativeInt(card.perHouse) || !isNonNegativeInt(card.perHotel)) {
+        return { valid: false, error: `Card "${card.id}" needs perHouse and perHotel amounts.` };
+      }
+      break;
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Load and validate every deck JSON file. Invalid cards are skipped with a warning;
+ * a deck left with no cards is an error.
+ */
+function loadDecks(): Record<DeckType, CardDefinition[]> {
+  const decks: Record<DeckType, CardDefinition[]> = { community: [], chance: [] };
+  const ids = new Set<string>();
+
+  for (const file of readdirSync(DECKS_PATH).filter((f) => f.endsWith(".json")).sort()) {
+    let data: any;
+    try {
+      data = JSON.parse(readFileSync(path.join(DECKS_PATH, file), "utf-8"));
+    } catch (err) {
+      console.warn(`Skipping deck ${file}: invalid JSON`, err);
+      continue;
+    }
+
+    if (!DECK_TYPES.includes(data?.deck) || !Array.isArray(data.cards)) {
+      console.warn(`Skipping deck ${file}: needs a deck of ${DECK_TYPES.join(" or ")} and a cards array`);
+      continue;
+    }
+
+    for (const card of data.cards) {
+      const result = validateCardDefinition(card);
+      if (!result.valid) {
+        console.warn(`Skipping card in ${file}: ${result.error}`);
+        continue;
+      }
+      if (ids.has(card.id)) {
+        console.warn(`Skipping card in ${file}: duplicate id "${card.id}"`);
+        continue;
+      }
+      ids.add(card.id);
+      decks[data.deck as DeckType].push({ ...card, deck: data.deck });
+    }
+  }
+
+  for (const deck of DECK_TYPES) {
+    if (decks[deck].length === 0) {
+      throw new Error(`The ${deck} deck has no cards in ${DECKS_PATH}`);
+    }
+  }
+  return decks;
+}
+
+const DECKS = loadDecks();
+
+export const COMMUNITY_CARDS: CardDefinition[] = DECKS.community;
+export const CHANCE_CARDS: CardDefinition[] = DECKS.chance;
 
 // ==================== Deck Utilities ====================
 
 /** Create a shuffled array of card IDs from a deck */
-export function shuffleDeck(cards: CardDefinition[]): string[] {
+export function shuffleDeck(cards: CardDefinition[], rng: Rng): string[] {
   const ids = cards.map((c) => c.id);
   // Fisher-Yates shuffle
   for (let i = ids.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [ids[i], ids[j]] = [ids[j], ids[i]];
   }
   return ids;
@@ -0,0 +1,78 @@
+/** What a city event changes while it lasts */
+export type CityModifierTarget = "rent" | "build" | "tax";
+
+export interface CityEventDefinition {
+  id: string;
+  title: string;
+  /** Shown in the banner; {district} is replaced with the district picked when the event starts */
+  description: string;
+  target: CityModifierTarget;
+  /** Applied to the affected amounts (0.5 = halved, 0 = waived) */
+  multiplier: number;
+  /** Rounds the event lasts */
+  rounds: number;
+  /** Only affect spaces of this type (rent events) */
+  spaceType?: string;
+  /** Pick a random district to affect when the event starts (rent events) */
+  inDistrict?: boolean;
+  /** Only happens on boards that have a space of this type */
+  requiresSpaceType?: string;
+}
+
+// ==================== City Events ====================
+
+export const CITY_EVENTS: CityEventDefinition[] = [
+  {
+    id: "recession",
+    title: "Recession",
+    description: "The economy slumps. All rents are halved.",
+    target: "rent",
+    multiplier: 0.5,
+    rounds: 2,
+  },
+  {
+    id: "construction_boom",
+    title: "Construction Boom",
+    description: "Builders are everywhere. Houses and hotels cost 25% less.",
+    target: "build",
+    multiplier: 0.75,
+    rounds: 3,
+  },
+  {
+    id: "tourism_surge",
+    title: "Tourism Surge",
+    description: "Tourists flock to {district}. Rents there are up 50%.",
+    target: "rent",
+    multiplier: 1.5,
+    rounds: 3,
+    inDistrict: true,
+  },
+  {
+    id: "transit_strike",
+    title: "Transit Strike",
+    description: "The trains have stopped. Transit stations charge no rent.",
+    target: "rent",
+    multiplier: 0,
+    rounds: 2,
+    spaceType: "transit",
+    requiresSpaceType: "transit",
+  },
+  {
+    id: "tax_holiday",
+    title: "Tax Holiday",
+    description: "City Hall declares a tax holiday. No tax is due.",
+    target: "tax",
+    multiplier: 0,
+    rounds: 2,
+    requiresSpaceType: "tax",
+  },
+  {
+    id: "audit_season",
+    title: "Audit Season",
+    description: "The auditors are in town. Taxes are up 50%.",
+    target: "tax",
+    multiplier: 1.5,
+    rounds: 2,
+    requiresSpaceType: "tax",
+  },
+];
@@ -0,0 +1,365 @@
+import { GameState } from "../state/GameState.js";
+
+// ==================== Event Types ====================
+// Player fields hold session ids and space fields hold board indices, so events
+// stay meaningful for stats, achievements and replays after names change.
+
+export interface DiceRolled { type: "dice_rolled"; player: string; dice: [number, number] }
+export interface PlayerMoved { type: "player_moved"; player: string; space: number }
+export interface PaydayCollected { type: "payday_collected"; player: string; amount: number; landed: boolean }
+export interface JackpotCollected { type: "jackpot_collected"; player: string; amount: number }
+export interface PropertyBought { type: "property_bought"; player: string; space: number; price: number }
+export interface PurchaseDeclined { type: "purchase_declined"; player: string; space: number }
+export interface RentPaid { type: "rent_paid"; player: string; owner: string; space: number; amount: number }
+export interface RentWaived { type: "rent_waived"; player: string; owner: string; space: number; turnsLeft: number }
+export interface TaxPaid { type: "tax_paid"; player: string; space: number; amount: number }
+export interface CardDrawn {
+  type: "card_drawn";
+  player: string;
+  deck: "community" | "chance";
+  cardId: string;
+  title: string;
+  description: string;
+  held: boolean; // kept in the player's hand to play later
+}
+export interface HeldCardPlayed { type: "held_card_played"; player: string; cardId: string; title: string }
+export interface CityEventStarted {
+  type: "city_event_started";
+  player: string; // who landed on City Events
+  event: string;
+  title: string;
+  description: string;
+  rounds: number;
+}
+export interface CityEventEnded { type: "city_event_ended"; event: string; title: string }
+export interface HouseBuilt { type: "house_built"; player: string; space: number; cost: number; houses: number }
+export interface HotelBuilt { type: "hotel_built"; player: string; space: number; cost: number }
+export interface HouseSold { type: "house_sold"; player: string; space: number; amount: number; houses: number }
+export interface HotelSold { type: "hotel_sold"; player: string; space: number; amount: number; keptHouses: boolean }
+export interface PropertyMortgaged { type: "property_mortgaged"; player: string; space: number; amount: number }
+export interface PropertyUnmortgaged { type: "property_unmortgaged"; player: string; space: number; cost: number }
+export interface SentToJail { type: "sent_to_jail"; player: string; reason: "space" | "doubles" | "card" }
+export interface ReleasedFromJail { type: "released_from_jail"; player: string; method: "doubles" | "fine" | "card" }
+export interface JailFinePaid { type: "jail_fine_paid"; player: string; amount: number }
+export interface AuctionStarted { type: "auction_started"; space: number; sealed: boolean }
+export interface BidPlaced { type: "bid_placed"; player: string; space: number; amount: number }
+export interface AuctionPassed { type: "auction_passed"; player: string; space: number }
+export interface AuctionWon { type: "auction_won"; player: string; space: number; amount: number }
+export interface AuctionUnsold { type: "auction_unsold"; space: number }
+export interface SealedBidPlaced { type: "sealed_bid_placed"; player: string; space: number }
+export interface SealedBidsRevealed {
+  type: "sealed_bids_revealed";
+  space: number;
+  bids: { player: string; amount: number }[]; // highest first
+  tieBreak: boolean; // the top bid was tied and the winner was drawn
+}
+export interface TradeCompleted {
+  type: "trade_completed";
+  parties: string[];
+  legs: {
+    from: string;
+    to: string;
+    properties: number[];
+    coins: number;
+    jailCards: number;
+    immunities: { space: number; turns: number }[];
+  }[];
+}
+export interface LoanIssued {
+  type: "loan_issued";
+  lender: string; // empty = the bank
+  borrower: string;
+  principal: number;
+  balance: number;
+  turns: number;
+}
+export interface LoanRepaid { type: "loan_repaid"; player: string; lender: string; amount: number; remaining: number }
+export interface LoanInterestCharged { type: "loan_interest_charged"; player: string; amount: number; addedToBalance: boolean }
+export interface DebtNegotiationStarted {
+  type: "debt_negotiation_started";
+  player: string;
+  creditor: string; // empty = owed to the bank
+  amount: number;
+  reason: string;
+}
+export interface DebtPaid { type: "debt_paid"; player: string; creditor: string; amount: number }
+export interface PlayerBankrupt { type: "player_bankrupt"; player: string; creditor: string }
+export interface TurnStarted { type: "turn_started"; player: string }
+export interface GamePaused { type: "game_paused"; player: string }
+export interface GameResumed { type: "game_resumed"; player: string; pausedSeconds: number }
+export interface VoteStarted { type: "vote_started"; player: string; kind: "end_game" | "kick"; target: string }
+export interface VoteClosed {
+  type: "vote_closed";
+  kind: "end_game" | "kick";
+  target: string;
+  passed: boolean;
+  yes: number;
+  no: number;
+}
+export interface GameOver { type: "game_over"; winner: string; reason: "last_player" | "max_rounds" | "vote"; wealth: number }
+
+export type GameEvent =
+  | DiceRolled
+  | PlayerMoved
+  | PaydayCollected
+  | JackpotCollected
+  | PropertyBought
+  | PurchaseDeclined
+  | RentPaid
+  | RentWaived
+  | TaxPaid
+  | CardDrawn
+  | HeldCardPlayed
+  | CityEventStarted
+  | CityEventEnded
+  | HouseBuilt
+  | HotelBuilt
+  | HouseSold
+  | HotelSold
+  | PropertyMortgaged
+  | PropertyUnmortgaged
+  | SentToJail
+  | ReleasedFromJail
+  | JailFinePaid
+  | AuctionStarted
+  | BidPlaced
+  | AuctionPassed
+  | AuctionWon
+  | AuctionUnsold
+  | SealedBidPlaced
+  | SealedBidsRevealed
+  | TradeCompleted
+  | LoanIssued
+  | LoanRepaid
+  | LoanInterestCharged
+  | DebtNegotiationStarted
+  | DebtPaid
+  | PlayerBankrupt
+  | TurnStarted
+  | GamePaused
+  | GameResumed
+  | VoteStarted
+  | VoteClosed
+  | GameOver;
+
+export type GameEventType = GameEvent["type"];
+
+/** An event as kept in a room's history, for replays */
+export interface RecordedGameEvent {
+  turn: number;
+  timestamp: number;
+  event: GameEvent;
+}
+
+/** Log category for each event; the client picks log icons and toast styles from it */
+export const EVENT_CATEGORIES: Record<GameEventType, string> = {
+  dice_rolled: "roll",
+  player_moved: "roll",
+  payday_collected: "payday",
+  jackpot_collected: "payday",
+  property_bought: "buy",
+  purchase_declined: "buy",
+  rent_paid: "rent",
+  rent_waived: "rent",
+  tax_paid: "tax",
+  card_drawn: "card",
+  held_card_played: "card",
+  city_event_started: "city",
+  city_event_ended: "city",
+  house_built: "build",
+  hotel_built: "build",
+  house_sold: "build",
+  hotel_sold: "build",
+  property_mortgaged: "buy",
+  property_unmortgaged: "buy",
+  sent_to_jail: "jail",
+  released_from_jail: "jail",
+  jail_fine_paid: "jail",
+  auction_started: "auction",
+  bid_placed: "auction",
+  auction_passed: "auction",
+  auction_won: "auction",
+  auction_unsold: "auction",
+  sealed_bid_placed: "auction",
+  sealed_bids_revealed: "auction",
+  trade_completed: "trade",
+  loan_issued: "loan",
+  loan_repaid: "loan",
+  loan_interest_charged: "loan",
+  debt_negotiation_started: "bankruptcy",
+  debt_paid: "bankruptcy",
+  player_bankrupt: "bankrupt",
+  turn_started: "turn",
+  game_paused: "info",
+  game_resumed: "info",
+  vote_started: "vote",
+  vote_closed: "vote",
+  game_over: "info",
+};
+
+// ==================== Event Queue ====================
+
+// Events raised by game logic wait here until the room drains them
+const pendingEvents = new WeakMap<GameState, GameEvent[]>();
+
+/**
+ * Record that something happened in the game. The room drains these after each
+ * action to write the log, broadcast to clients and update stats.
+ */
+export function emitGameEvent(state: GameState, event: GameEvent): void {
+  let queue = pendingEvents.get(state);
+  if (!queue) {
+    queue = [];
+    pendingEvents.set(state, queue);
+  }
+  queue.push(event);
+}
+
+/**
+ * Take every event raised since the last drain, oldest first.
+ */
+export function drainGameEvents(state: GameState): GameEvent[] {
+  const queue = pendingEvents.get(state);
+  if (!queue || queue.length === 0) return [];
+  pendingEvents.set(state, []);
+  return queue;
+}
+
+// ==================== Log Text ====================
+
+/** "A", "A and B", "A, B and C" */
+export function joinNames(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? "";
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Turn an event into its game log line.
+ */
+export function describeGameEvent(state: GameState, event: GameEvent): string {
+  const name = (sessionId: string) => state.players.get(sessionId)?.displayName ?? "Someone";
+  const space = (index: number) => state.boardSpaces[index]?.name ?? "a space";
+
+  switch (event.type) {
+    case "dice_rolled": {
+      const [d1, d2] = event.dice;
+      return `${name(event.player)} rolled ${d1}+${d2}=${d1 + d2}${d1 === d2 ? " (doubles!)" : ""}.`;
+    }
+    case "player_moved":
+      return `${name(event.player)} moved to ${space(event.space)}.`;
+    case "payday_collected":
+      return event.landed
+        ? `${name(event.player)} landed exactly on Payday and collected a bonus ${event.amount} coins!`
+        : `${name(event.player)} collected ${event.amount} coins from Payday.`;
+    case "jackpot_collected":
+      return `${name(event.player)} hit the City Parking jackpot and collected ${event.amount} coins!`;
+    case "property_bought":
+      return `${name(event.player)} bought ${space(event.space)} for ${event.price} coins!`;
+    case "purchase_declined":
+      return `${name(event.player)} declined to buy ${space(event.space)}.`;
+    case "rent_paid":
+      return `${name(event.player)} paid ${event.amount} coins rent to ${name(event.owner)} for ${space(event.space)}.`;
+    case "rent_waived":
+      return `${name(event.player)} landed on ${space(event.space)} but owes ${name(event.owner)} no rent thanks to their deal (${event.turnsLeft} turn${event.turnsLeft === 1 ? "" : "s"} left).`;
+    case "tax_paid":
+      return `${name(event.player)} paid ${event.amount} coins in tax.`;
+    case "card_drawn":
+      return event.held
+        ? `${name(event.player)} drew "${event.title}" and kept it for later.`
+        : `${name(event.player)} drew "${event.title}" — ${event.description}`;
+    case "held_card_played":
+      return `${name(event.player)} played "${event.title}" from their hand.`;
+    case "city_event_started":
+      return `City Events: ${event.title}! ${event.description} (${event.rounds} round${event.rounds === 1 ? "" : "s"})`;
+    case "city_event_ended":
+      return `The ${event.title} is over.`;
+    case "house_built":
+      return `${name(event.player)} built a house on ${space(event.space)} for ${event.cost} coins! (${event.houses}/4 houses)`;
+    case "hotel_built":
+      return `${name(event.player)} built a HOTEL on ${space(event.space)} for ${event.cost} coins!`;
+    case "house_sold":
+      return `${name(event.player)} sold a house on ${space(event.space)} for ${event.amount} coins. (${event.houses}/4 houses)`;
+    case "hotel_sold":
+      return event.keptHouses
+        ? `${name(event.player)} sold the hotel on ${space(event.space)} for ${event.amount} coins and kept 4 houses.`
+        : `${name(event.player)} sold the hotel on ${space(event.space)} for ${event.amount} coins.`;
+    case "property_mortgaged":
+      return `${name(event.player)} mortgaged ${space(event.space)} for ${event.amount} coins.`;
+    case "property_unmortgaged":
+      return `${name(event.player)} unmortgaged ${space(event.space)} for ${event.cost} coins.`;
+    case "sent_to_jail":
+      return event.reason === "doubles"
+        ? `${name(event.player)} rolled doubles 3 times in a row and was sent to Jail!`
+        : `${name(event.player)} was sent to Jail!`;
+    case "released_from_jail":
+      if (event.method === "doubles") return `${name(event.player)} rolled doubles and escaped from Jail!`;
+      if (event.method === "card") return `${name(event.player)} used a Get Out of Jail Free card!`;
+      return `${name(event.player)} is out of Jail.`;
+    case "jail_fine_paid":
+      return `${name(event.player)} paid the ${event.amount} coin jail fine.`;
+    case "auction_started":
+      return event.sealed
+        ? `${space(event.space)} is up for a sealed-bid auction!`
+        : `${space(event.space)} is now up for auction! Minimum bid: 1 coin.`;
+    case "bid_placed":
+      return `${name(event.player)} bid ${event.amount} coins for ${space(event.space)}!`;
+    case "auction_passed":
+      return `${name(event.player)} passed on the auction.`;
+    case "auction_won":
+      return `${name(event.player)} won ${space(event.space)} for ${event.amount} coins!`;
+    case "auction_unsold":
+      return `No bids placed. ${space(event.space)} remains unowned.`;
+    case "sealed_bid_placed":
+      return `${name(event.player)} submitted a sealed bid for ${space(event.space)}.`;
+    case "sealed_bids_revealed": {
+      const bids = event.bids.map((b) => `${name(b.player)} ${b.amount}`).join(", ");
+      return `Sealed bids for ${space(event.space)}: ${bids || "none"}.${event.tieBreak ? " The top bid was tied, so the winner was drawn." : ""}`;
+    }
+    case "trade_completed":
+      return `${joinNames(event.parties.map(name))} completed a trade!`;
+    case "loan_issued":
+      return event.lender
+        ? `${name(event.lender)} lent ${name(event.borrower)} ${event.principal} coins, to be repaid with ${event.balance} coins within ${event.turns} turns.`
+        : `${name(event.borrower)} borrowed ${event.principal} coins from the bank, due within ${event.turns} turns.`;
+    case "loan_repaid": {
+      const to = event.lender ? name(event.lender) : "the bank";
+      return event.remaining > 0
+        ? `${name(event.player)} repaid ${event.amount} coins to ${to} (${event.remaining} still owed).`
+        : `${name(event.player)} paid off their loan from ${to} with ${event.amount} coins.`;
+    }
+    case "loan_interest_charged":
+      return event.addedToBalance
+        ? `${name(event.player)} couldn't cover ${event.amount} coins of bank loan interest, so it was added to the loan.`
+        : `${name(event.player)} paid ${event.amount} coins of interest on their bank loan.`;
+    case "debt_negotiation_started": {
+      const owedTo = event.creditor ? ` to ${name(event.creditor)}` : "";
+      return `${name(event.player)} can't afford ${event.amount} coins${owedTo}! Bankruptcy negotiation started — sell assets to pay!`;
+    }
+    case "debt_paid": {
+      const paidTo = event.creditor ? ` to ${name(event.creditor)}` : "";
+      return `${name(event.player)} raised enough funds and paid ${event.amount} coins${paidTo}!`;
+    }
+    case "player_bankrupt":
+      return event.creditor
+        ? `${name(event.player)} went bankrupt! All assets transferred to ${name(event.creditor)}.`
+        : `${name(event.player)} went bankrupt! All properties returned to the bank.`;
+    case "turn_started":
+      return `${name(event.player)}'s turn.`;
+    case "game_paused":
+      return `${name(event.player)} paused the game.`;
+    case "game_resumed":
+      return `${name(event.player)} resumed the game after ${event.pausedSeconds}s.`;
+    case "vote_started":
+      return event.kind === "kick"
+        ? `${name(event.player)} started a vote to kick ${name(event.target)} for being AFK.`
+        : `${name(event.player)} started a vote to end the game now and score by net worth.`;
+    case "vote_closed": {
+      const what = event.kind === "kick" ? `kick ${name(event.target)}` : "end the game";
+      return `The vote to ${what} ${event.passed ? "passed" : "failed"} (${event.yes} yes, ${event.no} no).`;
+    }
+    case "game_over":
+      if (event.reason === "last_player") return `${name(event.winner)} wins! All other players went bankrupt.`;
+      if (event.reason === "vote") return `The players voted to end the game. ${name(event.winner)} wins with ${event.wealth} total wealth!`;
+      return `Game over! ${name(event.winner)} wins with ${event.wealth} total wealth!`;
+  }
+}
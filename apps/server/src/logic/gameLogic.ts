@@ -1,51 +1,137 @@
 import { ArraySchema } from "@colyseus/schema";
-import { GameState, Player, BoardSpace, TradeOffer, AuctionState, BankruptcyNegotiation } from "../state/GameState.js";
 import {
-  BOARD_SPACES,
-  TOTAL_SPACES,
-  INCOME_TAX,
-  LUXURY_TAX,
-  SUPER_TAX,
-  PAYDAY_BONUS,
-  MAX_ROUNDS,
-  HOUSE_COST,
-  HOTEL_COST,
-  DISTRICT_PROPERTIES,
+  GameState,
+  GameSettings,
+  Player,
+  BoardSpace,
+  BoardDistrict,
+  TradeOffer,
+  TradeLeg,
+  LoanOffer,
+  Loan,
+  AuctionState,
+  BankruptcyNegotiation,
+  ImmunityClause,
+  RentImmunity,
+  HeldCard,
+  CityModifier,
+} from "../state/GameState.js";
+import {
   MAX_HOUSES,
-  JAIL_FINE,
-  JAIL_SPACE_INDEX,
   MAX_JAIL_TURNS,
+  OWNABLE_SPACE_TYPES,
+  BoardDefinition,
+  getBoardDefinition,
 } from "./boardConfig.js";
 import {
   CardDefinition,
+  CardEffect,
   COMMUNITY_CARDS,
   CHANCE_CARDS,
   getCardById,
+  shuffleDeck,
 } from "./cardData.js";
+import { CITY_EVENTS, CityModifierTarget } from "./cityEvents.js";
+import { Rng } from "./rng.js";
+import { emitGameEvent, joinNames } from "./gameEvents.js";
 
 /**
- * Initialize the board spaces in the game state from config.
+ * Initialize the board spaces and layout in the game state from a board map.
+ * Replaces any spaces from a previously selected board.
  */
-export function initializeBoard(state: GameState): void {
-  for (const config of BOARD_SPACES) {
+export function initializeBoard(state: GameState, board: BoardDefinition): void {
+  state.boardSpaces.clear();
+  board.spaces.forEach((config, index) => {
     const space = new BoardSpace();
-    space.index = config.index;
+    space.index = index;
     space.name = config.name;
     space.spaceType = config.spaceType;
-    space.district = config.district;
-    space.price = config.price;
-    space.rent = config.rent;
+    space.district = config.district ?? "";
+    space.price = config.price ?? 0;
+    space.rentScale.push(...(config.rentScale ?? []));
+    space.rent = config.rentScale?.[0] ?? (config.spaceType === "transit" ? board.transitRent[0] ?? 0 : 0);
+    space.taxKind = config.spaceType === "tax" ? config.taxKind ?? "income" : "";
     space.ownerId = "";
     state.boardSpaces.push(space);
+  });
+
+  const layout = state.board;
+  layout.id = board.id;
+  layout.name = board.name;
+  layout.sideLength = board.sideLength;
+  layout.corners.clear();
+  layout.corners.push(...board.corners);
+  layout.jailIndex = board.spaces.findIndex((s) => s.spaceType === "jail");
+  layout.transitRent.clear();
+  layout.transitRent.push(...board.transitRent);
+  layout.utilityMultipliers.clear();
+  layout.utilityMultipliers.push(...board.utilityMultipliers);
+
+  layout.districts.clear();
+  for (const config of board.districts) {
+    const district = new BoardDistrict();
+    district.name = config.name;
+    district.color = config.color;
+    district.houseCost = config.houseCost;
+    district.hotelCost = config.hotelCost;
+    board.spaces.forEach((s, index) => {
+      if (s.spaceType === "property" && s.district === config.name) {
+        district.properties.push(index);
+      }
+    });
+    layout.districts.set(config.name, district);
   }
 }
 
 /**
- * Roll two six-sided dice. Returns [die1, die2].
+ * Get the board indices of every property in a district on the current board.
+ */
+export function getDistrictProperties(state: GameState, district: string): number[] {
+  const entry = state.board.districts.get(district);
+  return entry ? Array.from(entry.properties) : [];
+}
+
+/**
+ * Get the district names on the current board.
+ */
+export function getDistrictNames(state: GameState): string[] {
+  return Array.from(state.board.districts.keys());
+}
+
+/**
+ * Get the cost of one house in a district on the current board.
+ */
+export function getHouseCost(state: GameState, district: string): number {
+  return state.board.districts.get(district)?.houseCost || 100;
+}
+
+/**
+ * Get the cost of a hotel in a district on the current board.
+ */
+export function getHotelCost(state: GameState, district: string): number {
+  return state.board.districts.get(district)?.hotelCost || 100;
+}
+
+/**
+ * What building a house in a district costs right now, after city events.
  */
-export function rollDice(): [number, number] {
-  const d1 = Math.floor(Math.random() * 6) + 1;
-  const d2 = Math.floor(Math.random() * 6) + 1;
+export function getHouseBuildCost(state: GameState, district: string): number {
+  return applyCityModifiers(state, "build", getHouseCost(state, district), "property", district);
+}
+
+/**
+ * What building a hotel in a district costs right now, after city events.
+ */
+export function getHotelBuildCost(state: GameState, district: string): number {
+  return applyCityModifiers(state, "build", getHotelCost(state, district), "property", district);
+}
+
+/**
+ * Roll two six-sided dice with the game's RNG. Returns [die1, die2].
+ */
+export function rollDice(rng: Rng): [number, number] {
+  const d1 = Math.floor(rng() * 6) + 1;
+  const d2 = Math.floor(rng() * 6) + 1;
   return [d1, d2];
 }
 
@@ -78,30 +164,70 @@ export function getActivePlayers(state: GameState): Player[] {
  * Move a player forward by the given number of spaces.
  * Returns true if the player passed Payday.
  */
-export function movePlayer(player: Player, spaces: number): boolean {
+export function movePlayer(state: GameState, player: Player, spaces: number): boolean {
   const oldPosition = player.position;
-  const newPosition = (oldPosition + spaces) % TOTAL_SPACES;
+  const newPosition = (oldPosition + spaces) % state.boardSpaces.length;
   player.position = newPosition;
+  emitGameEvent(state, { type: "player_moved", player: player.sessionId, space: newPosition });
 
   // Check if player passed or landed on Payday (index 0)
   return newPosition < oldPosition;
 }
 
+/**
+ * Pay the Payday bonus to a player who passed or landed on Payday, and charge
+ * their bank loan interest. The extra bonus for landing exactly on Payday comes
+ * after the passing one, so it doesn't charge interest a second time.
+ * Returns the amount paid.
+ */
+export function collectPayday(state: GameState, player: Player, landed: boolean = false): number {
+  const bonus = state.settings.paydayBonus;
+  player.coins += bonus;
+  emitGameEvent(state, { type: "payday_collected", player: player.sessionId, amount: bonus, landed });
+  if (!landed) chargeLoanInterest(state, player);
+  return bonus;
+}
+
+/**
+ * Route a payment made to the bank (taxes, fines, card fees) into the
+ * City Parking jackpot when that house rule is enabled.
+ */
+export function payIntoJackpot(state: GameState, amount: number): void {
+  if (state.settings.freeParkingJackpot && amount > 0) {
+    state.freeParkingPot += amount;
+  }
+}
+
 /**
  * Send a player to jail.
  */
-export function sendToJail(player: Player): void {
-  player.position = JAIL_SPACE_INDEX;
+export function sendToJail(state: GameState, player: Player, reason: "space" | "doubles" | "card" = "space"): void {
+  player.position = state.board.jailIndex;
   player.inJail = true;
   player.jailTurnsRemaining = MAX_JAIL_TURNS;
+  emitGameEvent(state, { type: "sent_to_jail", player: player.sessionId, reason });
 }
 
 /**
  * Release a player from jail.
  */
-export function releaseFromJail(player: Player): void {
+export function releaseFromJail(state: GameState, player: Player, method: "doubles" | "fine" | "card"): void {
   player.inJail = false;
   player.jailTurnsRemaining = 0;
+  emitGameEvent(state, { type: "released_from_jail", player: player.sessionId, method });
+}
+
+/**
+ * Pay the jail fine to the bank and release the player.
+ * The caller checks the player can afford it.
+ */
+export function payJailFine(state: GameState, player: Player): number {
+  const fine = state.settings.jailFine;
+  player.coins -= fine;
+  payIntoJackpot(state, fine);
+  emitGameEvent(state, { type: "jail_fine_paid", player: player.sessionId, amount: fine });
+  releaseFromJail(state, player, "fine");
+  return fine;
 }
 
 /**
@@ -114,9 +240,15 @@ export function processLanding(state: GameState, player: Player): string {
   switch (space.spaceType) {
     case "payday":
       // Landed directly on Payday - bonus already given when passing
+      if (state.settings.doublePaydayOnLanding) {
+        const bonus = collectPayday(state, player, true);
+        return `${player.displayName} landed exactly on Payday and collected a bonus ${bonus} coins!`;
+      }
       return `${player.displayName} is on Payday!`;
 
     case "property":
+    case "transit":
+    case "utility":
       return processPropertyLanding(state, player, space);
 
     case "tax":
@@ -126,12 +258,23 @@ export function processLanding(state: GameState, player: Player): string {
       return `${player.displayName} is just visiting Jail.`;
 
     case "goToJail":
-      sendToJail(player);
+      sendToJail(state, player);
       return `${player.displayName} was sent to Jail!`;
 
     case "parking":
+      if (state.settings.freeParkingJackpot && state.freeParkingPot > 0) {
+        const jackpot = state.freeParkingPot;
+        player.coins += jackpot;
+        state.freeParkingPot = 0;
+        emitGameEvent(state, { type: "jackpot_collected", player: player.sessionId, amount: jackpot });
+        return `${player.displayName} hit the City Parking jackpot and collected ${jackpot} coins!`;
+      }
       return `${player.displayName} is at City Parking. Nothing happens.`;
 
+    case "cityEvents":
+      // The event is picked by the GameRoom (which owns the rng).
+      return `${player.displayName} landed on ${space.name}!`;
+
     case "community":
     case "chance":
       // Card drawing is handled by the GameRoom (which owns the deck state).
@@ -144,11 +287,29 @@ export function processLanding(state: GameState, player: Player): string {
 }
 
 /**
- * Get the effective rent for a property based on houses/hotel.
+ * Get the effective rent for a property based on houses/hotel, adjusted by any city events.
  */
-function getEffectiveRent(state: GameState, space: BoardSpace): number {
-  const config = BOARD_SPACES[space.index];
-  const rentScale = config?.rentScale;
+export function getEffectiveRent(state: GameState, space: BoardSpace): number {
+  return applyCityModifiers(state, "rent", getBaseRent(state, space), space.spaceType, space.district);
+}
+
+/**
+ * Get the rent for a property based on houses/hotel, before city events.
+ */
+function getBaseRent(state: GameState, space: BoardSpace): number {
+  if (space.spaceType === "transit") {
+    const transitRent = state.board.transitRent;
+    const stationsOwned = countOwnedTransit(state, space.ownerId);
+    return transitRent[Math.min(stationsOwned, transitRent.length) - 1] ?? space.rent;
+  }
+  if (space.spaceType === "utility") {
+    const multipliers = state.board.utilityMultipliers;
+    const utilitiesOwned = countOwnedUtilities(state, space.ownerId);
+    const multiplier = multipliers[Math.min(utilitiesOwned, multipliers.length) - 1] ?? 0;
+    return (state.dice1 + state.dice2) * multiplier;
+  }
+
+  const rentScale = space.rentScale.length > 0 ? space.rentScale : undefined;
 
   if (space.hasHotel && rentScale) {
     return rentScale[5]; // hotel
@@ -167,12 +328,33 @@ function getEffectiveRent(state: GameState, space: BoardSpace): number {
   return baseRent;
 }
 
+/**
+ * Count how many transit stations a player owns (mortgaged stations still count).
+ */
+export function countOwnedTransit(state: GameState, sessionId: string): number {
+  return state.boardSpaces.filter((s) => s.spaceType === "transit" && s.ownerId === sessionId).length;
+}
+
+/**
+ * Count how many utilities a player owns (mortgaged utilities still count).
+ */
+export function countOwnedUtilities(state: GameState, sessionId: string): number {
+  return state.boardSpaces.filter((s) => s.spaceType === "utility" && s.ownerId === sessionId).length;
+}
+
+/**
+ * Check whether a space can be bought, auctioned, mortgaged and traded.
+ */
+export function isOwnableSpace(space: BoardSpace): boolean {
+  return OWNABLE_SPACE_TYPES.includes(space.spaceType);
+}
+
 /**
  * Check if a player owns all properties in a district.
  */
 export function playerHasMonopoly(state: GameState, sessionId: string, district: string): boolean {
-  const indices = DISTRICT_PROPERTIES[district];
-  if (!indices || indices.length === 0) return false;
+  const indices = getDistrictProperties(state, district);
+  if (indices.length === 0) return false;
   return indices.every((idx) => state.boardSpaces[idx]?.ownerId === sessionId);
 }
 
@@ -181,7 +363,7 @@ export function playerHasMonopoly(state: GameState, sessionId: string, district:
  */
 export function getPlayerMonopolies(state: GameState, sessionId: string): string[] {
   const monopolies: string[] = [];
-  for (const district of Object.keys(DISTRICT_PROPERTIES)) {
+  for (const district of getDistrictNames(state)) {
     if (playerHasMonopoly(state, sessionId, district)) {
       monopolies.push(district);
     }
@@ -200,8 +382,8 @@ export function getBuildableProperties(state: GameState, player: Player): number
   const buildable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
-    const cost = HOUSE_COST[district] || 100;
+    const indices = getDistrictProperties(state, district);
+    const cost = getHouseBuildCost(state, district);
     if (player.coins < cost) continue;
 
     // Check if any property in the district is mortgaged - can't build if so
@@ -237,8 +419,8 @@ export function getHotelUpgradeableProperties(state: GameState, player: Player):
   const upgradeable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
-    const cost = HOTEL_COST[district] || 100;
+    const indices = getDistrictProperties(state, district);
+    const cost = getHotelBuildCost(state, district);
     if (player.coins < cost) continue;
 
     // Check if any property in the district is mortgaged - can't build if so
@@ -275,7 +457,7 @@ export function buildHouse(state: GameState, player: Player, spaceIndex: number)
   if (!space.district) return "Cannot build here.";
   if (space.isMortgaged) return "Cannot build on a mortgaged property. Unmortgage it first.";
 
-  const cost = HOUSE_COST[space.district] || 100;
+  const cost = getHouseBuildCost(state, space.district);
   const buildable = getBuildableProperties(state, player);
 
   if (!buildable.includes(spaceIndex)) {
@@ -288,6 +470,7 @@ export function buildHouse(state: GameState, player: Player, spaceIndex: number)
 
   player.coins -= cost;
   space.houses++;
+  emitGameEvent(state, { type: "house_built", player: player.sessionId, space: spaceIndex, cost, houses: space.houses });
 
   return `${player.displayName} built a house on ${space.name} for ${cost} coins! (${space.houses}/4 houses)`;
 }
@@ -303,7 +486,7 @@ export function buildHotel(state: GameState, player: Player, spaceIndex: number)
   if (!space.district) return "Cannot build here.";
   if (space.isMortgaged) return "Cannot build on a mortgaged property. Unmortgage it first.";
 
-  const cost = HOTEL_COST[space.district] || 100;
+  const cost = getHotelBuildCost(state, space.district);
   const upgradeable = getHotelUpgradeableProperties(state, player);
 
   if (!upgradeable.includes(spaceIndex)) {
@@ -317,6 +500,7 @@ export function buildHotel(state: GameState, player: Player, spaceIndex: number)
   player.coins -= cost;
   space.houses = 0;
   space.hasHotel = true;
+  emitGameEvent(state, { type: "hotel_built", player: player.sessionId, space: spaceIndex, cost });
 
   return `${player.displayName} built a HOTEL on ${space.name} for ${cost} coins!`;
 }
@@ -330,6 +514,8 @@ function processPropertyLanding(state: GameState, player: Player, space: BoardSp
     if (player.coins >= space.price) {
       state.awaitingBuy = true;
       return `${player.displayName} landed on ${space.name} (${space.price} coins). Buy it?`;
+    } else if (!state.settings.auctionOnDecline) {
+      return `${player.displayName} landed on ${space.name} but can't afford it (${space.price} coins).`;
     } else {
       // Can't afford — start auction for this property
       const auctionResult = startAuction(state, space.index);
@@ -345,22 +531,48 @@ function processPropertyLanding(state: GameState, player: Player, space: BoardSp
     }
     const owner = state.players.get(space.ownerId);
     if (owner && owner.isActive && !owner.isBankrupt) {
-      const rentAmount = getEffectiveRent(state, space);
-      return payRent(state, player, owner, rentAmount, space.name);
+      if (owner.inJail && state.settings.noRentInJail) {
+        return `${player.displayName} landed on ${space.name} (${owner.displayName} is in Jail - no rent).`;
+      }
+      return chargeRent(state, player, owner, getEffectiveRent(state, space), space);
     }
     return `${player.displayName} landed on ${space.name} (owner is bankrupt).`;
   }
 }
 
+/**
+ * Charge rent for landing on another player's space. A city event can bring the
+ * rent down to nothing, and then there's nothing to pay.
+ */
+function chargeRent(state: GameState, player: Player, owner: Player, amount: number, space: BoardSpace): string {
+  if (amount === 0) {
+    return `${player.displayName} landed on ${space.name} (no rent during the city's events).`;
+  }
+  return payRent(state, player, owner, amount, space);
+}
+
 /**
  * Pay rent from one player to another.
  * If the player can't afford it and has assets to sell, start bankruptcy negotiation.
  */
-function payRent(state: GameState, payer: Player, owner: Player, amount: number, spaceName: string): string {
+function payRent(state: GameState, payer: Player, owner: Player, amount: number, space: BoardSpace): string {
+  const immunity = getRentImmunity(state, space.index, payer.sessionId);
+  if (immunity && immunity.ownerSessionId === owner.sessionId) {
+    emitGameEvent(state, {
+      type: "rent_waived",
+      player: payer.sessionId,
+      owner: owner.sessionId,
+      space: space.index,
+      turnsLeft: immunity.turnsRemaining,
+    });
+    return `${payer.displayName} owes no rent on ${space.name} thanks to a deal with ${owner.displayName}.`;
+  }
+
   if (payer.coins >= amount) {
     payer.coins -= amount;
     owner.coins += amount;
-    return `${payer.displayName} paid ${amount} coins rent to ${owner.displayName} for ${spaceName}.`;
+    emitGameEvent(state, { type: "rent_paid", player: payer.sessionId, owner: owner.sessionId, space: space.index, amount });
+    return `${payer.displayName} paid ${amount} coins rent to ${owner.displayName} for ${space.name}.`;
   } else {
     // Player can't afford rent — check if they have assets to liquidate
     const totalAssetValue = calculateLiquidationValue(state, payer);
@@ -384,12 +596,21 @@ function payRent(state: GameState, payer: Player, owner: Player, amount: number,
  * If the player can't afford it and has assets to sell, start bankruptcy negotiation.
  */
 function processTaxLanding(state: GameState, player: Player, space: BoardSpace): string {
-  let taxAmount = INCOME_TAX;
-  if (space.name === "Luxury Tax") taxAmount = LUXURY_TAX;
-  if (space.name === "Super Tax") taxAmount = SUPER_TAX;
+  const settings = state.settings;
+  let taxAmount = settings.incomeTax;
+  if (space.taxKind === "luxury") taxAmount = settings.luxuryTax;
+  if (space.taxKind === "super") taxAmount = settings.superTax;
+  taxAmount = applyCityModifiers(state, "tax", taxAmount);
+
+  if (taxAmount === 0) {
+    const waiver = state.cityModifiers.find((m) => m.target === "tax" && m.multiplier === 0);
+    return `${player.displayName} owes no tax during the ${waiver?.title ?? "city event"}.`;
+  }
 
   if (player.coins >= taxAmount) {
     player.coins -= taxAmount;
+    payIntoJackpot(state, taxAmount);
+    emitGameEvent(state, { type: "tax_paid", player: player.sessionId, space: space.index, amount: taxAmount });
     return `${player.displayName} paid ${taxAmount} coins in tax.`;
   } else {
     // Check if they have assets to liquidate
@@ -411,7 +632,7 @@ function processTaxLanding(state: GameState, player: Player, space: BoardSpace):
 export function buyProperty(state: GameState, player: Player): string {
   const space = state.boardSpaces[player.position];
 
-  if (space.spaceType !== "property") {
+  if (!isOwnableSpace(space)) {
     return "This space is not a property.";
   }
   if (space.ownerId !== "") {
@@ -425,6 +646,7 @@ export function buyProperty(state: GameState, player: Player): string {
   space.ownerId = player.sessionId;
   player.ownedProperties.push(space.index);
   state.awaitingBuy = false;
+  emitGameEvent(state, { type: "property_bought", player: player.sessionId, space: space.index, price: space.price });
 
   return `${player.displayName} bought ${space.name} for ${space.price} coins!`;
 }
@@ -434,6 +656,10 @@ export function buyProperty(state: GameState, player: Player): string {
  */
 export function skipBuy(state: GameState): string {
   state.awaitingBuy = false;
+  const player = getCurrentPlayer(state);
+  if (player) {
+    emitGameEvent(state, { type: "purchase_declined", player: player.sessionId, space: player.position });
+  }
   return "Property purchase declined.";
 }
 
@@ -466,8 +692,14 @@ export function bankruptPlayer(state: GameState, player: Player, creditor?: Play
     }
   }
   player.ownedProperties.clear();
+  // Held cards go back to the bank, so they rejoin the deck at the next reshuffle
+  player.heldCards.clear();
+  removeRentImmunities(state, (im) => im.ownerSessionId === player.sessionId || im.beneficiarySessionId === player.sessionId);
+  removeTradesInvolving(state, player.sessionId);
+  removeLoansInvolving(state, player.sessionId);
 
   state.playerCount = getActivePlayers(state).length as any;
+  emitGameEvent(state, { type: "player_bankrupt", player: player.sessionId, creditor: creditor?.sessionId ?? "" });
 }
 
 /**
@@ -481,6 +713,8 @@ export function advanceTurn(state: GameState): string {
   const currentPlayer = getCurrentPlayer(state);
   if (currentPlayer) {
     currentPlayer.doublesCount = 0;
+    tickRentImmunities(state, currentPlayer);
+    tickLoans(state, currentPlayer);
   }
 
   const activePlayers = getActivePlayers(state);
@@ -492,26 +726,31 @@ export function advanceTurn(state: GameState): string {
   // Move to next player index
   state.currentPlayerIndex = (state.currentPlayerIndex + 1) % activePlayers.length;
   state.turnCount++;
+  if (state.currentPlayerIndex === 0) {
+    tickCityEvents(state);
+  }
 
   const nextPlayer = activePlayers[state.currentPlayerIndex];
 
   // Check max rounds
-  if (state.turnCount >= MAX_ROUNDS * activePlayers.length) {
+  if (state.turnCount >= state.settings.maxRounds * activePlayers.length) {
     return endGame(state);
   }
 
+  emitGameEvent(state, { type: "turn_started", player: nextPlayer.sessionId });
   return `${nextPlayer.displayName}'s turn.`;
 }
 
 /**
  * End the game and determine the winner.
  */
-function endGame(state: GameState): string {
+function endGame(state: GameState, reason: "max_rounds" | "vote" = "max_rounds"): string {
   state.phase = "finished";
 
   const activePlayers = getActivePlayers(state);
   if (activePlayers.length === 1) {
     state.winnerId = activePlayers[0].sessionId;
+    emitGameEvent(state, { type: "game_over", winner: state.winnerId, reason: "last_player", wealth: 0 });
     return `${activePlayers[0].displayName} wins! All other players went bankrupt.`;
   }
 
@@ -528,22 +767,28 @@ function endGame(state: GameState): string {
   }
 
   state.winnerId = richest.sessionId;
+  emitGameEvent(state, { type: "game_over", winner: state.winnerId, reason, wealth: richestWealth });
   return `Game over! ${richest.displayName} wins with ${richestWealth} total wealth!`;
 }
 
 /**
- * Calculate total wealth for a player (coins + property values + building values).
+ * Calculate total wealth for a player (coins + property values + building values),
+ * net of loans they owe or are owed.
  */
-function calculateWealth(state: GameState, player: Player): number {
+export function calculateWealth(state: GameState, player: Player): number {
   let wealth = player.coins;
+  state.loans.forEach((loan) => {
+    if (loan.borrowerSessionId === player.sessionId) wealth -= loan.balance;
+    if (loan.lenderSessionId === player.sessionId) wealth += loan.balance;
+  });
   for (let i = 0; i < player.ownedProperties.length; i++) {
     const spaceIndex = player.ownedProperties[i];
     const space = state.boardSpaces[spaceIndex];
     if (space) {
       wealth += space.price;
       // Add building values
-      const houseCost = HOUSE_COST[space.district] || 0;
-      const hotelCost = HOTEL_COST[space.district] || 0;
+      const houseCost = space.district ? getHouseCost(state, space.district) : 0;
+      const hotelCost = space.district ? getHotelCost(state, space.district) : 0;
       if (space.hasHotel) {
         wealth += houseCost * MAX_HOUSES + hotelCost; // 4 houses + hotel
       } else {
@@ -562,258 +807,790 @@ export function checkGameOver(state: GameState): boolean {
   return activePlayers.length <= 1;
 }
 
+// ==================== Trade Logic ====================
+
+/** Longest rent-immunity deal a trade can include, in the beneficiary's turns */
+export const MAX_IMMUNITY_TURNS = 10;
+
+/**
+ * Maximum number of counter-offer rounds allowed.
+ */
+export const MAX_COUNTER_OFFERS = 5;
+
+/** Most offers a player can have open at once as the original proposer */
+export const MAX_OPEN_TRADES = 3;
+
+/** A rent deal as sent by clients: no rent on spaceIndex for this many turns */
+export interface ImmunityTerm {
+  spaceIndex: number;
+  turns: number;
+}
+
+/** What one participant hands another, as sent by clients */
+export interface TradeLegTerms {
+  fromSessionId: string;
+  toSessionId: string;
+  properties: number[];
+  coins: number;
+  jailCards: number;
+  immunities: ImmunityTerm[]; // on the giver's properties, for the receiver
+}
+
+function isEmptyLeg(leg: TradeLegTerms): boolean {
+  return leg.properties.length === 0 && leg.coins === 0 && leg.jailCards === 0 && leg.immunities.length === 0;
+}
+
 /**
- * Validate a trade offer between two players.
+ * Validate a trade between two or more players. `senderId` is the player
+ * sending these terms; errors about them are worded in the second person.
  * Returns { valid: true } or { valid: false, error: string }.
  */
-export function validateTradeOffer(
+export function validateTradeTerms(
   state: GameState,
-  fromSessionId: string,
-  toSessionId: string,
-  offeredProperties: number[],
-  requestedProperties: number[],
-  offeredCoins: number,
-  requestedCoins: number
+  senderId: string,
+  participants: string[],
+  legs: TradeLegTerms[]
 ): { valid: boolean; error?: string } {
-  if (fromSessionId === toSessionId) {
-    return { valid: false, error: "Cannot trade with yourself." };
-  }
-
-  const fromPlayer = state.players.get(fromSessionId);
-  const toPlayer = state.players.get(toSessionId);
-
-  if (!fromPlayer || !fromPlayer.isActive || fromPlayer.isBankrupt) {
-    return { valid: false, error: "You are not an active player." };
+  if (participants.length < 2) {
+    return { valid: false, error: "A trade needs at least two players." };
   }
-  if (!toPlayer || !toPlayer.isActive || toPlayer.isBankrupt) {
-    return { valid: false, error: "That player is not active." };
+  if (new Set(participants).size !== participants.length) {
+    return { valid: false, error: "Cannot trade with yourself." };
   }
-
-  // Validate coins are non-negative
-  if (offeredCoins < 0 || requestedCoins < 0) {
-    return { valid: false, error: "Coin amounts cannot be negative." };
+  if (!participants.includes(senderId)) {
+    return { valid: false, error: "You are not part of this trade." };
   }
 
-  // Trade must have at least something being exchanged
-  if (offeredProperties.length === 0 && requestedProperties.length === 0 && offeredCoins === 0 && requestedCoins === 0) {
-    return { valid: false, error: "Trade must include at least one property or coins." };
+  const players = new Map<string, Player>();
+  for (const sessionId of participants) {
+    const player = state.players.get(sessionId);
+    if (sessionId === senderId) {
+      if (!player || !player.isActive || player.isBankrupt) {
+        return { valid: false, error: "You are not an active player." };
+      }
+    } else {
+      if (!player || !player.isActive || player.isBankrupt) {
+        return { valid: false, error: "That player is not active." };
+      }
+      if (player.isDisconnected) {
+        return { valid: false, error: `${player.displayName} is disconnected.` };
+      }
+    }
+    players.set(sessionId, player);
   }
+  const doesnt = (player: Player) => (player.sessionId === senderId ? "You don't" : `${player.displayName} doesn't`);
 
-  // Validate fromPlayer owns all offered properties and they have no buildings
-  for (const idx of offeredProperties) {
-    const space = state.boardSpaces[idx];
-    if (!space) {
-      return { valid: false, error: `Invalid property index: ${idx}.` };
+  // Every leg runs between two different participants, once per direction
+  const pairs = new Set<string>();
+  const involved = new Set<string>();
+  for (const leg of legs) {
+    if (!players.has(leg.fromSessionId) || !players.has(leg.toSessionId)) {
+      return { valid: false, error: "Trade terms name a player who isn't part of the trade." };
+    }
+    if (leg.fromSessionId === leg.toSessionId) {
+      return { valid: false, error: "Cannot trade with yourself." };
+    }
+    const pair = `${leg.fromSessionId}>${leg.toSessionId}`;
+    if (pairs.has(pair)) {
+      return { valid: false, error: "Trade terms list the same two players twice." };
     }
-    if (space.ownerId !== fromSessionId) {
-      return { valid: false, error: `You don't own ${space.name}.` };
+    pairs.add(pair);
+    if (!Number.isInteger(leg.coins) || leg.coins < 0) {
+      return { valid: false, error: "Coin amounts cannot be negative." };
     }
-    if (space.houses > 0 || space.hasHotel) {
-      return { valid: false, error: `${space.name} has buildings. Sell them before trading.` };
+    if (!Number.isInteger(leg.jailCards) || leg.jailCards < 0) {
+      return { valid: false, error: "Invalid number of Get Out of Jail Free cards." };
+    }
+    if (!isEmptyLeg(leg)) {
+      involved.add(leg.fromSessionId);
+      involved.add(leg.toSessionId);
     }
   }
 
-  // Validate toPlayer owns all requested properties and they have no buildings
-  for (const idx of requestedProperties) {
-    const space = state.boardSpaces[idx];
-    if (!space) {
-      return { valid: false, error: `Invalid property index: ${idx}.` };
-    }
-    if (space.ownerId !== toSessionId) {
-      return { valid: false, error: `${toPlayer.displayName} doesn't own ${space.name}.` };
+  // Trade must have at least something being exchanged, and nobody along for the ride
+  if (involved.size === 0) {
+    return { valid: false, error: "Trade must include at least one property, coins, card or rent deal." };
+  }
+  for (const [sessionId, player] of players) {
+    if (!involved.has(sessionId)) {
+      return { valid: false, error: `${player.displayName} has nothing to give or receive in this trade.` };
     }
-    if (space.houses > 0 || space.hasHotel) {
-      return { valid: false, error: `${space.name} has buildings. Can't trade properties with buildings.` };
+  }
+
+  // Givers must own the properties they hand over, and they must have no buildings
+  const newOwners = new Map<number, string>();
+  for (const leg of legs) {
+    const giver = players.get(leg.fromSessionId)!;
+    for (const idx of leg.properties) {
+      const space = state.boardSpaces[idx];
+      if (!space) {
+        return { valid: false, error: `Invalid property index: ${idx}.` };
+      }
+      if (newOwners.has(idx)) {
+        return { valid: false, error: `${space.name} is in the trade more than once.` };
+      }
+      if (space.ownerId !== giver.sessionId) {
+        return { valid: false, error: `${doesnt(giver)} own ${space.name}.` };
+      }
+      if (space.houses > 0 || space.hasHotel) {
+        return { valid: false, error: `${space.name} has buildings. Sell them before trading.` };
+      }
+      newOwners.set(idx, leg.toSessionId);
     }
   }
 
-  // Validate sufficient coins
-  if (fromPlayer.coins < offeredCoins) {
-    return { valid: false, error: "You don't have enough coins for this trade." };
+  // Givers must cover everything they hand over across the whole trade
+  for (const player of players.values()) {
+    const given = legs.filter((leg) => leg.fromSessionId === player.sessionId);
+    if (player.coins < given.reduce((sum, leg) => sum + leg.coins, 0)) {
+      return { valid: false, error: `${doesnt(player)} have enough coins for this trade.` };
+    }
+    if (player.jailFreeCards < given.reduce((sum, leg) => sum + leg.jailCards, 0)) {
+      return { valid: false, error: `${doesnt(player)} have enough Get Out of Jail Free cards.` };
+    }
   }
-  if (toPlayer.coins < requestedCoins) {
-    return { valid: false, error: `${toPlayer.displayName} doesn't have enough coins.` };
+
+  // Rent deals must be on properties the granting player will own once the trade goes through
+  const seen = new Set<string>();
+  for (const leg of legs) {
+    const grantor = players.get(leg.fromSessionId)!;
+    for (const term of leg.immunities) {
+      const space = state.boardSpaces[term.spaceIndex];
+      if (!space || !isOwnableSpace(space)) {
+        return { valid: false, error: `Invalid property index: ${term.spaceIndex}.` };
+      }
+      const key = `${term.spaceIndex}:${leg.toSessionId}`;
+      if (seen.has(key)) {
+        return { valid: false, error: `${space.name} has more than one rent deal.` };
+      }
+      seen.add(key);
+      if (!Number.isInteger(term.turns) || term.turns < 1 || term.turns > MAX_IMMUNITY_TURNS) {
+        return { valid: false, error: `Rent deals last between 1 and ${MAX_IMMUNITY_TURNS} turns.` };
+      }
+      if ((newOwners.get(term.spaceIndex) ?? space.ownerId) !== grantor.sessionId) {
+        return { valid: false, error: `${grantor.displayName} won't own ${space.name} after this trade.` };
+      }
+    }
   }
 
   return { valid: true };
 }
 
 /**
- * Execute a trade between two players. Swaps properties and coins.
+ * Open a trade offer. The proposer has accepted their own terms; everyone else still has to.
+ */
+export function createTrade(
+  state: GameState,
+  id: string,
+  proposerId: string,
+  participants: string[],
+  legs: TradeLegTerms[]
+): TradeOffer {
+  const trade = new TradeOffer();
+  trade.id = id;
+  trade.fromSessionId = proposerId;
+  participants.forEach((sessionId) => trade.participants.push(sessionId));
+  setTradeLegs(trade.legs, legs);
+  trade.acceptedBy.add(proposerId);
+  trade.updatedAt = Date.now();
+  state.trades.set(id, trade);
+  return trade;
+}
+
+/**
+ * Record a participant's acceptance. Returns true once everyone has accepted.
  */
-export function executeTrade(state: GameState): string {
-  const trade = state.activeTrade;
-  const fromPlayer = state.players.get(trade.fromSessionId);
-  const toPlayer = state.players.get(trade.toSessionId);
+export function acceptTrade(trade: TradeOffer, sessionId: string): boolean {
+  trade.acceptedBy.add(sessionId);
+  return trade.participants.every((id) => trade.acceptedBy.has(id));
+}
 
-  if (!fromPlayer || !toPlayer) {
-    clearTrade(state);
+/**
+ * Carry out every leg of an accepted trade at once and close it.
+ */
+export function executeTrade(state: GameState, trade: TradeOffer): string {
+  const players = trade.participants.map((id) => state.players.get(id));
+  if (players.some((p) => !p)) {
+    state.trades.delete(trade.id);
     return "Trade failed: player not found.";
   }
 
-  // Transfer offered properties: from → to
-  for (let i = 0; i < trade.offeredProperties.length; i++) {
-    const idx = trade.offeredProperties[i];
-    const space = state.boardSpaces[idx];
-    if (space) {
+  trade.legs.forEach((leg) => {
+    const fromPlayer = state.players.get(leg.fromSessionId)!;
+    const toPlayer = state.players.get(leg.toSessionId)!;
+
+    // Transfer properties: from → to
+    leg.properties.forEach((idx) => {
+      const space = state.boardSpaces[idx];
+      if (!space) return;
       space.ownerId = toPlayer.sessionId;
-      // Remove from sender's ownedProperties
       const ownerIdx = Array.from(fromPlayer.ownedProperties).indexOf(idx);
       if (ownerIdx !== -1) {
         fromPlayer.ownedProperties.splice(ownerIdx, 1);
       }
-      // Add to receiver's ownedProperties
       toPlayer.ownedProperties.push(idx);
-    }
+    });
+
+    // Transfer coins and Get Out of Jail Free cards
+    fromPlayer.coins -= leg.coins;
+    toPlayer.coins += leg.coins;
+    fromPlayer.jailFreeCards -= leg.jailCards;
+    toPlayer.jailFreeCards += leg.jailCards;
+  });
+
+  // Deals on properties that just changed hands were made by the old owner, so they end
+  removeRentImmunities(state, (im) => state.boardSpaces[im.spaceIndex]?.ownerId !== im.ownerSessionId);
+
+  // Start the new rent deals (replacing any earlier deal on the same property)
+  trade.legs.forEach((leg) => {
+    const owner = state.players.get(leg.fromSessionId)!;
+    const beneficiary = state.players.get(leg.toSessionId)!;
+    leg.immunities.forEach((clause) => grantRentImmunity(state, clause, owner, beneficiary));
+  });
+
+  emitGameEvent(state, {
+    type: "trade_completed",
+    parties: Array.from(trade.participants),
+    legs: trade.legs.map((leg) => ({
+      from: leg.fromSessionId,
+      to: leg.toSessionId,
+      properties: Array.from(leg.properties),
+      coins: leg.coins,
+      jailCards: leg.jailCards,
+      immunities: leg.immunities.map((c) => ({ space: c.spaceIndex, turns: c.turns })),
+    })),
+  });
+
+  state.trades.delete(trade.id);
+  return `${joinNames(players.map((p) => p!.displayName))} completed a trade!`;
+}
+
+/**
+ * Process a counter-offer from one of the participants. Their terms replace the
+ * current ones and everyone else has to accept again.
+ * Returns a result message or an error string.
+ */
+export function processCounterOffer(
+  state: GameState,
+  trade: TradeOffer,
+  counterOffererId: string,
+  legs: TradeLegTerms[]
+): { success: boolean; message: string } {
+  if (!trade.participants.includes(counterOffererId)) {
+    return { success: false, message: "You are not part of this trade." };
   }
 
-  // Transfer requested properties: to → from
-  for (let i = 0; i < trade.requestedProperties.length; i++) {
-    const idx = trade.requestedProperties[i];
-    const space = state.boardSpaces[idx];
-    if (space) {
-      space.ownerId = fromPlayer.sessionId;
-      // Remove from receiver's ownedProperties
-      const ownerIdx = Array.from(toPlayer.ownedProperties).indexOf(idx);
-      if (ownerIdx !== -1) {
-        toPlayer.ownedProperties.splice(ownerIdx, 1);
-      }
-      // Add to sender's ownedProperties
-      fromPlayer.ownedProperties.push(idx);
-    }
+  if (trade.fromSessionId === counterOffererId) {
+    return { success: false, message: "Wait for the others to respond to your offer." };
   }
 
-  // Transfer coins
-  if (trade.offeredCoins > 0) {
-    fromPlayer.coins -= trade.offeredCoins;
-    toPlayer.coins += trade.offeredCoins;
+  if (trade.counterOfferCount >= MAX_COUNTER_OFFERS) {
+    return { success: false, message: `Maximum counter-offers (${MAX_COUNTER_OFFERS}) reached. Accept or reject.` };
   }
-  if (trade.requestedCoins > 0) {
-    toPlayer.coins -= trade.requestedCoins;
-    fromPlayer.coins += trade.requestedCoins;
+
+  const participants = Array.from(trade.participants);
+  const validation = validateTradeTerms(state, counterOffererId, participants, legs);
+  if (!validation.valid) {
+    return { success: false, message: validation.error || "Invalid counter-offer." };
   }
 
-  const result = `${fromPlayer.displayName} and ${toPlayer.displayName} completed a trade!`;
-  clearTrade(state);
-  return result;
+  // Save previous terms for diff display
+  setTradeLegs(trade.prevLegs, getTradeLegTerms(trade));
+  setTradeLegs(trade.legs, legs);
+
+  trade.fromSessionId = counterOffererId;
+  trade.acceptedBy.clear();
+  trade.acceptedBy.add(counterOffererId);
+  trade.counterOfferCount++;
+  trade.isCounterOffer = true;
+  trade.updatedAt = Date.now();
+
+  const counterOfferer = state.players.get(counterOffererId);
+  const others = participants
+    .filter((id) => id !== counterOffererId)
+    .map((id) => state.players.get(id)?.displayName ?? "someone");
+
+  return {
+    success: true,
+    message: `${counterOfferer?.displayName} sent a counter-offer to ${joinNames(others)}. (${trade.counterOfferCount}/${MAX_COUNTER_OFFERS})`,
+  };
 }
 
 /**
- * Clear the active trade offer back to default state.
+ * A trade's current terms in the form clients send them.
  */
-export function clearTrade(state: GameState): void {
-  state.activeTrade.status = "none";
-  state.activeTrade.fromSessionId = "";
-  state.activeTrade.toSessionId = "";
-  state.activeTrade.offeredProperties.clear();
-  state.activeTrade.requestedProperties.clear();
-  state.activeTrade.offeredCoins = 0;
-  state.activeTrade.requestedCoins = 0;
-  state.activeTrade.counterOfferCount = 0;
-  state.activeTrade.lastModifiedBy = "";
-  state.activeTrade.isCounterOffer = false;
-  state.activeTrade.prevOfferedProperties.clear();
-  state.activeTrade.prevRequestedProperties.clear();
-  state.activeTrade.prevOfferedCoins = 0;
-  state.activeTrade.prevRequestedCoins = 0;
+export function getTradeLegTerms(trade: TradeOffer): TradeLegTerms[] {
+  return trade.legs.map((leg) => ({
+    fromSessionId: leg.fromSessionId,
+    toSessionId: leg.toSessionId,
+    properties: Array.from(leg.properties),
+    coins: leg.coins,
+    jailCards: leg.jailCards,
+    immunities: leg.immunities.map((c) => ({ spaceIndex: c.spaceIndex, turns: c.turns })),
+  }));
+}
+
+function setTradeLegs(target: ArraySchema<TradeLeg>, legs: TradeLegTerms[]): void {
+  target.clear();
+  for (const terms of legs) {
+    if (isEmptyLeg(terms)) continue;
+    const leg = new TradeLeg();
+    leg.fromSessionId = terms.fromSessionId;
+    leg.toSessionId = terms.toSessionId;
+    terms.properties.forEach((idx) => leg.properties.push(idx));
+    leg.coins = terms.coins;
+    leg.jailCards = terms.jailCards;
+    for (const term of terms.immunities) {
+      const clause = new ImmunityClause();
+      clause.spaceIndex = term.spaceIndex;
+      clause.turns = term.turns;
+      leg.immunities.push(clause);
+    }
+    target.push(leg);
+  }
 }
 
 /**
- * Maximum number of counter-offer rounds allowed.
+ * Drop every pending trade a player is part of. Returns how many were dropped.
  */
-export const MAX_COUNTER_OFFERS = 5;
+export function removeTradesInvolving(state: GameState, sessionId: string): number {
+  const ids = Array.from(state.trades.values())
+    .filter((trade) => trade.participants.includes(sessionId))
+    .map((trade) => trade.id);
+  ids.forEach((id) => state.trades.delete(id));
+  return ids.length;
+}
 
 /**
- * Process a counter-offer, swapping the trade direction and updating terms.
- * The counter-offerer becomes the new "from" and the original offerer becomes the new "to".
- * Returns a result message or an error string.
+ * Drop pending trades the game has moved past (a property already traded away,
+ * coins spent elsewhere). Returns the dropped trades.
  */
-export function processCounterOffer(
+export function pruneInvalidTrades(state: GameState): TradeOffer[] {
+  const dropped = Array.from(state.trades.values()).filter(
+    (trade) => !validateTradeTerms(state, trade.fromSessionId, Array.from(trade.participants), getTradeLegTerms(trade)).valid
+  );
+  dropped.forEach((trade) => state.trades.delete(trade.id));
+  return dropped;
+}
+
+// ==================== Rent Immunity ====================
+
+/**
+ * The rent deal letting a player land on a property for free, if there is one.
+ */
+export function getRentImmunity(state: GameState, spaceIndex: number, beneficiaryId: string): RentImmunity | undefined {
+  return state.rentImmunities.find(
+    (im) => im.spaceIndex === spaceIndex && im.beneficiarySessionId === beneficiaryId
+  );
+}
+
+function grantRentImmunity(state: GameState, clause: ImmunityClause, owner: Player, beneficiary: Player): void {
+  removeRentImmunities(
+    state,
+    (im) => im.spaceIndex === clause.spaceIndex && im.beneficiarySessionId === beneficiary.sessionId
+  );
+  const immunity = new RentImmunity();
+  immunity.spaceIndex = clause.spaceIndex;
+  immunity.ownerSessionId = owner.sessionId;
+  immunity.beneficiarySessionId = beneficiary.sessionId;
+  immunity.turnsRemaining = clause.turns;
+  state.rentImmunities.push(immunity);
+}
+
+function removeRentImmunities(state: GameState, predicate: (im: RentImmunity) => boolean): void {
+  for (let i = state.rentImmunities.length - 1; i >= 0; i--) {
+    if (predicate(state.rentImmunities[i])) state.rentImmunities.splice(i, 1);
+  }
+}
+
+/**
+ * Count down a player's rent deals as their turn ends, dropping the ones that run out.
+ */
+function tickRentImmunities(state: GameState, player: Player): void {
+  state.rentImmunities.forEach((im) => {
+    if (im.beneficiarySessionId === player.sessionId && im.turnsRemaining > 0) im.turnsRemaining--;
+  });
+  removeRentImmunities(state, (im) => im.turnsRemaining === 0);
+}
+
+// ==================== Loan Logic ====================
+
+/** Highest interest a player loan can carry, as a percent of the principal */
+export const MAX_LOAN_INTEREST_RATE = 50;
+
+/** Longest a player loan can run, in the borrower's turns */
+export const MAX_LOAN_TERM_TURNS = 20;
+
+/** Most loan offers a player can have open at once */
+export const MAX_OPEN_LOAN_OFFERS = 3;
+
+/** Most a player can owe the bank at once */
+export const BANK_LOAN_LIMIT = 500;
+
+/** Interest the bank takes every Payday, as a percent of what is still owed */
+export const BANK_LOAN_INTEREST_RATE = 10;
+
+/** Bank loans fall due after this many of the borrower's turns */
+export const BANK_LOAN_TERM_TURNS = 10;
+
+/** A player loan's terms, as clients send them */
+export interface LoanTerms {
+  principal: number;
+  interestRate: number; // percent of the principal, added once
+  termTurns: number;
+}
+
+/**
+ * What a borrower pays back on a player loan: the principal plus its interest.
+ */
+export function getLoanRepayment(principal: number, interestRate: number): number {
+  return principal + Math.ceil((principal * interestRate) / 100);
+}
+
+/**
+ * Validate a player loan between a lender and a borrower.
+ */
+export function validateLoanTerms(
   state: GameState,
+  lenderId: string,
+  borrowerId: string,
+  terms: LoanTerms
+): { valid: boolean; error?: string } {
+  if (lenderId === borrowerId) {
+    return { valid: false, error: "Cannot lend to yourself." };
+  }
+
+  const lender = state.players.get(lenderId);
+  const borrower = state.players.get(borrowerId);
+  if (!lender || !borrower || !lender.isActive || lender.isBankrupt || !borrower.isActive || borrower.isBankrupt) {
+    return { valid: false, error: "Both players must still be in the game." };
+  }
+
+  const { principal, interestRate, termTurns } = terms;
+  if (!Number.isInteger(principal) || principal < 1) {
+    return { valid: false, error: "A loan must be for at least 1 coin." };
+  }
+  if (!Number.isInteger(interestRate) || interestRate < 0 || interestRate > MAX_LOAN_INTEREST_RATE) {
+    return { valid: false, error: `Interest must be between 0% and ${MAX_LOAN_INTEREST_RATE}%.` };
+  }
+  if (!Number.isInteger(termTurns) || termTurns < 1 || termTurns > MAX_LOAN_TERM_TURNS) {
+    return { valid: false, error: `A loan must run between 1 and ${MAX_LOAN_TERM_TURNS} turns.` };
+  }
+  if (lender.coins < principal) {
+    return { valid: false, error: `${lender.displayName} doesn't have ${principal} coins to lend.` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Open a loan offer. Validate the terms first.
+ */
+export function createLoanOffer(
+  state: GameState,
+  id: string,
+  proposerId: string,
+  lenderId: string,
+  borrowerId: string,
+  terms: LoanTerms
+): LoanOffer {
+  const offer = new LoanOffer();
+  offer.id = id;
+  offer.fromSessionId = proposerId;
+  offer.lenderSessionId = lenderId;
+  offer.borrowerSessionId = borrowerId;
+  setLoanTerms(offer, terms);
+  state.loanOffers.set(id, offer);
+  return offer;
+}
+
+function setLoanTerms(offer: LoanOffer, terms: LoanTerms): void {
+  offer.principal = terms.principal;
+  offer.interestRate = terms.interestRate;
+  offer.termTurns = terms.termTurns;
+  offer.updatedAt = Date.now();
+}
+
+/**
+ * Answer a loan offer with new terms; the other side then accepts, declines or counters.
+ */
+export function processLoanCounterOffer(
+  state: GameState,
+  offer: LoanOffer,
   counterOffererId: string,
-  offeredProperties: number[],
-  requestedProperties: number[],
-  offeredCoins: number,
-  requestedCoins: number
+  terms: LoanTerms
 ): { success: boolean; message: string } {
-  const trade = state.activeTrade;
-
-  if (trade.status !== "pending") {
-    return { success: false, message: "No active trade to counter." };
+  if (offer.lenderSessionId !== counterOffererId && offer.borrowerSessionId !== counterOffererId) {
+    return { success: false, message: "This loan offer is not for you." };
   }
 
-  if (trade.toSessionId !== counterOffererId) {
-    return { success: false, message: "It's not your turn to respond to this trade." };
+  if (offer.fromSessionId === counterOffererId) {
+    return { success: false, message: "Wait for the other player to respond to your offer." };
   }
 
-  if (trade.counterOfferCount >= MAX_COUNTER_OFFERS) {
+  if (offer.counterOfferCount >= MAX_COUNTER_OFFERS) {
     return { success: false, message: `Maximum counter-offers (${MAX_COUNTER_OFFERS}) reached. Accept or reject.` };
   }
 
-  // The counter-offerer is the current "to" player. After counter, they become "from".
-  const otherSessionId = trade.fromSessionId;
+  const validation = validateLoanTerms(state, offer.lenderSessionId, offer.borrowerSessionId, terms);
+  if (!validation.valid) {
+    return { success: false, message: validation.error || "Invalid counter-offer." };
+  }
 
-  // Validate the counter-offer terms
-  const validation = validateTradeOffer(
-    state,
-    counterOffererId,
-    otherSessionId,
-    offeredProperties,
-    requestedProperties,
-    offeredCoins,
-    requestedCoins
-  );
+  setLoanTerms(offer, terms);
+  offer.fromSessionId = counterOffererId;
+  offer.counterOfferCount++;
 
+  const counterOfferer = state.players.get(counterOffererId);
+  const otherId = offer.lenderSessionId === counterOffererId ? offer.borrowerSessionId : offer.lenderSessionId;
+  const other = state.players.get(otherId);
+  return {
+    success: true,
+    message: `${counterOfferer?.displayName} sent ${other?.displayName} new loan terms. (${offer.counterOfferCount}/${MAX_COUNTER_OFFERS})`,
+  };
+}
+
+/**
+ * Pay out an agreed loan offer and start the loan. The terms are checked again
+ * first, since coins change hands between the offer and the answer; an offer
+ * that no longer holds up is withdrawn.
+ */
+export function executeLoanOffer(
+  state: GameState,
+  offer: LoanOffer,
+  loanId: string
+): { success: boolean; message: string } {
+  const validation = validateLoanTerms(state, offer.lenderSessionId, offer.borrowerSessionId, offer);
   if (!validation.valid) {
-    return { success: false, message: validation.error || "Invalid counter-offer." };
+    state.loanOffers.delete(offer.id);
+    return { success: false, message: validation.error || "Loan is no longer valid." };
+  }
+
+  const lender = state.players.get(offer.lenderSessionId)!;
+  const borrower = state.players.get(offer.borrowerSessionId)!;
+
+  lender.coins -= offer.principal;
+  borrower.coins += offer.principal;
+
+  const loan = new Loan();
+  loan.id = loanId;
+  loan.lenderSessionId = lender.sessionId;
+  loan.borrowerSessionId = borrower.sessionId;
+  loan.principal = offer.principal;
+  loan.interestRate = offer.interestRate;
+  loan.balance = getLoanRepayment(offer.principal, offer.interestRate);
+  loan.turnsRemaining = offer.termTurns;
+  state.loans.set(loan.id, loan);
+  state.loanOffers.delete(offer.id);
+
+  emitGameEvent(state, {
+    type: "loan_issued",
+    lender: lender.sessionId,
+    borrower: borrower.sessionId,
+    principal: loan.principal,
+    balance: loan.balance,
+    turns: loan.turnsRemaining,
+  });
+  return { success: true, message: `${lender.displayName} lent ${borrower.displayName} ${loan.principal} coins.` };
+}
+
+/**
+ * How much a player owes the bank across all their bank loans. A bank loan they
+ * defaulted on still counts while its bankruptcy negotiation runs, so they can't
+ * take out a fresh bank loan to pay the old one off.
+ */
+export function getBankLoanBalance(state: GameState, sessionId: string): number {
+  let total = 0;
+  state.loans.forEach((loan) => {
+    if (loan.borrowerSessionId === sessionId && loan.lenderSessionId === "") total += loan.balance;
+  });
+  const negotiation = state.bankruptcyNegotiation;
+  if (negotiation.status === "active" && negotiation.debtorSessionId === sessionId &&
+      negotiation.reason === "loan" && negotiation.creditorSessionId === "") {
+    total += negotiation.amountOwed;
+  }
+  return total;
+}
+
+/**
+ * Borrow from the bank, up to BANK_LOAN_LIMIT owed at once.
+ */
+export function takeBankLoan(
+  state: GameState,
+  player: Player,
+  amount: number,
+  loanId: string
+): { success: boolean; message: string } {
+  if (!Number.isInteger(amount) || amount < 1) {
+    return { success: false, message: "A loan must be for at least 1 coin." };
+  }
+
+  const available = BANK_LOAN_LIMIT - getBankLoanBalance(state, player.sessionId);
+  if (amount > available) {
+    return {
+      success: false,
+      message: available > 0 ? `The bank will only lend you ${available} more coins.` : "The bank won't lend you any more.",
+    };
+  }
+
+  const loan = new Loan();
+  loan.id = loanId;
+  loan.borrowerSessionId = player.sessionId;
+  loan.principal = amount;
+  loan.interestRate = BANK_LOAN_INTEREST_RATE;
+  loan.balance = amount;
+  loan.turnsRemaining = BANK_LOAN_TERM_TURNS;
+  state.loans.set(loan.id, loan);
+  player.coins += amount;
+
+  emitGameEvent(state, {
+    type: "loan_issued",
+    lender: "",
+    borrower: player.sessionId,
+    principal: amount,
+    balance: amount,
+    turns: loan.turnsRemaining,
+  });
+  return { success: true, message: `${player.displayName} borrowed ${amount} coins from the bank.` };
+}
+
+/**
+ * Pay back some or all of a loan early.
+ */
+export function repayLoan(
+  state: GameState,
+  player: Player,
+  loan: Loan,
+  amount: number
+): { success: boolean; message: string } {
+  if (loan.borrowerSessionId !== player.sessionId) {
+    return { success: false, message: "That's not your loan." };
   }
+  if (!Number.isInteger(amount) || amount < 1 || amount > loan.balance) {
+    return { success: false, message: `You can repay between 1 and ${loan.balance} coins.` };
+  }
+  if (player.coins < amount) {
+    return { success: false, message: "Not enough coins." };
+  }
+
+  const lender = state.players.get(loan.lenderSessionId);
+  payLoan(state, player, loan, amount);
+
+  const to = lender ? lender.displayName : "the bank";
+  return {
+    success: true,
+    message: loan.balance > 0
+      ? `${player.displayName} repaid ${amount} coins to ${to}. ${loan.balance} coins left to pay.`
+      : `${player.displayName} paid off their loan from ${to}.`,
+  };
+}
+
+/** Move a repayment to the lender (the bank keeps its share) and close the loan once it's paid off */
+function payLoan(state: GameState, borrower: Player, loan: Loan, amount: number): void {
+  borrower.coins -= amount;
+  const lender = state.players.get(loan.lenderSessionId);
+  if (lender) lender.coins += amount;
+  loan.balance -= amount;
+  if (loan.balance === 0) state.loans.delete(loan.id);
+
+  emitGameEvent(state, {
+    type: "loan_repaid",
+    player: borrower.sessionId,
+    lender: loan.lenderSessionId,
+    amount,
+    remaining: loan.balance,
+  });
+}
+
+/**
+ * Take interest on a player's bank loans as they collect Payday.
+ * Interest they can't cover is added to what they owe.
+ */
+function chargeLoanInterest(state: GameState, player: Player): void {
+  state.loans.forEach((loan) => {
+    if (loan.borrowerSessionId !== player.sessionId || loan.lenderSessionId !== "") return;
+
+    const interest = Math.ceil((loan.balance * loan.interestRate) / 100);
+    if (interest <= 0) return;
+
+    const addedToBalance = player.coins < interest;
+    if (addedToBalance) {
+      loan.balance += interest;
+    } else {
+      player.coins -= interest;
+    }
+    emitGameEvent(state, { type: "loan_interest_charged", player: player.sessionId, amount: interest, addedToBalance });
+  });
+}
+
+/**
+ * Count down a player's loans as their turn ends.
+ */
+function tickLoans(state: GameState, player: Player): void {
+  state.loans.forEach((loan) => {
+    if (loan.borrowerSessionId === player.sessionId && loan.turnsRemaining > 0) loan.turnsRemaining--;
+  });
+}
+
+/**
+ * Collect a player's loans that have fallen due. A borrower who can't pay goes into
+ * bankruptcy negotiation with the lender, or straight to bankruptcy if even selling
+ * everything wouldn't cover it. Returns a log message, or null if nothing was due.
+ */
+export function collectDueLoans(state: GameState, player: Player): string | null {
+  let message: string | null = null;
+
+  for (const loan of Array.from(state.loans.values())) {
+    if (loan.borrowerSessionId !== player.sessionId || loan.turnsRemaining > 0) continue;
+
+    const lender = state.players.get(loan.lenderSessionId);
+    const to = lender ? lender.displayName : "the bank";
+    const amount = loan.balance;
+
+    if (player.coins >= amount) {
+      payLoan(state, player, loan, amount);
+      message = `${player.displayName}'s loan from ${to} came due and ${amount} coins were repaid.`;
+      continue;
+    }
+
+    // The debt moves into negotiation (or bankruptcy); the loan itself is settled either way
+    state.loans.delete(loan.id);
+    if (calculateLiquidationValue(state, player) + player.coins >= amount) {
+      startBankruptcyNegotiation(state, player, loan.lenderSessionId, amount, "loan");
+      return `${player.displayName} can't repay ${amount} coins to ${to}! Bankruptcy negotiation started — sell assets to pay!`;
+    }
 
-  // Save previous terms for diff display (stored from the OLD fromSessionId's perspective)
-  trade.prevOfferedProperties.clear();
-  for (let i = 0; i < trade.offeredProperties.length; i++) {
-    trade.prevOfferedProperties.push(trade.offeredProperties[i]);
+    if (lender) lender.coins += player.coins;
+    player.coins = 0;
+    bankruptPlayer(state, player, lender);
+    return `${player.displayName} couldn't repay ${amount} coins to ${to} and went bankrupt!`;
   }
-  trade.prevRequestedProperties.clear();
-  for (let i = 0; i < trade.requestedProperties.length; i++) {
-    trade.prevRequestedProperties.push(trade.requestedProperties[i]);
-  }
-  trade.prevOfferedCoins = trade.offeredCoins;
-  trade.prevRequestedCoins = trade.requestedCoins;
 
-  // Swap direction: counter-offerer becomes "from", original proposer becomes "to"
-  trade.fromSessionId = counterOffererId;
-  trade.toSessionId = otherSessionId;
+  return message;
+}
 
-  // Set the new trade terms (from the counter-offerer's perspective)
-  trade.offeredProperties.clear();
-  for (const idx of offeredProperties) {
-    trade.offeredProperties.push(idx);
+/**
+ * Drop every loan and loan offer a player is part of, e.g. when they go bankrupt.
+ * Loans owed to them are forgiven.
+ */
+function removeLoansInvolving(state: GameState, sessionId: string): void {
+  for (const offer of Array.from(state.loanOffers.values())) {
+    if (offer.lenderSessionId === sessionId || offer.borrowerSessionId === sessionId) {
+      state.loanOffers.delete(offer.id);
+    }
   }
-  trade.requestedProperties.clear();
-  for (const idx of requestedProperties) {
-    trade.requestedProperties.push(idx);
+  for (const loan of Array.from(state.loans.values())) {
+    if (loan.lenderSessionId === sessionId || loan.borrowerSessionId === sessionId) {
+      state.loans.delete(loan.id);
+    }
   }
-  trade.offeredCoins = offeredCoins;
-  trade.requestedCoins = requestedCoins;
-
-  // Update counter-offer metadata
-  trade.counterOfferCount++;
-  trade.lastModifiedBy = counterOffererId;
-  trade.isCounterOffer = true;
-
-  const counterOfferer = state.players.get(counterOffererId);
-  const otherPlayer = state.players.get(otherSessionId);
-
-  return {
-    success: true,
-    message: `${counterOfferer?.displayName} sent a counter-offer to ${otherPlayer?.displayName}. (${trade.counterOfferCount}/${MAX_COUNTER_OFFERS})`,
-  };
 }
 
 // ==================== Card Logic ====================
 
 /**
  * Draw a card from a deck, apply its effect, and set drawnCard on state.
+ * "Hold" cards go into the player's hand instead of applying.
  * Returns [action message, updated deck].
  * The deck array is mutated (card popped from front); if empty, reshuffled.
  */
@@ -821,18 +1598,12 @@ export function drawCard(
   state: GameState,
   player: Player,
   deckType: "community" | "chance",
-  deck: string[]
+  deck: string[],
+  rng: Rng
 ): { message: string; deck: string[] } {
-  // If deck is empty, reshuffle
+  // If deck is empty, reshuffle (held cards stay in their holders' hands)
   if (deck.length === 0) {
-    const source = deckType === "community" ? COMMUNITY_CARDS : CHANCE_CARDS;
-    const ids = source.map((c) => c.id);
-    // Fisher-Yates shuffle
-    for (let i = ids.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [ids[i], ids[j]] = [ids[j], ids[i]];
-    }
-    deck = ids;
+    deck = shuffleDeck(getUnheldCards(state, deckType === "community" ? COMMUNITY_CARDS : CHANCE_CARDS), rng);
   }
 
   const cardId = deck.shift()!;
@@ -842,140 +1613,358 @@ export function drawCard(
     return { message: `${player.displayName} drew a card but it was blank!`, deck };
   }
 
+  const held = card.hold === true;
+
   // Set drawn card on state for client display
   state.drawnCard.deck = deckType;
   state.drawnCard.title = card.title;
-  state.drawnCard.description = card.description;
+  state.drawnCard.description = describeCard(state, card);
   state.drawnCard.forSessionId = player.sessionId;
+  state.drawnCard.effect = card.effect;
+  state.drawnCard.held = held;
+  emitGameEvent(state, {
+    type: "card_drawn",
+    player: player.sessionId,
+    deck: deckType,
+    cardId: card.id,
+    title: card.title,
+    description: state.drawnCard.description,
+    held,
+  });
+
+  if (held) {
+    const heldCard = new HeldCard();
+    heldCard.id = card.id;
+    heldCard.deck = deckType;
+    heldCard.title = card.title;
+    heldCard.description = state.drawnCard.description;
+    player.heldCards.push(heldCard);
+    return { message: `${player.displayName} drew "${card.title}" and kept it for later.`, deck };
+  }
 
   // Apply effect
-  const effectMessage = applyCardEffect(state, card, player);
+  const effectMessage = applyCardEffect(state, card, player, rng, `${player.displayName} drew "${card.title}"`);
 
   return { message: effectMessage, deck };
 }
 
 /**
- * Apply a card's effect to the game state.
+ * Check whether a player can play a card from their hand right now.
  */
-function applyCardEffect(state: GameState, card: CardDefinition, player: Player): string {
-  const amount = card.amount ?? 0;
+export function validatePlayHeldCard(
+  state: GameState,
+  player: Player,
+  cardId: string
+): { valid: boolean; error?: string } {
+  if (getCurrentPlayer(state)?.sessionId !== player.sessionId) {
+    return { valid: false, error: "You can only play a card on your turn." };
+  }
+  if (!player.heldCards.some((c) => c.id === cardId)) {
+    return { valid: false, error: "You don't have that card." };
+  }
+  if (state.activeAuction.status === "active" || state.bankruptcyNegotiation.status === "active") {
+    return { valid: false, error: "Wait for the auction or debt to be settled first." };
+  }
+  return { valid: true };
+}
 
-  switch (card.effect) {
-    case "gain_coins": {
-      player.coins += amount;
-      return `${player.displayName} drew "${card.title}" — ${card.description}`;
-    }
+/**
+ * Play a card from a player's hand, applying its effect now.
+ */
+export function playHeldCard(state: GameState, player: Player, cardId: string, rng: Rng): string {
+  const index = player.heldCards.findIndex((c) => c.id === cardId);
+  const card = getCardById(cardId);
+  if (index === -1 || !card) {
+    return `${player.displayName} has no such card.`;
+  }
 
-    case "lose_coins": {
-      if (player.coins >= amount) {
-        player.coins -= amount;
-      } else {
-        // Check if they have assets to liquidate
-        const totalAssetValue = calculateLiquidationValue(state, player);
-        if (totalAssetValue + player.coins >= amount) {
-          startBankruptcyNegotiation(state, player, "", amount, "card");
-          return `${player.displayName} drew "${card.title}" but can't afford ${amount} coins! Bankruptcy negotiation started!`;
-        } else {
-          player.coins = 0;
-          bankruptPlayer(state, player);
-          return `${player.displayName} drew "${card.title}" and went bankrupt!`;
-        }
-      }
-      return `${player.displayName} drew "${card.title}" — ${card.description}`;
+  player.heldCards.splice(index, 1);
+  emitGameEvent(state, { type: "held_card_played", player: player.sessionId, cardId: card.id, title: card.title });
+  return applyCardEffect(state, card, player, rng, `${player.displayName} played "${card.title}"`);
+}
+
+/**
+ * Cards of a deck that aren't sitting in someone's hand, for reshuffling.
+ */
+function getUnheldCards(state: GameState, cards: CardDefinition[]): CardDefinition[] {
+  const held = new Set<string>();
+  state.players.forEach((p) => p.heldCards.forEach((c) => held.add(c.id)));
+  return cards.filter((c) => !held.has(c.id));
+}
+
+/**
+ * Resolve a move_to card's target on the current board (boards may be smaller than the index).
+ */
+function getCardTargetSpace(state: GameState, card: CardDefinition): number {
+  return (card.targetSpace ?? 0) % state.boardSpaces.length;
+}
+
+/**
+ * Fill in the {target} placeholder with the space name on the current board.
+ */
+function describeCard(state: GameState, card: CardDefinition): string {
+  if (card.effect !== "move_to") return card.description;
+  const target = state.boardSpaces[getCardTargetSpace(state, card)];
+  return card.description.replace("{target}", target?.name ?? "");
+}
+
+interface CardEffectContext {
+  state: GameState;
+  card: CardDefinition;
+  player: Player;
+  rng: Rng;
+  /** Opening of the log line: who drew or played which card */
+  lead: string;
+}
+
+type CardEffectHandler = (ctx: CardEffectContext) => string;
+
+/**
+ * Charge a card's cost to the bank, starting a bankruptcy negotiation or bankrupting
+ * the player if they can't cover it. Returns the outcome message, or null once paid.
+ */
+function chargeCardCost(state: GameState, player: Player, amount: number, lead: string): string | null {
+  if (player.coins >= amount) {
+    player.coins -= amount;
+    payIntoJackpot(state, amount);
+    return null;
+  }
+  // Check if they have assets to liquidate
+  const totalAssetValue = calculateLiquidationValue(state, player);
+  if (totalAssetValue + player.coins >= amount) {
+    startBankruptcyNegotiation(state, player, "", amount, "card");
+    return `${lead} but can't afford ${amount} coins! Bankruptcy negotiation started!`;
+  }
+  player.coins = 0;
+  bankruptPlayer(state, player);
+  return `${lead} and went bankrupt!`;
+}
+
+/**
+ * Move a player straight to a space, collecting Payday if they pass it.
+ */
+function advanceTo(state: GameState, player: Player, targetSpace: number): void {
+  // Moving "forward" onto a lower index means wrapping past Payday
+  if (targetSpace < player.position) {
+    collectPayday(state, player);
+  }
+  player.position = targetSpace;
+  emitGameEvent(state, { type: "player_moved", player: player.sessionId, space: targetSpace });
+}
+
+/**
+ * Find the closest space ahead of a position (wrapping past Payday) that a move_to_nearest card heads for.
+ */
+function findNearestSpace(state: GameState, from: number, card: CardDefinition): number {
+  const totalSpaces = state.boardSpaces.length;
+  for (let step = 1; step <= totalSpaces; step++) {
+    const idx = (from + step) % totalSpaces;
+    const space = state.boardSpaces[idx];
+    if (space?.spaceType !== card.spaceType) continue;
+    if (card.district && space.district !== card.district) continue;
+    return idx;
+  }
+  return -1;
+}
+
+/** What each card effect does; applyCardEffect looks the handler up by the card's effect */
+const CARD_EFFECT_HANDLERS: Record<CardEffect, CardEffectHandler> = {
+  gain_coins: ({ card, player, lead }) => {
+    player.coins += card.amount ?? 0;
+    // A held card's description is about keeping it, so say what it paid instead
+    return card.hold ? `${lead} — collected ${card.amount} coins!` : `${lead} — ${card.description}`;
+  },
+
+  lose_coins: ({ state, card, player, lead }) => {
+    return chargeCardCost(state, player, card.amount ?? 0, lead) ?? `${lead} — ${card.description}`;
+  },
+
+  move_to: ({ state, card, player, lead }) => {
+    const targetSpace = getCardTargetSpace(state, card);
+    const oldPos = player.position;
+
+    // Check if player passes Payday (index 0) by moving forward
+    // We determine "forward" by checking if target < current position (wrapping around)
+    const passedPayday = targetSpace <= oldPos && targetSpace !== oldPos;
+    if (passedPayday) {
+      // Includes moving to Payday itself — they land on it, bonus given for passing
+      collectPayday(state, player);
     }
 
-    case "move_to": {
-      const targetSpace = card.targetSpace ?? 0;
-      const oldPos = player.position;
-
-      // Check if player passes Payday (index 0) by moving forward
-      // We determine "forward" by checking if target < current position (wrapping around)
-      const passedPayday = targetSpace <= oldPos && targetSpace !== oldPos;
-      if (passedPayday && targetSpace === 0) {
-        // Moving to Payday itself — they land on it, bonus given for passing
-        player.coins += PAYDAY_BONUS;
-      } else if (passedPayday) {
-        player.coins += PAYDAY_BONUS;
-      }
+    player.position = targetSpace;
+    emitGameEvent(state, { type: "player_moved", player: player.sessionId, space: targetSpace });
 
-      player.position = targetSpace;
+    // Process landing at the new space (may trigger buy prompt, rent, tax, etc.)
+    const landingMsg = processLanding(state, player);
 
-      // Process landing at the new space (may trigger buy prompt, rent, tax, etc.)
-      const landingMsg = processLanding(state, player);
+    return `${lead} — moved to ${state.boardSpaces[targetSpace].name}. ${landingMsg}`;
+  },
 
-      return `${player.displayName} drew "${card.title}" — moved to ${state.boardSpaces[targetSpace].name}. ${landingMsg}`;
+  move_relative: ({ state, card, player, lead }) => {
+    const amount = card.amount ?? 0;
+    const totalSpaces = state.boardSpaces.length;
+    const newPos = ((player.position + amount) % totalSpaces + totalSpaces) % totalSpaces;
+    const passedPayday = amount > 0 && newPos < player.position;
+    if (passedPayday) {
+      collectPayday(state, player);
     }
 
-    case "move_relative": {
-      const newPos = ((player.position + amount) % TOTAL_SPACES + TOTAL_SPACES) % TOTAL_SPACES;
-      const passedPayday = amount > 0 && newPos < player.position;
-      if (passedPayday) {
-        player.coins += PAYDAY_BONUS;
-      }
+    player.position = newPos;
+    emitGameEvent(state, { type: "player_moved", player: player.sessionId, space: newPos });
+    const landingMsg = processLanding(state, player);
 
-      player.position = newPos;
-      const landingMsg = processLanding(state, player);
+    const direction = amount > 0 ? "forward" : "back";
+    return `${lead} — moved ${direction} ${Math.abs(amount)} spaces. ${landingMsg}`;
+  },
 
-      const direction = amount > 0 ? "forward" : "back";
-      return `${player.displayName} drew "${card.title}" — moved ${direction} ${Math.abs(amount)} spaces. ${landingMsg}`;
+  move_to_nearest: ({ state, card, player, lead }) => {
+    const targetSpace = findNearestSpace(state, player.position, card);
+    if (targetSpace === -1) {
+      return `${lead} — but there's nowhere like that on this board.`;
+    }
+    advanceTo(state, player, targetSpace);
+
+    const space = state.boardSpaces[targetSpace];
+    const owner = space.ownerId ? state.players.get(space.ownerId) : undefined;
+    const chargesRent =
+      owner &&
+      owner.sessionId !== player.sessionId &&
+      owner.isActive &&
+      !owner.isBankrupt &&
+      !space.isMortgaged &&
+      !(owner.inJail && state.settings.noRentInJail);
+
+    // Owned utilities charge the card's dice multiplier instead of the usual one;
+    // anything else charges its usual rent times the card's multiplier. City events apply either way.
+    let landingMsg: string;
+    if (!chargesRent) {
+      landingMsg = processLanding(state, player);
+    } else if (space.spaceType === "utility") {
+      const diceRent = (state.dice1 + state.dice2) * (card.amount ?? 1);
+      const rent = applyCityModifiers(state, "rent", diceRent, space.spaceType, space.district);
+      landingMsg = chargeRent(state, player, owner, rent, space);
+    } else {
+      landingMsg = chargeRent(state, player, owner, getEffectiveRent(state, space) * (card.amount ?? 1), space);
     }
 
-    case "collect_from_players": {
-      const activePlayers = getActivePlayers(state);
-      let totalCollected = 0;
+    return `${lead} — moved to ${space.name}. ${landingMsg}`;
+  },
+
+  collect_from_players: ({ state, card, player, lead }) => {
+    const amount = card.amount ?? 0;
+    let totalCollected = 0;
+    for (const other of getActivePlayers(state)) {
+      if (other.sessionId === player.sessionId) continue;
+      // Nobody goes bankrupt over birthday money: they pay what they have
+      const payment = Math.min(other.coins, amount);
+      other.coins -= payment;
+      totalCollected += payment;
+    }
+    player.coins += totalCollected;
+    return `${lead} — collected ${totalCollected} coins from other players!`;
+  },
+
+  collect_per_property: ({ state, card, player, lead }) => {
+    const amount = card.amount ?? 0;
+    let totalCollected = 0;
+    for (const other of getActivePlayers(state)) {
+      if (other.sessionId === player.sessionId) continue;
+      const payment = Math.min(other.coins, amount * other.ownedProperties.length);
+      other.coins -= payment;
+      totalCollected += payment;
+    }
+    player.coins += totalCollected;
+    return `${lead} — collected ${totalCollected} coins from other players' properties!`;
+  },
+
+  pay_to_players: ({ state, card, player, lead }) => {
+    const amount = card.amount ?? 0;
+    const activePlayers = getActivePlayers(state);
+    const otherCount = activePlayers.filter((p) => p.sessionId !== player.sessionId).length;
+    const totalCost = amount * otherCount;
+
+    if (player.coins >= totalCost) {
+      player.coins -= totalCost;
       for (const other of activePlayers) {
         if (other.sessionId === player.sessionId) continue;
-        const payment = Math.min(other.coins, amount);
-        other.coins -= payment;
-        totalCollected += payment;
-        if (other.coins <= 0) {
-          // Don't bankrupt for failing to pay birthday money
-        }
+        other.coins += amount;
       }
-      player.coins += totalCollected;
-      return `${player.displayName} drew "${card.title}" — collected ${totalCollected} coins from other players!`;
+      return `${lead} — paid ${totalCost} coins to other players!`;
     }
 
-    case "jail_free_card": {
-      player.jailFreeCards++;
-      return `${player.displayName} drew "${card.title}" — card kept for later use!`;
+    // Check if they have assets to liquidate
+    const totalAssetValue = calculateLiquidationValue(state, player);
+    if (totalAssetValue + player.coins >= totalCost) {
+      startBankruptcyNegotiation(state, player, "", totalCost, "card");
+      return `${lead} but can't afford ${totalCost} coins! Bankruptcy negotiation started!`;
     }
-
-    case "pay_to_players": {
-      const activePlayers = getActivePlayers(state);
-      const otherCount = activePlayers.filter((p) => p.sessionId !== player.sessionId).length;
-      const totalCost = amount * otherCount;
-
-      if (player.coins >= totalCost) {
-        player.coins -= totalCost;
-        for (const other of activePlayers) {
-          if (other.sessionId === player.sessionId) continue;
-          other.coins += amount;
-        }
-        return `${player.displayName} drew "${card.title}" — paid ${totalCost} coins to other players!`;
-      } else {
-        // Check if they have assets to liquidate
-        const totalAssetValue = calculateLiquidationValue(state, player);
-        if (totalAssetValue + player.coins >= totalCost) {
-          startBankruptcyNegotiation(state, player, "", totalCost, "card");
-          return `${player.displayName} drew "${card.title}" but can't afford ${totalCost} coins! Bankruptcy negotiation started!`;
-        } else {
-          // Pay what they can, then bankrupt
-          const perPlayer = Math.floor(player.coins / Math.max(otherCount, 1));
-          for (const other of activePlayers) {
-            if (other.sessionId === player.sessionId) continue;
-            other.coins += perPlayer;
-          }
-          player.coins = 0;
-          bankruptPlayer(state, player);
-          return `${player.displayName} drew "${card.title}" and went bankrupt!`;
-        }
-      }
+    // Pay what they can, then bankrupt
+    const perPlayer = Math.floor(player.coins / Math.max(otherCount, 1));
+    for (const other of activePlayers) {
+      if (other.sessionId === player.sessionId) continue;
+      other.coins += perPlayer;
+    }
+    player.coins = 0;
+    bankruptPlayer(state, player);
+    return `${lead} and went bankrupt!`;
+  },
+
+  street_repairs: ({ state, card, player, lead }) => {
+    let houses = 0;
+    let hotels = 0;
+    for (const spaceIndex of player.ownedProperties) {
+      const space = state.boardSpaces[spaceIndex];
+      if (space.hasHotel) hotels++;
+      else houses += space.houses;
     }
+    const total = houses * (card.perHouse ?? 0) + hotels * (card.perHotel ?? 0);
+    if (total === 0) {
+      return `${lead} — but has nothing to repair.`;
+    }
+    return (
+      chargeCardCost(state, player, total, lead) ??
+      `${lead} — paid ${total} coins for ${houses} house${houses === 1 ? "" : "s"} and ${hotels} hotel${hotels === 1 ? "" : "s"}.`
+    );
+  },
+
+  jail_free_card: ({ player, lead }) => {
+    player.jailFreeCards++;
+    return `${lead} — card kept for later use!`;
+  },
+
+  go_to_jail: ({ state, player, lead }) => {
+    sendToJail(state, player, "card");
+    return `${lead} — sent to Jail!`;
+  },
+
+  swap_position: ({ state, player, rng, lead }) => {
+    const others = getActivePlayers(state).filter((p) => p.sessionId !== player.sessionId && !p.inJail);
+    if (others.length === 0) {
+      return `${lead} — but there's nobody to swap with.`;
+    }
+    const other = others[Math.floor(rng() * others.length)];
 
-    default:
-      return `${player.displayName} drew a card.`;
+    // Neither player passes Payday; only the drawer resolves their new space
+    const drawerPos = player.position;
+    player.position = other.position;
+    other.position = drawerPos;
+    emitGameEvent(state, { type: "player_moved", player: player.sessionId, space: player.position });
+    emitGameEvent(state, { type: "player_moved", player: other.sessionId, space: other.position });
+    const landingMsg = processLanding(state, player);
+
+    return `${lead} — swapped places with ${other.displayName}. ${landingMsg}`;
+  },
+};
+
+/**
+ * Apply a card's effect to the game state.
+ */
+function applyCardEffect(state: GameState, card: CardDefinition, player: Player, rng: Rng, lead: string): string {
+  const handler = CARD_EFFECT_HANDLERS[card.effect];
+  if (!handler) {
+    return `${player.displayName} drew a card.`;
   }
+  return handler({ state, card, player, rng, lead });
 }
 
 /**
@@ -986,6 +1975,90 @@ export function clearDrawnCard(state: GameState): void {
   state.drawnCard.title = "";
   state.drawnCard.description = "";
   state.drawnCard.forSessionId = "";
+  state.drawnCard.effect = "";
+  state.drawnCard.held = false;
+}
+
+// ==================== City Events ====================
+
+/**
+ * Scale an amount by every city event aimed at it. Rent and build modifiers can be limited
+ * to a district or space type; pass the space's so they match.
+ */
+export function applyCityModifiers(
+  state: GameState,
+  target: CityModifierTarget,
+  amount: number,
+  spaceType: string = "",
+  district: string = ""
+): number {
+  let multiplier = 1;
+  state.cityModifiers.forEach((m) => {
+    if (m.target !== target) return;
+    if (m.district && m.district !== district) return;
+    if (m.spaceType && m.spaceType !== spaceType) return;
+    multiplier *= m.multiplier;
+  });
+  return Math.round(amount * multiplier);
+}
+
+/**
+ * Start a random city event for a player who landed on City Events.
+ * An event that is already running starts over instead of stacking.
+ */
+export function triggerCityEvent(state: GameState, player: Player, rng: Rng): string {
+  // Skip events that would do nothing here, like a transit strike on a board without stations
+  const events = CITY_EVENTS.filter(
+    (e) => !e.requiresSpaceType || state.boardSpaces.some((space) => space.spaceType === e.requiresSpaceType)
+  );
+  const event = events[Math.floor(rng() * events.length)];
+
+  let district = "";
+  if (event.inDistrict) {
+    const districts = Array.from(state.board.districts.keys());
+    district = districts[Math.floor(rng() * districts.length)] ?? "";
+  }
+
+  const existing = state.cityModifiers.findIndex((m) => m.eventId === event.id);
+  if (existing !== -1) {
+    state.cityModifiers.splice(existing, 1);
+  }
+
+  const modifier = new CityModifier();
+  modifier.eventId = event.id;
+  modifier.title = event.title;
+  modifier.description = event.description.replace("{district}", district);
+  modifier.target = event.target;
+  modifier.multiplier = event.multiplier;
+  modifier.district = district;
+  modifier.spaceType = event.spaceType ?? "";
+  modifier.roundsRemaining = event.rounds;
+  state.cityModifiers.push(modifier);
+
+  emitGameEvent(state, {
+    type: "city_event_started",
+    player: player.sessionId,
+    event: event.id,
+    title: event.title,
+    description: modifier.description,
+    rounds: event.rounds,
+  });
+  return `City Events: ${event.title}! ${modifier.description}`;
+}
+
+/**
+ * Count down the city events as a round completes, ending the ones that run out.
+ */
+function tickCityEvents(state: GameState): void {
+  for (let i = state.cityModifiers.length - 1; i >= 0; i--) {
+    const modifier = state.cityModifiers[i];
+    if (modifier.roundsRemaining > 1) {
+      modifier.roundsRemaining--;
+      continue;
+    }
+    state.cityModifiers.splice(i, 1);
+    emitGameEvent(state, { type: "city_event_ended", event: modifier.eventId, title: modifier.title });
+  }
 }
 
 // ==================== Mortgage Logic ====================
@@ -1071,6 +2144,7 @@ export function mortgageProperty(state: GameState, player: Player, spaceIndex: n
   const mortgageValue = getMortgageValue(space);
   space.isMortgaged = true;
   player.coins += mortgageValue;
+  emitGameEvent(state, { type: "property_mortgaged", player: player.sessionId, space: spaceIndex, amount: mortgageValue });
   
   return `${player.displayName} mortgaged ${space.name} for ${mortgageValue} coins.`;
 }
@@ -1099,6 +2173,7 @@ export function unmortgageProperty(state: GameState, player: Player, spaceIndex:
   
   player.coins -= cost;
   space.isMortgaged = false;
+  emitGameEvent(state, { type: "property_unmortgaged", player: player.sessionId, space: spaceIndex, cost });
   
   return `${player.displayName} unmortgaged ${space.name} for ${cost} coins.`;
 }
@@ -1108,16 +2183,16 @@ export function unmortgageProperty(state: GameState, player: Player, spaceIndex:
 /**
  * Calculate the sell value for a house (50% of house cost).
  */
-export function getHouseSellValue(district: string): number {
-  const houseCost = HOUSE_COST[district] || 100;
+export function getHouseSellValue(state: GameState, district: string): number {
+  const houseCost = getHouseCost(state, district);
   return Math.floor(houseCost / 2);
 }
 
 /**
  * Calculate the sell value for a hotel (50% of hotel cost).
  */
-export function getHotelSellValue(district: string): number {
-  const hotelCost = HOTEL_COST[district] || 100;
+export function getHotelSellValue(state: GameState, district: string): number {
+  const hotelCost = getHotelCost(state, district);
   return Math.floor(hotelCost / 2);
 }
 
@@ -1131,7 +2206,7 @@ export function getSellableHouseProperties(state: GameState, player: Player): nu
   const sellable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
+    const indices = getDistrictProperties(state, district);
     
     // Get current house counts (hotels count as 5)
     const houseCounts = indices.map((idx) => {
@@ -1166,7 +2241,7 @@ export function getSellableHotelProperties(state: GameState, player: Player): nu
   const sellable: number[] = [];
 
   for (const district of monopolies) {
-    const indices = DISTRICT_PROPERTIES[district];
+    const indices = getDistrictProperties(state, district);
     
     // Get current house counts (hotels count as 5)
     const houseCounts = indices.map((idx) => {
@@ -1218,9 +2293,10 @@ export function sellHouse(state: GameState, player: Player, spaceIndex: number):
     return "Cannot sell here. Sell evenly across the district (sell from properties with the most houses first).";
   }
   
-  const sellValue = getHouseSellValue(space.district);
+  const sellValue = getHouseSellValue(state, space.district);
   space.houses--;
   player.coins += sellValue;
+  emitGameEvent(state, { type: "house_sold", player: player.sessionId, space: spaceIndex, amount: sellValue, houses: space.houses });
   
   return `${player.displayName} sold a house on ${space.name} for ${sellValue} coins. (${space.houses}/4 houses)`;
 }
@@ -1252,9 +2328,16 @@ export function sellHotel(state: GameState, player: Player, spaceIndex: number,
     return "Cannot sell here. Sell evenly across the district.";
   }
   
-  const sellValue = getHotelSellValue(space.district);
+  const sellValue = getHotelSellValue(state, space.district);
   space.hasHotel = false;
   player.coins += sellValue;
+  emitGameEvent(state, {
+    type: "hotel_sold",
+    player: player.sessionId,
+    space: spaceIndex,
+    amount: sellValue,
+    keptHouses: convertToHouses,
+  });
   
   if (convertToHouses) {
     // Convert back to 4 houses
@@ -1285,16 +2368,16 @@ export function calculateLiquidationValue(state: GameState, player: Player): num
 
     // Value from selling hotel
     if (space.hasHotel && space.district) {
-      const hotelSell = Math.floor((HOTEL_COST[space.district] || 100) / 2);
+      const hotelSell = getHotelSellValue(state, space.district);
       value += hotelSell;
       // After selling hotel, the 4 houses that went into it can also be sold
-      const houseSell = Math.floor((HOUSE_COST[space.district] || 100) / 2);
+      const houseSell = getHouseSellValue(state, space.district);
       value += houseSell * MAX_HOUSES;
     }
 
     // Value from selling houses
     if (space.houses > 0 && space.district) {
-      const houseSell = Math.floor((HOUSE_COST[space.district] || 100) / 2);
+      const houseSell = getHouseSellValue(state, space.district);
       value += houseSell * space.houses;
     }
 
@@ -1325,6 +2408,13 @@ export function startBankruptcyNegotiation(
   negotiation.amountOwed = amount;
   negotiation.reason = reason;
   negotiation.deadline = Math.floor(Date.now() / 1000) + BANKRUPTCY_NEGOTIATION_DURATION;
+  emitGameEvent(state, {
+    type: "debt_negotiation_started",
+    player: debtor.sessionId,
+    creditor: creditorSessionId,
+    amount,
+    reason,
+  });
 }
 
 /**
@@ -1363,13 +2453,16 @@ export function resolveBankruptcyPayment(state: GameState): string | null {
       debtor.coins -= amount;
       creditor.coins += amount;
       clearBankruptcyNegotiation(state);
+      emitGameEvent(state, { type: "debt_paid", player: debtor.sessionId, creditor: creditorId, amount });
       return `${debtor.displayName} raised enough funds and paid ${amount} coins to ${creditor.displayName}!`;
     }
   }
 
-  // Pay to bank (tax, card, etc.)
+  // Pay to bank (tax, card, etc.); loan repayments don't feed the jackpot
   debtor.coins -= amount;
+  if (negotiation.reason !== "loan") payIntoJackpot(state, amount);
   clearBankruptcyNegotiation(state);
+  emitGameEvent(state, { type: "debt_paid", player: debtor.sessionId, creditor: "", amount });
   return `${debtor.displayName} raised enough funds and paid ${amount} coins!`;
 }
 
@@ -1439,7 +2532,7 @@ export function isBankruptcyTimedOut(state: GameState): boolean {
  */
 export function startAuction(state: GameState, propertyIndex: number): string {
   const space = state.boardSpaces[propertyIndex];
-  if (!space || space.spaceType !== "property") {
+  if (!space || !isOwnableSpace(space)) {
     return "Cannot auction this space.";
   }
   if (space.ownerId !== "") {
@@ -1451,10 +2544,37 @@ export function startAuction(state: GameState, propertyIndex: number): string {
   state.activeAuction.currentBid = 0;
   state.activeAuction.highestBidderId = "";
   state.activeAuction.passedPlayers.clear();
+  state.activeAuction.deadline = Date.now() + state.settings.auctionSeconds * 1000;
+  state.activeAuction.mode = state.settings.auctionMode;
+  state.activeAuction.sealedBidders.clear();
+  state.activeAuction.revealedBids.clear();
+
+  // Disconnected players sit the auction out rather than stall it
+  state.players.forEach((p) => {
+    if (p.isDisconnected) state.activeAuction.passedPlayers.add(p.sessionId);
+  });
+  emitGameEvent(state, { type: "auction_started", space: propertyIndex, sealed: isSealedAuction(state) });
 
+  if (isSealedAuction(state)) {
+    return `${space.name} is up for a sealed-bid auction! Everyone gets one hidden bid within ${state.settings.auctionSeconds} seconds.`;
+  }
   return `${space.name} is now up for auction! Minimum bid: 1 coin.`;
 }
 
+/** Sealed-bid auctions take one hidden bid per player instead of open bidding */
+export function isSealedAuction(state: GameState): boolean {
+  return state.activeAuction.mode === "first_price" || state.activeAuction.mode === "vickrey";
+}
+
+/**
+ * The lowest bid the auction will accept next: 1 coin to open,
+ * then the current bid plus the minimum increment.
+ */
+export function getMinimumBid(state: GameState): number {
+  const auction = state.activeAuction;
+  return auction.currentBid > 0 ? auction.currentBid + state.settings.auctionMinIncrement : 1;
+}
+
 /**
  * Place a bid in the current auction.
  * Returns result message.
@@ -1468,11 +2588,11 @@ export function placeBid(state: GameState, player: Player, amount: number): stri
   if (!player.isActive || player.isBankrupt) {
     return "You cannot participate in this auction.";
   }
-  if (amount <= auction.currentBid) {
-    return `Bid must be higher than the current bid of ${auction.currentBid} coins.`;
-  }
-  if (amount < 1) {
-    return "Minimum bid is 1 coin.";
+  const minimumBid = getMinimumBid(state);
+  if (!Number.isInteger(amount) || amount < minimumBid) {
+    return auction.currentBid > 0
+      ? `Bid must be at least ${minimumBid} coins (the current bid plus ${state.settings.auctionMinIncrement}).`
+      : "Minimum bid is 1 coin.";
   }
   if (player.coins < amount) {
     return `You don't have enough coins. You have ${player.coins} coins.`;
@@ -1481,6 +2601,7 @@ export function placeBid(state: GameState, player: Player, amount: number): stri
   // Update auction state
   auction.currentBid = amount;
   auction.highestBidderId = player.sessionId;
+  auction.deadline = Date.now() + state.settings.auctionSeconds * 1000;
 
   // Remove from passed players (in case they passed then decided to bid)
   if (auction.passedPlayers.has(player.sessionId)) {
@@ -1488,6 +2609,7 @@ export function placeBid(state: GameState, player: Player, amount: number): stri
   }
 
   const space = state.boardSpaces[auction.propertyIndex];
+  emitGameEvent(state, { type: "bid_placed", player: player.sessionId, space: space.index, amount });
 
   // Check if auction should end (all other active players have passed)
   const endResult = checkAuctionEnd(state);
@@ -1514,6 +2636,9 @@ export function passAuction(state: GameState, player: Player): string {
   if (auction.passedPlayers.has(player.sessionId)) {
     return "You have already passed.";
   }
+  if (auction.sealedBidders.has(player.sessionId)) {
+    return "You have already submitted your bid.";
+  }
   // Highest bidder cannot pass (they're winning)
   if (player.sessionId === auction.highestBidderId) {
     return "You cannot pass while you are the highest bidder.";
@@ -1521,6 +2646,7 @@ export function passAuction(state: GameState, player: Player): string {
 
   // Add to passed players
   auction.passedPlayers.add(player.sessionId);
+  emitGameEvent(state, { type: "auction_passed", player: player.sessionId, space: auction.propertyIndex });
 
   // Check if auction should end
   const endResult = checkAuctionEnd(state);
@@ -1539,7 +2665,8 @@ export function passAuction(state: GameState, player: Player): string {
 export function checkAuctionEnd(state: GameState): string | null {
   const auction = state.activeAuction;
 
-  if (auction.status !== "active") {
+  // Sealed auctions are settled by resolveSealedAuction, which needs the hidden bids
+  if (auction.status !== "active" || isSealedAuction(state)) {
     return null;
   }
 
@@ -1568,9 +2695,125 @@ export function checkAuctionEnd(state: GameState): string | null {
   return null;
 }
 
+/**
+ * Submit a hidden bid in a sealed-bid auction. Each player bids once;
+ * the amounts stay in the room's sealedBids map until the auction closes.
+ * Returns result message.
+ */
+export function placeSealedBid(
+  state: GameState,
+  sealedBids: Map<string, number>,
+  player: Player,
+  amount: number
+): string {
+  const auction = state.activeAuction;
+
+  if (auction.status !== "active" || !isSealedAuction(state)) {
+    return "No sealed-bid auction is currently active.";
+  }
+  if (!player.isActive || player.isBankrupt) {
+    return "You cannot participate in this auction.";
+  }
+  if (auction.sealedBidders.has(player.sessionId)) {
+    return "You have already submitted your bid.";
+  }
+  if (auction.passedPlayers.has(player.sessionId)) {
+    return "You have already passed.";
+  }
+  if (!Number.isInteger(amount) || amount < 1) {
+    return "Minimum bid is 1 coin.";
+  }
+  if (player.coins < amount) {
+    return `You don't have enough coins. You have ${player.coins} coins.`;
+  }
+
+  sealedBids.set(player.sessionId, amount);
+  auction.sealedBidders.add(player.sessionId);
+  emitGameEvent(state, { type: "sealed_bid_placed", player: player.sessionId, space: auction.propertyIndex });
+
+  return `${player.displayName} submitted a sealed bid.`;
+}
+
+/**
+ * Whether every active player has bid or passed, so a sealed auction can close early.
+ */
+export function isSealedAuctionComplete(state: GameState): boolean {
+  const auction = state.activeAuction;
+  return auction.status === "active" && getActivePlayers(state).every(
+    (p) => auction.sealedBidders.has(p.sessionId) || auction.passedPlayers.has(p.sessionId)
+  );
+}
+
+/**
+ * Open the sealed bids and sell the property.
+ * The highest bid wins; a tie at the top is drawn with the game's RNG (players
+ * taken in seat order), so a replay from the seed settles it the same way.
+ * First-price winners pay their own bid, Vickrey winners the second-highest bid.
+ * The bids stay on show in revealedBids until the room clears the auction.
+ * Returns result message.
+ */
+export function resolveSealedAuction(state: GameState, sealedBids: Map<string, number>, rng: Rng): string {
+  const auction = state.activeAuction;
+  const space = state.boardSpaces[auction.propertyIndex];
+
+  // A bid only stands if the bidder is still in and can still cover it
+  const bids = Array.from(sealedBids, ([sessionId, amount]) => ({ player: state.players.get(sessionId), amount }))
+    .filter((b): b is { player: Player; amount: number } =>
+      !!b.player && b.player.isActive && !b.player.isBankrupt && b.player.coins >= b.amount
+    )
+    .sort((a, b) => b.amount - a.amount || a.player.playerIndex - b.player.playerIndex);
+  sealedBids.clear();
+
+  const topBidders = bids.filter((b) => b.amount === bids[0]?.amount);
+  const tieBreak = topBidders.length > 1;
+  const winner = tieBreak ? topBidders[Math.floor(rng() * topBidders.length)] : topBidders[0];
+
+  auction.status = "revealed";
+  auction.revealedBids.clear();
+  bids.forEach((b) => auction.revealedBids.set(b.player.sessionId, b.amount));
+  emitGameEvent(state, {
+    type: "sealed_bids_revealed",
+    space: space.index,
+    bids: bids.map((b) => ({ player: b.player.sessionId, amount: b.amount })),
+    tieBreak,
+  });
+
+  if (!winner) {
+    auction.highestBidderId = "";
+    auction.currentBid = 0;
+    emitGameEvent(state, { type: "auction_unsold", space: space.index });
+    return `No bids placed. ${space.name} remains unowned.`;
+  }
+
+  // Vickrey: the runner-up's bid sets the price (the same as the top bid on a tie)
+  const runnerUp = bids.find((b) => b !== winner);
+  const price = auction.mode === "vickrey" ? runnerUp?.amount ?? 1 : winner.amount;
+
+  auction.highestBidderId = winner.player.sessionId;
+  auction.currentBid = price;
+  winner.player.coins -= price;
+  space.ownerId = winner.player.sessionId;
+  winner.player.ownedProperties.push(space.index);
+  emitGameEvent(state, { type: "auction_won", player: winner.player.sessionId, space: space.index, amount: price });
+
+  return `${winner.player.displayName} won ${space.name} for ${price} coins!`;
+}
+
+/**
+ * Whether the auction clock has run out. The room then ends the auction,
+ * awarding the property to the highest bidder if there is one.
+ */
+export function isAuctionTimedOut(state: GameState): boolean {
+  const auction = state.activeAuction;
+  return auction.status === "active" && Date.now() >= auction.deadline;
+}
+
 /**
  * End the current auction.
  * Transfers property to highest bidder or leaves it unowned.
+ * Like a sealed bid, the top bid only stands if the bidder can still cover it
+ * (they may have paid rent or a loan since bidding); otherwise the property
+ * stays with the bank.
  * Returns result message.
  */
 export function endAuction(state: GameState): string {
@@ -1581,16 +2824,22 @@ export function endAuction(state: GameState): string {
   if (auction.highestBidderId && auction.currentBid > 0) {
     // Someone won the auction
     const winner = state.players.get(auction.highestBidderId);
-    if (winner) {
+    if (winner && (!winner.isActive || winner.isBankrupt || winner.coins < auction.currentBid)) {
+      emitGameEvent(state, { type: "auction_unsold", space: space.index });
+      result = `${winner.displayName} can no longer cover their bid of ${auction.currentBid} coins. ${space.name} remains unowned.`;
+    } else if (winner) {
       winner.coins -= auction.currentBid;
       space.ownerId = winner.sessionId;
       winner.ownedProperties.push(space.index);
+      emitGameEvent(state, { type: "auction_won", player: winner.sessionId, space: space.index, amount: auction.currentBid });
       result = `${winner.displayName} won ${space.name} for ${auction.currentBid} coins!`;
     } else {
+      emitGameEvent(state, { type: "auction_unsold", space: space.index });
       result = `Auction ended but winner not found. ${space.name} remains unowned.`;
     }
   } else {
     // No bids - property remains unowned
+    emitGameEvent(state, { type: "auction_unsold", space: space.index });
     result = `No bids placed. ${space.name} remains unowned.`;
   }
 
@@ -1609,6 +2858,10 @@ export function clearAuction(state: GameState): void {
   state.activeAuction.currentBid = 0;
   state.activeAuction.highestBidderId = "";
   state.activeAuction.passedPlayers.clear();
+  state.activeAuction.deadline = 0;
+  state.activeAuction.mode = "open";
+  state.activeAuction.sealedBidders.clear();
+  state.activeAuction.revealedBids.clear();
 }
 
 /**
@@ -1628,11 +2881,251 @@ export function handlePlayerDisconnectAuction(state: GameState, sessionId: strin
     auction.currentBid = 0;
   }
 
-  // Mark as passed
-  if (!auction.passedPlayers.has(sessionId)) {
+  // Mark as passed (a sealed bid they already made still stands)
+  if (!auction.passedPlayers.has(sessionId) && !auction.sealedBidders.has(sessionId)) {
     auction.passedPlayers.add(sessionId);
   }
 
   // Check if auction should end
   checkAuctionEnd(state);
 }
+
+// ==================== Votes ====================
+
+export const VOTE_KINDS = ["end_game", "kick"] as const;
+export type VoteKind = (typeof VOTE_KINDS)[number];
+
+/** How long a vote stays open */
+export const VOTE_SECONDS = 30;
+
+/**
+ * Players who get a say: connected people still in the game, apart from the
+ * player a kick vote is about. Bots don't vote.
+ */
+export function getVoters(state: GameState): Player[] {
+  return getActivePlayers(state).filter(
+    (p) => !p.isBot && !p.isDisconnected && p.sessionId !== state.activeVote.targetSessionId
+  );
+}
+
+/**
+ * Check whether a player can call a vote.
+ */
+export function validateStartVote(
+  state: GameState,
+  proposer: Player,
+  kind: string,
+  targetSessionId: string
+): { valid: boolean; error?: string } {
+  if (!VOTE_KINDS.includes(kind as VoteKind)) {
+    return { valid: false, error: "Unknown vote." };
+  }
+  if (proposer.isBot || !proposer.isActive || proposer.isBankrupt) {
+    return { valid: false, error: "Only players still in the game can call a vote." };
+  }
+  if (state.activeVote.status === "active") {
+    return { valid: false, error: "A vote is already open." };
+  }
+  if (kind === "kick") {
+    const target = state.players.get(targetSessionId);
+    if (!target || !target.isActive || target.isBankrupt) {
+      return { valid: false, error: "That player isn't in the game." };
+    }
+    if (target.sessionId === proposer.sessionId) {
+      return { valid: false, error: "You can't vote to kick yourself." };
+    }
+    if (target.isBot) {
+      return { valid: false, error: "Bots never go AFK." };
+    }
+    if (!isAwayFromKeyboard(target)) {
+      return { valid: false, error: "You can only vote to kick a player who has disconnected or let their turn time out." };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Whether a player counts as AFK for a kick vote: dropped from the game, or the
+ * turn timer skipped their turn and they haven't done anything since.
+ */
+export function isAwayFromKeyboard(player: Player): boolean {
+  return player.isDisconnected || player.timedOut;
+}
+
+/**
+ * Open a vote. Calling it counts as a yes.
+ */
+export function startVote(
+  state: GameState,
+  proposer: Player,
+  kind: VoteKind,
+  targetSessionId: string,
+  now: number
+): void {
+  const vote = state.activeVote;
+  vote.status = "active";
+  vote.kind = kind;
+  vote.proposerSessionId = proposer.sessionId;
+  vote.targetSessionId = kind === "kick" ? targetSessionId : "";
+  vote.yes.clear();
+  vote.no.clear();
+  vote.yes.add(proposer.sessionId);
+  vote.deadline = now + VOTE_SECONDS * 1000;
+  emitGameEvent(state, { type: "vote_started", player: proposer.sessionId, kind, target: vote.targetSessionId });
+}
+
+/**
+ * Record a player's vote, replacing any earlier one.
+ */
+export function castVote(state: GameState, voter: Player, inFavor: boolean): { success: boolean; message: string } {
+  const vote = state.activeVote;
+  if (vote.status !== "active") {
+    return { success: false, message: "There's no vote open." };
+  }
+  if (!getVoters(state).some((p) => p.sessionId === voter.sessionId)) {
+    return { success: false, message: "You don't have a say in this vote." };
+  }
+  vote.yes.delete(voter.sessionId);
+  vote.no.delete(voter.sessionId);
+  (inFavor ? vote.yes : vote.no).add(voter.sessionId);
+  return { success: true, message: `${voter.displayName} voted ${inFavor ? "yes" : "no"}.` };
+}
+
+/**
+ * Where the open vote stands. It passes on a majority of the voters and fails once
+ * a majority can no longer be reached or the time runs out.
+ */
+export function getVoteOutcome(state: GameState, now: number): "open" | "passed" | "failed" {
+  const vote = state.activeVote;
+  // A kick vote fails as soon as its target is back
+  const target = state.players.get(vote.targetSessionId);
+  if (vote.kind === "kick" && target && !isAwayFromKeyboard(target)) return "failed";
+
+  const voterIds = new Set(getVoters(state).map((p) => p.sessionId));
+  const yes = Array.from(vote.yes).filter((id) => voterIds.has(id)).length;
+  const no = Array.from(vote.no).filter((id) => voterIds.has(id)).length;
+
+  if (yes * 2 > voterIds.size) return "passed";
+  if (no * 2 >= voterIds.size || now >= vote.deadline) return "failed";
+  return "open";
+}
+
+/**
+ * Close the open vote and log the result.
+ */
+export function closeVote(state: GameState, passed: boolean): void {
+  const vote = state.activeVote;
+  emitGameEvent(state, {
+    type: "vote_closed",
+    kind: vote.kind as VoteKind,
+    target: vote.targetSessionId,
+    passed,
+    yes: vote.yes.size,
+    no: vote.no.size,
+  });
+  clearVote(state);
+}
+
+/**
+ * Reset the vote state.
+ */
+export function clearVote(state: GameState): void {
+  const vote = state.activeVote;
+  vote.status = "none";
+  vote.kind = "";
+  vote.proposerSessionId = "";
+  vote.targetSessionId = "";
+  vote.yes.clear();
+  vote.no.clear();
+  vote.deadline = 0;
+}
+
+/**
+ * End the game now after a vote, with the wealthiest player winning.
+ */
+export function endGameByVote(state: GameState): string {
+  if (getActivePlayers(state).length <= 1) {
+    return endGame(state);
+  }
+  return endGame(state, "vote");
+}
+
+// ==================== House Rules ====================
+
+const BOOLEAN_SETTINGS = [
+  "freeParkingJackpot",
+  "doublePaydayOnLanding",
+  "noRentInJail",
+  "auctionOnDecline",
+] as const;
+
+/** Allowed [min, max] range for each numeric setting */
+export const SETTINGS_LIMITS = {
+  startingCoins: [100, 10000],
+  paydayBonus: [0, 1000],
+  jailFine: [0, 500],
+  incomeTax: [0, 1000],
+  luxuryTax: [0, 1000],
+  superTax: [0, 1000],
+  maxRounds: [5, 200],
+  reconnectGraceSeconds: [10, 600],
+  auctionSeconds: [5, 60],
+  auctionMinIncrement: [1, 100],
+} as const;
+
+/** How declined properties are auctioned: open ascending bids, or one sealed bid each */
+export const AUCTION_MODES = ["open", "first_price", "vickrey"] as const;
+
+export type GameSettingsUpdate = Partial<
+  Record<(typeof BOOLEAN_SETTINGS)[number], boolean> &
+  Record<keyof typeof SETTINGS_LIMITS, number> & { boardId: string; auctionMode: string }
+>;
+
+/**
+ * Validate and apply a (partial) house rules update from the host.
+ * Nothing is applied unless every provided value is valid.
+ * Returns { valid: true } or { valid: false, error: string }.
+ */
+export function updateGameSettings(
+  settings: GameSettings,
+  update: GameSettingsUpdate
+): { valid: boolean; error?: string } {
+  for (const key of BOOLEAN_SETTINGS) {
+    const value = update[key];
+    if (value !== undefined && typeof value !== "boolean") {
+      return { valid: false, error: `Invalid value for ${key}.` };
+    }
+  }
+
+  for (const [key, [min, max]] of Object.entries(SETTINGS_LIMITS)) {
+    const value = update[key as keyof typeof SETTINGS_LIMITS];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      return { valid: false, error: `${key} must be a whole number between ${min} and ${max}.` };
+    }
+  }
+
+  if (update.boardId !== undefined && (typeof update.boardId !== "string" || !getBoardDefinition(update.boardId))) {
+    return { valid: false, error: "Unknown board map." };
+  }
+  if (update.auctionMode !== undefined && !(AUCTION_MODES as readonly string[]).includes(update.auctionMode)) {
+    return { valid: false, error: "Unknown auction mode." };
+  }
+
+  for (const key of BOOLEAN_SETTINGS) {
+    const value = update[key];
+    if (value !== undefined) settings[key] = value;
+  }
+  for (const key of Object.keys(SETTINGS_LIMITS) as (keyof typeof SETTINGS_LIMITS)[]) {
+    const value = update[key];
+    if (value !== undefined) settings[key] = value;
+  }
+  if (update.boardId !== undefined) {
+    settings.boardId = update.boardId;
+  }
+  if (update.auctionMode !== undefined) {
+    settings.auctionMode = update.auctionMode;
+  }
+
+  return { valid: true };
+}
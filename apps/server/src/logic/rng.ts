@@ -0,0 +1,52 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * A source of random numbers in [0, 1), like Math.random.
+ * Each game room owns one, seeded at game start, so a game can be replayed
+ * from its seed plus the sequence of player actions.
+ */
+export interface Rng {
+  (): number;
+  /** The generator's internal state, saved with a game so it resumes the same sequence */
+  getState(): number[];
+}
+
+/**
+ * Create a deterministic RNG from a seed string (sfc32, keyed by a hash of the seed).
+ * The 128-bit state keeps upcoming rolls from being recovered by watching earlier ones.
+ * Pass a state from getState() to continue a saved sequence instead of starting over.
+ */
+export function createRng(seed: string, state?: number[]): Rng {
+  // Prefixed so the key differs from the public hashSeed() commitment
+  const digest = createHash("sha256").update(`rng:${seed}`).digest();
+  let a = state?.[0] ?? digest.readUInt32LE(0);
+  let b = state?.[1] ?? digest.readUInt32LE(4);
+  let c = state?.[2] ?? digest.readUInt32LE(8);
+  let d = state?.[3] ?? digest.readUInt32LE(12);
+  const rng = () => {
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+  rng.getState = () => [a, b, c, d];
+  return rng;
+}
+
+/**
+ * Generate a fresh, unpredictable seed for a new game.
+ */
+export function generateSeed(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * SHA-256 of a seed, published at game start as a commitment. Revealing the seed
+ * when the game ends lets players check the dice and decks weren't tampered with.
+ */
+export function hashSeed(seed: string): string {
+  return createHash("sha256").update(seed).digest("hex");
+}
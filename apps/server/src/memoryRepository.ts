@@ -0,0 +1,185 @@
+import type { PlayerData, PlayerStats, PlayerAchievement, PlayerGoal, MatchRecord, MatchParticipant, PlayerRating } from "./db.js";
+import { FREE_PIECES, STARTING_GEMS, type Repository } from "./repository.js";
+
+/** A gem change kept by the in-memory repository, newest last */
+export interface MemoryGemTransaction {
+  discordUserId: string;
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  detail: string;
+}
+
+export interface MemoryRepository extends Repository {
+  /** Every gem change so far, to check what a game paid out */
+  gemTransactions: MemoryGemTransaction[];
+  matches: (MatchRecord & { participants: Omit<MatchParticipant, "match_id">[] })[];
+}
+
+function emptyStats(discordUserId: string): PlayerStats {
+  return {
+    discord_user_id: discordUserId,
+    games_played: 0, games_won: 0, total_coins_earned: 0,
+    properties_bought: 0, hotels_built: 0, houses_built: 0,
+    rent_collected_total: 0, bankrupted_opponents: 0, trades_completed: 0,
+    auctions_won: 0, jail_escapes: 0, paydays_collected: 0,
+    dice_rolls: 0, doubles_rolled: 0, monopolies_completed: 0,
+  };
+}
+
+/**
+ * A repository that keeps everything in memory and forgets it when the process
+ * ends: for tests, and for games nobody's data should be saved from.
+ * Reads return copies, so callers can't change the stored data by accident.
+ */
+export function createMemoryRepository(): MemoryRepository {
+  const players = new Map<string, PlayerData>();
+  const stats = new Map<string, PlayerStats>();
+  const achievements = new Map<string, PlayerAchievement>(); // by `${user}:${achievement}`
+  const goals = new Map<string, PlayerGoal>(); // by `${user}:${goal}:${resetDate}`
+  const ratings = new Map<string, PlayerRating>(); // by `${user}:${scope}`
+  const snapshots = new Map<string, string>();
+  const gemTransactions: MemoryGemTransaction[] = [];
+  const matches: MemoryRepository["matches"] = [];
+
+  const player = (discordUserId: string): PlayerData => {
+    let data = players.get(discordUserId);
+    if (!data) {
+      data = {
+        discord_user_id: discordUserId,
+        gems: STARTING_GEMS,
+        owned_pieces: [...FREE_PIECES],
+        selected_piece: "car",
+        owned_cosmetics: [],
+        equipped_title: "",
+        equipped_theme: "classic",
+        equipped_dice: "standard",
+      };
+      players.set(discordUserId, data);
+      gemTransactions.push({ discordUserId, amount: STARTING_GEMS, balanceAfter: STARTING_GEMS, reason: "starting_gems", detail: "" });
+    }
+    return data;
+  };
+
+  const playerStats = (discordUserId: string): PlayerStats => {
+    let data = stats.get(discordUserId);
+    if (!data) {
+      data = emptyStats(discordUserId);
+      stats.set(discordUserId, data);
+    }
+    return data;
+  };
+
+  const repository: MemoryRepository = {
+    gemTransactions,
+    matches,
+
+    getPlayer(discordUserId) {
+      const data = player(discordUserId);
+      return { ...data, owned_pieces: [...data.owned_pieces], owned_cosmetics: [...data.owned_cosmetics] };
+    },
+
+    selectPiece(discordUserId, pieceId) {
+      const data = player(discordUserId);
+      if (!data.owned_pieces.includes(pieceId)) return false;
+      data.selected_piece = pieceId;
+      return true;
+    },
+
+    updateGems(discordUserId, amount, reason, detail = "") {
+      const data = player(discordUserId);
+      data.gems += amount;
+      gemTransactions.push({ discordUserId, amount, balanceAfter: data.gems, reason, detail });
+      return data.gems;
+    },
+
+    getPlayerStats(discordUserId) {
+      return { ...playerStats(discordUserId) };
+    },
+
+    incrementStat(discordUserId, stat, amount = 1) {
+      const data = playerStats(discordUserId);
+      data[stat] += amount;
+      return { ...data };
+    },
+
+    getPlayerAchievements(discordUserId) {
+      return Array.from(achievements.values())
+        .filter((a) => a.discord_user_id === discordUserId)
+        .map((a) => ({ ...a }));
+    },
+
+    getPlayerAchievement(discordUserId, achievementId) {
+      const data = achievements.get(`${discordUserId}:${achievementId}`);
+      return data ? { ...data } : null;
+    },
+
+    unlockAchievement(discordUserId, achievementId, tier = 1) {
+      achievements.set(`${discordUserId}:${achievementId}`, {
+        discord_user_id: discordUserId,
+        achievement_id: achievementId,
+        tier,
+        unlocked_at: new Date().toISOString(),
+      });
+    },
+
+    getPlayerGoals(discordUserId, resetDate) {
+      return Array.from(goals.values())
+        .filter((g) => g.discord_user_id === discordUserId && g.reset_date === resetDate)
+        .map((g) => ({ ...g }));
+    },
+
+    getPlayerGoal(discordUserId, goalId, resetDate) {
+      const data = goals.get(`${discordUserId}:${goalId}:${resetDate}`);
+      return data ? { ...data } : null;
+    },
+
+    incrementGoalProgress(discordUserId, goalId, resetDate, amount = 1) {
+      const key = `${discordUserId}:${goalId}:${resetDate}`;
+      const data = goals.get(key) ?? {
+        discord_user_id: discordUserId,
+        goal_id: goalId,
+        progress: 0,
+        completed: false,
+        reset_date: resetDate,
+      };
+      data.progress += amount;
+      goals.set(key, data);
+      return { ...data };
+    },
+
+    completeGoal(discordUserId, goalId, resetDate) {
+      const data = goals.get(`${discordUserId}:${goalId}:${resetDate}`);
+      if (data) data.completed = true;
+    },
+
+    recordMatch(match, participants) {
+      const id = matches.length + 1;
+      matches.push({ ...match, id, participants: participants.map((p) => ({ ...p })) });
+      return id;
+    },
+
+    getPlayerRating(discordUserId, scope) {
+      const data = ratings.get(`${discordUserId}:${scope}`);
+      return data ? { ...data } : null;
+    },
+
+    savePlayerRating(rating) {
+      ratings.set(`${rating.discord_user_id}:${rating.scope}`, { ...rating });
+    },
+
+    saveGameSnapshot(channelId, snapshot) {
+      snapshots.set(channelId, snapshot);
+    },
+
+    getGameSnapshot(channelId) {
+      return snapshots.get(channelId) ?? null;
+    },
+
+    deleteGameSnapshot(channelId) {
+      snapshots.delete(channelId);
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,90 @@
+import "dotenv/config";
+import path from "path";
+import { fileURLToPath } from "url";
+import { existsSync } from "fs";
+import Database, { type Database as DatabaseType } from "better-sqlite3";
+import { loadMigrations, getMigrationStatus, runMigrations, MIGRATIONS_PATH, type Migration } from "./migrations.js";
+
+// ==================== Migration CLI ====================
+//
+//   npm run db:status [-- <db path>]                    list applied and pending migrations
+//   npm run db:migrate-copy -- <copy path> [<db path>]  copy the database and migrate the copy
+//
+// The database defaults to DB_PATH, like the server. Neither command changes it:
+// try pending migrations on a copy before deploying them.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DB_PATH = process.env.DB_PATH || path.join(__dirname, "..", "discopoly.db");
+
+const USAGE = `Usage:
+  migrate status [<db path>]
+  migrate migrate-copy <copy path> [<db path>]`;
+
+function printStatus(db: DatabaseType, migrations: Migration[]): void {
+  const status = getMigrationStatus(db, migrations);
+  if (status.length === 0) {
+    console.log(`No migrations in ${MIGRATIONS_PATH}`);
+    return;
+  }
+
+  for (const s of status) {
+    const state = s.appliedAt ? `applied ${s.appliedAt}` : "pending";
+    const notes = [s.modified ? "file changed since it ran" : "", s.unknown ? "not in this build" : ""].filter(Boolean);
+    console.log(`  ${s.name.padEnd(28)} ${state}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`);
+  }
+
+  const pending = status.filter((s) => !s.appliedAt).length;
+  console.log(pending === 0 ? "Up to date." : `${pending} pending.`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const migrations = loadMigrations();
+
+  if (command === "status") {
+    const dbPath = args[0] || DEFAULT_DB_PATH;
+    if (!existsSync(dbPath)) {
+      console.log(`${dbPath} doesn't exist yet: every migration is pending.`);
+      return;
+    }
+    const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    console.log(`Migrations for ${dbPath}:`);
+    printStatus(db, migrations);
+    db.close();
+    return;
+  }
+
+  if (command === "migrate-copy") {
+    const [copyPath, sourcePath = DEFAULT_DB_PATH] = args;
+    if (!copyPath) {
+      console.error(USAGE);
+      process.exitCode = 1;
+      return;
+    }
+    if (existsSync(copyPath)) {
+      console.error(`${copyPath} already exists; pick a new path for the copy.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const source = new Database(sourcePath, { readonly: true, fileMustExist: true });
+    await source.backup(copyPath);
+    source.close();
+    console.log(`Copied ${sourcePath} to ${copyPath}`);
+
+    const copy = new Database(copyPath);
+    runMigrations(copy, migrations);
+    console.log(`Migrations for ${copyPath}:`);
+    printStatus(copy, migrations);
+    copy.close();
+    return;
+  }
+
+  console.error(USAGE);
+  process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
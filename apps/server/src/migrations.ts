@@ -0,0 +1,168 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import type { Database as DatabaseType } from "better-sqlite3";
+
+// ==================== Schema Migrations ====================
+//
+// The schema lives in numbered SQL files in `apps/server/migrations/`
+// (`0001_players.sql`, `0002_match_history.sql`, ...). They run in order, each in
+// its own transaction together with its row in schema_migrations, so a migration
+// either applies completely or not at all. Never edit a migration that has
+// shipped: add a new one.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const MIGRATIONS_PATH = process.env.MIGRATIONS_PATH || path.join(__dirname, "..", "migrations");
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string; // SHA-256 of the file, to spot a migration edited after it ran
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  /** The file changed after it was applied */
+  modified: boolean;
+  /** Recorded in the database but missing from the migrations directory */
+  unknown: boolean;
+}
+
+/**
+ * Columns that databases from before schema_migrations got through ALTER TABLE.
+ * The first migrations already create them, but on those older databases the
+ * tables exist and CREATE TABLE IF NOT EXISTS leaves them as they are.
+ */
+const PRE_MIGRATION_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: "players", column: "owned_cosmetics", definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: "players", column: "equipped_title", definition: "TEXT NOT NULL DEFAULT ''" },
+  { table: "players", column: "equipped_theme", definition: "TEXT NOT NULL DEFAULT 'classic'" },
+  { table: "players", column: "equipped_dice", definition: "TEXT NOT NULL DEFAULT 'standard'" },
+  { table: "matches", column: "guild_id", definition: "TEXT NOT NULL DEFAULT ''" },
+];
+
+/**
+ * Read the migration files in version order. Unlike boards and decks, a bad file
+ * stops startup: skipping a migration would leave the schema in an unknown state.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_PATH): Migration[] {
+  const migrations: Migration[] = [];
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".sql"))) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Bad migration file name ${file}: expected <number>_<name>.sql`);
+    }
+    const version = parseInt(match[1], 10);
+    const existing = migrations.find((m) => m.version === version);
+    if (existing) {
+      throw new Error(`Migrations ${existing.name}.sql and ${file} both have version ${version}`);
+    }
+
+    const sql = readFileSync(path.join(dir, file), "utf-8");
+    migrations.push({
+      version,
+      name: file.replace(/\.sql$/, ""),
+      sql,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+    });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
+
+function tableExists(db: DatabaseType, table: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
+function getAppliedMigrations(db: DatabaseType): { version: number; name: string; checksum: string; applied_at: string }[] {
+  if (!tableExists(db, "schema_migrations")) return [];
+  return db.prepare("SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version").all() as any[];
+}
+
+/** Every migration, applied or not, plus any the database knows about that this build doesn't */
+export function getMigrationStatus(db: DatabaseType, migrations: Migration[]): MigrationStatus[] {
+  const applied = getAppliedMigrations(db);
+
+  const status: MigrationStatus[] = migrations.map((m) => {
+    const row = applied.find((a) => a.version === m.version);
+    return {
+      version: m.version,
+      name: m.name,
+      appliedAt: row?.applied_at ?? null,
+      modified: !!row && row.checksum !== m.checksum,
+      unknown: false,
+    };
+  });
+
+  for (const row of applied) {
+    if (migrations.some((m) => m.version === row.version)) continue;
+    status.push({ version: row.version, name: row.name, appliedAt: row.applied_at, modified: false, unknown: true });
+  }
+
+  return status.sort((a, b) => a.version - b.version);
+}
+
+/** Add the ALTER TABLE columns a database from before schema_migrations may be missing */
+function upgradePreMigrationSchema(db: DatabaseType): void {
+  for (const { table, column, definition } of PRE_MIGRATION_COLUMNS) {
+    if (!tableExists(db, table)) continue;
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.some((c) => c.name === column)) continue;
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added ${table}.${column} to a database from before migrations`);
+  }
+}
+
+/**
+ * Apply the pending migrations in order. Each one runs in a transaction with its
+ * schema_migrations row; if one fails, it is rolled back and the error is thrown,
+ * leaving the earlier ones applied. Returns the migrations that ran.
+ */
+export function runMigrations(db: DatabaseType, migrations: Migration[]): Migration[] {
+  const isFirstRun = !tableExists(db, "schema_migrations");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  if (isFirstRun) db.transaction(() => upgradePreMigrationSchema(db))();
+
+  for (const s of getMigrationStatus(db, migrations)) {
+    if (s.modified) console.warn(`Migration ${s.name} has changed since it was applied`);
+    if (s.unknown) console.warn(`Migration ${s.name} was applied but is not in ${MIGRATIONS_PATH}`);
+  }
+
+  const appliedVersions = new Set(getAppliedMigrations(db).map((a) => a.version));
+  const ran: Migration[] = [];
+
+  for (const migration of migrations) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    try {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare("INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)")
+          .run(migration.version, migration.name, migration.checksum, new Date().toISOString());
+      })();
+    } catch (err) {
+      throw new Error(`Migration ${migration.name} failed: ${(err as Error).message}`);
+    }
+
+    console.log(`Applied migration ${migration.name}`);
+    ran.push(migration);
+  }
+
+  return ran;
+}
@@ -0,0 +1,86 @@
+import type { Repository } from "./repository.js";
+
+// Multiplayer Elo: each finished game counts as a head-to-head result between every pair of players
+export const INITIAL_RATING = 1000;
+const K_FACTOR = 32;
+
+export const GLOBAL_SCOPE = "global";
+
+export type LeaderboardPeriod = "all" | "month" | "week";
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["all", "month", "week"];
+
+export interface RatedResult {
+  discordUserId: string;
+  displayName: string;
+  placement: number; // 1 = winner
+}
+
+export interface RatingChange {
+  discordUserId: string;
+  displayName: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * New ratings for one game's players. Each pair is scored as a win, loss or
+ * draw by placement, and the K-factor is split across the opponents so a
+ * six-player game moves a rating about as much as a one-on-one.
+ */
+export function computeRatings(ratings: number[], placements: number[]): number[] {
+  const n = ratings.length;
+  if (n < 2) return [...ratings];
+
+  return ratings.map((rating, i) => {
+    let delta = 0;
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      const expected = 1 / (1 + Math.pow(10, (ratings[j] - rating) / 400));
+      const actual = placements[i] < placements[j] ? 1 : placements[i] === placements[j] ? 0.5 : 0;
+      delta += actual - expected;
+    }
+    return rating + (K_FACTOR / (n - 1)) * delta;
+  });
+}
+
+/** Rate a finished game in one scope and store the results */
+function applyRatings(repository: Repository, matchId: number, scope: string, results: RatedResult[]): RatingChange[] {
+  const current = results.map((r) => repository.getPlayerRating(r.discordUserId, scope));
+  const before = current.map((c) => c?.rating ?? INITIAL_RATING);
+  const after = computeRatings(before, results.map((r) => r.placement));
+  const now = new Date().toISOString();
+
+  return results.map((result, i) => {
+    repository.savePlayerRating(
+      {
+        discord_user_id: result.discordUserId,
+        scope,
+        rating: after[i],
+        games_played: (current[i]?.games_played ?? 0) + 1,
+        games_won: (current[i]?.games_won ?? 0) + (result.placement === 1 ? 1 : 0),
+        display_name: result.displayName,
+        updated_at: now,
+      },
+      matchId,
+      before[i],
+    );
+    return { discordUserId: result.discordUserId, displayName: result.displayName, before: before[i], after: after[i] };
+  });
+}
+
+/**
+ * Update global ratings, and the guild's own ratings when the game was played in one.
+ * Returns the global changes.
+ */
+export function updateMatchRatings(repository: Repository, matchId: number, guildId: string, results: RatedResult[]): RatingChange[] {
+  if (results.length < 2) return [];
+  if (guildId) applyRatings(repository, matchId, guildId, results);
+  return applyRatings(repository, matchId, GLOBAL_SCOPE, results);
+}
+
+/** ISO timestamp a leaderboard period starts at, or null for all time */
+export function getPeriodStart(period: LeaderboardPeriod): string | null {
+  if (period === "all") return null;
+  const days = period === "week" ? 7 : 30;
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
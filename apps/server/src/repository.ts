@@ -0,0 +1,57 @@
+import type {
+  PlayerData,
+  GemReason,
+  PlayerStats,
+  PlayerAchievement,
+  PlayerGoal,
+  MatchRecord,
+  MatchParticipant,
+  PlayerRating,
+} from "./db.js";
+
+// ==================== Repository ====================
+//
+// Everything a game room stores about players goes through a Repository, so the
+// room and the goal, achievement and rating code don't depend on the database.
+// The server uses sqliteRepository (db.ts); tests and bot-only games can use
+// createMemoryRepository() (memoryRepository.ts), which keeps it all in memory.
+
+/** Pieces every player owns from the start */
+export const FREE_PIECES = ["car", "tophat", "dog", "rocket", "bolt", "guitar"];
+export const STARTING_GEMS = 30;
+
+export type StatField = keyof Omit<PlayerStats, "discord_user_id">;
+
+export interface Repository {
+  // Players (getPlayer creates a player the first time it sees them)
+  getPlayer(discordUserId: string): PlayerData;
+  selectPiece(discordUserId: string, pieceId: string): boolean;
+  /** Credit or debit gems and record why. Returns the new balance. */
+  updateGems(discordUserId: string, amount: number, reason: GemReason, detail?: string): number;
+
+  // Stats
+  getPlayerStats(discordUserId: string): PlayerStats;
+  incrementStat(discordUserId: string, stat: StatField, amount?: number): PlayerStats;
+
+  // Achievements
+  getPlayerAchievements(discordUserId: string): PlayerAchievement[];
+  getPlayerAchievement(discordUserId: string, achievementId: string): PlayerAchievement | null;
+  unlockAchievement(discordUserId: string, achievementId: string, tier?: number): void;
+
+  // Goals
+  getPlayerGoals(discordUserId: string, resetDate: string): PlayerGoal[];
+  getPlayerGoal(discordUserId: string, goalId: string, resetDate: string): PlayerGoal | null;
+  incrementGoalProgress(discordUserId: string, goalId: string, resetDate: string, amount?: number): PlayerGoal;
+  completeGoal(discordUserId: string, goalId: string, resetDate: string): void;
+
+  // Match history and ratings
+  /** Returns the new match id */
+  recordMatch(match: Omit<MatchRecord, "id">, participants: Omit<MatchParticipant, "match_id">[]): number;
+  getPlayerRating(discordUserId: string, scope: string): PlayerRating | null;
+  savePlayerRating(rating: PlayerRating, matchId: number, ratingBefore: number): void;
+
+  // Saved games
+  saveGameSnapshot(channelId: string, snapshot: string): void;
+  getGameSnapshot(channelId: string): string | null;
+  deleteGameSnapshot(channelId: string): void;
+}
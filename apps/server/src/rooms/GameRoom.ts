@@ -1,6 +1,5 @@
-import { Room, Client, Delayed } from "colyseus";
-import { GameState, Player, Spectator, LogEntry } from "../state/GameState.js";
-import { STARTING_COINS, JAIL_FINE } from "../logic/boardConfig.js";
+import { Room, Client, Delayed, ServerError } from "colyseus";
+import { GameState, Player, Spectator, LogEntry, TradeOffer, LoanOffer } from "../state/GameState.js";
 import {
   initializeBoard,
   rollDice,
@@ -16,10 +15,17 @@ import {
   buildHotel,
   getBuildableProperties,
   getHotelUpgradeableProperties,
-  validateTradeOffer,
+  validateTradeTerms,
+  createTrade,
+  acceptTrade,
   executeTrade,
-  clearTrade,
+  removeTradesInvolving,
+  pruneInvalidTrades,
+  MAX_OPEN_TRADES,
   drawCard,
+  triggerCityEvent,
+  validatePlayHeldCard,
+  playHeldCard,
   clearDrawnCard,
   sendToJail,
   releaseFromJail,
@@ -30,34 +36,115 @@ import {
   sellHotel,
   startAuction,
   placeBid,
+  placeSealedBid,
+  isSealedAuction,
+  isSealedAuctionComplete,
+  resolveSealedAuction,
+  endAuction,
+  clearAuction,
+  isAuctionTimedOut,
   passAuction,
   handlePlayerDisconnectAuction,
   playerHasMonopoly,
   processCounterOffer,
+  getTradeLegTerms,
   clearBankruptcyNegotiation,
   resolveBankruptcyPayment,
   declareBankruptcy,
   handleBankruptcyTimeout,
   isBankruptcyTimedOut,
+  getDistrictNames,
+  collectPayday,
+  payJailFine,
+  updateGameSettings,
+  calculateWealth,
+  validateLoanTerms,
+  createLoanOffer,
+  processLoanCounterOffer,
+  executeLoanOffer,
+  takeBankLoan,
+  repayLoan,
+  collectDueLoans,
+  MAX_OPEN_LOAN_OFFERS,
+  validateStartVote,
+  startVote,
+  castVote,
+  getVoteOutcome,
+  closeVote,
+  clearVote,
+  endGameByVote,
+  type VoteKind,
+  type GameSettingsUpdate,
+  type TradeLegTerms,
+  type LoanTerms,
 } from "../logic/gameLogic.js";
 import { shuffleDeck, COMMUNITY_CARDS, CHANCE_CARDS } from "../logic/cardData.js";
-import { getPlayer, selectPiece, updateGems, incrementStat, getPlayerStats } from "../db.js";
+import { Rng, createRng, generateSeed, hashSeed } from "../logic/rng.js";
+import {
+  GameEvent,
+  RecordedGameEvent,
+  EVENT_CATEGORIES,
+  emitGameEvent,
+  drainGameEvents,
+  describeGameEvent,
+  joinNames,
+} from "../logic/gameEvents.js";
+import type { Repository, StatField } from "../repository.js";
+import { createMemoryRepository } from "../memoryRepository.js";
+import { restoreSchema } from "../state/restoreSchema.js";
 import { PIECES } from "../pieces.js";
 import { checkStatAchievements, tryUnlockInGameAchievement, type AchievementUnlock } from "../achievements.js";
 import { processGoalTrigger, type GoalCompletionResult } from "../goals.js";
-import { DISTRICT_PROPERTIES } from "../logic/boardConfig.js";
+import { updateMatchRatings } from "../ratings.js";
+import { verifySessionToken, discordUserIdentity } from "../auth.js";
+import { DEFAULT_BOARD_ID, getBoardDefinition } from "../logic/boardConfig.js";
+import {
+  BOT_NAMES,
+  isBotDifficulty,
+  shouldBotBuy,
+  chooseBotJailAction,
+  chooseBotBuild,
+  chooseBotUnmortgage,
+  chooseBotBid,
+  shouldBotAcceptTrade,
+  chooseBotTradeProposal,
+  chooseBotLiquidation,
+  shouldBotAcceptLoan,
+  chooseBotLoanRepayment,
+  chooseBotBankLoan,
+} from "../logic/botStrategy.js";
 
 const MAX_PLAYERS = 6;
 const MIN_PLAYERS = 2;
 const DEFAULT_TURN_TIME_LIMIT = 60; // seconds
 const TIME_EXTENSION_SECONDS = 30;
+const DISCONNECTED_TURN_DELAY_MS = 3000; // how long a disconnected player's turn waits before it's skipped
+const BOT_ACTION_DELAY_MS = 1500; // pause between bot actions so players can follow along
+const BOT_TRADE_TIMEOUT_MS = 20000; // bots withdraw unanswered trade offers after this long
+const SEALED_BID_REVEAL_MS = 5000; // how long revealed sealed bids stay on screen
+const SNAPSHOT_INTERVAL_MS = 15000; // how often a game in progress is saved to the database
+const RESTORED_ROOM_WAIT_MS = 30 * 60 * 1000; // how long a restored game waits for its first player
+const KICKED_CLOSE_CODE = 4100; // close code sent to a client the host removed (the reason goes with it)
+// Unverified guests can join for local development; never in production unless ALLOW_GUESTS=true
+const GUESTS_ALLOWED = process.env.ALLOW_GUESTS
+  ? process.env.ALLOW_GUESTS === "true"
+  : process.env.NODE_ENV !== "production";
 
 interface JoinOptions {
-  discordUserId?: string;
-  displayName?: string;
-  avatarUrl?: string;
+  sessionToken?: string; // signed by the server after the Discord OAuth exchange
+  displayName?: string; // guests only: signed-in players get the name Discord gave us
   accessToken?: string;
   channelId?: string;
+  guildId?: string;
+  seed?: string; // replay a game from a known seed (ignored in production)
+}
+
+/** Who onAuth verified a joining client to be (available as client.auth) */
+interface JoinIdentity {
+  discordUserId: string; // empty for guests
+  displayName: string;
+  avatarUrl: string;
+  isGuest: boolean;
 }
 
 // Per-game tracking for in-game achievements
@@ -68,23 +155,85 @@ interface InGameTracking {
   hadLowCoins: boolean; // went below 100
 }
 
+// Everything needed to resume a game after a server restart
+interface RoomSnapshot {
+  savedAt: number;
+  guildId: string;
+  state: any; // GameState.toJSON()
+  playerOrder: string[];
+  communityDeck: string[];
+  chanceDeck: string[];
+  inGameTracking: Record<string, InGameTracking>;
+  gameSeed: string;
+  gameStartedAt: number;
+  rngState: number[];
+  eventHistory: RecordedGameEvent[];
+  botTradeRequests: string[];
+  nextBotId: number;
+  nextTradeId?: number;
+  nextLoanId?: number;
+  sealedBids?: [string, number][];
+}
+
 export class GameRoom extends Room<{ state: GameState }> {
+  /** Where new rooms keep player data: index.ts sets the SQLite one, otherwise it's in memory */
+  static repository: Repository = createMemoryRepository();
+
+  private repository: Repository = GameRoom.repository;
   private playerOrder: string[] = [];
   private gemsAwarded: boolean = false;
+  private matchRecorded: boolean = false;
+  private endedByVoteKick: boolean = false; // the game ended by voting out the last opponent
+  private gameStartedAt: number = 0;
   private communityDeck: string[] = [];
   private chanceDeck: string[] = [];
   // Track per-player in-game stats for in-game achievements
   private inGameTracking = new Map<string, InGameTracking>();
+  // Seeded randomness for dice, decks and bots (reseeded every game)
+  private rng: Rng = createRng(generateSeed());
+  private gameSeed: string = "";
+  private replaySeed: string = "";
+  // Every game event this game, in order (for replays)
+  private eventHistory: RecordedGameEvent[] = [];
   // Turn timer
   private turnTimer: Delayed | null = null;
   private turnTimerRemainingMs: number = 0;
   // Bankruptcy negotiation timer
   private bankruptcyTimer: Delayed | null = null;
+  private auctionTimer: Delayed | null = null;
+  private voteTimer: Delayed | null = null;
+  // Hidden bids in a sealed-bid auction, kept off the synced state until the reveal
+  private sealedBids = new Map<string, number>();
+  // Bot players
+  private botTimer: Delayed | null = null;
+  private botClients = new Map<string, Client>();
+  private nextBotId: number = 1;
+  private botTradeRequests = new Set<string>(); // "ownerId:spaceIndex" already asked for this game
+  // Trades
+  private nextTradeId: number = 1;
+  // Loans and loan offers
+  private nextLoanId: number = 1;
+  // Saved games (one per voice channel)
+  private channelId: string = "";
+  private guildId: string = ""; // rated games count towards this Discord server's leaderboard, once a member confirms it
+  private snapshotTimer: Delayed | null = null;
+  private restoredFromSnapshotAt: number = 0; // savedAt of the snapshot this game was loaded from
+  private awaitingRestoredPlayers: boolean = false;
+  private shuttingDown: boolean = false;
+  // Host moderation: bans last for the room's lifetime
+  private bannedUserIds = new Set<string>();
+  private kickedSessionIds = new Map<string, string>(); // sessionId -> why, until their connection closes
+
+  private addLog(message: string, type: string = "info"): void {
+    // Anything the game logic reported first belongs above this line
+    this.flushEvents();
+    this.pushLogEntry(message, type);
+  }
 
-  private addLog(message: string, type?: string): void {
+  private pushLogEntry(message: string, type: string): void {
     const entry = new LogEntry();
     entry.message = message;
-    entry.type = type || this.detectLogType(message);
+    entry.type = type;
     entry.timestamp = Math.floor(Date.now() / 1000);
     this.state.gameLog.push(entry);
     if (this.state.gameLog.length > 200) {
@@ -92,27 +241,24 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
   }
 
-  private detectLogType(msg: string): string {
-    if (msg.includes("Jail") || msg.includes("jail")) return "jail";
-    if (msg.includes("drew \"")) return "card";
-    if (msg.includes("completed a trade")) return "trade";
-    if (msg.includes("built a house") || msg.includes("built a HOTEL")) return "build";
-    if (msg.includes("sold a house") || msg.includes("sold the hotel")) return "build";
-    if (msg.includes("bought") || msg.includes("purchased")) return "buy";
-    if (msg.includes("won") && msg.includes("for") && msg.includes("coins")) return "auction";
-    if (msg.includes("mortgaged") || msg.includes("unmortgaged")) return "buy";
-    if (msg.includes("bid") && msg.includes("coins")) return "auction";
-    if (msg.includes("auction") || msg.includes("Auction")) return "auction";
-    if (msg.includes("rent") || msg.includes("paid")) return "rent";
-    if (msg.includes("tax") || msg.includes("Tax")) return "tax";
-    if (msg.includes("Payday") || msg.includes("payday") || msg.includes("collected")) return "payday";
-    if (msg.includes("Bankruptcy negotiation") || msg.includes("bankruptcy negotiation")) return "bankruptcy";
-    if (msg.includes("raised enough funds")) return "bankruptcy";
-    if (msg.includes("declared bankruptcy")) return "bankrupt";
-    if (msg.includes("bankrupt") || msg.includes("Bankrupt")) return "bankrupt";
-    if (msg.includes("rolled")) return "roll";
-    if (msg.includes("'s turn")) return "turn";
-    return "info";
+  /**
+   * Drain the events raised by the game logic: log them, record them for replays,
+   * update stats and achievements, and broadcast them to clients.
+   */
+  private flushEvents(): number {
+    const events = drainGameEvents(this.state);
+    if (events.length === 0) return 0;
+
+    const batch = events.map((event) => {
+      const message = describeGameEvent(this.state, event);
+      const category = EVENT_CATEGORIES[event.type];
+      this.pushLogEntry(message, category);
+      this.eventHistory.push({ turn: this.state.turnCount, timestamp: Date.now(), event });
+      this.trackEvent(event);
+      return { event, message, category };
+    });
+    this.broadcast("game_events", batch);
+    return events.length;
   }
 
   private getInGameTrack(sessionId: string): InGameTracking {
@@ -129,10 +275,11 @@ export class GameRoom extends Room<{ state: GameState }> {
 
   /** Send achievement/goal notifications to a client */
   private sendProgressNotifications(
-    client: Client,
+    client: Client | undefined,
     achievementUnlocks: AchievementUnlock[],
     goalCompletions: GoalCompletionResult[]
   ): void {
+    if (!client) return;
     for (const unlock of achievementUnlocks) {
       client.send("achievement_unlocked", unlock);
     }
@@ -141,6 +288,25 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
   }
 
+  /** Send a player's store data (gems, pieces, cosmetics) to their client */
+  private sendPlayerData(client: Client, discordUserId: string): void {
+    if (!discordUserId) return;
+    try {
+      const dbPlayer = this.repository.getPlayer(discordUserId);
+      client.send("player_data", {
+        gems: dbPlayer.gems,
+        ownedPieces: dbPlayer.owned_pieces,
+        selectedPiece: dbPlayer.selected_piece,
+        ownedCosmetics: dbPlayer.owned_cosmetics,
+        equippedTitle: dbPlayer.equipped_title,
+        equippedTheme: dbPlayer.equipped_theme,
+        equippedDice: dbPlayer.equipped_dice,
+      });
+    } catch (err) {
+      console.error("Failed to send player data:", err);
+    }
+  }
+
   /** Find the client for a player by sessionId */
   private getClientBySessionId(sessionId: string): Client | undefined {
     return this.clients.find((c) => c.sessionId === sessionId);
@@ -149,16 +315,16 @@ export class GameRoom extends Room<{ state: GameState }> {
   /** Track a stat and check achievements/goals. Returns notifications. */
   private trackStat(
     discordUserId: string,
-    stat: string,
+    stat: StatField,
     goalTrigger: string,
     amount: number = 1
   ): { achievements: AchievementUnlock[]; goals: GoalCompletionResult[] } {
     if (!discordUserId) return { achievements: [], goals: [] };
 
     try {
-      incrementStat(discordUserId, stat as any, amount);
-      const achievements = checkStatAchievements(discordUserId);
-      const goals = processGoalTrigger(discordUserId, goalTrigger, amount);
+      this.repository.incrementStat(discordUserId, stat, amount);
+      const achievements = checkStatAchievements(this.repository, discordUserId);
+      const goals = processGoalTrigger(this.repository, discordUserId, goalTrigger, amount);
       return { achievements, goals };
     } catch (err) {
       console.error(`Failed to track stat ${stat}:`, err);
@@ -166,80 +332,198 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
   }
 
-  onCreate(): void {
+  /** Register a game action handler that is refused while the host has the game paused */
+  private onGameAction(type: string, handler: (client: Client, data: any) => void): void {
+    this.onMessage(type, (client, data) => {
+      if (this.state.paused) {
+        client.send("error", { message: "The game is paused." });
+        return;
+      }
+      // Doing anything in the game shows the player is back at the keyboard
+      const player = this.state.players.get(client.sessionId);
+      if (player) player.timedOut = false;
+      handler(client, data);
+    });
+  }
+
+  onCreate(options: JoinOptions = {}): void {
     this.state = new GameState();
-    initializeBoard(this.state);
+
+    if (options.seed && process.env.NODE_ENV !== "production") {
+      this.replaySeed = String(options.seed);
+    }
+    this.channelId = options.channelId || "";
+    initializeBoard(this.state, getBoardDefinition(DEFAULT_BOARD_ID)!);
 
     this.maxClients = MAX_PLAYERS + 20;
 
     // Register message handlers
     this.onMessage("start_game", (client) => this.handleStartGame(client));
-    this.onMessage("roll_dice", (client) => this.handleRollDice(client));
-    this.onMessage("buy_property", (client) => this.handleBuyProperty(client));
-    this.onMessage("skip_buy", (client) => this.handleSkipBuy(client));
-    this.onMessage("end_turn", (client) => this.handleEndTurn(client));
-    this.onMessage("build_house", (client, data) => this.handleBuildHouse(client, data));
-    this.onMessage("build_hotel", (client, data) => this.handleBuildHotel(client, data));
+    this.onMessage("update_settings", (client, data) => this.handleUpdateSettings(client, data));
+    this.onMessage("add_bot", (client, data) => this.handleAddBot(client, data));
+    this.onMessage("remove_bot", (client, data) => this.handleRemoveBot(client, data));
+    this.onGameAction("roll_dice", (client) => this.handleRollDice(client));
+    this.onGameAction("buy_property", (client) => this.handleBuyProperty(client));
+    this.onGameAction("skip_buy", (client) => this.handleSkipBuy(client));
+    this.onGameAction("end_turn", (client) => this.handleEndTurn(client));
+    this.onGameAction("build_house", (client, data) => this.handleBuildHouse(client, data));
+    this.onGameAction("build_hotel", (client, data) => this.handleBuildHotel(client, data));
     this.onMessage("select_piece", (client, data) => this.handleSelectPiece(client, data));
-    this.onMessage("propose_trade", (client, data) => this.handleProposeTrade(client, data));
-    this.onMessage("accept_trade", (client) => this.handleAcceptTrade(client));
-    this.onMessage("reject_trade", (client) => this.handleRejectTrade(client));
-    this.onMessage("cancel_trade", (client) => this.handleCancelTrade(client));
-    this.onMessage("counter_offer", (client, data) => this.handleCounterOffer(client, data));
+    this.onGameAction("propose_trade", (client, data) => this.handleProposeTrade(client, data));
+    this.onGameAction("accept_trade", (client, data) => this.handleAcceptTrade(client, data));
+    this.onGameAction("reject_trade", (client, data) => this.handleRejectTrade(client, data));
+    this.onGameAction("cancel_trade", (client, data) => this.handleCancelTrade(client, data));
+    this.onGameAction("counter_offer", (client, data) => this.handleCounterOffer(client, data));
+    this.onGameAction("propose_loan", (client, data) => this.handleProposeLoan(client, data));
+    this.onGameAction("accept_loan", (client, data) => this.handleAcceptLoan(client, data));
+    this.onGameAction("reject_loan", (client, data) => this.handleRejectLoan(client, data));
+    this.onGameAction("cancel_loan", (client, data) => this.handleCancelLoan(client, data));
+    this.onGameAction("counter_loan", (client, data) => this.handleCounterLoan(client, data));
+    this.onGameAction("take_bank_loan", (client, data) => this.handleTakeBankLoan(client, data));
+    this.onGameAction("repay_loan", (client, data) => this.handleRepayLoan(client, data));
     this.onMessage("dismiss_card", (client) => this.handleDismissCard(client));
-    this.onMessage("pay_jail_fine", (client) => this.handlePayJailFine(client));
-    this.onMessage("use_jail_card", (client) => this.handleUseJailCard(client));
-    this.onMessage("mortgage_property", (client, data) => this.handleMortgageProperty(client, data));
-    this.onMessage("unmortgage_property", (client, data) => this.handleUnmortgageProperty(client, data));
-    this.onMessage("sell_house", (client, data) => this.handleSellHouse(client, data));
-    this.onMessage("sell_hotel", (client, data) => this.handleSellHotel(client, data));
-    this.onMessage("place_bid", (client, data) => this.handlePlaceBid(client, data));
-    this.onMessage("pass_auction", (client) => this.handlePassAuction(client));
+    this.onGameAction("pay_jail_fine", (client) => this.handlePayJailFine(client));
+    this.onGameAction("use_jail_card", (client) => this.handleUseJailCard(client));
+    this.onGameAction("play_card", (client, data) => this.handlePlayCard(client, data));
+    this.onGameAction("mortgage_property", (client, data) => this.handleMortgageProperty(client, data));
+    this.onGameAction("unmortgage_property", (client, data) => this.handleUnmortgageProperty(client, data));
+    this.onGameAction("sell_house", (client, data) => this.handleSellHouse(client, data));
+    this.onGameAction("sell_hotel", (client, data) => this.handleSellHotel(client, data));
+    this.onGameAction("place_bid", (client, data) => this.handlePlaceBid(client, data));
+    this.onGameAction("pass_auction", (client) => this.handlePassAuction(client));
     this.onMessage("return_to_lobby", (client) => this.handleReturnToLobby(client));
-    this.onMessage("request_time_extension", (client) => this.handleRequestTimeExtension(client));
+    this.onGameAction("request_time_extension", (client) => this.handleRequestTimeExtension(client));
+
+    // Host pause and player votes
+    this.onMessage("pause_game", (client) => this.handlePauseGame(client));
+    this.onMessage("resume_game", (client) => this.handleResumeGame(client));
+    this.onMessage("start_vote", (client, data) => this.handleStartVote(client, data));
+    this.onMessage("cast_vote", (client, data) => this.handleCastVote(client, data));
+
+    // Host moderation
+    this.onMessage("kick_player", (client, data) => this.handleKickPlayer(client, data));
+    this.onMessage("ban_player", (client, data) => this.handleKickPlayer(client, { ...data, ban: true }));
+    this.onMessage("transfer_host", (client, data) => this.handleTransferHost(client, data));
+    this.onMessage("set_lobby_locked", (client, data) => this.handleSetLobbyLocked(client, data));
 
     // Bankruptcy negotiation handlers
-    this.onMessage("bankruptcy_sell_building", (client, data) => this.handleBankruptcySellBuilding(client, data));
-    this.onMessage("bankruptcy_mortgage", (client, data) => this.handleBankruptcyMortgage(client, data));
-    this.onMessage("bankruptcy_pay_debt", (client) => this.handleBankruptcyPayDebt(client));
-    this.onMessage("bankruptcy_declare", (client) => this.handleBankruptcyDeclare(client));
+    this.onGameAction("bankruptcy_sell_building", (client, data) => this.handleBankruptcySellBuilding(client, data));
+    this.onGameAction("bankruptcy_mortgage", (client, data) => this.handleBankruptcyMortgage(client, data));
+    this.onGameAction("bankruptcy_pay_debt", (client) => this.handleBankruptcyPayDebt(client));
+    this.onGameAction("bankruptcy_declare", (client) => this.handleBankruptcyDeclare(client));
 
-    console.log("GameRoom created:", this.roomId, "channelId:", (this as any).channelId);
+    // Pick up a game this channel had in progress before a restart
+    this.restoreSnapshot();
+
+    console.log("GameRoom created:", this.roomId, "channelId:", this.channelId);
   }
 
-  async onJoin(client: Client, options: JoinOptions): Promise<void> {
-    console.log("[GameRoom] onJoin options:", JSON.stringify({
+  /**
+   * Work out who is joining before they get a seat: our signed session token, or a
+   * Discord access token checked with Discord. Anything else is refused, apart from
+   * guests in local development.
+   */
+  async onAuth(_client: Client, options: JoinOptions = {}): Promise<JoinIdentity> {
+    console.log("[GameRoom] onAuth options:", JSON.stringify({
       displayName: options.displayName,
-      discordUserId: options.discordUserId,
+      hasSessionToken: !!options.sessionToken,
       hasAccessToken: !!options.accessToken,
     }));
-    let displayName = options.displayName || `Player ${this.state.players.size + 1}`;
-    let discordUserId = options.discordUserId || "";
-    let avatarUrl = options.avatarUrl || "";
+    let identity: JoinIdentity;
 
-    if (options.accessToken) {
-      try {
-        const userRes = await fetch("https://discord.com/api/users/@me", {
-          headers: { Authorization: `Bearer ${options.accessToken}` },
-        });
-        if (userRes.ok) {
-          const userData = await userRes.json() as any;
-          displayName = userData.global_name || userData.username || displayName;
-          discordUserId = userData.id || discordUserId;
-          if (userData.avatar) {
-            avatarUrl = `https://cdn.discordapp.com/avatars/${userData.id}/${userData.avatar}.png`;
-          }
-          console.log(`Resolved Discord user from token: ${displayName} (${discordUserId})`);
-        } else {
-          console.warn("Failed to fetch Discord user from token:", userRes.status);
-        }
-      } catch (e) {
-        console.error("Error fetching Discord user profile:", e);
+    if (options.sessionToken) {
+      const session = verifySessionToken(options.sessionToken);
+      if (!session) {
+        throw new ServerError(401, "Your session has expired. Reopen the Activity to sign in again.");
+      }
+      identity = { ...session, isGuest: false };
+    } else if (options.accessToken) {
+      identity = await this.fetchDiscordIdentity(options.accessToken);
+    } else if (GUESTS_ALLOWED) {
+      const displayName = options.displayName || `Player ${this.state.players.size + 1}`;
+      identity = { discordUserId: "", displayName, avatarUrl: "", isGuest: true };
+    } else {
+      throw new ServerError(401, "Sign in with Discord to join.");
+    }
+
+    if (identity.discordUserId && this.bannedUserIds.has(identity.discordUserId)) {
+      throw new ServerError(403, "The host has banned you from this game.");
+    }
+
+    // The guild in the join options is only the client's word: take it once Discord
+    // confirms a signed-in player belongs to it, so nobody can rate games into a
+    // server they aren't in
+    if (!this.guildId && options.guildId && identity.discordUserId && options.accessToken &&
+        await this.isGuildMember(options.accessToken, identity.discordUserId, options.guildId)) {
+      this.guildId = options.guildId;
+    }
+    return identity;
+  }
+
+  /** Whether an access token belongs to this Discord user and they're in the guild (needs the guilds scope) */
+  private async isGuildMember(accessToken: string, discordUserId: string, guildId: string): Promise<boolean> {
+    try {
+      const headers = { Authorization: `Bearer ${accessToken}` };
+      const [userRes, guildsRes] = await Promise.all([
+        fetch("https://discord.com/api/users/@me", { headers }),
+        fetch("https://discord.com/api/users/@me/guilds", { headers }),
+      ]);
+      if (!userRes.ok || !guildsRes.ok) {
+        console.warn("Couldn't check guild membership:", userRes.status, guildsRes.status);
+        return false;
+      }
+      const userData = await userRes.json() as any;
+      const guilds = await guildsRes.json() as any[];
+      return userData.id === discordUserId && Array.isArray(guilds) && guilds.some((g) => g.id === guildId);
+    } catch (e) {
+      console.error("Error checking guild membership:", e);
+      return false;
+    }
+  }
+
+  /** Look up the Discord user an access token belongs to */
+  private async fetchDiscordIdentity(accessToken: string): Promise<JoinIdentity> {
+    let userData: any;
+    try {
+      const userRes = await fetch("https://discord.com/api/users/@me", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!userRes.ok) {
+        console.warn("Failed to fetch Discord user from token:", userRes.status);
+        throw new ServerError(401, "Discord didn't recognise your sign-in. Reopen the Activity.");
       }
+      userData = await userRes.json();
+    } catch (e) {
+      if (e instanceof ServerError) throw e;
+      console.error("Error fetching Discord user profile:", e);
+      throw new ServerError(503, "Couldn't reach Discord to check who you are. Try again.");
+    }
+
+    console.log(`Resolved Discord user from token: ${userData.global_name || userData.username} (${userData.id})`);
+    return { ...discordUserIdentity(userData), isGuest: false };
+  }
+
+  onJoin(client: Client, _options: JoinOptions): void {
+    const { discordUserId, displayName, avatarUrl, isGuest } = client.auth as JoinIdentity;
+
+    // One seat per Discord account: a second window would let them act twice
+    if (discordUserId && this.isConnectedInRoom(discordUserId)) {
+      throw new ServerError(409, "You're already in this game in another window.");
+    }
+
+    // Rejoining a game in progress (new connection, or after a restart): take back the seat
+    const heldSeat = this.findHeldSeat(discordUserId);
+    if (heldSeat) {
+      this.reattachSeat(client, heldSeat, displayName, avatarUrl);
+      return;
+    }
+
+    if (this.state.lobbyLocked) {
+      throw new ServerError(403, "The host has locked this game.");
     }
 
     if (this.state.phase !== "lobby" || this.state.players.size >= MAX_PLAYERS) {
-      this.addSpectator(client, discordUserId, displayName, avatarUrl);
+      this.addSpectator(client, discordUserId, displayName, avatarUrl, isGuest);
       return;
     }
 
@@ -252,7 +536,7 @@ export class GameRoom extends Room<{ state: GameState }> {
     let ownedPieces: string[] = [];
     if (discordUserId) {
       try {
-        const dbPlayer = getPlayer(discordUserId);
+        const dbPlayer = this.repository.getPlayer(discordUserId);
         selectedPiece = dbPlayer.selected_piece;
         ownedPieces = dbPlayer.owned_pieces;
       } catch (err) {
@@ -275,7 +559,8 @@ export class GameRoom extends Room<{ state: GameState }> {
     player.discordUserId = discordUserId;
     player.displayName = displayName;
     player.avatarUrl = avatarUrl;
-    player.coins = STARTING_COINS;
+    player.isGuest = isGuest;
+    player.coins = this.state.settings.startingCoins;
     player.position = 0;
     player.isActive = true;
     player.isBankrupt = false;
@@ -291,34 +576,92 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
 
     // Send player's store data (now includes cosmetics)
-    if (discordUserId) {
-      try {
-        const dbPlayer = getPlayer(discordUserId);
-        client.send("player_data", {
-          gems: dbPlayer.gems,
-          ownedPieces: dbPlayer.owned_pieces,
-          selectedPiece: dbPlayer.selected_piece,
-          ownedCosmetics: dbPlayer.owned_cosmetics,
-          equippedTitle: dbPlayer.equipped_title,
-          equippedTheme: dbPlayer.equipped_theme,
-          equippedDice: dbPlayer.equipped_dice,
-        });
-      } catch (err) {
-        console.error("Failed to send player data:", err);
-      }
+    this.sendPlayerData(client, discordUserId);
+
+    this.state.lastAction = `${player.displayName} joined the game${isGuest ? " as a guest" : ""}.`;
+    this.addLog(this.state.lastAction, "info");
+    console.log(`Player joined: ${player.displayName} (${client.sessionId})${isGuest ? " [guest]" : ""}`);
+  }
+
+  /**
+   * A client dropped without leaving on purpose. Mid-game, hold their seat for the
+   * reconnection grace period; onLeave runs (and bankrupts them) only if it expires.
+   */
+  onDrop(client: Client, code?: number): void {
+    // Removed by the host: no seat to hold, go straight to onLeave
+    if (this.kickedSessionIds.has(client.sessionId)) return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player || player.isBankrupt || this.state.phase !== "playing" || this.shuttingDown) return;
+
+    const graceSeconds = this.state.settings.reconnectGraceSeconds;
+    player.isDisconnected = true;
+    player.reconnectDeadline = Date.now() + graceSeconds * 1000;
+
+    this.withdrawFromTradeAndAuction(client.sessionId);
+
+    this.state.lastAction = `${player.displayName} lost connection. Holding their seat for ${graceSeconds}s...`;
+    this.addLog(this.state.lastAction, "info");
+
+    this.allowReconnection(client, graceSeconds);
+
+    // Their turn is skipped shortly instead of waiting out the full timer
+    const currentPlayer = getCurrentPlayer(this.state);
+    if (currentPlayer && currentPlayer.sessionId === client.sessionId && this.state.turnTimerActive) {
+      this.startTurnTimer();
+    }
+
+    console.log(`Player dropped: ${player.displayName} (${client.sessionId}), code ${code}`);
+  }
+
+  onReconnect(client: Client): void {
+    // Removed by the host while their connection was down
+    const kickReason = this.kickedSessionIds.get(client.sessionId);
+    if (kickReason !== undefined) {
+      client.leave(KICKED_CLOSE_CODE, kickReason);
+      return;
     }
 
-    this.state.lastAction = `${player.displayName} joined the game.`;
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+
+    player.isDisconnected = false;
+    player.reconnectDeadline = 0;
+
+    this.state.lastAction = `${player.displayName} reconnected.`;
     this.addLog(this.state.lastAction, "info");
-    console.log(`Player joined: ${player.displayName} (${client.sessionId})`);
+
+    // A turn that came around while they were away gets its full time back
+    const currentPlayer = getCurrentPlayer(this.state);
+    if (
+      this.state.phase === "playing" &&
+      currentPlayer &&
+      currentPlayer.sessionId === client.sessionId &&
+      this.state.turnTimerActive
+    ) {
+      this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
+      this.startTurnTimer();
+    }
+
+    // The client may have reloaded, so resend their store data
+    this.sendPlayerData(client, player.discordUserId);
+
+    console.log(`Player reconnected: ${player.displayName} (${client.sessionId})`);
   }
 
   onLeave(client: Client, code?: number): void {
+    const kicked = this.kickedSessionIds.has(client.sessionId);
+    this.kickedSessionIds.delete(client.sessionId);
+
     if (this.state.spectators.has(client.sessionId)) {
       const spectator = this.state.spectators.get(client.sessionId);
       console.log(`Spectator left: ${spectator?.displayName} (${client.sessionId})`);
       this.state.spectators.delete(client.sessionId);
       this.state.spectatorCount = this.state.spectators.size as any;
+      if (kicked && spectator) {
+        this.state.lastAction = `${spectator.displayName} was removed by the host.`;
+        this.addLog(this.state.lastAction, "info");
+      }
       return;
     }
 
@@ -329,77 +672,108 @@ export class GameRoom extends Room<{ state: GameState }> {
       this.state.players.delete(client.sessionId);
       this.playerOrder = this.playerOrder.filter((id) => id !== client.sessionId);
       this.state.playerCount = this.state.players.size as any;
+      this.reindexPlayers();
 
-      if (this.state.hostSessionId === client.sessionId && this.state.players.size > 0) {
-        const firstPlayer = this.playerOrder[0];
-        if (firstPlayer) {
-          this.state.hostSessionId = firstPlayer;
-        }
-      }
-
-      this.state.lastAction = `${player.displayName} left the game.`;
+      this.state.lastAction = kicked
+        ? `${player.displayName} was removed by the host.`
+        : `${player.displayName} left the game.`;
       this.addLog(this.state.lastAction, "info");
     } else if (this.state.phase === "playing") {
-      if (
-        this.state.activeTrade.status === "pending" &&
-        (this.state.activeTrade.fromSessionId === client.sessionId ||
-          this.state.activeTrade.toSessionId === client.sessionId)
-      ) {
-        clearTrade(this.state);
+      // The server is going down: keep the seat for the saved game instead of bankrupting it
+      if (this.shuttingDown) return;
+      // Already out (kicked while disconnected, or bankrupt before leaving)
+      if (!player.isBankrupt) {
+        this.forfeitSeat(player, kicked ? "was removed by the host and went bankrupt." : undefined);
       }
+    }
 
-      if (this.state.activeAuction.status === "active") {
-        handlePlayerDisconnectAuction(this.state, client.sessionId);
-        // If auction ended due to disconnect and current player had doubles, allow re-roll
-        if (this.state.activeAuction.status !== "active") {
-          const turnPlayer = getCurrentPlayer(this.state);
-          if (turnPlayer && turnPlayer.doublesCount > 0 && !turnPlayer.inJail && turnPlayer.isActive) {
-            this.state.hasRolled = false;
-          }
-        }
-      }
+    if (this.state.hostSessionId === client.sessionId) {
+      this.passHostOn();
+    }
 
-      // Clear bankruptcy negotiation if the disconnecting player is the debtor
-      if (this.state.bankruptcyNegotiation.status === "active" &&
-          this.state.bankruptcyNegotiation.debtorSessionId === client.sessionId) {
-        clearBankruptcyNegotiation(this.state);
-        if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
-      }
+    console.log(`Player left: ${player.displayName} (${client.sessionId})`);
+  }
+
+  /**
+   * Bankrupt a player who left mid-game (or never came back) and move the game on.
+   * `outcome` finishes the "<name> ..." line in the log when it wasn't a plain disconnect.
+   */
+  private forfeitSeat(player: Player, outcome?: string): void {
+    this.withdrawFromTradeAndAuction(player.sessionId);
 
-      bankruptPlayer(this.state, player);
+    // Clear bankruptcy negotiation if the disconnecting player is the debtor
+    if (this.state.bankruptcyNegotiation.status === "active" &&
+        this.state.bankruptcyNegotiation.debtorSessionId === player.sessionId) {
+      clearBankruptcyNegotiation(this.state);
+      if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
+    }
+
+    const wasOnTurn = getCurrentPlayer(this.state)?.sessionId === player.sessionId;
+    bankruptPlayer(this.state, player);
 
-      this.state.lastAction = `${player.displayName} disconnected and went bankrupt.`;
-      this.addLog(this.state.lastAction, "bankrupt");
+    this.state.lastAction = outcome
+      ? `${player.displayName} ${outcome}`
+      : player.isDisconnected
+        ? `${player.displayName} didn't reconnect in time and went bankrupt.`
+        : `${player.displayName} disconnected and went bankrupt.`;
+    this.flushEvents();
+    player.isDisconnected = false;
+    player.reconnectDeadline = 0;
 
+    // The turn clock only changes hands if the turn does
+    if (checkGameOver(this.state)) {
       this.clearTurnTimer();
-      if (checkGameOver(this.state)) {
-        const result = advanceTurn(this.state);
-        this.state.lastAction = result;
-        this.addLog(result);
-        if ((this.state.phase as string) === "finished") {
-          this.awardEndGameGems();
-        }
-      } else {
-        const currentPlayer = getCurrentPlayer(this.state);
-        if (currentPlayer && currentPlayer.sessionId === client.sessionId) {
-          const result = advanceTurn(this.state);
-          this.state.lastAction = result;
-          this.addLog(result);
-          this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
-          this.startTurnTimer();
-        }
+      const result = advanceTurn(this.state);
+      this.state.lastAction = result;
+      this.flushEvents();
+      if ((this.state.phase as string) === "finished") {
+        this.handleGameFinished();
       }
+    } else if (wasOnTurn) {
+      // Leaving the turn order already put the next player in their seat's place
+      this.clearTurnTimer();
+      this.state.currentPlayerIndex %= getActivePlayers(this.state).length;
+      this.state.hasRolled = false;
+      this.state.awaitingBuy = false;
+      if (this.state.drawnCard.forSessionId === player.sessionId) clearDrawnCard(this.state);
+      const nextPlayer = getCurrentPlayer(this.state)!;
+      emitGameEvent(this.state, { type: "turn_started", player: nextPlayer.sessionId });
+      this.state.lastAction = `${nextPlayer.displayName}'s turn.`;
+      this.flushEvents();
+      this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
+      this.beginTurn();
+      // A seat can be forfeited while the host has the game paused: hold the new turn's clock too
+      if (this.state.paused) this.pauseTurnTimer();
     }
+  }
 
-    console.log(`Player left: ${player.displayName} (${client.sessionId})`);
+  /** Pull a departing player out of their pending trades and the running auction */
+  private withdrawFromTradeAndAuction(sessionId: string): void {
+    removeTradesInvolving(this.state, sessionId);
+
+    if (this.state.activeAuction.status === "active") {
+      handlePlayerDisconnectAuction(this.state, sessionId);
+      if (isSealedAuction(this.state) && isSealedAuctionComplete(this.state)) {
+        this.finishSealedAuction();
+      } else if (this.state.activeAuction.status !== "active") {
+        this.handleAuctionClosed();
+      }
+    }
   }
 
-  private addSpectator(client: Client, discordUserId: string, displayName: string, avatarUrl: string): void {
+  private addSpectator(
+    client: Client,
+    discordUserId: string,
+    displayName: string,
+    avatarUrl: string,
+    isGuest: boolean
+  ): void {
     const spectator = new Spectator();
     spectator.sessionId = client.sessionId;
     spectator.discordUserId = discordUserId;
     spectator.displayName = displayName;
     spectator.avatarUrl = avatarUrl;
+    spectator.isGuest = isGuest;
 
     this.state.spectators.set(client.sessionId, spectator);
     this.state.spectatorCount = this.state.spectators.size as any;
@@ -414,6 +788,43 @@ export class GameRoom extends Room<{ state: GameState }> {
 
   // ==================== Turn Timer ====================
 
+  /**
+   * Start the turn advanceTurn just handed to the current player. Loans that have
+   * fallen due are collected first, so that happens even on turns the borrower
+   * never rolls (timeouts, held seats).
+   */
+  private beginTurn(): void {
+    const currentPlayer = getCurrentPlayer(this.state);
+    const collected = currentPlayer ? collectDueLoans(this.state, currentPlayer) : null;
+    if (!currentPlayer || !collected) {
+      this.startTurnTimer();
+      return;
+    }
+
+    this.state.lastAction = collected;
+    this.flushEvents();
+    if (this.state.bankruptcyNegotiation.status === "active") {
+      // The turn waits, with its full time, until the negotiation resolves
+      this.startTurnTimer();
+      this.pauseTurnTimer();
+      this.startBankruptcyTimer();
+      return;
+    }
+    if (currentPlayer.isBankrupt) {
+      // The next player is now up
+      if (checkGameOver(this.state)) {
+        this.state.lastAction = advanceTurn(this.state);
+        this.flushEvents();
+        if ((this.state.phase as string) === "finished") this.handleGameFinished();
+      } else {
+        this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
+        this.beginTurn();
+      }
+      return;
+    }
+    this.startTurnTimer();
+  }
+
   /** Start (or restart) the turn timer for the current player's turn */
   private startTurnTimer(): void {
     this.clearTurnTimer();
@@ -427,7 +838,10 @@ export class GameRoom extends Room<{ state: GameState }> {
     this.state.turnTimerActive = true;
     this.state.turnExtensionUsed = false;
 
-    const timeMs = this.state.turnTimeLimit * 1000;
+    // Seats held for a disconnected player are skipped after a short pause
+    const timeMs = currentPlayer.isDisconnected
+      ? DISCONNECTED_TURN_DELAY_MS
+      : this.state.turnTimeLimit * 1000;
 
     this.turnTimer = this.clock.setTimeout(() => {
       this.handleAutoSkipTurn();
@@ -458,7 +872,11 @@ export class GameRoom extends Room<{ state: GameState }> {
   /** Resume the turn timer after a pause */
   private resumeTurnTimer(): void {
     if (this.turnTimerRemainingMs > 0 && this.state.phase === "playing") {
-      const remainingMs = this.turnTimerRemainingMs;
+      this.clearTurnTimer();
+      const turnPlayer = getCurrentPlayer(this.state);
+      const remainingMs = turnPlayer?.isDisconnected
+        ? Math.min(this.turnTimerRemainingMs, DISCONNECTED_TURN_DELAY_MS)
+        : this.turnTimerRemainingMs;
       this.turnTimerRemainingMs = 0;
       this.state.turnTimeLimit = Math.ceil(remainingMs / 1000);
       this.state.turnStartTime = Date.now();
@@ -485,10 +903,6 @@ export class GameRoom extends Room<{ state: GameState }> {
       // Don't start auction on timeout - just skip the buy
     }
 
-    if (this.state.activeTrade.status === "pending") {
-      clearTrade(this.state);
-    }
-
     if (this.state.drawnCard.forSessionId === currentPlayer.sessionId) {
       clearDrawnCard(this.state);
     }
@@ -499,6 +913,7 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     // Reset doubles since turn is being force-ended
     currentPlayer.doublesCount = 0;
+    currentPlayer.timedOut = true;
 
     // Broadcast timeout message to all clients
     this.broadcast("turn_timeout", {
@@ -506,19 +921,20 @@ export class GameRoom extends Room<{ state: GameState }> {
       sessionId: currentPlayer.sessionId,
     });
 
-    const timeoutMsg = `${currentPlayer.displayName}'s turn was skipped due to timeout.`;
+    const timeoutMsg = currentPlayer.isDisconnected
+      ? `${currentPlayer.displayName}'s turn was skipped while disconnected.`
+      : `${currentPlayer.displayName}'s turn was skipped due to timeout.`;
     this.state.lastAction = timeoutMsg;
     this.addLog(timeoutMsg, "info");
 
     const result = advanceTurn(this.state);
     this.state.lastAction = result;
-    this.addLog(result);
+    this.flushEvents();
 
     if ((this.state.phase as string) === "finished") {
-      this.awardEndGameGems();
+      this.handleGameFinished();
     } else {
-      // Start timer for the next player
-      this.startTurnTimer();
+      this.beginTurn();
     }
   }
 
@@ -579,27 +995,151 @@ export class GameRoom extends Room<{ state: GameState }> {
     this.state.currentPlayerIndex = 0;
     this.state.turnCount = 0;
     this.state.hasRolled = false;
+    this.state.freeParkingPot = 0;
+
+    // Apply the house rules chosen in the lobby
+    this.state.players.forEach((player) => {
+      player.coins = this.state.settings.startingCoins;
+    });
 
     // Reset in-game tracking
     this.inGameTracking.clear();
     this.state.players.forEach((player) => {
       this.getInGameTrack(player.sessionId);
     });
+    this.eventHistory = [];
+    this.gameStartedAt = Date.now();
+
+    // Only the seed's hash is public until the game ends, so rolls can't be predicted
+    this.gameSeed = this.replaySeed || generateSeed();
+    this.rng = createRng(this.gameSeed);
+    this.state.seedHash = hashSeed(this.gameSeed);
+    this.state.seed = "";
+    console.log(`Game seed: ${this.gameSeed}`);
 
-    this.communityDeck = shuffleDeck(COMMUNITY_CARDS);
-    this.chanceDeck = shuffleDeck(CHANCE_CARDS);
+    this.communityDeck = shuffleDeck(COMMUNITY_CARDS, this.rng);
+    this.chanceDeck = shuffleDeck(CHANCE_CARDS, this.rng);
 
     const firstPlayer = getCurrentPlayer(this.state);
     this.state.lastAction = `Game started! ${firstPlayer?.displayName}'s turn.`;
     this.addLog(this.state.lastAction, "info");
+    this.addLog(`Dice commitment (SHA-256 of the game seed): ${this.state.seedHash}`, "info");
 
     // Start turn timer for the first player
     this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
     this.startTurnTimer();
 
+    this.botTradeRequests.clear();
+    this.startBotTimer();
+    this.startSnapshotTimer();
+
     console.log("Game started with", this.state.players.size, "players");
   }
 
+  private handleUpdateSettings(client: Client, data: GameSettingsUpdate): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can change the house rules." });
+      return;
+    }
+
+    if (this.state.phase !== "lobby") {
+      client.send("error", { message: "House rules can only be changed in the lobby." });
+      return;
+    }
+
+    const previousBoardId = this.state.settings.boardId;
+    const result = updateGameSettings(this.state.settings, data || {});
+    if (!result.valid) {
+      client.send("error", { message: result.error || "Invalid settings." });
+      return;
+    }
+
+    // Swap in the newly selected map so everyone sees it before the game starts
+    if (this.state.settings.boardId !== previousBoardId) {
+      initializeBoard(this.state, getBoardDefinition(this.state.settings.boardId)!);
+      this.state.lastAction = `Map changed to ${this.state.board.name}.`;
+    }
+
+    // Keep lobby balances in sync with the chosen starting coins
+    this.state.players.forEach((player) => {
+      player.coins = this.state.settings.startingCoins;
+    });
+  }
+
+  private handleAddBot(client: Client, data: { difficulty?: string }): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can add bots." });
+      return;
+    }
+
+    if (this.state.phase !== "lobby") {
+      client.send("error", { message: "Bots can only be added in the lobby." });
+      return;
+    }
+
+    if (this.state.players.size >= MAX_PLAYERS) {
+      client.send("error", { message: "The game is full." });
+      return;
+    }
+
+    const difficulty = isBotDifficulty(data?.difficulty) ? data.difficulty : "normal";
+
+    const takenNames = new Set<string>();
+    const takenPieces = new Set<string>();
+    this.state.players.forEach((p) => {
+      takenNames.add(p.displayName);
+      if (p.pieceId) takenPieces.add(p.pieceId);
+    });
+
+    const botId = this.nextBotId++;
+    const player = new Player();
+    player.sessionId = `bot_${botId}`;
+    player.displayName = BOT_NAMES.find((name) => !takenNames.has(name)) || `Bot ${botId}`;
+    player.coins = this.state.settings.startingCoins;
+    player.position = 0;
+    player.isActive = true;
+    player.isBankrupt = false;
+    player.playerIndex = this.state.players.size;
+    player.pieceId = PIECES.find((p) => !takenPieces.has(p.id))?.id || "robot";
+    player.isBot = true;
+    player.botDifficulty = difficulty;
+
+    this.state.players.set(player.sessionId, player);
+    this.playerOrder.push(player.sessionId);
+    this.state.playerCount = this.state.players.size as any;
+
+    this.state.lastAction = `${player.displayName} (${difficulty} bot) joined the game.`;
+    this.addLog(this.state.lastAction, "info");
+    console.log(`Bot added: ${player.displayName} (${difficulty})`);
+  }
+
+  private handleRemoveBot(client: Client, data: { sessionId: string }): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can remove bots." });
+      return;
+    }
+
+    if (this.state.phase !== "lobby") {
+      client.send("error", { message: "Bots can only be removed in the lobby." });
+      return;
+    }
+
+    const bot = this.state.players.get(data?.sessionId);
+    if (!bot || !bot.isBot) {
+      client.send("error", { message: "That player is not a bot." });
+      return;
+    }
+
+    this.state.players.delete(bot.sessionId);
+    this.botClients.delete(bot.sessionId);
+    this.playerOrder = this.playerOrder.filter((id) => id !== bot.sessionId);
+    this.state.playerCount = this.state.players.size as any;
+    this.reindexPlayers();
+
+    this.state.lastAction = `${bot.displayName} was removed from the game.`;
+    this.addLog(this.state.lastAction, "info");
+  }
+
   private handleRollDice(client: Client): void {
     if (this.state.phase !== "playing") return;
 
@@ -614,63 +1154,27 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const [d1, d2] = rollDice();
+    const [d1, d2] = rollDice(this.rng);
     this.state.dice1 = d1;
     this.state.dice2 = d2;
     this.state.hasRolled = true;
 
     const total = d1 + d2;
     const isDoubles = d1 === d2;
-
-    // Track dice roll stat + goals
-    const { achievements: rollAch, goals: rollGoals } = this.trackStat(
-      currentPlayer.discordUserId, "dice_rolls", "dice_roll"
-    );
-
-    let doublesAch: AchievementUnlock[] = [];
-    let doublesGoals: GoalCompletionResult[] = [];
-    if (isDoubles) {
-      const result = this.trackStat(currentPlayer.discordUserId, "doubles_rolled", "doubles_rolled");
-      doublesAch = result.achievements;
-      doublesGoals = result.goals;
-
-      // Track for in-game lucky_streak achievement
-      const track = this.getInGameTrack(currentPlayer.sessionId);
-      track.doublesCount++;
-      if (track.doublesCount >= 3) {
-        const unlock = tryUnlockInGameAchievement(currentPlayer.discordUserId, "lucky_streak");
-        if (unlock) doublesAch.push(unlock);
-      }
-    }
-
-    // Send all roll-related notifications
-    this.sendProgressNotifications(client,
-      [...rollAch, ...doublesAch],
-      [...rollGoals, ...doublesGoals]
-    );
+    emitGameEvent(this.state, { type: "dice_rolled", player: currentPlayer.sessionId, dice: [d1, d2] });
 
     // Jail logic
     if (currentPlayer.inJail) {
       if (isDoubles) {
-        releaseFromJail(currentPlayer);
+        releaseFromJail(this.state, currentPlayer, "doubles");
         currentPlayer.doublesCount = 0;
 
-        // Track jail escape
-        this.trackAndNotify(client, currentPlayer.discordUserId, "jail_escapes", "jail_escape");
-
-        const passedPayday = movePlayer(currentPlayer, total);
+        const passedPayday = movePlayer(this.state, currentPlayer, total);
         if (passedPayday) {
-          currentPlayer.coins += 200;
-          this.trackAndNotify(client, currentPlayer.discordUserId, "paydays_collected", "payday_collected");
+          collectPayday(this.state, currentPlayer);
         }
         this.state.lastAction = `${currentPlayer.displayName} rolled doubles (${d1}+${d2})! Escaped from Jail!`;
-        this.addLog(this.state.lastAction, "jail");
-        const landingResult = processLanding(this.state, currentPlayer);
-        this.state.lastAction = landingResult;
-        this.addLog(landingResult);
-
-        this.handleCardDraw(currentPlayer);
-        this.checkRentCollection(currentPlayer, landingResult);
+        this.resolveLanding(currentPlayer);
         if (this.state.bankruptcyNegotiation.status === "active") {
           this.startBankruptcyTimer();
           this.pauseTurnTimer();
@@ -679,37 +1183,32 @@ export class GameRoom extends Room<{ state: GameState }> {
       } else {
         currentPlayer.jailTurnsRemaining--;
         if (currentPlayer.jailTurnsRemaining <= 0) {
-          if (currentPlayer.coins >= JAIL_FINE) {
-            currentPlayer.coins -= JAIL_FINE;
-            releaseFromJail(currentPlayer);
-            this.trackAndNotify(client, currentPlayer.discordUserId, "jail_escapes", "jail_escape");
-            const passedPayday = movePlayer(currentPlayer, total);
+          const jailFine = this.state.settings.jailFine;
+          if (currentPlayer.coins >= jailFine) {
+            payJailFine(this.state, currentPlayer);
+            const passedPayday = movePlayer(this.state, currentPlayer, total);
             if (passedPayday) {
-              currentPlayer.coins += 200;
-              this.trackAndNotify(client, currentPlayer.discordUserId, "paydays_collected", "payday_collected");
+              collectPayday(this.state, currentPlayer);
             }
-            this.state.lastAction = `${currentPlayer.displayName} failed to roll doubles. Auto-paid ${JAIL_FINE} coin fine and moved ${total} spaces.`;
-            this.addLog(this.state.lastAction, "jail");
-            const landingResult = processLanding(this.state, currentPlayer);
-            this.state.lastAction = landingResult;
-            this.addLog(landingResult);
-            this.handleCardDraw(currentPlayer);
-            this.checkRentCollection(currentPlayer, landingResult);
+            this.state.lastAction = `${currentPlayer.displayName} failed to roll doubles. Auto-paid ${jailFine} coin fine and moved ${total} spaces.`;
+            this.resolveLanding(currentPlayer);
             if (this.state.bankruptcyNegotiation.status === "active") {
               this.startBankruptcyTimer();
               this.pauseTurnTimer();
               return;
             }
           } else {
+            // Leaves Jail by going bankrupt, not by escaping
             currentPlayer.coins = 0;
-            releaseFromJail(currentPlayer);
+            currentPlayer.inJail = false;
+            currentPlayer.jailTurnsRemaining = 0;
             bankruptPlayer(this.state, currentPlayer);
-            this.state.lastAction = `${currentPlayer.displayName} couldn't pay the ${JAIL_FINE} coin jail fine and went bankrupt!`;
-            this.addLog(this.state.lastAction, "bankrupt");
+            this.state.lastAction = `${currentPlayer.displayName} couldn't pay the ${jailFine} coin jail fine and went bankrupt!`;
+            this.flushEvents();
           }
         } else {
           this.state.lastAction = `${currentPlayer.displayName} rolled ${d1}+${d2} (no doubles). Still in Jail. ${currentPlayer.jailTurnsRemaining} attempt(s) remaining.`;
-          this.addLog(this.state.lastAction, "jail");
+          this.addLog(`${currentPlayer.displayName} is still in Jail. ${currentPlayer.jailTurnsRemaining} attempt(s) remaining.`, "jail");
         }
       }
     } else {
@@ -718,20 +1217,17 @@ export class GameRoom extends Room<{ state: GameState }> {
         currentPlayer.doublesCount++;
 
         if (currentPlayer.doublesCount >= 3) {
-          sendToJail(currentPlayer);
+          sendToJail(this.state, currentPlayer, "doubles");
           currentPlayer.doublesCount = 0;
           this.state.lastAction = `${currentPlayer.displayName} rolled doubles 3 times in a row! Go to Jail!`;
-          this.addLog(this.state.lastAction, "jail");
-
-          // Track jail_bird achievement
-          this.tryInGameAchievement(client, currentPlayer.discordUserId, "jail_bird");
+          this.flushEvents();
 
           if (checkGameOver(this.state)) {
             const result = advanceTurn(this.state);
             this.state.lastAction = result;
-            this.addLog(result);
+            this.flushEvents();
             if ((this.state.phase as string) === "finished") {
-              this.awardEndGameGems();
+              this.handleGameFinished();
             }
           }
           return;
@@ -740,25 +1236,15 @@ export class GameRoom extends Room<{ state: GameState }> {
         currentPlayer.doublesCount = 0;
       }
 
-      const passedPayday = movePlayer(currentPlayer, total);
+      const passedPayday = movePlayer(this.state, currentPlayer, total);
       if (passedPayday) {
-        currentPlayer.coins += 200;
-        this.trackAndNotify(client, currentPlayer.discordUserId, "paydays_collected", "payday_collected");
-        // Track coins earned for weekly goal
-        this.processGoalAndNotify(client, currentPlayer.discordUserId, "coins_earned", 200);
-        this.state.lastAction = `${currentPlayer.displayName} rolled ${d1}+${d2}=${total} and collected 200 coins passing Payday!`;
-        this.addLog(this.state.lastAction, "payday");
+        const bonus = collectPayday(this.state, currentPlayer);
+        this.state.lastAction = `${currentPlayer.displayName} rolled ${d1}+${d2}=${total} and collected ${bonus} coins passing Payday!`;
       } else {
         this.state.lastAction = `${currentPlayer.displayName} rolled ${d1}+${d2}=${total}.`;
-        this.addLog(this.state.lastAction, "roll");
       }
 
-      const landingResult = processLanding(this.state, currentPlayer);
-      this.state.lastAction = landingResult;
-      this.addLog(landingResult);
-
-      this.handleCardDraw(currentPlayer);
-      this.checkRentCollection(currentPlayer, landingResult);
+      this.resolveLanding(currentPlayer);
 
       // Start bankruptcy timer if negotiation was triggered
       if (this.state.bankruptcyNegotiation.status === "active") {
@@ -767,16 +1253,6 @@ export class GameRoom extends Room<{ state: GameState }> {
         return; // Pause game flow until negotiation resolves
       }
 
-      // Pause turn timer if auction was auto-started (player can't afford property)
-      if (this.state.activeAuction.status === "active") {
-        this.pauseTurnTimer();
-      }
-
-      // Check go-to-jail from landing
-      if (currentPlayer.inJail) {
-        this.tryInGameAchievement(client, currentPlayer.discordUserId, "jail_bird");
-      }
-
       // Track low coins for comeback_kid
       if (currentPlayer.coins < 100 && currentPlayer.isActive) {
         this.getInGameTrack(currentPlayer.sessionId).hadLowCoins = true;
@@ -800,48 +1276,149 @@ export class GameRoom extends Room<{ state: GameState }> {
       this.clearTurnTimer();
       const result = advanceTurn(this.state);
       this.state.lastAction = result;
-      this.addLog(result);
+      this.flushEvents();
       if ((this.state.phase as string) === "finished") {
-        this.awardEndGameGems();
+        this.handleGameFinished();
       }
     }
   }
 
-  /** Helper to check if rent was just collected from a landing result */
-  private checkRentCollection(player: Player, landingResult: string): void {
-    if (landingResult.includes("paid") && landingResult.includes("rent")) {
-      // Find the owner who collected rent
-      const space = this.state.boardSpaces[player.position];
-      if (space && space.ownerId && space.ownerId !== player.sessionId) {
-        const owner = this.state.players.get(space.ownerId);
-        if (owner?.discordUserId) {
-          // Extract rent amount from message
-          const match = landingResult.match(/paid (\d+) coins rent/);
-          const amount = match ? parseInt(match[1]) : 0;
-
-          const ownerClient = this.getClientBySessionId(space.ownerId);
-          if (ownerClient) {
-            this.trackAndNotify(ownerClient, owner.discordUserId, "rent_collected_total", "rent_collected", amount);
-            // Track coins earned for owner
-            this.processGoalAndNotify(ownerClient, owner.discordUserId, "coins_earned", amount);
-          }
-
-          // In-game rent_collector tracking
-          const track = this.getInGameTrack(space.ownerId);
-          track.rentCollections++;
-          if (track.rentCollections >= 5 && ownerClient) {
-            this.tryInGameAchievement(ownerClient, owner.discordUserId, "rent_collector");
+  /** Update stats, goals and in-game achievements from a game event */
+  private trackEvent(event: GameEvent): void {
+    switch (event.type) {
+      case "dice_rolled": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        const client = this.getClientBySessionId(player.sessionId);
+        const { achievements, goals } = this.trackStat(player.discordUserId, "dice_rolls", "dice_roll");
+
+        if (event.dice[0] === event.dice[1]) {
+          const doubles = this.trackStat(player.discordUserId, "doubles_rolled", "doubles_rolled");
+          achievements.push(...doubles.achievements);
+          goals.push(...doubles.goals);
+
+          // Track for in-game lucky_streak achievement
+          const track = this.getInGameTrack(player.sessionId);
+          track.doublesCount++;
+          if (track.doublesCount >= 3 && player.discordUserId) {
+            const unlock = tryUnlockInGameAchievement(this.repository, player.discordUserId, "lucky_streak");
+            if (unlock) achievements.push(unlock);
           }
         }
+        this.sendProgressNotifications(client, achievements, goals);
+        break;
       }
-    }
-  }
 
-  /** Convenience: track stat + send notifications */
-  private trackAndNotify(
-    client: Client,
+      case "payday_collected": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        const client = this.getClientBySessionId(player.sessionId);
+        this.trackAndNotify(client, player.discordUserId, "paydays_collected", "payday_collected");
+        // Track coins earned for weekly goal
+        this.processGoalAndNotify(client, player.discordUserId, "coins_earned", event.amount);
+        break;
+      }
+
+      case "rent_paid": {
+        // Rent farmed from bots doesn't count toward stats or goals
+        const payer = this.state.players.get(event.player);
+        const owner = this.state.players.get(event.owner);
+        if (!payer || payer.isBot || !owner?.discordUserId) return;
+        const ownerClient = this.getClientBySessionId(owner.sessionId);
+        this.trackAndNotify(ownerClient, owner.discordUserId, "rent_collected_total", "rent_collected", event.amount);
+        // Track coins earned for owner
+        this.processGoalAndNotify(ownerClient, owner.discordUserId, "coins_earned", event.amount);
+
+        // In-game rent_collector tracking
+        const track = this.getInGameTrack(owner.sessionId);
+        track.rentCollections++;
+        if (track.rentCollections >= 5) {
+          this.tryInGameAchievement(ownerClient, owner.discordUserId, "rent_collector");
+        }
+        break;
+      }
+
+      case "property_bought": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        const client = this.getClientBySessionId(player.sessionId);
+        this.trackAndNotify(client, player.discordUserId, "properties_bought", "property_bought");
+        this.trackSpending(client, player, event.price);
+        this.checkMonopolyAchievement(client, player);
+        break;
+      }
+
+      case "auction_won": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        const client = this.getClientBySessionId(player.sessionId);
+        this.trackAndNotify(client, player.discordUserId, "auctions_won", "auction_won");
+        this.trackAndNotify(client, player.discordUserId, "properties_bought", "property_bought");
+
+        // Check auction_snipe achievement
+        const space = this.state.boardSpaces[event.space];
+        if (space && event.amount < space.price / 2) {
+          this.tryInGameAchievement(client, player.discordUserId, "auction_snipe");
+        }
+
+        this.trackSpending(client, player, event.amount);
+        this.checkMonopolyAchievement(client, player);
+        break;
+      }
+
+      case "house_built":
+      case "hotel_built": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        const client = this.getClientBySessionId(player.sessionId);
+        const stat = event.type === "house_built" ? "houses_built" : "hotels_built";
+        this.trackAndNotify(client, player.discordUserId, stat, "building_built");
+        this.trackSpending(client, player, event.cost);
+        break;
+      }
+
+      case "released_from_jail": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        this.trackAndNotify(this.getClientBySessionId(player.sessionId), player.discordUserId, "jail_escapes", "jail_escape");
+        break;
+      }
+
+      case "sent_to_jail": {
+        const player = this.state.players.get(event.player);
+        if (!player) return;
+        this.tryInGameAchievement(this.getClientBySessionId(player.sessionId), player.discordUserId, "jail_bird");
+        break;
+      }
+
+      case "trade_completed": {
+        // Trades with bots don't count
+        const parties = event.parties.map((id) => this.state.players.get(id));
+        if (parties.some((p) => !p || p.isBot)) return;
+        for (const player of parties as Player[]) {
+          const client = this.getClientBySessionId(player.sessionId);
+          this.trackAndNotify(client, player.discordUserId, "trades_completed", "trade_completed");
+          this.checkMonopolyAchievement(client, player);
+        }
+        break;
+      }
+    }
+  }
+
+  /** Add to a player's spending this game for the in-game big_spender achievement */
+  private trackSpending(client: Client | undefined, player: Player, amount: number): void {
+    const track = this.getInGameTrack(player.sessionId);
+    track.coinsSpent += amount;
+    if (track.coinsSpent >= 2000) {
+      this.tryInGameAchievement(client, player.discordUserId, "big_spender");
+    }
+  }
+
+  /** Convenience: track stat + send notifications */
+  private trackAndNotify(
+    client: Client | undefined,
     discordUserId: string,
-    stat: string,
+    stat: StatField,
     goalTrigger: string,
     amount: number = 1
   ): void {
@@ -851,14 +1428,14 @@ export class GameRoom extends Room<{ state: GameState }> {
 
   /** Convenience: process goal trigger only (no stat) + send notifications */
   private processGoalAndNotify(
-    client: Client,
+    client: Client | undefined,
     discordUserId: string,
     trigger: string,
     amount: number = 1
   ): void {
     if (!discordUserId) return;
     try {
-      const goals = processGoalTrigger(discordUserId, trigger, amount);
+      const goals = processGoalTrigger(this.repository, discordUserId, trigger, amount);
       this.sendProgressNotifications(client, [], goals);
     } catch (err) {
       console.error("Goal trigger error:", err);
@@ -866,10 +1443,10 @@ export class GameRoom extends Room<{ state: GameState }> {
   }
 
   /** Try to unlock an in-game achievement + notify */
-  private tryInGameAchievement(client: Client, discordUserId: string, achievementId: string): void {
+  private tryInGameAchievement(client: Client | undefined, discordUserId: string, achievementId: string): void {
     if (!discordUserId) return;
     try {
-      const unlock = tryUnlockInGameAchievement(discordUserId, achievementId);
+      const unlock = tryUnlockInGameAchievement(this.repository, discordUserId, achievementId);
       if (unlock) {
         this.sendProgressNotifications(client, [unlock], []);
       }
@@ -878,22 +1455,49 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
   }
 
+  /** Resolve the space a player just moved to, including any card it deals */
+  private resolveLanding(player: Player): void {
+    // Log the roll and move before the landing
+    this.flushEvents();
+    const landingResult = processLanding(this.state, player);
+    this.state.lastAction = landingResult;
+    // Quiet spaces (just visiting, own property, a buy prompt) raise no events
+    if (this.flushEvents() === 0) {
+      this.addLog(landingResult, "info");
+    }
+    this.handleCardDraw(player);
+    this.handleCityEvent(player);
+
+    // An auction started by the landing (the player can't afford it) holds up the turn
+    if (this.state.activeAuction.status === "active") {
+      this.pauseTurnTimer();
+      this.startAuctionTimer();
+    }
+  }
+
   private handleCardDraw(player: Player): void {
     const landedSpace = this.state.boardSpaces[player.position];
     if (landedSpace.spaceType === "community" || landedSpace.spaceType === "chance") {
       const deckType = landedSpace.spaceType as "community" | "chance";
       const deck = deckType === "community" ? this.communityDeck : this.chanceDeck;
-      const result = drawCard(this.state, player, deckType, deck);
+      const result = drawCard(this.state, player, deckType, deck, this.rng);
       if (deckType === "community") {
         this.communityDeck = result.deck;
       } else {
         this.chanceDeck = result.deck;
       }
       this.state.lastAction = result.message;
-      this.addLog(result.message, "card");
+      this.flushEvents();
     }
   }
 
+  /** Start a city event if the player ended up on City Events, directly or by a card */
+  private handleCityEvent(player: Player): void {
+    if (this.state.boardSpaces[player.position]?.spaceType !== "cityEvents") return;
+    this.state.lastAction = triggerCityEvent(this.state, player, this.rng);
+    this.flushEvents();
+  }
+
   private handleBuyProperty(client: Client): void {
     if (this.state.phase !== "playing") return;
 
@@ -908,33 +1512,14 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const space = this.state.boardSpaces[currentPlayer.position];
-    const costBefore = currentPlayer.coins;
-
     const result = buyProperty(this.state, currentPlayer);
     this.state.lastAction = result;
-    this.addLog(result, "buy");
+    this.flushEvents();
 
     // If buy resolved and player had doubles, allow re-roll
     if (!this.state.awaitingBuy && currentPlayer.doublesCount > 0 && !currentPlayer.inJail && currentPlayer.isActive) {
       this.state.hasRolled = false;
     }
-
-    // Track property bought
-    if (result.includes("bought")) {
-      this.trackAndNotify(client, currentPlayer.discordUserId, "properties_bought", "property_bought");
-
-      // Track spending for in-game big_spender
-      const spent = costBefore - currentPlayer.coins;
-      const track = this.getInGameTrack(currentPlayer.sessionId);
-      track.coinsSpent += spent;
-      if (track.coinsSpent >= 2000) {
-        this.tryInGameAchievement(client, currentPlayer.discordUserId, "big_spender");
-      }
-
-      // Check monopoly completion
-      this.checkMonopolyAchievement(client, currentPlayer);
-    }
   }
 
   private handleSkipBuy(client: Client): void {
@@ -952,12 +1537,23 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     skipBuy(this.state);
 
+    if (!this.state.settings.auctionOnDecline) {
+      this.state.lastAction = `${currentPlayer.displayName} declined to buy ${this.state.boardSpaces[propertyIndex].name}.`;
+      this.flushEvents();
+      // If player had doubles, allow re-roll
+      if (currentPlayer.doublesCount > 0 && !currentPlayer.inJail && currentPlayer.isActive) {
+        this.state.hasRolled = false;
+      }
+      return;
+    }
+
     const auctionResult = startAuction(this.state, propertyIndex);
     this.state.lastAction = `${currentPlayer.displayName} declined to buy. ${auctionResult}`;
-    this.addLog(this.state.lastAction, "auction");
+    this.flushEvents();
 
     // Pause turn timer during auction
     this.pauseTurnTimer();
+    this.startAuctionTimer();
   }
 
   private handleBuildHouse(client: Client, data: { spaceIndex: number }): void {
@@ -974,21 +1570,9 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const costBefore = currentPlayer.coins;
     const result = buildHouse(this.state, currentPlayer, data.spaceIndex);
     this.state.lastAction = result;
-    this.addLog(result, "build");
-
-    if (result.includes("built a house")) {
-      this.trackAndNotify(client, currentPlayer.discordUserId, "houses_built", "building_built");
-
-      const spent = costBefore - currentPlayer.coins;
-      const track = this.getInGameTrack(currentPlayer.sessionId);
-      track.coinsSpent += spent;
-      if (track.coinsSpent >= 2000) {
-        this.tryInGameAchievement(client, currentPlayer.discordUserId, "big_spender");
-      }
-    }
+    this.flushEvents();
   }
 
   private handleBuildHotel(client: Client, data: { spaceIndex: number }): void {
@@ -1005,21 +1589,9 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const costBefore = currentPlayer.coins;
     const result = buildHotel(this.state, currentPlayer, data.spaceIndex);
     this.state.lastAction = result;
-    this.addLog(result, "build");
-
-    if (result.includes("built a HOTEL")) {
-      this.trackAndNotify(client, currentPlayer.discordUserId, "hotels_built", "building_built");
-
-      const spent = costBefore - currentPlayer.coins;
-      const track = this.getInGameTrack(currentPlayer.sessionId);
-      track.coinsSpent += spent;
-      if (track.coinsSpent >= 2000) {
-        this.tryInGameAchievement(client, currentPlayer.discordUserId, "big_spender");
-      }
-    }
+    this.flushEvents();
   }
 
   private handleEndTurn(client: Client): void {
@@ -1044,33 +1616,33 @@ export class GameRoom extends Room<{ state: GameState }> {
       client.send("error", { message: "Cannot end turn during an auction." });
       return;
     }
-    if (this.state.activeTrade.status === "pending") {
-      client.send("error", { message: "Cannot end turn during a pending trade." });
-      return;
-    }
 
-    if (this.state.awaitingBuy) {
+    if (this.state.awaitingBuy && this.state.settings.auctionOnDecline) {
       const propertyIndex = currentPlayer.position;
       skipBuy(this.state);
       const auctionResult = startAuction(this.state, propertyIndex);
       this.state.lastAction = `${currentPlayer.displayName} declined to buy. ${auctionResult}`;
-      this.addLog(this.state.lastAction, "auction");
+      this.flushEvents();
       // Pause timer during auction
       this.pauseTurnTimer();
+      this.startAuctionTimer();
       return;
     }
 
     this.clearTurnTimer();
 
+    if (this.state.awaitingBuy) {
+      skipBuy(this.state);
+    }
+
     const result = advanceTurn(this.state);
     this.state.lastAction = result;
-    this.addLog(result);
+    this.flushEvents();
     if ((this.state.phase as string) === "finished") {
-      this.awardEndGameGems();
+      this.handleGameFinished();
     } else {
-      // Start timer for the next player
       this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
-      this.startTurnTimer();
+      this.beginTurn();
     }
   }
 
@@ -1098,7 +1670,7 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
 
     if (player.discordUserId) {
-      const success = selectPiece(player.discordUserId, pieceId);
+      const success = this.repository.selectPiece(player.discordUserId, pieceId);
       if (!success) {
         client.send("error", { message: "You don't own that piece." });
         return;
@@ -1113,206 +1685,340 @@ export class GameRoom extends Room<{ state: GameState }> {
 
   private handleProposeTrade(
     client: Client,
-    data: {
-      toSessionId: string;
-      offeredProperties: number[];
-      requestedProperties: number[];
-      offeredCoins: number;
-      requestedCoins: number;
-    }
+    data: { participants: string[]; legs: TradeLegTerms[] }
   ): void {
     if (this.state.phase !== "playing") {
       client.send("error", { message: "Can only trade during the game." });
       return;
     }
 
-    if (this.state.activeTrade.status === "pending") {
-      client.send("error", { message: "A trade is already in progress." });
+    // The proposer always comes first
+    const participants = [
+      client.sessionId,
+      ...(Array.isArray(data?.participants) ? data.participants.map(String) : []).filter((id) => id !== client.sessionId),
+    ];
+
+    const openTrades = Array.from(this.state.trades.values()).filter((t) => t.participants[0] === client.sessionId);
+    if (openTrades.length >= MAX_OPEN_TRADES) {
+      client.send("error", { message: `You can have at most ${MAX_OPEN_TRADES} trade offers open at once.` });
       return;
     }
 
-    const { toSessionId, offeredProperties, requestedProperties, offeredCoins, requestedCoins } = data;
-
-    const validation = validateTradeOffer(
-      this.state,
-      client.sessionId,
-      toSessionId,
-      offeredProperties || [],
-      requestedProperties || [],
-      offeredCoins || 0,
-      requestedCoins || 0
-    );
-
+    const legs = this.getTradeLegs(data?.legs);
+    const validation = validateTradeTerms(this.state, client.sessionId, participants, legs);
     if (!validation.valid) {
       client.send("error", { message: validation.error || "Invalid trade." });
       return;
     }
 
-    const trade = this.state.activeTrade;
-    trade.status = "pending";
-    trade.fromSessionId = client.sessionId;
-    trade.toSessionId = toSessionId;
-    trade.offeredProperties.clear();
-    for (const idx of (offeredProperties || [])) {
-      trade.offeredProperties.push(idx);
-    }
-    trade.requestedProperties.clear();
-    for (const idx of (requestedProperties || [])) {
-      trade.requestedProperties.push(idx);
-    }
-    trade.offeredCoins = offeredCoins || 0;
-    trade.requestedCoins = requestedCoins || 0;
-    // Reset counter-offer state for fresh trades
-    trade.counterOfferCount = 0;
-    trade.lastModifiedBy = "";
-    trade.isCounterOffer = false;
-    trade.prevOfferedProperties.clear();
-    trade.prevRequestedProperties.clear();
-    trade.prevOfferedCoins = 0;
-    trade.prevRequestedCoins = 0;
+    createTrade(this.state, `t${this.nextTradeId++}`, client.sessionId, participants, legs);
 
     const fromPlayer = this.state.players.get(client.sessionId);
-    const toPlayer = this.state.players.get(toSessionId);
-    this.state.lastAction = `${fromPlayer?.displayName} proposed a trade to ${toPlayer?.displayName}.`;
+    const others = participants.slice(1).map((id) => this.state.players.get(id)?.displayName ?? "someone");
+    this.state.lastAction = `${fromPlayer?.displayName} proposed a trade to ${joinNames(others)}.`;
     this.addLog(this.state.lastAction, "trade");
-    console.log(`Trade proposed: ${fromPlayer?.displayName} → ${toPlayer?.displayName}`);
+    console.log(`Trade proposed: ${fromPlayer?.displayName} → ${others.join(", ")}`);
+  }
 
-    // Pause turn timer during trade
-    this.pauseTurnTimer();
+  /** Pick the terms out of a trade message */
+  private getTradeLegs(legs: unknown): TradeLegTerms[] {
+    if (!Array.isArray(legs)) return [];
+    return legs.map((leg: any) => ({
+      fromSessionId: String(leg?.fromSessionId ?? ""),
+      toSessionId: String(leg?.toSessionId ?? ""),
+      properties: Array.isArray(leg?.properties) ? leg.properties.map(Number) : [],
+      coins: Number(leg?.coins) || 0,
+      jailCards: Number(leg?.jailCards) || 0,
+      immunities: Array.isArray(leg?.immunities)
+        ? leg.immunities.map((t: any) => ({ spaceIndex: Number(t?.spaceIndex), turns: Number(t?.turns) }))
+        : [],
+    }));
+  }
+
+  /** The pending trade a message refers to, if the sender is part of it */
+  private getClientTrade(client: Client, data: { tradeId?: string }): TradeOffer | null {
+    const trade = this.state.trades.get(String(data?.tradeId ?? ""));
+    if (!trade) {
+      client.send("error", { message: "That trade offer is no longer open." });
+      return null;
+    }
+    if (!trade.participants.includes(client.sessionId)) {
+      client.send("error", { message: "This trade is not for you." });
+      return null;
+    }
+    return trade;
   }
 
-  private handleAcceptTrade(client: Client): void {
-    if (this.state.activeTrade.status !== "pending") {
-      client.send("error", { message: "No active trade to accept." });
+  private handleAcceptTrade(client: Client, data: { tradeId: string }): void {
+    const trade = this.getClientTrade(client, data);
+    if (!trade) return;
+
+    if (trade.acceptedBy.has(client.sessionId)) {
+      client.send("error", { message: "You already accepted this trade." });
       return;
     }
 
-    if (this.state.activeTrade.toSessionId !== client.sessionId) {
-      client.send("error", { message: "This trade is not for you." });
+    const player = this.state.players.get(client.sessionId);
+    if (!acceptTrade(trade, client.sessionId)) {
+      const waitingFor = trade.participants.filter((id) => !trade.acceptedBy.has(id)).length;
+      this.state.lastAction = `${player?.displayName} accepted the trade. Waiting for ${waitingFor} more.`;
+      this.addLog(this.state.lastAction, "trade");
       return;
     }
 
-    const trade = this.state.activeTrade;
-    const validation = validateTradeOffer(
+    const validation = validateTradeTerms(
       this.state,
-      trade.fromSessionId,
-      trade.toSessionId,
-      Array.from(trade.offeredProperties),
-      Array.from(trade.requestedProperties),
-      trade.offeredCoins,
-      trade.requestedCoins
+      client.sessionId,
+      Array.from(trade.participants),
+      getTradeLegTerms(trade)
     );
 
     if (!validation.valid) {
       client.send("error", { message: validation.error || "Trade is no longer valid." });
-      clearTrade(this.state);
+      this.state.trades.delete(trade.id);
       return;
     }
 
-    const fromPlayer = this.state.players.get(trade.fromSessionId);
-    const toPlayer = this.state.players.get(trade.toSessionId);
-
-    const result = executeTrade(this.state);
+    const result = executeTrade(this.state, trade);
     this.state.lastAction = result;
-    this.addLog(result, "trade");
+    this.flushEvents();
     console.log("Trade completed:", result);
 
-    // Track trade for both players
-    if (fromPlayer?.discordUserId) {
-      const fromClient = this.getClientBySessionId(fromPlayer.sessionId);
-      if (fromClient) {
-        this.trackAndNotify(fromClient, fromPlayer.discordUserId, "trades_completed", "trade_completed");
-        this.checkMonopolyAchievement(fromClient, fromPlayer);
-      }
+    // Other offers may have counted on what just changed hands
+    for (const dropped of pruneInvalidTrades(this.state)) {
+      const names = dropped.participants.map((id) => this.state.players.get(id)?.displayName ?? "someone");
+      this.addLog(`The trade between ${joinNames(names)} was called off because its terms no longer add up.`, "trade");
     }
-    if (toPlayer?.discordUserId) {
-      const toClient = this.getClientBySessionId(toPlayer.sessionId);
-      if (toClient) {
-        this.trackAndNotify(toClient, toPlayer.discordUserId, "trades_completed", "trade_completed");
-        this.checkMonopolyAchievement(toClient, toPlayer);
-      }
+  }
+
+  private handleRejectTrade(client: Client, data: { tradeId: string }): void {
+    const trade = this.getClientTrade(client, data);
+    if (!trade) return;
+
+    if (trade.fromSessionId === client.sessionId) {
+      client.send("error", { message: "Cancel your offer instead." });
+      return;
     }
 
-    // Resume turn timer after trade completes
-    this.resumeTurnTimer();
+    const fromPlayer = this.state.players.get(trade.fromSessionId);
+    const player = this.state.players.get(client.sessionId);
+    this.state.lastAction = `${player?.displayName} declined ${fromPlayer?.displayName}'s trade offer.`;
+    this.addLog(this.state.lastAction, "trade");
+    this.state.trades.delete(trade.id);
+    console.log(`Trade rejected by ${player?.displayName}`);
   }
 
-  private handleRejectTrade(client: Client): void {
-    if (this.state.activeTrade.status !== "pending") {
-      client.send("error", { message: "No active trade to reject." });
+  private handleCancelTrade(client: Client, data: { tradeId: string }): void {
+    const trade = this.getClientTrade(client, data);
+    if (!trade) return;
+
+    if (trade.fromSessionId !== client.sessionId) {
+      client.send("error", { message: "Only the proposer can cancel a trade." });
       return;
     }
 
-    if (this.state.activeTrade.toSessionId !== client.sessionId) {
-      client.send("error", { message: "This trade is not for you." });
+    const fromPlayer = this.state.players.get(client.sessionId);
+    this.state.lastAction = `${fromPlayer?.displayName} cancelled their trade offer.`;
+    this.addLog(this.state.lastAction, "trade");
+    this.state.trades.delete(trade.id);
+    console.log(`Trade cancelled by ${fromPlayer?.displayName}`);
+  }
+
+  private handleCounterOffer(client: Client, data: { tradeId: string; legs: TradeLegTerms[] }): void {
+    if (this.state.phase !== "playing") {
+      client.send("error", { message: "Can only trade during the game." });
+      return;
+    }
+
+    const trade = this.getClientTrade(client, data);
+    if (!trade) return;
+
+    const result = processCounterOffer(this.state, trade, client.sessionId, this.getTradeLegs(data?.legs));
+
+    if (!result.success) {
+      client.send("error", { message: result.message });
       return;
     }
 
-    const fromPlayer = this.state.players.get(this.state.activeTrade.fromSessionId);
-    const toPlayer = this.state.players.get(client.sessionId);
-    this.state.lastAction = `${toPlayer?.displayName} declined ${fromPlayer?.displayName}'s trade offer.`;
+    this.state.lastAction = result.message;
     this.addLog(this.state.lastAction, "trade");
-    clearTrade(this.state);
-    console.log(`Trade rejected by ${toPlayer?.displayName}`);
+    console.log(`Counter-offer: ${result.message}`);
+  }
 
-    // Resume turn timer after trade rejected
-    this.resumeTurnTimer();
+  private handleProposeLoan(
+    client: Client,
+    data: { toSessionId: string; role: "lend" | "borrow" } & LoanTerms
+  ): void {
+    if (this.state.phase !== "playing") {
+      client.send("error", { message: "Can only arrange loans during the game." });
+      return;
+    }
+
+    const openOffers = Array.from(this.state.loanOffers.values()).filter((o) => o.fromSessionId === client.sessionId);
+    if (openOffers.length >= MAX_OPEN_LOAN_OFFERS) {
+      client.send("error", { message: `You can have at most ${MAX_OPEN_LOAN_OFFERS} loan offers open at once.` });
+      return;
+    }
+
+    const otherId = String(data?.toSessionId ?? "");
+    const [lenderId, borrowerId] = data?.role === "borrow" ? [otherId, client.sessionId] : [client.sessionId, otherId];
+    const other = this.state.players.get(otherId);
+    if (other?.isDisconnected) {
+      client.send("error", { message: `${other.displayName} is disconnected.` });
+      return;
+    }
+
+    const terms = this.getLoanTerms(data);
+    const validation = validateLoanTerms(this.state, lenderId, borrowerId, terms);
+    if (!validation.valid) {
+      client.send("error", { message: validation.error || "Invalid loan." });
+      return;
+    }
+
+    createLoanOffer(this.state, `lo${this.nextLoanId++}`, client.sessionId, lenderId, borrowerId, terms);
+
+    const player = this.state.players.get(client.sessionId);
+    this.state.lastAction = data?.role === "borrow"
+      ? `${player?.displayName} asked ${other?.displayName} for a loan of ${terms.principal} coins.`
+      : `${player?.displayName} offered ${other?.displayName} a loan of ${terms.principal} coins.`;
+    this.addLog(this.state.lastAction, "loan");
+  }
+
+  /** Pick the terms out of a loan message */
+  private getLoanTerms(data: any): LoanTerms {
+    return {
+      principal: Number(data?.principal) || 0,
+      interestRate: Number(data?.interestRate) || 0,
+      termTurns: Number(data?.termTurns) || 0,
+    };
+  }
+
+  /** The pending loan offer a message refers to, if the sender is part of it */
+  private getClientLoanOffer(client: Client, data: { offerId?: string }): LoanOffer | null {
+    const offer = this.state.loanOffers.get(String(data?.offerId ?? ""));
+    if (!offer) {
+      client.send("error", { message: "That loan offer is no longer open." });
+      return null;
+    }
+    if (offer.lenderSessionId !== client.sessionId && offer.borrowerSessionId !== client.sessionId) {
+      client.send("error", { message: "This loan offer is not for you." });
+      return null;
+    }
+    return offer;
   }
 
-  private handleCancelTrade(client: Client): void {
-    if (this.state.activeTrade.status !== "pending") {
-      client.send("error", { message: "No active trade to cancel." });
+  private handleAcceptLoan(client: Client, data: { offerId: string }): void {
+    const offer = this.getClientLoanOffer(client, data);
+    if (!offer) return;
+
+    if (offer.fromSessionId === client.sessionId) {
+      client.send("error", { message: "Wait for the other player to respond to your offer." });
       return;
     }
 
-    if (this.state.activeTrade.fromSessionId !== client.sessionId) {
-      client.send("error", { message: "Only the proposer can cancel a trade." });
+    const result = executeLoanOffer(this.state, offer, `l${this.nextLoanId++}`);
+    if (!result.success) {
+      client.send("error", { message: result.message });
       return;
     }
 
-    const fromPlayer = this.state.players.get(client.sessionId);
-    this.state.lastAction = `${fromPlayer?.displayName} cancelled their trade offer.`;
-    this.addLog(this.state.lastAction, "trade");
-    clearTrade(this.state);
-    console.log(`Trade cancelled by ${fromPlayer?.displayName}`);
+    this.state.lastAction = result.message;
+    this.flushEvents();
+  }
 
-    // Resume turn timer after trade cancelled
-    this.resumeTurnTimer();
+  private handleRejectLoan(client: Client, data: { offerId: string }): void {
+    const offer = this.getClientLoanOffer(client, data);
+    if (!offer) return;
+
+    if (offer.fromSessionId === client.sessionId) {
+      client.send("error", { message: "Cancel your offer instead." });
+      return;
+    }
+
+    const fromPlayer = this.state.players.get(offer.fromSessionId);
+    const player = this.state.players.get(client.sessionId);
+    this.state.lastAction = `${player?.displayName} declined ${fromPlayer?.displayName}'s loan offer.`;
+    this.addLog(this.state.lastAction, "loan");
+    this.state.loanOffers.delete(offer.id);
   }
 
-  private handleCounterOffer(
-    client: Client,
-    data: {
-      offeredProperties: number[];
-      requestedProperties: number[];
-      offeredCoins: number;
-      requestedCoins: number;
+  private handleCancelLoan(client: Client, data: { offerId: string }): void {
+    const offer = this.getClientLoanOffer(client, data);
+    if (!offer) return;
+
+    if (offer.fromSessionId !== client.sessionId) {
+      client.send("error", { message: "Only the proposer can cancel a loan offer." });
+      return;
     }
-  ): void {
+
+    const player = this.state.players.get(client.sessionId);
+    this.state.lastAction = `${player?.displayName} cancelled their loan offer.`;
+    this.addLog(this.state.lastAction, "loan");
+    this.state.loanOffers.delete(offer.id);
+  }
+
+  private handleCounterLoan(client: Client, data: { offerId: string } & LoanTerms): void {
     if (this.state.phase !== "playing") {
-      client.send("error", { message: "Can only trade during the game." });
+      client.send("error", { message: "Can only arrange loans during the game." });
       return;
     }
 
-    const { offeredProperties, requestedProperties, offeredCoins, requestedCoins } = data;
+    const offer = this.getClientLoanOffer(client, data);
+    if (!offer) return;
 
-    const result = processCounterOffer(
-      this.state,
-      client.sessionId,
-      offeredProperties || [],
-      requestedProperties || [],
-      offeredCoins || 0,
-      requestedCoins || 0
-    );
+    const result = processLoanCounterOffer(this.state, offer, client.sessionId, this.getLoanTerms(data));
+    if (!result.success) {
+      client.send("error", { message: result.message });
+      return;
+    }
+
+    this.state.lastAction = result.message;
+    this.addLog(this.state.lastAction, "loan");
+  }
+
+  private handleTakeBankLoan(client: Client, data: { amount: number }): void {
+    if (this.state.phase !== "playing") return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player || !player.isActive || player.isBankrupt) return;
 
+    const result = takeBankLoan(this.state, player, Number(data?.amount), `l${this.nextLoanId++}`);
     if (!result.success) {
       client.send("error", { message: result.message });
       return;
     }
 
     this.state.lastAction = result.message;
-    this.addLog(this.state.lastAction, "trade");
-    console.log(`Counter-offer: ${result.message}`);
+    this.flushEvents();
+  }
+
+  private handleRepayLoan(client: Client, data: { loanId: string; amount?: number }): void {
+    if (this.state.phase !== "playing") return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+
+    // Cash raised in a negotiation goes to the debt first
+    const negotiation = this.state.bankruptcyNegotiation;
+    if (negotiation.status === "active" && negotiation.debtorSessionId === client.sessionId) {
+      client.send("error", { message: "Settle your debt before repaying loans." });
+      return;
+    }
+
+    const loan = this.state.loans.get(String(data?.loanId ?? ""));
+    if (!loan) {
+      client.send("error", { message: "That loan has already been repaid." });
+      return;
+    }
+
+    const result = repayLoan(this.state, player, loan, data?.amount === undefined ? loan.balance : Number(data.amount));
+    if (!result.success) {
+      client.send("error", { message: result.message });
+      return;
+    }
+
+    this.state.lastAction = result.message;
+    this.flushEvents();
   }
 
   private handlePayJailFine(client: Client): void {
@@ -1334,18 +2040,15 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    if (currentPlayer.coins < JAIL_FINE) {
-      client.send("error", { message: `You need at least ${JAIL_FINE} coins to pay the fine.` });
+    const jailFine = this.state.settings.jailFine;
+    if (currentPlayer.coins < jailFine) {
+      client.send("error", { message: `You need at least ${jailFine} coins to pay the fine.` });
       return;
     }
 
-    currentPlayer.coins -= JAIL_FINE;
-    releaseFromJail(currentPlayer);
-    this.state.lastAction = `${currentPlayer.displayName} paid ${JAIL_FINE} coins to get out of Jail!`;
-    this.addLog(this.state.lastAction, "jail");
-
-    // Track jail escape
-    this.trackAndNotify(client, currentPlayer.discordUserId, "jail_escapes", "jail_escape");
+    payJailFine(this.state, currentPlayer);
+    this.state.lastAction = `${currentPlayer.displayName} paid ${jailFine} coins to get out of Jail!`;
+    this.flushEvents();
   }
 
   private handleUseJailCard(client: Client): void {
@@ -1373,12 +2076,29 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
 
     currentPlayer.jailFreeCards--;
-    releaseFromJail(currentPlayer);
+    releaseFromJail(this.state, currentPlayer, "card");
     this.state.lastAction = `${currentPlayer.displayName} used a Get Out of Jail Free card!`;
-    this.addLog(this.state.lastAction, "jail");
+    this.flushEvents();
+  }
+
+  private handlePlayCard(client: Client, data: { cardId: string }): void {
+    if (this.state.phase !== "playing") return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player || !player.isActive || player.isBankrupt) {
+      client.send("error", { message: "You are not an active player." });
+      return;
+    }
+
+    const validation = validatePlayHeldCard(this.state, player, data.cardId);
+    if (!validation.valid) {
+      client.send("error", { message: validation.error });
+      return;
+    }
 
-    // Track jail escape
-    this.trackAndNotify(client, currentPlayer.discordUserId, "jail_escapes", "jail_escape");
+    const result = playHeldCard(this.state, player, data.cardId, this.rng);
+    this.state.lastAction = result;
+    this.flushEvents();
   }
 
   private handleDismissCard(client: Client): void {
@@ -1399,7 +2119,7 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     const result = mortgageProperty(this.state, player, data.spaceIndex);
     this.state.lastAction = result;
-    this.addLog(result);
+    this.flushEvents();
   }
 
   private handleUnmortgageProperty(client: Client, data: { spaceIndex: number }): void {
@@ -1413,7 +2133,7 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     const result = unmortgageProperty(this.state, player, data.spaceIndex);
     this.state.lastAction = result;
-    this.addLog(result);
+    this.flushEvents();
   }
 
   private handleSellHouse(client: Client, data: { spaceIndex: number }): void {
@@ -1427,7 +2147,7 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     const result = sellHouse(this.state, player, data.spaceIndex);
     this.state.lastAction = result;
-    this.addLog(result, "build");
+    this.flushEvents();
   }
 
   private handleSellHotel(client: Client, data: { spaceIndex: number; convertToHouses: boolean }): void {
@@ -1441,7 +2161,7 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     const result = sellHotel(this.state, player, data.spaceIndex, data.convertToHouses ?? false);
     this.state.lastAction = result;
-    this.addLog(result, "build");
+    this.flushEvents();
   }
 
   private handlePlaceBid(client: Client, data: { amount: number }): void {
@@ -1458,41 +2178,17 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const auctionPropIndex = this.state.activeAuction.propertyIndex;
-    const auctionSpace = this.state.boardSpaces[auctionPropIndex];
-    const result = placeBid(this.state, player, data.amount);
+    const sealed = isSealedAuction(this.state);
+    const result = sealed
+      ? placeSealedBid(this.state, this.sealedBids, player, Number(data.amount))
+      : placeBid(this.state, player, data.amount);
     this.state.lastAction = result;
-    this.addLog(result, "auction");
-
-    // Check if auction ended with a winner (indicated by "won" in the result)
-    if (result.includes("won") && result.includes("for")) {
-      // Track auction win
-      this.trackAndNotify(client, player.discordUserId, "auctions_won", "auction_won");
-      this.trackAndNotify(client, player.discordUserId, "properties_bought", "property_bought");
-
-      // Check auction_snipe achievement
-      if (auctionSpace && data.amount < auctionSpace.price / 2) {
-        this.tryInGameAchievement(client, player.discordUserId, "auction_snipe");
-      }
-
-      // Track spending
-      const track = this.getInGameTrack(player.sessionId);
-      track.coinsSpent += data.amount;
-      if (track.coinsSpent >= 2000) {
-        this.tryInGameAchievement(client, player.discordUserId, "big_spender");
-      }
-
-      this.checkMonopolyAchievement(client, player);
-    }
+    this.flushEvents();
 
-    // If auction just ended and current player had doubles, allow re-roll
-    if (this.state.activeAuction.status !== "active") {
-      const turnPlayer = getCurrentPlayer(this.state);
-      if (turnPlayer && turnPlayer.doublesCount > 0 && !turnPlayer.inJail && turnPlayer.isActive) {
-        this.state.hasRolled = false;
-      }
-      // Resume turn timer after auction ends
-      this.resumeTurnTimer();
+    if (sealed && isSealedAuctionComplete(this.state)) {
+      this.finishSealedAuction();
+    } else if (this.state.activeAuction.status !== "active") {
+      this.handleAuctionClosed();
     }
   }
 
@@ -1510,55 +2206,76 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
 
-    const auctionPropIndex = this.state.activeAuction.propertyIndex;
-    const auctionSpace = this.state.boardSpaces[auctionPropIndex];
-    const highestBidderId = this.state.activeAuction.highestBidderId;
-    const currentBid = this.state.activeAuction.currentBid;
-
     const result = passAuction(this.state, player);
     this.state.lastAction = result;
-    this.addLog(result, "auction");
-
-    // Check if auction ended with a winner
-    if (result.includes("won") && result.includes("for") && highestBidderId) {
-      const winner = this.state.players.get(highestBidderId);
-      if (winner?.discordUserId) {
-        const winnerClient = this.getClientBySessionId(highestBidderId);
-        if (winnerClient) {
-          this.trackAndNotify(winnerClient, winner.discordUserId, "auctions_won", "auction_won");
-          this.trackAndNotify(winnerClient, winner.discordUserId, "properties_bought", "property_bought");
-
-          if (auctionSpace && currentBid < auctionSpace.price / 2) {
-            this.tryInGameAchievement(winnerClient, winner.discordUserId, "auction_snipe");
-          }
+    this.flushEvents();
 
-          const track = this.getInGameTrack(winner.sessionId);
-          track.coinsSpent += currentBid;
-          if (track.coinsSpent >= 2000) {
-            this.tryInGameAchievement(winnerClient, winner.discordUserId, "big_spender");
-          }
+    if (isSealedAuction(this.state) && isSealedAuctionComplete(this.state)) {
+      this.finishSealedAuction();
+    } else if (this.state.activeAuction.status !== "active") {
+      this.handleAuctionClosed();
+    }
+  }
 
-          this.checkMonopolyAchievement(winnerClient, winner);
+  /** Run the auction clock; when it runs out the highest bidder wins */
+  private startAuctionTimer(): void {
+    this.clearAuctionTimer();
+    this.auctionTimer = this.clock.setInterval(() => {
+      if (this.state.activeAuction.status !== "active") {
+        this.clearAuctionTimer();
+        return;
+      }
+      if (isAuctionTimedOut(this.state)) {
+        if (isSealedAuction(this.state)) {
+          this.finishSealedAuction();
+          return;
         }
+        this.state.lastAction = `Time's up! ${endAuction(this.state)}`;
+        this.flushEvents();
+        this.handleAuctionClosed();
       }
-    }
+    }, 250);
+  }
 
-    // If auction just ended and current player had doubles, allow re-roll
-    if (this.state.activeAuction.status !== "active") {
-      const turnPlayer = getCurrentPlayer(this.state);
-      if (turnPlayer && turnPlayer.doublesCount > 0 && !turnPlayer.inJail && turnPlayer.isActive) {
-        this.state.hasRolled = false;
+  /** Reveal the sealed bids, sell the property and leave the bids on show for a moment */
+  private finishSealedAuction(): void {
+    const propertyIndex = this.state.activeAuction.propertyIndex;
+    this.state.lastAction = resolveSealedAuction(this.state, this.sealedBids, this.rng);
+    this.flushEvents();
+    this.handleAuctionClosed();
+
+    this.clock.setTimeout(() => {
+      const auction = this.state.activeAuction;
+      if (auction.status === "revealed" && auction.propertyIndex === propertyIndex) {
+        clearAuction(this.state);
       }
-      // Resume turn timer after auction ends
-      this.resumeTurnTimer();
+    }, SEALED_BID_REVEAL_MS);
+  }
+
+  private clearAuctionTimer(): void {
+    if (this.auctionTimer) {
+      this.auctionTimer.clear();
+      this.auctionTimer = null;
     }
   }
 
+  /** Pick the turn back up once an auction is over */
+  private handleAuctionClosed(): void {
+    this.clearAuctionTimer();
+    // If the current player had doubles, allow re-roll
+    const turnPlayer = getCurrentPlayer(this.state);
+    if (turnPlayer && turnPlayer.doublesCount > 0 && !turnPlayer.inJail && turnPlayer.isActive) {
+      this.state.hasRolled = false;
+    }
+    // Resume turn timer after auction ends
+    this.resumeTurnTimer();
+  }
+
   /** Check if a player just completed a monopoly */
-  private checkMonopolyAchievement(client: Client, player: Player): void {
+  private checkMonopolyAchievement(client: Client | undefined, player: Player): void {
     if (!player.discordUserId) return;
 
-    for (const district of Object.keys(DISTRICT_PROPERTIES)) {
+    for (const district of getDistrictNames(this.state)) {
       if (playerHasMonopoly(this.state, player.sessionId, district)) {
         // Track monopoly stat + check achievement
         const { achievements, goals } = this.trackStat(
@@ -1572,6 +2289,109 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
   }
 
+  /** Wrap up a finished game: reveal the RNG seed and award gems */
+  private handleGameFinished(): void {
+    this.discardSnapshot();
+    if (this.gameSeed && !this.state.seed) {
+      this.state.seed = this.gameSeed;
+      this.addLog(`Game seed revealed: ${this.gameSeed}`, "info");
+    }
+    this.recordMatchHistory();
+    this.awardEndGameGems();
+  }
+
+  /**
+   * Rate the humans in a finished game against each other by final placement.
+   * Games with fewer than two humans are unrated.
+   */
+  private updateRatings(matchId: number, standings: Player[]): void {
+    const humans = standings.filter((p) => !p.isBot && p.discordUserId);
+    if (humans.length < MIN_PLAYERS) return;
+
+    const changes = updateMatchRatings(
+      this.repository,
+      matchId,
+      this.guildId,
+      humans.map((p) => ({
+        discordUserId: p.discordUserId,
+        displayName: p.displayName,
+        placement: standings.indexOf(p) + 1,
+      })),
+    );
+
+    const summary = changes.map((c) => {
+      const delta = Math.round(c.after) - Math.round(c.before);
+      return `${c.displayName} ${Math.round(c.after)} (${delta >= 0 ? "+" : ""}${delta})`;
+    });
+    if (summary.length > 0) this.addLog(`Ratings: ${summary.join(", ")}`, "info");
+  }
+
+  /** Save the final standings to match history */
+  private recordMatchHistory(): void {
+    if (this.matchRecorded) return;
+    this.matchRecorded = true;
+
+    // Guests and bots leave nothing in the database
+    const hasVerifiedPlayer = Array.from(this.state.players.values()).some((p) => p.discordUserId && !p.isBot);
+    if (!hasVerifiedPlayer) return;
+
+    // Bankrupt players are ranked by how long they lasted
+    const eliminatedTurn = new Map<string, number>();
+    let endReason = "last_player";
+    for (const { turn, event } of this.eventHistory) {
+      if (event.type === "player_bankrupt") eliminatedTurn.set(event.player, turn);
+      if (event.type === "game_over") endReason = event.reason;
+    }
+
+    const players = Array.from(this.state.players.values());
+    const netWorth = new Map(players.map((p) => [p.sessionId, calculateWealth(this.state, p)]));
+    const score = (p: Player) => (p.isBankrupt ? eliminatedTurn.get(p.sessionId) ?? -1 : Infinity);
+    const standings = players.sort((a, b) => {
+      if (a.sessionId === this.state.winnerId) return -1;
+      if (b.sessionId === this.state.winnerId) return 1;
+      return score(b) - score(a) || netWorth.get(b.sessionId)! - netWorth.get(a.sessionId)!;
+    });
+
+    const winner = this.state.players.get(this.state.winnerId);
+    const endedAt = Date.now();
+    const startedAt = this.gameStartedAt || endedAt;
+
+    try {
+      const matchId = this.repository.recordMatch(
+        {
+          channel_id: this.channelId,
+          guild_id: this.guildId,
+          board_id: this.state.settings.boardId,
+          started_at: new Date(startedAt).toISOString(),
+          ended_at: new Date(endedAt).toISOString(),
+          duration_seconds: Math.round((endedAt - startedAt) / 1000),
+          turn_count: this.state.turnCount,
+          end_reason: endReason,
+          winner_discord_user_id: winner?.discordUserId ?? "",
+          winner_name: winner?.displayName ?? "",
+          seed: this.gameSeed,
+        },
+        standings.map((p, i) => ({
+          seat: this.playerOrder.indexOf(p.sessionId),
+          discord_user_id: p.isBot ? "" : p.discordUserId,
+          display_name: p.displayName,
+          piece_id: p.pieceId,
+          is_bot: p.isBot,
+          placement: i + 1,
+          net_worth: netWorth.get(p.sessionId)!,
+          coins: p.coins,
+          properties_owned: p.ownedProperties.length,
+          bankrupt: p.isBankrupt,
+          eliminated_turn: eliminatedTurn.get(p.sessionId) ?? null,
+        })),
+      );
+      console.log(`Recorded match ${matchId}`);
+      if (!this.endedByVoteKick) this.updateRatings(matchId, standings);
+    } catch (err) {
+      console.error("Failed to record match history:", err);
+    }
+  }
+
   /**
    * Award gems to all players at end of game.
    * Also tracks stats and checks achievements.
@@ -1580,22 +2400,29 @@ export class GameRoom extends Room<{ state: GameState }> {
     if (this.gemsAwarded) return;
     this.gemsAwarded = true;
 
-    const winner = this.state.winnerId;
+    // A win only counts when at least one other human took part (no farming wins off bots),
+    // and not when it came from voting out the last opponent
+    let humanCount = 0;
+    this.state.players.forEach((player) => {
+      if (!player.isBot) humanCount++;
+    });
+    const winner = humanCount >= MIN_PLAYERS && !this.endedByVoteKick ? this.state.winnerId : "";
+
     this.state.players.forEach((player) => {
-      if (!player.discordUserId) return;
+      if (!player.discordUserId || player.isBot) return;
       try {
         const gems = player.sessionId === winner ? 50 : 15;
-        updateGems(player.discordUserId, gems);
+        this.repository.updateGems(player.discordUserId, gems, "game_reward", player.sessionId === winner ? "win" : "");
         console.log(`Awarded ${gems} gems to ${player.displayName}`);
 
         // Track games_played stat
-        incrementStat(player.discordUserId, "games_played");
+        this.repository.incrementStat(player.discordUserId, "games_played");
 
         // Track game_played goal trigger
         const pClient = this.getClientBySessionId(player.sessionId);
 
         if (player.sessionId === winner) {
-          incrementStat(player.discordUserId, "games_won");
+          this.repository.incrementStat(player.discordUserId, "games_won");
 
           // Check comeback_kid
           const track = this.getInGameTrack(player.sessionId);
@@ -1605,13 +2432,13 @@ export class GameRoom extends Room<{ state: GameState }> {
         }
 
         // Check stat achievements after game end
-        const achievements = checkStatAchievements(player.discordUserId);
-        const goalCompletions = processGoalTrigger(player.discordUserId, "game_played");
+        const achievements = checkStatAchievements(this.repository, player.discordUserId);
+        const goalCompletions = processGoalTrigger(this.repository, player.discordUserId, "game_played");
 
         // Winner also triggers game_won goal
         let wonGoals: GoalCompletionResult[] = [];
         if (player.sessionId === winner) {
-          wonGoals = processGoalTrigger(player.discordUserId, "game_won");
+          wonGoals = processGoalTrigger(this.repository, player.discordUserId, "game_won");
         }
 
         if (pClient) {
@@ -1635,6 +2462,7 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
 
     this.clearTurnTimer();
+    this.clearBotTimer();
     this.state.phase = "lobby";
     this.state.currentPlayerIndex = 0;
     this.state.dice1 = 0;
@@ -1644,36 +2472,52 @@ export class GameRoom extends Room<{ state: GameState }> {
     this.state.lastAction = "";
     this.state.awaitingBuy = false;
     this.state.hasRolled = false;
+    this.state.freeParkingPot = 0;
+    this.state.rentImmunities.clear();
+    this.state.cityModifiers.clear();
+    this.state.paused = false;
+    this.state.pausedAt = 0;
+    clearVote(this.state);
+    this.clearVoteTimer();
+    this.state.seedHash = "";
+    this.state.seed = "";
+    this.gameSeed = "";
     this.gemsAwarded = false;
+    this.matchRecorded = false;
+    this.endedByVoteKick = false;
 
-    this.state.boardSpaces.clear();
-    initializeBoard(this.state);
+    initializeBoard(this.state, getBoardDefinition(this.state.settings.boardId)!);
 
-    clearTrade(this.state);
+    this.state.trades.clear();
+    this.state.loanOffers.clear();
+    this.state.loans.clear();
     clearDrawnCard(this.state);
     clearBankruptcyNegotiation(this.state);
     if (this.bankruptcyTimer) {
       this.bankruptcyTimer.clear();
       this.bankruptcyTimer = null;
     }
-    this.state.activeAuction.status = "none";
-    this.state.activeAuction.currentBid = 0;
-    this.state.activeAuction.highestBidderId = "";
-    this.state.activeAuction.passedPlayers.clear();
+    clearAuction(this.state);
+    this.clearAuctionTimer();
+    this.sealedBids.clear();
 
+    drainGameEvents(this.state);
     this.state.gameLog.clear();
+    this.eventHistory = [];
     this.inGameTracking.clear();
 
     this.state.players.forEach((player) => {
       player.position = 0;
-      player.coins = STARTING_COINS;
+      player.coins = this.state.settings.startingCoins;
       player.ownedProperties.clear();
       player.isActive = true;
       player.isBankrupt = false;
       player.inJail = false;
       player.jailTurnsRemaining = 0;
       player.jailFreeCards = 0;
+      player.heldCards.clear();
       player.doublesCount = 0;
+      player.timedOut = false;
     });
 
     this.playerOrder = [];
@@ -1683,25 +2527,8 @@ export class GameRoom extends Room<{ state: GameState }> {
 
     // Resend player store data (with cosmetics)
     this.state.players.forEach((player) => {
-      if (player.discordUserId) {
-        try {
-          const dbPlayer = getPlayer(player.discordUserId);
-          const playerClient = this.clients.find((c) => c.sessionId === player.sessionId);
-          if (playerClient) {
-            playerClient.send("player_data", {
-              gems: dbPlayer.gems,
-              ownedPieces: dbPlayer.owned_pieces,
-              selectedPiece: dbPlayer.selected_piece,
-              ownedCosmetics: dbPlayer.owned_cosmetics,
-              equippedTitle: dbPlayer.equipped_title,
-              equippedTheme: dbPlayer.equipped_theme,
-              equippedDice: dbPlayer.equipped_dice,
-            });
-          }
-        } catch (err) {
-          console.error("Failed to resend player data:", err);
-        }
-      }
+      const playerClient = this.getClientBySessionId(player.sessionId);
+      if (playerClient) this.sendPlayerData(playerClient, player.discordUserId);
     });
 
     this.state.lastAction = "Returned to lobby. Ready for a new game!";
@@ -1719,14 +2546,14 @@ export class GameRoom extends Room<{ state: GameState }> {
       if (isBankruptcyTimedOut(this.state)) {
         const r = handleBankruptcyTimeout(this.state);
         this.state.lastAction = r;
-        this.addLog(r, "bankrupt");
+        this.flushEvents();
         if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
         if (checkGameOver(this.state)) {
           this.clearTurnTimer();
           const e = advanceTurn(this.state);
           this.state.lastAction = e;
-          this.addLog(e);
-          if ((this.state.phase as string) === "finished") this.awardEndGameGems();
+          this.flushEvents();
+          if ((this.state.phase as string) === "finished") this.handleGameFinished();
         } else {
           // Resume turn timer after bankruptcy timeout
           this.resumeTurnTimer();
@@ -1747,7 +2574,7 @@ export class GameRoom extends Room<{ state: GameState }> {
       ? sellHotel(this.state, pl, data.spaceIndex, data.convertToHouses ?? false)
       : sellHouse(this.state, pl, data.spaceIndex);
     this.state.lastAction = res;
-    this.addLog(res, "build");
+    this.flushEvents();
   }
 
   private handleBankruptcyMortgage(client: Client, data: { spaceIndex: number }): void {
@@ -1760,7 +2587,7 @@ export class GameRoom extends Room<{ state: GameState }> {
     if (!pl) return;
     const res = mortgageProperty(this.state, pl, data.spaceIndex);
     this.state.lastAction = res;
-    this.addLog(res);
+    this.flushEvents();
   }
 
   private handleBankruptcyPayDebt(client: Client): void {
@@ -1775,14 +2602,14 @@ export class GameRoom extends Room<{ state: GameState }> {
       return;
     }
     this.state.lastAction = res;
-    this.addLog(res, "bankruptcy");
+    this.flushEvents();
     if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
     if (checkGameOver(this.state)) {
       this.clearTurnTimer();
       const e = advanceTurn(this.state);
       this.state.lastAction = e;
-      this.addLog(e);
-      if ((this.state.phase as string) === "finished") this.awardEndGameGems();
+      this.flushEvents();
+      if ((this.state.phase as string) === "finished") this.handleGameFinished();
     } else {
       // Resume turn timer after debt paid
       this.resumeTurnTimer();
@@ -1797,24 +2624,826 @@ export class GameRoom extends Room<{ state: GameState }> {
     }
     const res = declareBankruptcy(this.state);
     this.state.lastAction = res;
-    this.addLog(res, "bankrupt");
+    this.flushEvents();
     if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
     if (checkGameOver(this.state)) {
       this.clearTurnTimer();
       const e = advanceTurn(this.state);
       this.state.lastAction = e;
-      this.addLog(e);
-      if ((this.state.phase as string) === "finished") this.awardEndGameGems();
+      this.flushEvents();
+      if ((this.state.phase as string) === "finished") this.handleGameFinished();
     } else {
       // Resume turn timer after bankruptcy declared
       this.resumeTurnTimer();
     }
   }
+
+  // ==================== Host Moderation ====================
+
+  /** Remove a player or spectator from the room; with `ban`, they can't come back while it lasts */
+  private handleKickPlayer(client: Client, data: { sessionId: string; ban?: boolean }): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can remove players." });
+      return;
+    }
+
+    const sessionId = data?.sessionId;
+    if (!sessionId || sessionId === client.sessionId) {
+      client.send("error", { message: "You can't remove yourself." });
+      return;
+    }
+
+    const player = this.state.players.get(sessionId);
+    const spectator = this.state.spectators.get(sessionId);
+    if (!player && !spectator) {
+      client.send("error", { message: "That player isn't in this game." });
+      return;
+    }
+    if (player?.isBot) {
+      client.send("error", { message: "Use Remove Bot to take a bot out." });
+      return;
+    }
+
+    const displayName = player?.displayName ?? spectator!.displayName;
+    const discordUserId = player?.discordUserId ?? spectator!.discordUserId;
+    if (data.ban) {
+      // Bans go by Discord account; a guest could rejoin under a new name at once
+      if (!discordUserId) {
+        client.send("error", { message: "Guests aren't signed in, so they can't be banned. Kick them instead." });
+        return;
+      }
+      this.bannedUserIds.add(discordUserId);
+    }
+
+    const reason = data.ban ? "The host banned you from this game." : "The host removed you from the game.";
+    this.kickedSessionIds.set(sessionId, reason);
+
+    const target = this.clients.find((c) => c.sessionId === sessionId);
+    if (target) {
+      // onLeave takes it from here: frees the lobby seat or forfeits the game seat
+      target.leave(KICKED_CLOSE_CODE, reason);
+    } else if (player && this.state.phase === "playing" && !player.isBankrupt) {
+      // Their connection is already down and the seat is being held for them
+      this.forfeitSeat(player, "was removed by the host and went bankrupt.");
+    }
+
+    console.log(`Host ${data.ban ? "banned" : "kicked"} ${displayName} (${sessionId})`);
+  }
+
+  /** Hand host controls to another player */
+  private handleTransferHost(client: Client, data: { sessionId: string }): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can hand over host." });
+      return;
+    }
+
+    const player = this.state.players.get(data?.sessionId);
+    if (!player || player.sessionId === client.sessionId) {
+      client.send("error", { message: "Pick another player to be host." });
+      return;
+    }
+    if (player.isBot || player.isBankrupt || player.isDisconnected) {
+      client.send("error", { message: "Bots, bankrupt and disconnected players can't host." });
+      return;
+    }
+
+    this.state.hostSessionId = player.sessionId;
+    this.state.lastAction = `${player.displayName} is now the host.`;
+    this.addLog(this.state.lastAction, "info");
+  }
+
+  private handleSetLobbyLocked(client: Client, data: { locked: boolean }): void {
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can lock the game." });
+      return;
+    }
+
+    const locked = data?.locked === true;
+    if (this.state.lobbyLocked === locked) return;
+
+    this.state.lobbyLocked = locked;
+    this.state.lastAction = locked
+      ? "The host locked the game. Nobody new can join."
+      : "The host unlocked the game.";
+    this.addLog(this.state.lastAction, "info");
+  }
+
+  /** The host left: the first person still playing takes over. Bots can't host. */
+  private passHostOn(): void {
+    const candidates = this.playerOrder
+      .map((id) => this.state.players.get(id))
+      .filter((p): p is Player => !!p && !p.isBot && !p.isDisconnected);
+    const next = candidates.find((p) => !p.isBankrupt) ?? candidates[0];
+    if (!next) return;
+
+    this.state.hostSessionId = next.sessionId;
+    this.state.lastAction = `${next.displayName} is now the host.`;
+    this.addLog(this.state.lastAction, "info");
+  }
+
+  /** Keep player indices contiguous so turn order and colors stay stable */
+  private reindexPlayers(): void {
+    this.playerOrder.forEach((id, i) => {
+      const p = this.state.players.get(id);
+      if (p) p.playerIndex = i;
+    });
+  }
+
+  // ==================== Pause and Votes ====================
+
+  /** Host freezes every clock in the game; game actions are refused until they resume */
+  private handlePauseGame(client: Client): void {
+    if (this.state.phase !== "playing") return;
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can pause the game." });
+      return;
+    }
+    if (this.state.paused) return;
+
+    this.state.paused = true;
+    this.state.pausedAt = Date.now();
+    this.pauseTurnTimer();
+    this.clearAuctionTimer();
+    if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
+
+    emitGameEvent(this.state, { type: "game_paused", player: client.sessionId });
+    this.state.lastAction = "The game is paused.";
+    this.flushEvents();
+  }
+
+  /** Host restarts the clocks, giving back the time that was left on each */
+  private handleResumeGame(client: Client): void {
+    if (this.state.phase !== "playing" || !this.state.paused) return;
+    if (client.sessionId !== this.state.hostSessionId) {
+      client.send("error", { message: "Only the host can resume the game." });
+      return;
+    }
+
+    const pausedMs = Date.now() - this.state.pausedAt;
+    this.state.paused = false;
+    this.state.pausedAt = 0;
+
+    const negotiation = this.state.bankruptcyNegotiation;
+    if (negotiation.status === "active") {
+      negotiation.deadline += Math.ceil(pausedMs / 1000);
+      this.startBankruptcyTimer();
+    }
+    if (this.state.activeAuction.status === "active") {
+      this.state.activeAuction.deadline += pausedMs;
+      this.startAuctionTimer();
+    }
+    // The turn timer stays paused while an auction or negotiation is open
+    if (this.state.activeAuction.status !== "active" && negotiation.status !== "active") {
+      this.resumeTurnTimer();
+    }
+
+    emitGameEvent(this.state, {
+      type: "game_resumed",
+      player: client.sessionId,
+      pausedSeconds: Math.round(pausedMs / 1000),
+    });
+    this.state.lastAction = "The game is back on.";
+    this.flushEvents();
+  }
+
+  private handleStartVote(client: Client, data: { kind: string; targetSessionId?: string }): void {
+    if (this.state.phase !== "playing") return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player) {
+      client.send("error", { message: "Spectators can't call votes." });
+      return;
+    }
+
+    const validation = validateStartVote(this.state, player, data.kind, data.targetSessionId ?? "");
+    if (!validation.valid) {
+      client.send("error", { message: validation.error });
+      return;
+    }
+
+    startVote(this.state, player, data.kind as VoteKind, data.targetSessionId ?? "", Date.now());
+    this.state.lastAction = `${player.displayName} called a vote.`;
+    this.flushEvents();
+
+    this.clearVoteTimer();
+    this.voteTimer = this.clock.setInterval(() => this.checkVote(), 1000);
+    this.checkVote();
+  }
+
+  private handleCastVote(client: Client, data: { inFavor: boolean }): void {
+    if (this.state.phase !== "playing") return;
+
+    const player = this.state.players.get(client.sessionId);
+    if (!player) return;
+
+    const result = castVote(this.state, player, data.inFavor === true);
+    if (!result.success) {
+      client.send("error", { message: result.message });
+      return;
+    }
+    this.checkVote();
+  }
+
+  /** Settle the open vote once it has a majority either way or runs out of time */
+  private checkVote(): void {
+    const vote = this.state.activeVote;
+    if (vote.status !== "active" || this.state.phase !== "playing") {
+      this.clearVoteTimer();
+      return;
+    }
+
+    // A kick vote is moot once its target has left the game
+    const target = vote.targetSessionId ? this.state.players.get(vote.targetSessionId) : undefined;
+    if (vote.kind === "kick" && (!target || target.isBankrupt)) {
+      clearVote(this.state);
+      this.clearVoteTimer();
+      return;
+    }
+
+    const outcome = getVoteOutcome(this.state, Date.now());
+    if (outcome === "open") return;
+
+    const kind = vote.kind;
+    closeVote(this.state, outcome === "passed");
+    this.clearVoteTimer();
+    this.flushEvents();
+    if (outcome !== "passed") return;
+
+    if (kind === "end_game") {
+      this.finishGameByVote();
+    } else if (target) {
+      // Kicking the last opponent ends the game, but that win isn't rated or rewarded
+      this.endedByVoteKick = getActivePlayers(this.state).filter((p) => p.sessionId !== target.sessionId).length <= 1;
+      this.forfeitSeat(target, "was voted out and went bankrupt.");
+    }
+  }
+
+  /** Stop everything in flight and finish the game with the wealthiest player winning */
+  private finishGameByVote(): void {
+    this.clearTurnTimer();
+    this.clearAuctionTimer();
+    this.sealedBids.clear();
+    clearAuction(this.state);
+    if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
+    clearBankruptcyNegotiation(this.state);
+    clearDrawnCard(this.state);
+    this.state.paused = false;
+    this.state.pausedAt = 0;
+
+    this.state.lastAction = endGameByVote(this.state);
+    this.flushEvents();
+    this.handleGameFinished();
+  }
+
+  private clearVoteTimer(): void {
+    if (this.voteTimer) {
+      this.voteTimer.clear();
+      this.voteTimer = null;
+    }
+  }
+
+  // ==================== Saved Games ====================
+
+  /** Start saving the game in progress so it survives a server restart */
+  private startSnapshotTimer(): void {
+    this.clearSnapshotTimer();
+    if (!this.channelId) return;
+
+    this.saveSnapshot();
+    this.snapshotTimer = this.clock.setInterval(() => this.saveSnapshot(), SNAPSHOT_INTERVAL_MS);
+  }
+
+  private clearSnapshotTimer(): void {
+    if (this.snapshotTimer) {
+      this.snapshotTimer.clear();
+      this.snapshotTimer = null;
+    }
+  }
+
+  /** Write the game in progress to the database, keyed by voice channel */
+  private saveSnapshot(): void {
+    if (!this.channelId || this.shuttingDown || this.state.phase !== "playing") return;
+
+    const snapshot: RoomSnapshot = {
+      savedAt: Date.now(),
+      guildId: this.guildId,
+      state: this.state.toJSON(),
+      playerOrder: this.playerOrder,
+      communityDeck: this.communityDeck,
+      chanceDeck: this.chanceDeck,
+      inGameTracking: Object.fromEntries(this.inGameTracking),
+      gameSeed: this.gameSeed,
+      gameStartedAt: this.gameStartedAt,
+      rngState: this.rng.getState(),
+      eventHistory: this.eventHistory,
+      botTradeRequests: [...this.botTradeRequests],
+      nextBotId: this.nextBotId,
+      nextTradeId: this.nextTradeId,
+      nextLoanId: this.nextLoanId,
+      sealedBids: Array.from(this.sealedBids),
+    };
+
+    try {
+      this.repository.saveGameSnapshot(this.channelId, JSON.stringify(snapshot));
+    } catch (err) {
+      console.error(`Failed to save game for channel ${this.channelId}:`, err);
+    }
+  }
+
+  /** Forget this channel's saved game once it has finished or been abandoned */
+  private discardSnapshot(): void {
+    this.clearSnapshotTimer();
+    if (!this.channelId) return;
+    try {
+      this.repository.deleteGameSnapshot(this.channelId);
+    } catch (err) {
+      console.error(`Failed to delete saved game for channel ${this.channelId}:`, err);
+    }
+  }
+
+  /**
+   * Load this channel's saved game, if there is one. Every human seat is held
+   * until its player rejoins; nothing moves until the first of them is back.
+   */
+  private restoreSnapshot(): void {
+    if (!this.channelId) return;
+
+    let snapshot: RoomSnapshot;
+    try {
+      const json = this.repository.getGameSnapshot(this.channelId);
+      if (!json) return;
+      snapshot = JSON.parse(json);
+    } catch (err) {
+      console.error(`Failed to load saved game for channel ${this.channelId}:`, err);
+      return;
+    }
+
+    restoreSchema(this.state, snapshot.state);
+    this.state.spectators.clear();
+    this.state.spectatorCount = 0;
+    this.state.turnTimerActive = false;
+    // Whoever paused or called a vote has to be back to do it again
+    this.state.paused = false;
+    this.state.pausedAt = 0;
+    clearVote(this.state);
+    this.state.players.forEach((player) => {
+      if (player.isBot || player.isBankrupt) return;
+      player.isDisconnected = true;
+      player.reconnectDeadline = 0;
+    });
+
+    this.playerOrder = snapshot.playerOrder;
+    this.communityDeck = snapshot.communityDeck;
+    this.chanceDeck = snapshot.chanceDeck;
+    this.inGameTracking = new Map(Object.entries(snapshot.inGameTracking));
+    this.gameSeed = snapshot.gameSeed;
+    this.guildId = snapshot.guildId ?? "";
+    this.gameStartedAt = snapshot.gameStartedAt ?? snapshot.savedAt;
+    this.rng = createRng(snapshot.gameSeed, snapshot.rngState);
+    this.eventHistory = snapshot.eventHistory;
+    this.botTradeRequests = new Set(snapshot.botTradeRequests);
+    this.nextBotId = snapshot.nextBotId;
+    this.nextTradeId = snapshot.nextTradeId ?? 1;
+    this.nextLoanId = snapshot.nextLoanId ?? 1;
+    this.sealedBids = new Map(snapshot.sealedBids ?? []);
+    this.restoredFromSnapshotAt = snapshot.savedAt;
+
+    // Stay open with nobody connected so the channel's players can find their seats
+    this.awaitingRestoredPlayers = true;
+    this.autoDispose = false;
+    this.clock.setTimeout(() => {
+      if (this.awaitingRestoredPlayers) this.autoDispose = true;
+    }, RESTORED_ROOM_WAIT_MS);
+
+    this.addLog("Game restored after a server restart. Waiting for players to rejoin...", "info");
+    console.log(`Restored saved game for channel ${this.channelId} (saved ${new Date(snapshot.savedAt).toISOString()})`);
+  }
+
+  /** Whether a Discord user already has a live connection here, as a player or spectator */
+  private isConnectedInRoom(discordUserId: string): boolean {
+    let found = false;
+    this.state.players.forEach((p) => {
+      if (p.discordUserId === discordUserId && !p.isDisconnected && !p.isBot) found = true;
+    });
+    this.state.spectators.forEach((s) => {
+      if (s.discordUserId === discordUserId) found = true;
+    });
+    return found;
+  }
+
+  /** A seat in the running game held for this Discord user while they're away */
+  private findHeldSeat(discordUserId: string): Player | undefined {
+    if (!discordUserId || this.state.phase !== "playing") return undefined;
+    let seat: Player | undefined;
+    this.state.players.forEach((player) => {
+      if (player.discordUserId === discordUserId && player.isDisconnected && !player.isBot && !player.isBankrupt) {
+        seat = player;
+      }
+    });
+    return seat;
+  }
+
+  /**
+   * Hand a held seat to the player's new connection. Everything that refers to
+   * the seat by session id is moved over to the new one.
+   */
+  private reattachSeat(client: Client, player: Player, displayName: string, avatarUrl: string): void {
+    const oldId = player.sessionId;
+    const newId = client.sessionId;
+    const swap = (id: string) => (id === oldId ? newId : id);
+
+    this.state.players.delete(oldId);
+    player.sessionId = newId;
+    player.displayName = displayName;
+    player.avatarUrl = avatarUrl;
+    player.isDisconnected = false;
+    player.reconnectDeadline = 0;
+    this.state.players.set(newId, player);
+    this.playerOrder = this.playerOrder.map(swap);
+
+    this.state.boardSpaces.forEach((space) => {
+      space.ownerId = swap(space.ownerId);
+    });
+    this.state.hostSessionId = swap(this.state.hostSessionId);
+    this.state.winnerId = swap(this.state.winnerId);
+
+    this.state.trades.forEach((trade) => {
+      trade.fromSessionId = swap(trade.fromSessionId);
+      trade.participants.forEach((id, i) => {
+        if (id === oldId) trade.participants[i] = newId;
+      });
+      if (trade.acceptedBy.has(oldId)) {
+        trade.acceptedBy.delete(oldId);
+        trade.acceptedBy.add(newId);
+      }
+      for (const legs of [trade.legs, trade.prevLegs]) {
+        legs.forEach((leg) => {
+          leg.fromSessionId = swap(leg.fromSessionId);
+          leg.toSessionId = swap(leg.toSessionId);
+        });
+      }
+    });
+
+    this.state.loanOffers.forEach((offer) => {
+      offer.fromSessionId = swap(offer.fromSessionId);
+      offer.lenderSessionId = swap(offer.lenderSessionId);
+      offer.borrowerSessionId = swap(offer.borrowerSessionId);
+    });
+    this.state.loans.forEach((loan) => {
+      loan.lenderSessionId = swap(loan.lenderSessionId);
+      loan.borrowerSessionId = swap(loan.borrowerSessionId);
+    });
+
+    const auction = this.state.activeAuction;
+    auction.highestBidderId = swap(auction.highestBidderId);
+    if (auction.passedPlayers.has(oldId)) {
+      auction.passedPlayers.delete(oldId);
+      auction.passedPlayers.add(newId);
+    }
+    if (auction.sealedBidders.has(oldId)) {
+      auction.sealedBidders.delete(oldId);
+      auction.sealedBidders.add(newId);
+    }
+    const sealedBid = this.sealedBids.get(oldId);
+    if (sealedBid !== undefined) {
+      this.sealedBids.delete(oldId);
+      this.sealedBids.set(newId, sealedBid);
+    }
+
+    const negotiation = this.state.bankruptcyNegotiation;
+    negotiation.debtorSessionId = swap(negotiation.debtorSessionId);
+    negotiation.creditorSessionId = swap(negotiation.creditorSessionId);
+    this.state.drawnCard.forSessionId = swap(this.state.drawnCard.forSessionId);
+    this.state.rentImmunities.forEach((immunity) => {
+      immunity.ownerSessionId = swap(immunity.ownerSessionId);
+      immunity.beneficiarySessionId = swap(immunity.beneficiarySessionId);
+    });
+
+    const track = this.inGameTracking.get(oldId);
+    if (track) {
+      this.inGameTracking.delete(oldId);
+      this.inGameTracking.set(newId, track);
+    }
+    this.botTradeRequests = new Set(
+      [...this.botTradeRequests].map((key) => {
+        const [ownerId, spaceIndex] = key.split(":");
+        return `${swap(ownerId)}:${spaceIndex}`;
+      }),
+    );
+
+    this.sendPlayerData(client, player.discordUserId);
+
+    this.state.lastAction = `${player.displayName} rejoined and took back their seat.`;
+    this.addLog(this.state.lastAction, "info");
+    console.log(`Player rejoined: ${player.displayName} (${oldId} -> ${newId})`);
+
+    if (this.awaitingRestoredPlayers) {
+      this.resumeRestoredGame();
+    } else {
+      // A turn that came around while they were away gets its full time back
+      const currentPlayer = getCurrentPlayer(this.state);
+      if (currentPlayer && currentPlayer.sessionId === newId && this.state.turnTimerActive) {
+        this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
+        this.startTurnTimer();
+      }
+    }
+  }
+
+  /** The first player is back after a restart: start the clocks again */
+  private resumeRestoredGame(): void {
+    this.awaitingRestoredPlayers = false;
+    this.autoDispose = true;
+
+    // Everyone else gets the usual grace period, counted from now
+    const graceSeconds = this.state.settings.reconnectGraceSeconds;
+    this.state.players.forEach((player) => {
+      if (!player.isDisconnected) return;
+      player.reconnectDeadline = Date.now() + graceSeconds * 1000;
+      this.clock.setTimeout(() => {
+        if (player.isDisconnected && this.state.phase === "playing") this.forfeitSeat(player);
+      }, graceSeconds * 1000);
+    });
+
+    // Time spent offline doesn't count against a player raising funds
+    const negotiation = this.state.bankruptcyNegotiation;
+    if (negotiation.status === "active") {
+      negotiation.deadline += Math.ceil((Date.now() - this.restoredFromSnapshotAt) / 1000);
+      this.startBankruptcyTimer();
+    }
+
+    // Bidders get the time that was left on the auction clock; a finished reveal just goes away
+    if (this.state.activeAuction.status === "revealed") {
+      clearAuction(this.state);
+    } else if (this.state.activeAuction.status === "active") {
+      this.state.activeAuction.deadline += Date.now() - this.restoredFromSnapshotAt;
+      this.startAuctionTimer();
+    }
+
+    // The turn timer stays paused while an auction or negotiation is open
+    if (this.state.activeAuction.status === "active" || negotiation.status === "active") {
+      this.turnTimerRemainingMs = DEFAULT_TURN_TIME_LIMIT * 1000;
+    } else {
+      this.state.turnTimeLimit = DEFAULT_TURN_TIME_LIMIT;
+      this.startTurnTimer();
+    }
+
+    this.startBotTimer();
+    this.startSnapshotTimer();
+  }
+
+  onBeforeShutdown(): void {
+    // Save first, then keep onLeave from bankrupting everyone as the server disconnects them
+    this.saveSnapshot();
+    this.shuttingDown = true;
+    this.disconnect();
+  }
+
+  // ==================== Bots ====================
+
+  /** A stand-in client so bots go through the same message handlers as players */
+  private getBotClient(sessionId: string): Client {
+    let client = this.botClients.get(sessionId);
+    if (!client) {
+      client = {
+        sessionId,
+        send: (type: string, message?: { message?: string }) => {
+          if (type === "error") console.warn(`[Bot ${sessionId}] ${message?.message}`);
+        },
+      } as unknown as Client;
+      this.botClients.set(sessionId, client);
+    }
+    return client;
+  }
+
+  private startBotTimer(): void {
+    this.clearBotTimer();
+
+    let hasBots = false;
+    this.state.players.forEach((p) => {
+      if (p.isBot) hasBots = true;
+    });
+    if (!hasBots) return;
+
+    this.botTimer = this.clock.setInterval(() => this.runBotTick(), BOT_ACTION_DELAY_MS);
+  }
+
+  private clearBotTimer(): void {
+    if (this.botTimer) {
+      this.botTimer.clear();
+      this.botTimer = null;
+    }
+  }
+
+  /** Let one bot take one action per tick, waiting on humans when the game needs them */
+  private runBotTick(): void {
+    if (this.state.phase !== "playing") {
+      this.clearBotTimer();
+      return;
+    }
+    if (this.state.paused) return;
+
+    // Bankruptcy negotiation blocks everything else
+    const negotiation = this.state.bankruptcyNegotiation;
+    if (negotiation.status === "active") {
+      const debtor = this.state.players.get(negotiation.debtorSessionId);
+      if (debtor?.isBot) this.runBotLiquidation(debtor);
+      return;
+    }
+
+    const auction = this.state.activeAuction;
+    if (auction.status === "active") {
+      const bidder = getActivePlayers(this.state).find(
+        (p) =>
+          p.isBot &&
+          !auction.passedPlayers.has(p.sessionId) &&
+          !auction.sealedBidders.has(p.sessionId) &&
+          auction.highestBidderId !== p.sessionId
+      );
+      if (bidder) {
+        const bid = chooseBotBid(this.state, bidder);
+        const botClient = this.getBotClient(bidder.sessionId);
+        if (bid !== null) {
+          this.handlePlaceBid(botClient, { amount: bid });
+        } else {
+          this.handlePassAuction(botClient);
+        }
+      }
+      return;
+    }
+
+    // Bots answer one trade offer per tick and withdraw their own unanswered ones
+    for (const trade of this.state.trades.values()) {
+      const responder = trade.participants
+        .map((id) => this.state.players.get(id))
+        .find((p) => p?.isBot && !trade.acceptedBy.has(p.sessionId));
+      if (responder) {
+        const botClient = this.getBotClient(responder.sessionId);
+        if (shouldBotAcceptTrade(this.state, responder, trade)) {
+          this.handleAcceptTrade(botClient, { tradeId: trade.id });
+        } else {
+          this.handleRejectTrade(botClient, { tradeId: trade.id });
+        }
+        return;
+      }
+      const proposer = this.state.players.get(trade.fromSessionId);
+      if (proposer?.isBot && Date.now() - trade.updatedAt >= BOT_TRADE_TIMEOUT_MS) {
+        this.handleCancelTrade(this.getBotClient(proposer.sessionId), { tradeId: trade.id });
+        return;
+      }
+    }
+
+    // Bots answer loan offers the same way, and drop their own stale ones
+    for (const offer of this.state.loanOffers.values()) {
+      const responder = [offer.lenderSessionId, offer.borrowerSessionId]
+        .filter((id) => id !== offer.fromSessionId)
+        .map((id) => this.state.players.get(id))
+        .find((p) => p?.isBot);
+      if (responder) {
+        const botClient = this.getBotClient(responder.sessionId);
+        if (shouldBotAcceptLoan(this.state, responder, offer)) {
+          this.handleAcceptLoan(botClient, { offerId: offer.id });
+        } else {
+          this.handleRejectLoan(botClient, { offerId: offer.id });
+        }
+        return;
+      }
+    }
+
+    // Only the drawer can dismiss a card, so bots put theirs away after everyone has seen it
+    const cardHolder = this.state.players.get(this.state.drawnCard.forSessionId);
+    if (cardHolder?.isBot) {
+      this.handleDismissCard(this.getBotClient(cardHolder.sessionId));
+      return;
+    }
+
+    const currentPlayer = getCurrentPlayer(this.state);
+    if (currentPlayer?.isBot) {
+      this.runBotTurnAction(currentPlayer);
+    }
+  }
+
+  /** Take the next step of a bot's own turn */
+  private runBotTurnAction(bot: Player): void {
+    const botClient = this.getBotClient(bot.sessionId);
+
+    // Held cards only ever pay out, so bots cash them in straight away
+    if (bot.heldCards.length > 0) {
+      this.handlePlayCard(botClient, { cardId: bot.heldCards[0].id });
+      return;
+    }
+
+    if (!this.state.hasRolled) {
+      if (bot.inJail) {
+        const jailAction = chooseBotJailAction(this.state, bot);
+        if (jailAction === "card") {
+          this.handleUseJailCard(botClient);
+          return;
+        }
+        if (jailAction === "fine") {
+          this.handlePayJailFine(botClient);
+          return;
+        }
+      }
+      this.handleRollDice(botClient);
+      return;
+    }
+
+    if (this.state.awaitingBuy) {
+      if (shouldBotBuy(this.state, bot, this.rng)) {
+        this.handleBuyProperty(botClient);
+      } else {
+        this.handleSkipBuy(botClient);
+      }
+      return;
+    }
+
+    // Builds and buy-backs fall through to ending the turn if they were rejected
+    const coinsBefore = bot.coins;
+    const build = chooseBotBuild(this.state, bot, this.rng);
+    if (build) {
+      if (build.type === "hotel") {
+        this.handleBuildHotel(botClient, { spaceIndex: build.spaceIndex });
+      } else {
+        this.handleBuildHouse(botClient, { spaceIndex: build.spaceIndex });
+      }
+      if (bot.coins !== coinsBefore) return;
+    }
+
+    const unmortgageIndex = chooseBotUnmortgage(this.state, bot);
+    if (unmortgageIndex !== null) {
+      this.handleUnmortgageProperty(botClient, { spaceIndex: unmortgageIndex });
+      if (bot.coins !== coinsBefore) return;
+    }
+
+    const repayment = chooseBotLoanRepayment(this.state, bot);
+    if (repayment) {
+      this.handleRepayLoan(botClient, { loanId: repayment.id });
+      if (bot.coins !== coinsBefore) return;
+    }
+
+    const proposal = chooseBotTradeProposal(this.state, bot, this.botTradeRequests);
+    if (proposal) {
+      const wanted = proposal.legs.find((leg) => leg.toSessionId === bot.sessionId)!;
+      this.botTradeRequests.add(`${wanted.fromSessionId}:${wanted.properties[0]}`);
+      this.handleProposeTrade(botClient, proposal);
+      return;
+    }
+
+    this.handleEndTurn(botClient);
+  }
+
+  /** Raise funds one asset at a time, then pay the debt or give up */
+  private runBotLiquidation(bot: Player): void {
+    const botClient = this.getBotClient(bot.sessionId);
+
+    if (bot.coins >= this.state.bankruptcyNegotiation.amountOwed) {
+      this.handleBankruptcyPayDebt(botClient);
+      return;
+    }
+
+    const step = chooseBotLiquidation(this.state, bot);
+    if (step) {
+      const coinsBefore = bot.coins;
+      if (step.action === "mortgage") {
+        this.handleBankruptcyMortgage(botClient, { spaceIndex: step.spaceIndex });
+      } else {
+        this.handleBankruptcySellBuilding(botClient, {
+          spaceIndex: step.spaceIndex,
+          type: step.action === "sell_hotel" ? "hotel" : "house",
+          convertToHouses: true,
+        });
+      }
+      if (bot.coins !== coinsBefore) return;
+    }
+
+    // Borrow the rest from the bank rather than go under
+    const loanAmount = chooseBotBankLoan(this.state, bot);
+    if (loanAmount > 0) {
+      const coinsBefore = bot.coins;
+      this.handleTakeBankLoan(botClient, { amount: loanAmount });
+      if (bot.coins !== coinsBefore) return;
+    }
+
+    this.handleBankruptcyDeclare(botClient);
+  }
+
+  onBeforePatch(): void {
+    // Timers and bots can raise events outside a handler; publish them with this patch
+    this.flushEvents();
+  }
+
   onDispose(): void {
     this.clearTurnTimer();
+    this.clearBotTimer();
+    this.clearSnapshotTimer();
+    // Everyone left a game in progress (or nobody came back to a restored one)
+    if (!this.shuttingDown && this.state.phase === "playing") {
+      this.discardSnapshot();
+    }
     if (this.bankruptcyTimer) { this.bankruptcyTimer.clear(); this.bankruptcyTimer = null; }
+    this.clearAuctionTimer();
     if (this.state.phase === "finished" && this.state.winnerId) {
-      this.awardEndGameGems();
+      this.handleGameFinished();
     }
     console.log("GameRoom disposed:", this.roomId);
   }
@@ -1,29 +1,113 @@
 import { Schema, type, ArraySchema, MapSchema, SetSchema } from "@colyseus/schema";
+import {
+  STARTING_COINS,
+  PAYDAY_BONUS,
+  JAIL_FINE,
+  INCOME_TAX,
+  LUXURY_TAX,
+  SUPER_TAX,
+  MAX_ROUNDS,
+  RECONNECT_GRACE_SECONDS,
+  AUCTION_SECONDS,
+  AUCTION_MIN_INCREMENT,
+  DEFAULT_BOARD_ID,
+} from "../logic/boardConfig.js";
 
-export class TradeOffer extends Schema {
-  @type("string") status: string = "none"; // none, pending
+/** A trade term: no rent on one property for a number of the other player's turns */
+export class ImmunityClause extends Schema {
+  @type("uint8") spaceIndex: number = 0;
+  @type("uint8") turns: number = 0;
+}
+
+/** A rent-immunity deal in force, agreed in a trade */
+export class RentImmunity extends Schema {
+  @type("uint8") spaceIndex: number = 0;
+  @type("string") ownerSessionId: string = ""; // who agreed not to charge rent
+  @type("string") beneficiarySessionId: string = ""; // who rides free
+  @type("uint8") turnsRemaining: number = 0; // counts down as the beneficiary ends turns
+}
+
+/** A city-wide event in effect, set off by landing on City Events */
+export class CityModifier extends Schema {
+  @type("string") eventId: string = "";
+  @type("string") title: string = "";
+  @type("string") description: string = "";
+  @type("string") target: string = "rent"; // "rent" | "build" | "tax"
+  @type("float32") multiplier: number = 1;
+  @type("string") district: string = ""; // empty = every district
+  @type("string") spaceType: string = ""; // empty = every space type
+  @type("uint8") roundsRemaining: number = 0; // counts down as rounds complete
+}
+
+/** What one player hands another in a trade */
+export class TradeLeg extends Schema {
   @type("string") fromSessionId: string = "";
   @type("string") toSessionId: string = "";
-  @type(["uint8"]) offeredProperties = new ArraySchema<number>();
-  @type(["uint8"]) requestedProperties = new ArraySchema<number>();
-  @type("int32") offeredCoins: number = 0;
-  @type("int32") requestedCoins: number = 0;
+  @type(["uint8"]) properties = new ArraySchema<number>();
+  @type("int32") coins: number = 0;
+  @type("uint8") jailCards: number = 0;
+  @type([ImmunityClause]) immunities = new ArraySchema<ImmunityClause>(); // on the giver's properties, for the receiver
+}
+
+/** A pending trade between two or more players; it goes through once every participant accepts */
+export class TradeOffer extends Schema {
+  @type("string") id: string = "";
+  @type("string") fromSessionId: string = ""; // who sent the current terms
+  @type(["string"]) participants = new ArraySchema<string>(); // the original proposer first
+  @type({ set: "string" }) acceptedBy = new SetSchema<string>();
+  @type([TradeLeg]) legs = new ArraySchema<TradeLeg>();
   @type("uint8") counterOfferCount: number = 0;
-  @type("string") lastModifiedBy: string = ""; // sessionId of who last modified the trade
   @type("boolean") isCounterOffer: boolean = false;
-  // Previous offer terms for diff display on client
-  @type(["uint8"]) prevOfferedProperties = new ArraySchema<number>();
-  @type(["uint8"]) prevRequestedProperties = new ArraySchema<number>();
-  @type("int32") prevOfferedCoins: number = 0;
-  @type("int32") prevRequestedCoins: number = 0;
+  @type([TradeLeg]) prevLegs = new ArraySchema<TradeLeg>(); // terms before the last counter-offer, for the client diff
+  @type("float64") updatedAt: number = 0;
+}
+
+/** A loan being negotiated; it goes through once the player who didn't send the current terms accepts */
+export class LoanOffer extends Schema {
+  @type("string") id: string = "";
+  @type("string") fromSessionId: string = ""; // who sent the current terms
+  @type("string") lenderSessionId: string = "";
+  @type("string") borrowerSessionId: string = "";
+  @type("int32") principal: number = 0;
+  @type("uint8") interestRate: number = 0; // percent of the principal, added once
+  @type("uint8") termTurns: number = 0; // borrower's turns until repayment is due
+  @type("uint8") counterOfferCount: number = 0;
+  @type("float64") updatedAt: number = 0;
+}
+
+/** Money a player owes another player or the bank */
+export class Loan extends Schema {
+  @type("string") id: string = "";
+  @type("string") lenderSessionId: string = ""; // empty = the bank
+  @type("string") borrowerSessionId: string = "";
+  @type("int32") principal: number = 0;
+  @type("uint8") interestRate: number = 0; // player loans: percent added once; bank loans: percent charged every Payday
+  @type("int32") balance: number = 0; // still to repay
+  @type("uint8") turnsRemaining: number = 0; // counts down as the borrower ends turns; collected at 0
 }
 
 export class AuctionState extends Schema {
-  @type("string") status: string = "none"; // "none" | "active"
+  @type("string") status: string = "none"; // "none" | "active" | "revealed" (sealed bids on show after the sale)
+  @type("string") mode: string = "open"; // "open" | "first_price" | "vickrey"
   @type("uint8") propertyIndex: number = 0;
   @type("int32") currentBid: number = 0;
   @type("string") highestBidderId: string = "";
   @type({ set: "string" }) passedPlayers = new SetSchema<string>();
+  @type("float64") deadline: number = 0; // ms timestamp the auction closes at; each open bid resets it
+  // Sealed-bid auctions: who has bid is public, the amounts only once the auction closes
+  @type({ set: "string" }) sealedBidders = new SetSchema<string>();
+  @type({ map: "int32" }) revealedBids = new MapSchema<number>();
+}
+
+/** A player vote to end the game early or kick someone who has gone AFK */
+export class VoteState extends Schema {
+  @type("string") status: string = "none"; // "none" | "active"
+  @type("string") kind: string = "";       // "end_game" | "kick"
+  @type("string") proposerSessionId: string = "";
+  @type("string") targetSessionId: string = ""; // who a kick vote is about
+  @type({ set: "string" }) yes = new SetSchema<string>();
+  @type({ set: "string" }) no = new SetSchema<string>();
+  @type("float64") deadline: number = 0; // ms timestamp the vote closes at
 }
 
 export class DrawnCard extends Schema {
@@ -31,26 +115,58 @@ export class DrawnCard extends Schema {
   @type("string") title: string = "";
   @type("string") description: string = "";
   @type("string") forSessionId: string = "";  // who drew it
+  @type("string") effect: string = "";        // card effect, for the client's icon
+  @type("boolean") held: boolean = false;     // went into the drawer's hand instead of applying
+}
+
+export class HeldCard extends Schema {
+  @type("string") id: string = "";
+  @type("string") deck: string = "";          // "community" | "chance"
+  @type("string") title: string = "";
+  @type("string") description: string = "";
 }
 
 export class BoardSpace extends Schema {
   @type("uint8") index: number = 0;
   @type("string") name: string = "";
-  @type("string") spaceType: string = "property"; // property, tax, payday, jail, parking, goToJail, community, chance
+  @type("string") spaceType: string = "property"; // property, transit, utility, tax, payday, jail, parking, goToJail, community, chance, cityEvents
   @type("string") district: string = "";
   @type("uint16") price: number = 0;
   @type("uint16") rent: number = 0;
+  @type(["uint16"]) rentScale = new ArraySchema<number>(); // [base, 1-4 houses, hotel] for properties
+  @type("string") taxKind: string = ""; // income, luxury, super (tax spaces only)
   @type("string") ownerId: string = ""; // sessionId of owner, empty = unowned
   @type("uint8") houses: number = 0; // 0-4 houses
   @type("boolean") hasHotel: boolean = false;
   @type("boolean") isMortgaged: boolean = false;
 }
 
+export class BoardDistrict extends Schema {
+  @type("string") name: string = "";
+  @type("string") color: string = "#555555";
+  @type("uint16") houseCost: number = 0;
+  @type("uint16") hotelCost: number = 0;
+  @type(["uint8"]) properties = new ArraySchema<number>(); // board indices in this district
+}
+
+/** The selected board map (geometry, districts, costs), sent so the client can draw it */
+export class BoardLayout extends Schema {
+  @type("string") id: string = "";
+  @type("string") name: string = "";
+  @type("uint8") sideLength: number = 7; // spaces per side, counting one corner
+  @type(["uint8"]) corners = new ArraySchema<number>();
+  @type("uint8") jailIndex: number = 0;
+  @type({ map: BoardDistrict }) districts = new MapSchema<BoardDistrict>();
+  @type(["uint16"]) transitRent = new ArraySchema<number>();
+  @type(["uint8"]) utilityMultipliers = new ArraySchema<number>();
+}
+
 export class Player extends Schema {
   @type("string") sessionId: string = "";
   @type("string") discordUserId: string = "";
   @type("string") displayName: string = "";
   @type("string") avatarUrl: string = "";
+  @type("boolean") isGuest: boolean = false; // unverified local-dev player: nothing is saved for them
   @type("uint8") position: number = 0;
   @type("int32") coins: number = 1500;
   @type(["uint8"]) ownedProperties = new ArraySchema<number>();
@@ -59,9 +175,15 @@ export class Player extends Schema {
   @type("boolean") inJail: boolean = false;
   @type("uint8") jailTurnsRemaining: number = 0;
   @type("uint8") jailFreeCards: number = 0;
+  @type([HeldCard]) heldCards = new ArraySchema<HeldCard>(); // "hold" cards kept to play on a later turn
   @type("uint8") doublesCount: number = 0; // consecutive doubles rolled this turn
   @type("uint8") playerIndex: number = 0;
   @type("string") pieceId: string = "car";
+  @type("boolean") isBot: boolean = false; // computer-controlled player added by the host
+  @type("string") botDifficulty: string = ""; // easy, normal, hard (bots only)
+  @type("boolean") isDisconnected: boolean = false; // dropped mid-game, seat held for the grace period
+  @type("float64") reconnectDeadline: number = 0; // timestamp (ms) when a disconnected seat is forfeited
+  @type("boolean") timedOut: boolean = false; // the turn timer skipped their turn and they haven't acted since
 }
 
 export class Spectator extends Schema {
@@ -69,6 +191,7 @@ export class Spectator extends Schema {
   @type("string") discordUserId: string = "";
   @type("string") displayName: string = "";
   @type("string") avatarUrl: string = "";
+  @type("boolean") isGuest: boolean = false;
 }
 
 export class BankruptcyNegotiation extends Schema {
@@ -76,16 +199,39 @@ export class BankruptcyNegotiation extends Schema {
   @type("string") debtorSessionId: string = "";
   @type("string") creditorSessionId: string = ""; // empty = owed to bank
   @type("int32") amountOwed: number = 0;
-  @type("string") reason: string = ""; // "rent", "tax", "card", "jail_fine"
+  @type("string") reason: string = ""; // "rent", "tax", "card", "jail_fine", "loan"
   @type("uint32") deadline: number = 0; // Unix timestamp (seconds) when negotiation expires
 }
 
 export class LogEntry extends Schema {
   @type("string") message: string = "";
-  @type("string") type: string = "info"; // roll, buy, rent, tax, payday, bankrupt, build, trade, card, jail, auction, info, turn, bankruptcy
+  @type("string") type: string = "info"; // roll, buy, rent, tax, payday, bankrupt, build, trade, card, jail, auction, info, turn, bankruptcy, loan, city
   @type("uint32") timestamp: number = 0;
 }
 
+export class GameSettings extends Schema {
+  // House rules (toggled by the host in the lobby)
+  @type("boolean") freeParkingJackpot: boolean = false; // taxes and fines collect on City Parking
+  @type("boolean") doublePaydayOnLanding: boolean = false; // landing exactly on Payday pays double
+  @type("boolean") noRentInJail: boolean = false; // owners in jail don't collect rent
+  @type("boolean") auctionOnDecline: boolean = true; // declined properties go to auction
+  // Economy
+  @type("int32") startingCoins: number = STARTING_COINS;
+  @type("uint16") paydayBonus: number = PAYDAY_BONUS;
+  @type("uint16") jailFine: number = JAIL_FINE;
+  @type("uint16") incomeTax: number = INCOME_TAX;
+  @type("uint16") luxuryTax: number = LUXURY_TAX;
+  @type("uint16") superTax: number = SUPER_TAX;
+  @type("uint16") maxRounds: number = MAX_ROUNDS; // wealthiest player wins after this many rounds
+  @type("uint16") reconnectGraceSeconds: number = RECONNECT_GRACE_SECONDS; // seat held this long after a drop
+  // Auctions
+  @type("uint8") auctionSeconds: number = AUCTION_SECONDS; // clock restarts at this after every bid
+  @type("uint16") auctionMinIncrement: number = AUCTION_MIN_INCREMENT; // each bid must beat the last by this much
+  @type("string") auctionMode: string = "open"; // "open" | "first_price" | "vickrey" (sealed bids)
+  // Map
+  @type("string") boardId: string = DEFAULT_BOARD_ID;
+}
+
 export class GameState extends Schema {
   @type("string") phase: string = "lobby"; // lobby, playing, finished
   @type("uint8") currentPlayerIndex: number = 0;
@@ -96,21 +242,38 @@ export class GameState extends Schema {
   @type("uint16") turnCount: number = 0;
   @type("string") winnerId: string = "";
   @type("string") hostSessionId: string = "";
+  @type("boolean") lobbyLocked: boolean = false; // host has closed the room to new joins
   @type("uint8") playerCount: number = 0;
   @type("string") lastAction: string = ""; // Describes the last action for UI feedback
   @type("boolean") awaitingBuy: boolean = false; // True when current player can buy a property
   @type("boolean") hasRolled: boolean = false; // True when current player has rolled this turn
-  @type(TradeOffer) activeTrade = new TradeOffer();
+  @type({ map: TradeOffer }) trades = new MapSchema<TradeOffer>(); // pending offers by id
+  @type({ map: LoanOffer }) loanOffers = new MapSchema<LoanOffer>(); // pending loan offers by id
+  @type({ map: Loan }) loans = new MapSchema<Loan>(); // outstanding loans by id
   @type(DrawnCard) drawnCard = new DrawnCard();
   @type(AuctionState) activeAuction = new AuctionState();
   @type({ map: Spectator }) spectators = new MapSchema<Spectator>();
   @type("uint8") spectatorCount: number = 0;
   @type([LogEntry]) gameLog = new ArraySchema<LogEntry>();
   @type(BankruptcyNegotiation) bankruptcyNegotiation = new BankruptcyNegotiation();
+  @type(GameSettings) settings = new GameSettings();
+  @type(BoardLayout) board = new BoardLayout();
+  @type("int32") freeParkingPot: number = 0; // jackpot collected on City Parking (when enabled)
+  @type([RentImmunity]) rentImmunities = new ArraySchema<RentImmunity>();
+  @type([CityModifier]) cityModifiers = new ArraySchema<CityModifier>();
 
   // Turn timer state
   @type("float64") turnStartTime: number = 0;     // timestamp (ms) when current turn started
   @type("uint8") turnTimeLimit: number = 60;       // configurable, default 60 seconds
   @type("boolean") turnTimerActive: boolean = false;
   @type("boolean") turnExtensionUsed: boolean = false; // one extension per turn
+
+  // Host pause and player votes
+  @type("boolean") paused: boolean = false; // timers frozen and game actions refused
+  @type("float64") pausedAt: number = 0;    // timestamp (ms) the host paused the game
+  @type(VoteState) activeVote = new VoteState();
+
+  // Provably-fair randomness
+  @type("string") seedHash: string = ""; // SHA-256 of this game's RNG seed, published at start
+  @type("string") seed: string = "";     // the seed itself, revealed once the game is finished
 }
@@ -0,0 +1,58 @@
+import { Schema, ArraySchema, MapSchema, SetSchema } from "@colyseus/schema";
+
+type FieldType = string | typeof Schema | { array?: FieldType; map?: FieldType; set?: FieldType };
+
+/**
+ * Fill a schema instance from the plain object produced by its toJSON().
+ * Fields missing from the data keep their defaults, so snapshots taken before a
+ * field was added still load.
+ */
+export function restoreSchema(target: Schema, data: any): void {
+  if (!data || typeof data !== "object") return;
+  const metadata = (target.constructor as any)[Symbol.metadata];
+  if (!metadata) return;
+
+  for (const key of Object.keys(metadata)) {
+    const field = metadata[key];
+    if (!field || typeof field !== "object" || !("name" in field)) continue;
+    const name: string = field.name;
+    if (!(name in data)) continue;
+
+    const type: FieldType = field.type;
+    const value = data[name];
+    const current = (target as any)[name];
+
+    if (typeof type === "string") {
+      (target as any)[name] = value;
+    } else if (typeof type === "function") {
+      restoreSchema(current, value);
+    } else if (type.array !== undefined) {
+      const array = current as ArraySchema<any>;
+      array.clear();
+      for (const item of value ?? []) {
+        array.push(createValue(type.array, item));
+      }
+    } else if (type.map !== undefined) {
+      const map = current as MapSchema<any>;
+      map.clear();
+      for (const [mapKey, item] of Object.entries(value ?? {})) {
+        map.set(mapKey, createValue(type.map, item));
+      }
+    } else if (type.set !== undefined) {
+      const set = current as SetSchema<any>;
+      set.clear();
+      for (const item of value ?? []) {
+        set.add(createValue(type.set, item));
+      }
+    }
+  }
+}
+
+function createValue(type: FieldType, data: any): any {
+  if (typeof type === "function") {
+    const instance = new (type as any)();
+    restoreSchema(instance, data);
+    return instance;
+  }
+  return data;
+}